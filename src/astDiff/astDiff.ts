@@ -0,0 +1,405 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { CommonError, Result, ResultUtils, StringUtils } from "../common";
+import { Ast } from "../language";
+import { LexError } from "../lexer";
+import { getLocalizationTemplates } from "../localization";
+import { IParserState, NodeIdMap, NodeIdMapUtils, ParseError } from "../parser";
+import { LexSettings, ParseSettings } from "../settings";
+import { LexParseOk, TriedLexParse, tryLexParse } from "../task";
+
+export type TriedDiff<S extends IParserState = IParserState> = Result<
+    ReadonlyArray<TChange>,
+    CommonError.CommonError | LexError.TLexError | ParseError.TParseError<S>
+>;
+
+export type TChange = AddedChange | ExpressionChange | RemovedChange | RenamedChange;
+
+// The node which introduces a name, eg. `x = 1` in `let x = 1 in x`.
+export type TNamedNode = Ast.GeneralizedIdentifierPairedExpression | Ast.IdentifierPairedExpression | Ast.SectionMember;
+
+export const enum ChangeKind {
+    Added = "Added",
+    Changed = "Changed",
+    Removed = "Removed",
+    Renamed = "Renamed",
+}
+
+export interface IChange<Kind extends ChangeKind> {
+    readonly kind: Kind;
+    // The names of the let variables, record fields, and section members leading to the change, outermost first.
+    // It ends with the name which was added, removed, or renamed (using the new name).
+    readonly path: ReadonlyArray<string>;
+}
+
+export interface AddedChange extends IChange<ChangeKind.Added> {
+    readonly newNode: TNamedNode;
+}
+
+// The expression which changed, eg. the value of a let variable or the `in` expression of a let.
+// It's the whole section member if only whether it's shared changed.
+export interface ExpressionChange extends IChange<ChangeKind.Changed> {
+    readonly oldNode: Ast.TNode;
+    readonly newNode: Ast.TNode;
+}
+
+export interface RemovedChange extends IChange<ChangeKind.Removed> {
+    readonly oldNode: TNamedNode;
+}
+
+// The value is unchanged other than its references to other renamed names.
+export interface RenamedChange extends IChange<ChangeKind.Renamed> {
+    readonly oldNode: TNamedNode;
+    readonly newNode: TNamedNode;
+}
+
+// Compares the Asts of two texts rather than the texts themselves, so whitespace and comments are ignored.
+//
+// Let variables and section members are matched by name, and record fields by key.
+// A let variable or section member which only exists on one side is reported as renamed if its value is
+// equivalent to a value that only exists on the other side, in which case references to it are also treated as equal.
+// Anything else which differs is reported as changed, where a let, record, section, or the body of a function or each
+// is compared by its parts rather than as a whole.
+export function tryDiff<S extends IParserState = IParserState>(
+    settings: LexSettings & ParseSettings<S>,
+    oldText: string,
+    newText: string,
+): TriedDiff<S> {
+    const triedOldLexParse: TriedLexParse<S> = tryLexParse(settings, oldText);
+    if (ResultUtils.isErr(triedOldLexParse)) {
+        return triedOldLexParse;
+    }
+    const triedNewLexParse: TriedLexParse<S> = tryLexParse(settings, newText);
+    if (ResultUtils.isErr(triedNewLexParse)) {
+        return triedNewLexParse;
+    }
+    const oldLexParseOk: LexParseOk<S> = triedOldLexParse.value;
+    const newLexParseOk: LexParseOk<S> = triedNewLexParse.value;
+
+    return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () => {
+        const state: DiffState = {
+            oldNodeIdMapCollection: oldLexParseOk.state.contextState.nodeIdMapCollection,
+            newNodeIdMapCollection: newLexParseOk.state.contextState.nodeIdMapCollection,
+            changes: [],
+        };
+        diff(state, oldLexParseOk.ast, newLexParseOk.ast, [], new Map());
+
+        return state.changes;
+    });
+}
+
+interface DiffState {
+    readonly oldNodeIdMapCollection: NodeIdMap.Collection;
+    readonly newNodeIdMapCollection: NodeIdMap.Collection;
+    readonly changes: TChange[];
+}
+
+// Old names mapped to their new names, eg. when `let a = 1 in a` becomes `let b = 1 in b`.
+type NewNameByOldName = ReadonlyMap<string, string>;
+
+interface NamedValue {
+    readonly name: string;
+    readonly node: TNamedNode;
+    readonly value: Ast.TNode;
+}
+
+function diff(
+    state: DiffState,
+    oldNode: Ast.TNode,
+    newNode: Ast.TNode,
+    path: ReadonlyArray<string>,
+    newNameByOldName: NewNameByOldName,
+): void {
+    if (isEquivalent(state, oldNode, newNode, newNameByOldName)) {
+        return;
+    }
+
+    if (oldNode.kind === Ast.NodeKind.LetExpression && newNode.kind === Ast.NodeKind.LetExpression) {
+        const letNewNameByOldName: NewNameByOldName = diffNamedValues(
+            state,
+            oldNode.variableList.elements.map((csv: Ast.ICsv<Ast.IdentifierPairedExpression>) =>
+                namedValueFrom(csv.node),
+            ),
+            newNode.variableList.elements.map((csv: Ast.ICsv<Ast.IdentifierPairedExpression>) =>
+                namedValueFrom(csv.node),
+            ),
+            path,
+            newNameByOldName,
+            true,
+        );
+        diff(state, oldNode.expression, newNode.expression, path, letNewNameByOldName);
+    } else if (oldNode.kind === Ast.NodeKind.RecordExpression && newNode.kind === Ast.NodeKind.RecordExpression) {
+        diffNamedValues(
+            state,
+            oldNode.content.elements.map((csv: Ast.ICsv<Ast.GeneralizedIdentifierPairedExpression>) =>
+                namedValueFrom(csv.node),
+            ),
+            newNode.content.elements.map((csv: Ast.ICsv<Ast.GeneralizedIdentifierPairedExpression>) =>
+                namedValueFrom(csv.node),
+            ),
+            path,
+            newNameByOldName,
+            false,
+        );
+    } else if (oldNode.kind === Ast.NodeKind.Section && newNode.kind === Ast.NodeKind.Section) {
+        diffNamedValues(
+            state,
+            oldNode.sectionMembers.elements.map(namedValueFrom),
+            newNode.sectionMembers.elements.map(namedValueFrom),
+            path,
+            newNameByOldName,
+            true,
+        );
+    } else if (
+        oldNode.kind === Ast.NodeKind.FunctionExpression &&
+        newNode.kind === Ast.NodeKind.FunctionExpression &&
+        isEquivalent(state, oldNode.parameters, newNode.parameters, newNameByOldName) &&
+        isMaybeEquivalent(state, oldNode.maybeFunctionReturnType, newNode.maybeFunctionReturnType, newNameByOldName)
+    ) {
+        diff(state, oldNode.expression, newNode.expression, path, withoutIntroducedNames(oldNode, newNameByOldName));
+    } else if (oldNode.kind === Ast.NodeKind.EachExpression && newNode.kind === Ast.NodeKind.EachExpression) {
+        diff(state, oldNode.paired, newNode.paired, path, withoutIntroducedNames(oldNode, newNameByOldName));
+    } else {
+        state.changes.push({
+            kind: ChangeKind.Changed,
+            path,
+            oldNode,
+            newNode,
+        });
+    }
+}
+
+// Returns the names in scope of the values, which includes any renamed values.
+function diffNamedValues(
+    state: DiffState,
+    oldNamedValues: ReadonlyArray<NamedValue>,
+    newNamedValues: ReadonlyArray<NamedValue>,
+    path: ReadonlyArray<string>,
+    newNameByOldName: NewNameByOldName,
+    // Record fields aren't renamable, as they're also accessed by key from outside of the record.
+    isRenamable: boolean,
+): NewNameByOldName {
+    const oldNamedValueByName: Map<string, NamedValue> = new Map(
+        oldNamedValues.map((namedValue: NamedValue) => [namedValue.name, namedValue]),
+    );
+    const newNames: ReadonlySet<string> = new Set(newNamedValues.map((namedValue: NamedValue) => namedValue.name));
+    const scopeNewNameByOldName: Map<string, string> = new Map(
+        withoutNames(
+            newNameByOldName,
+            oldNamedValues.map((namedValue: NamedValue) => namedValue.name),
+        ),
+    );
+
+    const renamedOldByNew: Map<NamedValue, NamedValue> = new Map();
+    if (isRenamable) {
+        const oldOnly: NamedValue[] = oldNamedValues.filter((namedValue: NamedValue) => !newNames.has(namedValue.name));
+        const newOnly: NamedValue[] = newNamedValues.filter(
+            (namedValue: NamedValue) => !oldNamedValueByName.has(namedValue.name),
+        );
+
+        // A rename can make another rename's values equivalent, eg. `a` to `b` when `c = a + 1` becomes `d = b + 1`,
+        // so renames are searched for until no more are found.
+        let isSearching: boolean = true;
+        while (isSearching) {
+            isSearching = false;
+            for (const oldNamedValue of oldOnly) {
+                const maybeNewNamedValue: NamedValue | undefined = newOnly.find(
+                    (newNamedValue: NamedValue) =>
+                        !renamedOldByNew.has(newNamedValue) &&
+                        isEquivalent(state, oldNamedValue.value, newNamedValue.value, scopeNewNameByOldName),
+                );
+                if (maybeNewNamedValue !== undefined) {
+                    renamedOldByNew.set(maybeNewNamedValue, oldNamedValue);
+                    scopeNewNameByOldName.set(oldNamedValue.name, maybeNewNamedValue.name);
+                    oldOnly.splice(oldOnly.indexOf(oldNamedValue), 1);
+                    isSearching = true;
+                    break;
+                }
+            }
+        }
+    }
+    const renamedOlds: ReadonlySet<NamedValue> = new Set(renamedOldByNew.values());
+
+    for (const newNamedValue of newNamedValues) {
+        const namedPath: ReadonlyArray<string> = [...path, newNamedValue.name];
+        const maybeOldNamedValue: NamedValue | undefined = oldNamedValueByName.get(newNamedValue.name);
+        const maybeRenamedOld: NamedValue | undefined = renamedOldByNew.get(newNamedValue);
+
+        if (maybeOldNamedValue !== undefined && isSharedChanged(maybeOldNamedValue.node, newNamedValue.node)) {
+            state.changes.push({
+                kind: ChangeKind.Changed,
+                path: namedPath,
+                oldNode: maybeOldNamedValue.node,
+                newNode: newNamedValue.node,
+            });
+        } else if (maybeOldNamedValue !== undefined) {
+            diff(state, maybeOldNamedValue.value, newNamedValue.value, namedPath, scopeNewNameByOldName);
+        } else if (maybeRenamedOld !== undefined) {
+            state.changes.push({
+                kind: ChangeKind.Renamed,
+                path: namedPath,
+                oldNode: maybeRenamedOld.node,
+                newNode: newNamedValue.node,
+            });
+        } else {
+            state.changes.push({
+                kind: ChangeKind.Added,
+                path: namedPath,
+                newNode: newNamedValue.node,
+            });
+        }
+    }
+
+    for (const oldNamedValue of oldNamedValues) {
+        if (!newNames.has(oldNamedValue.name) && !renamedOlds.has(oldNamedValue)) {
+            state.changes.push({
+                kind: ChangeKind.Removed,
+                path: [...path, oldNamedValue.name],
+                oldNode: oldNamedValue.node,
+            });
+        }
+    }
+
+    return scopeNewNameByOldName;
+}
+
+// Two nodes are equivalent if they have the same structure and leaves,
+// where a reference to an old name is equivalent to a reference to its new name.
+function isEquivalent(
+    state: DiffState,
+    oldNode: Ast.TNode,
+    newNode: Ast.TNode,
+    newNameByOldName: NewNameByOldName,
+): boolean {
+    if (oldNode.kind !== newNode.kind) {
+        return false;
+    }
+
+    switch (oldNode.kind) {
+        case Ast.NodeKind.Constant:
+            return oldNode.constantKind === (newNode as Ast.TConstant).constantKind;
+
+        case Ast.NodeKind.GeneralizedIdentifier:
+        case Ast.NodeKind.Identifier:
+            return (
+                StringUtils.normalizeIdentifier(oldNode.literal) ===
+                StringUtils.normalizeIdentifier((newNode as Ast.GeneralizedIdentifier | Ast.Identifier).literal)
+            );
+
+        case Ast.NodeKind.IdentifierExpression: {
+            const newIdentifierExpression: Ast.IdentifierExpression = newNode as Ast.IdentifierExpression;
+            const oldName: string = StringUtils.normalizeIdentifier(oldNode.identifier.literal);
+            const maybeNewName: string | undefined = newNameByOldName.get(oldName);
+
+            return (
+                (oldNode.maybeInclusiveConstant !== undefined) ===
+                    (newIdentifierExpression.maybeInclusiveConstant !== undefined) &&
+                (maybeNewName !== undefined ? maybeNewName : oldName) ===
+                    StringUtils.normalizeIdentifier(newIdentifierExpression.identifier.literal)
+            );
+        }
+
+        case Ast.NodeKind.LiteralExpression:
+            return oldNode.literal === (newNode as Ast.LiteralExpression).literal;
+
+        default: {
+            const scopeNewNameByOldName: NewNameByOldName = withoutIntroducedNames(oldNode, newNameByOldName);
+            const oldChildIds: ReadonlyArray<number> = state.oldNodeIdMapCollection.childIdsById.get(oldNode.id) || [];
+            const newChildIds: ReadonlyArray<number> = state.newNodeIdMapCollection.childIdsById.get(newNode.id) || [];
+
+            return (
+                oldChildIds.length === newChildIds.length &&
+                oldChildIds.every((oldChildId: number, index: number) =>
+                    isEquivalent(
+                        state,
+                        NodeIdMapUtils.expectAstNode(state.oldNodeIdMapCollection.astNodeById, oldChildId),
+                        NodeIdMapUtils.expectAstNode(state.newNodeIdMapCollection.astNodeById, newChildIds[index]),
+                        scopeNewNameByOldName,
+                    ),
+                )
+            );
+        }
+    }
+}
+
+function isMaybeEquivalent(
+    state: DiffState,
+    maybeOldNode: Ast.TNode | undefined,
+    maybeNewNode: Ast.TNode | undefined,
+    newNameByOldName: NewNameByOldName,
+): boolean {
+    return maybeOldNode !== undefined && maybeNewNode !== undefined
+        ? isEquivalent(state, maybeOldNode, maybeNewNode, newNameByOldName)
+        : maybeOldNode === maybeNewNode;
+}
+
+// A section member which became, or is no longer, shared is reported as a change to the whole member.
+function isSharedChanged(oldNode: TNamedNode, newNode: TNamedNode): boolean {
+    return (
+        oldNode.kind === Ast.NodeKind.SectionMember &&
+        newNode.kind === Ast.NodeKind.SectionMember &&
+        (oldNode.maybeSharedConstant !== undefined) !== (newNode.maybeSharedConstant !== undefined)
+    );
+}
+
+function namedValueFrom(node: TNamedNode): NamedValue {
+    const pairedExpression: Ast.GeneralizedIdentifierPairedExpression | Ast.IdentifierPairedExpression =
+        node.kind === Ast.NodeKind.SectionMember ? node.namePairedExpression : node;
+
+    return {
+        name: StringUtils.normalizeIdentifier(pairedExpression.key.literal),
+        node,
+        value: pairedExpression.value,
+    };
+}
+
+// The names introduced by a node shadow any outer renames within it.
+function withoutIntroducedNames(node: Ast.TNode, newNameByOldName: NewNameByOldName): NewNameByOldName {
+    switch (node.kind) {
+        case Ast.NodeKind.EachExpression:
+            return withoutNames(newNameByOldName, ["_"]);
+
+        case Ast.NodeKind.FunctionExpression:
+            return withoutNames(
+                newNameByOldName,
+                node.parameters.content.elements.map(
+                    (csv: Ast.ICsv<Ast.IParameter<Ast.AsNullablePrimitiveType | undefined>>) => csv.node.name.literal,
+                ),
+            );
+
+        case Ast.NodeKind.LetExpression:
+            return withoutNames(
+                newNameByOldName,
+                node.variableList.elements.map((csv: Ast.ICsv<Ast.IdentifierPairedExpression>) => csv.node.key.literal),
+            );
+
+        case Ast.NodeKind.RecordExpression:
+            return withoutNames(
+                newNameByOldName,
+                node.content.elements.map(
+                    (csv: Ast.ICsv<Ast.GeneralizedIdentifierPairedExpression>) => csv.node.key.literal,
+                ),
+            );
+
+        case Ast.NodeKind.Section:
+            return withoutNames(
+                newNameByOldName,
+                node.sectionMembers.elements.map(
+                    (sectionMember: Ast.SectionMember) => sectionMember.namePairedExpression.key.literal,
+                ),
+            );
+
+        default:
+            return newNameByOldName;
+    }
+}
+
+function withoutNames(newNameByOldName: NewNameByOldName, names: ReadonlyArray<string>): NewNameByOldName {
+    const result: Map<string, string> = new Map(newNameByOldName);
+    for (const name of names) {
+        result.delete(StringUtils.normalizeIdentifier(name));
+    }
+
+    return result;
+}
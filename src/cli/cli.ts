@@ -0,0 +1,356 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Inspection, Task } from "..";
+import { ResultUtils } from "../common";
+import { Ast, TComment, Token, TokenPosition } from "../language";
+import { TriedLexerSnapshot } from "../lexer";
+import { NodeIdMap, NodeIdMapIterator } from "../parser";
+import { diagnosticsFrom, Document, documentFactory } from "../server";
+import { Diagnostic } from "../server/protocol";
+import { DefaultSettings, Settings } from "../settings";
+import { Type, TypeUtils } from "../type";
+
+export const enum ExitCode {
+    Success = 0,
+    // The input had errors, or couldn't be read.
+    Failure = 1,
+    // The command line couldn't be understood.
+    Usage = 2,
+}
+
+export const enum CommandKind {
+    Check = "check",
+    Inspect = "inspect",
+    Lex = "lex",
+    Parse = "parse",
+}
+
+export const enum ParseFormat {
+    Json = "json",
+    Tree = "tree",
+}
+
+// Everything the CLI does outside of the library, so that commands can be run against an in-memory file system.
+export interface CliIO {
+    readonly readFile: (filePath: string) => string;
+    readonly expandPathPattern: (pattern: string) => ReadonlyArray<string>;
+    readonly writeOut: (text: string) => void;
+    readonly writeErr: (text: string) => void;
+}
+
+export const Usage: string = [
+    "usage: m-parse <command> [options] <file>",
+    "",
+    "commands:",
+    "  lex <file>                         print the tokens and comments of a file",
+    "  parse [--format tree|json] <file>  print the abstract syntax tree of a file, defaults to tree",
+    "  check <pattern>...                 report every lex and parse error for the matching .pq/.m files",
+    "  inspect --position L:C <file>      print the scope, types, and autocomplete at a one based position",
+].join("\n");
+
+// Lines and columns in the output are one based, and columns are in UTF-16 code units.
+export function run(args: ReadonlyArray<string>, io: CliIO, settings: Settings = DefaultSettings): ExitCode {
+    const [maybeCommand, ...commandArgs] = args;
+
+    switch (maybeCommand) {
+        case CommandKind.Check:
+            return runCheck(commandArgs, io, settings);
+
+        case CommandKind.Inspect:
+            return runInspect(commandArgs, io, settings);
+
+        case CommandKind.Lex:
+            return runLex(commandArgs, io, settings);
+
+        case CommandKind.Parse:
+            return runParse(commandArgs, io, settings);
+
+        default:
+            return usageError(io, maybeCommand !== undefined ? `unknown command: ${maybeCommand}` : undefined);
+    }
+}
+
+// Parsed arguments of a command which takes options followed by a single file.
+interface FileArgs {
+    readonly filePath: string;
+    readonly options: Map<string, string>;
+}
+
+function runLex(args: ReadonlyArray<string>, io: CliIO, settings: Settings): ExitCode {
+    const maybeFileArgs: FileArgs | undefined = maybeFileArgsFrom(args, []);
+    if (maybeFileArgs === undefined) {
+        return usageError(io, `expected a single file`);
+    }
+    const filePath: string = maybeFileArgs.filePath;
+    const maybeText: string | undefined = maybeReadFile(io, filePath);
+    if (maybeText === undefined) {
+        return ExitCode.Failure;
+    }
+
+    const triedLex: TriedLexerSnapshot = Task.tryLex(settings, maybeText);
+    if (ResultUtils.isErr(triedLex)) {
+        return reportErrors(io, settings, filePath, maybeText);
+    }
+
+    const lines: [number, string][] = [
+        ...triedLex.value.tokens.map((token: Token): [number, string] => [
+            token.positionStart.codeUnit,
+            `${positionText(token.positionStart)} ${token.kind} ${JSON.stringify(token.data)}`,
+        ]),
+        ...triedLex.value.comments.map((comment: TComment): [number, string] => [
+            comment.positionStart.codeUnit,
+            `${positionText(comment.positionStart)} ${comment.kind}Comment ${JSON.stringify(comment.data)}`,
+        ]),
+    ];
+    lines.sort((left: [number, string], right: [number, string]) => left[0] - right[0]);
+    io.writeOut(lines.map((line: [number, string]) => line[1]).join("\n"));
+
+    return ExitCode.Success;
+}
+
+function runParse(args: ReadonlyArray<string>, io: CliIO, settings: Settings): ExitCode {
+    const maybeFileArgs: FileArgs | undefined = maybeFileArgsFrom(args, ["--format"]);
+    if (maybeFileArgs === undefined) {
+        return usageError(io, `expected a single file`);
+    }
+    const filePath: string = maybeFileArgs.filePath;
+    const maybeFormat: string | undefined = maybeFileArgs.options.get("--format");
+    if (maybeFormat !== undefined && maybeFormat !== ParseFormat.Json && maybeFormat !== ParseFormat.Tree) {
+        return usageError(io, `unknown format: ${maybeFormat}`);
+    }
+    const maybeText: string | undefined = maybeReadFile(io, filePath);
+    if (maybeText === undefined) {
+        return ExitCode.Failure;
+    }
+
+    const triedLexParse: Task.TriedLexParse = Task.tryLexParse(settings, maybeText);
+    if (ResultUtils.isErr(triedLexParse)) {
+        return reportErrors(io, settings, filePath, maybeText);
+    }
+    const ast: Ast.TNode = triedLexParse.value.ast;
+
+    if (maybeFormat === ParseFormat.Json) {
+        io.writeOut(JSON.stringify(ast, undefined, 4));
+    } else {
+        const lines: string[] = [];
+        appendTreeLines(triedLexParse.value.state.contextState.nodeIdMapCollection, ast, 0, lines);
+        io.writeOut(lines.join("\n"));
+    }
+
+    return ExitCode.Success;
+}
+
+function runCheck(args: ReadonlyArray<string>, io: CliIO, settings: Settings): ExitCode {
+    if (args.length === 0) {
+        return usageError(io, `expected at least one file pattern`);
+    }
+
+    let exitCode: ExitCode = ExitCode.Success;
+    let numErrors: number = 0;
+    let numFiles: number = 0;
+
+    for (const pattern of args) {
+        const filePaths: ReadonlyArray<string> = io.expandPathPattern(pattern);
+        if (filePaths.length === 0) {
+            io.writeErr(`no files matched: ${pattern}`);
+            exitCode = ExitCode.Failure;
+        }
+
+        for (const filePath of filePaths) {
+            numFiles += 1;
+            const maybeText: string | undefined = maybeReadFile(io, filePath);
+            if (maybeText === undefined) {
+                exitCode = ExitCode.Failure;
+                continue;
+            }
+
+            const diagnostics: ReadonlyArray<Diagnostic> = diagnosticsFrom(
+                settings,
+                documentFactory(settings, filePath, 0, maybeText),
+            );
+            if (diagnostics.length !== 0) {
+                writeDiagnostics(io, filePath, diagnostics);
+                numErrors += diagnostics.length;
+                exitCode = ExitCode.Failure;
+            }
+        }
+    }
+
+    io.writeErr(`${numErrors} error(s) in ${numFiles} file(s)`);
+    return exitCode;
+}
+
+function runInspect(args: ReadonlyArray<string>, io: CliIO, settings: Settings): ExitCode {
+    const maybeFileArgs: FileArgs | undefined = maybeFileArgsFrom(args, ["--position"]);
+    if (maybeFileArgs === undefined) {
+        return usageError(io, `expected a single file`);
+    }
+    const filePath: string = maybeFileArgs.filePath;
+    const maybePositionText: string | undefined = maybeFileArgs.options.get("--position");
+    const maybeMatch: RegExpMatchArray | undefined =
+        maybePositionText !== undefined ? maybeMatchPosition(maybePositionText) : undefined;
+    if (maybeMatch === undefined) {
+        return usageError(io, `expected --position L:C, where both are one based`);
+    }
+    const position: Inspection.Position = {
+        lineNumber: Number.parseInt(maybeMatch[1], 10) - 1,
+        lineCodeUnit: Number.parseInt(maybeMatch[2], 10) - 1,
+    };
+    const maybeText: string | undefined = maybeReadFile(io, filePath);
+    if (maybeText === undefined) {
+        return ExitCode.Failure;
+    }
+
+    const triedInspection: Task.TriedLexParseInspect = Task.tryLexParseInspection(settings, maybeText, position);
+    if (ResultUtils.isErr(triedInspection)) {
+        return reportErrors(io, settings, filePath, maybeText);
+    }
+    const inspection: Task.LexParseInspectOk = triedInspection.value;
+
+    const scope: { [key: string]: {} } = {};
+    for (const [key, scopeItem] of inspection.scope.entries()) {
+        const maybeType: Type.TType | undefined = inspection.scopeType.get(key);
+        scope[key] = {
+            kind: scopeItem.kind,
+            type: maybeType !== undefined ? TypeUtils.nameOf(maybeType) : undefined,
+        };
+    }
+    const maybeInvokeExpression: Inspection.InvokeExpression | undefined = inspection.maybeInvokeExpression;
+
+    io.writeOut(
+        JSON.stringify(
+            {
+                scope,
+                autocomplete: inspection.autocomplete.map((item: Inspection.AutocompleteItem) => {
+                    return {
+                        label: item.label,
+                        kind: item.kind,
+                    };
+                }),
+                invokeExpression:
+                    maybeInvokeExpression !== undefined
+                        ? {
+                              name: maybeInvokeExpression.maybeName,
+                              invokedType: TypeUtils.nameOf(maybeInvokeExpression.invokedType),
+                              argumentOrdinal:
+                                  maybeInvokeExpression.maybeArguments !== undefined
+                                      ? maybeInvokeExpression.maybeArguments.argumentOrdinal
+                                      : undefined,
+                          }
+                        : undefined,
+            },
+            undefined,
+            4,
+        ),
+    );
+
+    return ExitCode.Success;
+}
+
+// Expects the options listed in optionNames, each followed by its value, and exactly one other argument.
+function maybeFileArgsFrom(args: ReadonlyArray<string>, optionNames: ReadonlyArray<string>): FileArgs | undefined {
+    const options: Map<string, string> = new Map();
+    const filePaths: string[] = [];
+
+    for (let index: number = 0; index < args.length; index += 1) {
+        const arg: string = args[index];
+
+        if (optionNames.includes(arg)) {
+            if (index + 1 === args.length) {
+                return undefined;
+            }
+            options.set(arg, args[index + 1]);
+            index += 1;
+        } else if (arg.startsWith("--")) {
+            return undefined;
+        } else {
+            filePaths.push(arg);
+        }
+    }
+
+    return filePaths.length === 1
+        ? {
+              filePath: filePaths[0],
+              options,
+          }
+        : undefined;
+}
+
+function maybeMatchPosition(text: string): RegExpMatchArray | undefined {
+    const maybeMatch: RegExpMatchArray | null = text.match(/^([1-9]\d*):([1-9]\d*)$/);
+    return maybeMatch !== null ? maybeMatch : undefined;
+}
+
+function maybeReadFile(io: CliIO, filePath: string): string | undefined {
+    try {
+        return io.readFile(filePath);
+    } catch (err) {
+        io.writeErr(`${filePath}: ${err.message}`);
+        return undefined;
+    }
+}
+
+function reportErrors(io: CliIO, settings: Settings, filePath: string, text: string): ExitCode {
+    const document: Document = documentFactory(settings, filePath, 0, text);
+    writeDiagnostics(io, filePath, diagnosticsFrom(settings, document));
+    return ExitCode.Failure;
+}
+
+function writeDiagnostics(io: CliIO, filePath: string, diagnostics: ReadonlyArray<Diagnostic>): void {
+    for (const diagnostic of diagnostics) {
+        const line: number = diagnostic.range.start.line + 1;
+        const column: number = diagnostic.range.start.character + 1;
+        io.writeOut(`${filePath}:${line}:${column}: error: ${diagnostic.message}`);
+    }
+}
+
+function usageError(io: CliIO, maybeMessage: string | undefined): ExitCode {
+    if (maybeMessage !== undefined) {
+        io.writeErr(`m-parse: ${maybeMessage}`);
+    }
+    io.writeErr(Usage);
+    return ExitCode.Usage;
+}
+
+function appendTreeLines(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    node: Ast.TNode,
+    depth: number,
+    lines: string[],
+): void {
+    const maybeLeafText: string | undefined = maybeLeafTextFrom(node);
+    const position: string = positionText(node.tokenRange.positionStart);
+    lines.push(
+        `${"  ".repeat(depth)}${node.kind} (${position})${maybeLeafText !== undefined ? ` ${maybeLeafText}` : ""}`,
+    );
+
+    const maybeChildren: ReadonlyArray<Ast.TNode> | undefined = NodeIdMapIterator.maybeAstChildren(
+        nodeIdMapCollection,
+        node.id,
+    );
+    if (maybeChildren !== undefined) {
+        for (const child of maybeChildren) {
+            appendTreeLines(nodeIdMapCollection, child, depth + 1, lines);
+        }
+    }
+}
+
+function maybeLeafTextFrom(node: Ast.TNode): string | undefined {
+    switch (node.kind) {
+        case Ast.NodeKind.Constant:
+            return JSON.stringify(node.constantKind);
+
+        case Ast.NodeKind.GeneralizedIdentifier:
+        case Ast.NodeKind.Identifier:
+        case Ast.NodeKind.LiteralExpression:
+            return JSON.stringify(node.literal);
+
+        default:
+            return undefined;
+    }
+}
+
+function positionText(position: TokenPosition): string {
+    return `${position.lineNumber + 1}:${position.lineCodeUnit + 1}`;
+}
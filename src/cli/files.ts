@@ -0,0 +1,101 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+// File paths are given on the command line.
+/* tslint:disable:non-literal-fs-path */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export const SourceFileExtensions: ReadonlyArray<string> = [".pq", ".m"];
+
+// Expands a path pattern into the matching source files, supporting `*` and `?` within a path segment
+// and `**` across them. A directory expands to every source file beneath it,
+// and a path without wildcards is returned as is.
+// Hidden directories (eg. `.git`) and node_modules are never searched.
+export function expandPathPattern(pattern: string): ReadonlyArray<string> {
+    const normalizedPattern: string = pattern.replace(/\\/g, "/");
+    const segments: ReadonlyArray<string> = normalizedPattern.split("/");
+    const firstWildcardIndex: number = segments.findIndex(isWildcardSegment);
+
+    if (firstWildcardIndex === -1) {
+        return isDirectory(normalizedPattern)
+            ? filesUnder(normalizedPattern).filter(isSourceFile)
+            : [normalizedPattern];
+    }
+
+    const baseDirectory: string = firstWildcardIndex === 0 ? "." : segments.slice(0, firstWildcardIndex).join("/");
+    if (!isDirectory(baseDirectory)) {
+        return [];
+    }
+    const patternRegExp: RegExp = regExpFrom(firstWildcardIndex === 0 ? `./${normalizedPattern}` : normalizedPattern);
+
+    return filesUnder(baseDirectory).filter(
+        (filePath: string) => isSourceFile(filePath) && patternRegExp.test(filePath),
+    );
+}
+
+function isWildcardSegment(segment: string): boolean {
+    return segment.includes("*") || segment.includes("?");
+}
+
+function isSourceFile(filePath: string): boolean {
+    return SourceFileExtensions.includes(path.extname(filePath).toLowerCase());
+}
+
+function isSearchedDirectory(directoryName: string): boolean {
+    return !directoryName.startsWith(".") && directoryName !== "node_modules";
+}
+
+function isDirectory(directoryPath: string): boolean {
+    try {
+        return fs.statSync(directoryPath).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+// Sorted so that output doesn't depend on the order the file system lists entries.
+function filesUnder(directory: string): string[] {
+    const filePaths: string[] = [];
+
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        const entryPath: string = `${directory}/${entry.name}`;
+        if (entry.isDirectory()) {
+            if (isSearchedDirectory(entry.name)) {
+                filePaths.push(...filesUnder(entryPath));
+            }
+        } else if (entry.isFile()) {
+            filePaths.push(entryPath);
+        }
+    }
+
+    return filePaths.sort();
+}
+
+function regExpFrom(pattern: string): RegExp {
+    let source: string = "";
+
+    for (let index: number = 0; index < pattern.length; index += 1) {
+        const char: string = pattern[index];
+
+        if (char === "*" && pattern[index + 1] === "*") {
+            // `**/` matches zero or more directories.
+            if (pattern[index + 2] === "/") {
+                source += "(?:[^/]*/)*";
+                index += 2;
+            } else {
+                source += ".*";
+                index += 1;
+            }
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
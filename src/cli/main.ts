@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+// File paths are given on the command line.
+/* tslint:disable:no-console non-literal-fs-path */
+
+import * as fs from "fs";
+import { run } from "./cli";
+import { expandPathPattern } from "./files";
+
+process.exitCode = run(process.argv.slice(2), {
+    readFile: (filePath: string) => fs.readFileSync(filePath, "utf8"),
+    expandPathPattern,
+    writeOut: (text: string) => console.log(text),
+    writeErr: (text: string) => console.error(text),
+});
@@ -0,0 +1,309 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert } from ".";
+
+// A small document algebra used as the intermediate representation between an Ast and formatted text.
+// The Ast is first converted into a TDoc (see format/print.ts), which then gets laid out into text by render.
+//
+// A Group is laid out either entirely flat (each Line becomes a space, each SoftLine becomes nothing),
+// or broken (each Line and SoftLine directly under the group becomes a newline).
+// A HardLine is always a newline, and forces every Group which contains it to be broken.
+// A LineSuffix is deferred until the end of the line it's on, which is used for trailing line comments.
+// Nothing is written after a LineSuffix on the same line, so anything after it starts a new line,
+// and a Group which has something after a LineSuffix is broken the same as if it contained a HardLine.
+
+export const enum BreakKind {
+    Always = "Always",
+    Never = "Never",
+    WhenExceedsMaxWidth = "WhenExceedsMaxWidth",
+}
+
+export type TDoc = string | Concat | Group | Indent | Line | LineSuffix;
+
+export const enum DocKind {
+    Concat = "Concat",
+    Group = "Group",
+    Indent = "Indent",
+    Line = "Line",
+    LineSuffix = "LineSuffix",
+}
+
+export const enum LineKind {
+    // A newline regardless of the enclosing group.
+    Hard = "Hard",
+    // A space when flat.
+    Normal = "Normal",
+    // Nothing when flat.
+    Soft = "Soft",
+}
+
+export interface Concat {
+    readonly kind: DocKind.Concat;
+    readonly docs: ReadonlyArray<TDoc>;
+    readonly containsHardLine: boolean;
+    readonly containsLineSuffix: boolean;
+}
+
+export interface Group {
+    readonly kind: DocKind.Group;
+    readonly doc: TDoc;
+    readonly breakKind: BreakKind;
+    readonly containsHardLine: boolean;
+    readonly containsLineSuffix: boolean;
+}
+
+export interface Indent {
+    readonly kind: DocKind.Indent;
+    readonly doc: TDoc;
+    readonly containsHardLine: boolean;
+    readonly containsLineSuffix: boolean;
+}
+
+export interface Line {
+    readonly kind: DocKind.Line;
+    readonly lineKind: LineKind;
+    readonly containsHardLine: boolean;
+    readonly containsLineSuffix: false;
+}
+
+export interface LineSuffix {
+    readonly kind: DocKind.LineSuffix;
+    readonly text: string;
+    readonly containsHardLine: false;
+    readonly containsLineSuffix: true;
+}
+
+export interface RenderSettings {
+    readonly indentationLiteral: string;
+    readonly newlineLiteral: string;
+    readonly maxWidth: number;
+}
+
+export const HardLine: Line = {
+    kind: DocKind.Line,
+    lineKind: LineKind.Hard,
+    containsHardLine: true,
+    containsLineSuffix: false,
+};
+
+export const NormalLine: Line = {
+    kind: DocKind.Line,
+    lineKind: LineKind.Normal,
+    containsHardLine: false,
+    containsLineSuffix: false,
+};
+
+export const SoftLine: Line = {
+    kind: DocKind.Line,
+    lineKind: LineKind.Soft,
+    containsHardLine: false,
+    containsLineSuffix: false,
+};
+
+export function concat(docs: ReadonlyArray<TDoc>): Concat {
+    return {
+        kind: DocKind.Concat,
+        docs,
+        containsHardLine: docs.some(containsHardLine) || isLineSuffixFollowed(docs),
+        containsLineSuffix: docs.some(containsLineSuffix),
+    };
+}
+
+export function group(doc: TDoc, breakKind: BreakKind): Group {
+    return {
+        kind: DocKind.Group,
+        doc,
+        breakKind,
+        containsHardLine: containsHardLine(doc),
+        containsLineSuffix: containsLineSuffix(doc),
+    };
+}
+
+export function indent(doc: TDoc): Indent {
+    return {
+        kind: DocKind.Indent,
+        doc,
+        containsHardLine: containsHardLine(doc),
+        containsLineSuffix: containsLineSuffix(doc),
+    };
+}
+
+export function join(separator: TDoc, docs: ReadonlyArray<TDoc>): Concat {
+    const joined: TDoc[] = [];
+    for (let index: number = 0; index < docs.length; index += 1) {
+        if (index) {
+            joined.push(separator);
+        }
+        joined.push(docs[index]);
+    }
+
+    return concat(joined);
+}
+
+export function lineSuffix(text: string): LineSuffix {
+    return {
+        kind: DocKind.LineSuffix,
+        text,
+        containsHardLine: false,
+        containsLineSuffix: true,
+    };
+}
+
+export function render(settings: RenderSettings, doc: TDoc): string {
+    const state: RenderState = {
+        settings,
+        lines: [],
+        currentLine: "",
+        pendingLineSuffixes: [],
+    };
+    renderDoc(state, doc, 0, false);
+    flushLineSuffixes(state);
+
+    return [...state.lines, trimEnd(state.currentLine)].join(settings.newlineLiteral);
+}
+
+interface RenderState {
+    readonly settings: RenderSettings;
+    readonly lines: string[];
+    currentLine: string;
+    pendingLineSuffixes: string[];
+}
+
+function renderDoc(state: RenderState, doc: TDoc, indentationLevel: number, isFlat: boolean): void {
+    if (typeof doc === "string") {
+        // Eg. the `2` in `1 + // comment` followed by `2`.
+        if (state.pendingLineSuffixes.length && !isBlank(doc)) {
+            renderNewline(state, indentationLevel);
+        }
+        // Leading whitespace is never written at the start of a line, the indentation takes its place.
+        state.currentLine += isBlank(state.currentLine) ? doc.replace(/^\s+/, "") : doc;
+        return;
+    }
+
+    switch (doc.kind) {
+        case DocKind.Concat:
+            for (const child of doc.docs) {
+                renderDoc(state, child, indentationLevel, isFlat);
+            }
+            break;
+
+        case DocKind.Group: {
+            const shouldBeFlat: boolean = isFlat || isGroupFlat(state, doc);
+            renderDoc(state, doc.doc, indentationLevel, shouldBeFlat);
+            break;
+        }
+
+        case DocKind.Indent:
+            renderDoc(state, doc.doc, indentationLevel + 1, isFlat);
+            break;
+
+        case DocKind.Line:
+            if (doc.lineKind === LineKind.Hard || !isFlat) {
+                renderNewline(state, indentationLevel);
+            } else if (doc.lineKind === LineKind.Normal) {
+                state.currentLine += " ";
+            }
+            break;
+
+        case DocKind.LineSuffix:
+            state.pendingLineSuffixes.push(doc.text);
+            break;
+
+        default:
+            throw Assert.isNever(doc);
+    }
+}
+
+function renderNewline(state: RenderState, indentationLevel: number): void {
+    flushLineSuffixes(state);
+
+    // Consecutive newlines are collapsed so that formatted text never contains blank lines.
+    if (!isBlank(state.currentLine)) {
+        state.lines.push(trimEnd(state.currentLine));
+    }
+    state.currentLine = state.settings.indentationLiteral.repeat(indentationLevel);
+}
+
+function flushLineSuffixes(state: RenderState): void {
+    if (!state.pendingLineSuffixes.length) {
+        return;
+    }
+
+    // Eg. the space written after `+` in `1 + // comment`.
+    state.currentLine = trimEnd(state.currentLine) + state.pendingLineSuffixes.join("");
+    state.pendingLineSuffixes = [];
+}
+
+function isGroupFlat(state: RenderState, groupDoc: Group): boolean {
+    if (groupDoc.containsHardLine) {
+        return false;
+    }
+
+    switch (groupDoc.breakKind) {
+        case BreakKind.Always:
+            return false;
+
+        case BreakKind.Never:
+            return true;
+
+        case BreakKind.WhenExceedsMaxWidth:
+            return state.currentLine.length + flatWidth(groupDoc.doc) <= state.settings.maxWidth;
+
+        default:
+            throw Assert.isNever(groupDoc.breakKind);
+    }
+}
+
+function flatWidth(doc: TDoc): number {
+    if (typeof doc === "string") {
+        return doc.length;
+    }
+
+    switch (doc.kind) {
+        case DocKind.Concat:
+            return doc.docs.reduce((total: number, child: TDoc) => total + flatWidth(child), 0);
+
+        case DocKind.Group:
+        case DocKind.Indent:
+            return flatWidth(doc.doc);
+
+        case DocKind.Line:
+            return doc.lineKind === LineKind.Normal ? 1 : 0;
+
+        case DocKind.LineSuffix:
+            return 0;
+
+        default:
+            throw Assert.isNever(doc);
+    }
+}
+
+function containsHardLine(doc: TDoc): boolean {
+    return typeof doc === "string" ? false : doc.containsHardLine;
+}
+
+function containsLineSuffix(doc: TDoc): boolean {
+    return typeof doc === "string" ? false : doc.containsLineSuffix;
+}
+
+// Eg. `{1, // one` followed by `2`, but not `{1, 2} // two` as nothing follows the comment.
+function isLineSuffixFollowed(docs: ReadonlyArray<TDoc>): boolean {
+    let hasLineSuffix: boolean = false;
+    for (const doc of docs) {
+        if (hasLineSuffix && flatWidth(doc) > 0) {
+            return true;
+        }
+        hasLineSuffix = hasLineSuffix || containsLineSuffix(doc);
+    }
+
+    return false;
+}
+
+function isBlank(text: string): boolean {
+    return text.trim().length === 0;
+}
+
+function trimEnd(text: string): string {
+    return text.replace(/\s+$/, "");
+}
@@ -3,6 +3,7 @@
 
 import * as ArrayUtils from "./arrayUtils";
 import * as Assert from "./assert";
+import * as Doc from "./doc";
 import * as CommonError from "./error";
 import * as MapUtils from "./mapUtils";
 import * as Pattern from "./patterns";
@@ -10,6 +11,6 @@ import * as StringUtils from "./stringUtils";
 import * as Traverse from "./traversal";
 import * as TypeScriptUtils from "./typeScriptTypeUtils";
 
-export { ArrayUtils, Assert, CommonError, MapUtils, Pattern, StringUtils, Traverse, TypeScriptUtils };
+export { ArrayUtils, Assert, CommonError, Doc, MapUtils, Pattern, StringUtils, Traverse, TypeScriptUtils };
 export * from "./partialResult";
 export * from "./result";
@@ -71,6 +71,11 @@ export function isQuotedIdentifier(text: string): boolean {
     return maybeQuotedIdentifier(text, 0) === text.length;
 }
 
+// `#"foo"` and `foo` are the same identifier, so a quoted identifier gets unwrapped and unescaped.
+export function normalizeIdentifier(text: string): string {
+    return isQuotedIdentifier(text) ? text.slice(2, -1).replace(/""/g, '"') : text;
+}
+
 export function maybeRegexMatchLength(pattern: RegExp, text: string, index: number): number | undefined {
     pattern.lastIndex = index;
     const matches: RegExpExecArray | null = pattern.exec(text);
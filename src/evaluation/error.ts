@@ -0,0 +1,28 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { CommonError } from "../common";
+import { Ast } from "../language";
+import { ILocalizationTemplates, Localization } from "../localization";
+import { TValue } from "./value";
+
+export type TEvaluationError = CommonError.CommonError | ExpressionError | UnsupportedError;
+
+// The reason of any error raised by the evaluator itself, as opposed to an ErrorRaisingExpression.
+export const ExpressionErrorReason: string = "Expression.Error";
+
+// An error raised while evaluating the expression, eg. by `error "foo"` or `1 + "a"`.
+// It's what a `try` expression handles, and it becomes the record `[Reason, Message, Detail]`.
+export class ExpressionError extends Error {
+    constructor(readonly reason: string, message: string, readonly detail: TValue) {
+        super(message);
+    }
+}
+
+// The expression uses part of the language the evaluator doesn't support, eg. a type expression.
+// It can't be handled by a `try` expression.
+export class UnsupportedError extends Error {
+    constructor(templates: ILocalizationTemplates, readonly nodeKind: Ast.NodeKind) {
+        super(Localization.error_evaluation_unsupported(templates, nodeKind));
+    }
+}
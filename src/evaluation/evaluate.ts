@@ -0,0 +1,814 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert, CommonError, Result, ResultUtils, StringUtils } from "../common";
+import { Ast, AstUtils } from "../language";
+import { getLocalizationTemplates, ILocalizationTemplates, Localization } from "../localization";
+import { CommonSettings } from "../settings";
+import { Type, TypeUtils } from "../type";
+import { ExpressionError, ExpressionErrorReason, TEvaluationError, UnsupportedError } from "./error";
+import * as Value from "./value";
+import * as ValueUtils from "./valueUtils";
+
+export type TriedEvaluate = Result<Value.TValue, TEvaluationError>;
+
+// Called for any identifier which isn't bound by either the expression or the environment, eg. `Text.Length`.
+export type LibraryResolver = (identifierLiteral: string) => Value.TValue | undefined;
+
+export interface Environment {
+    // Values the expression can refer to by name, eg. the parameters of a query fragment.
+    readonly valueByName: ReadonlyMap<string, Value.TValue>;
+    readonly maybeLibraryResolver: LibraryResolver | undefined;
+}
+
+export const DefaultEnvironment: Environment = {
+    valueByName: new Map(),
+    maybeLibraryResolver: undefined,
+};
+
+// Evaluates the pure subset of M: literals, operators, records, lists, let, if, functions, field and item access,
+// and raising or handling errors. Anything else, such as a type expression, returns an UnsupportedError.
+//
+// A let variable or record field is only evaluated when it's first needed, while lists are evaluated in full.
+// An error raised by the expression is returned as an ExpressionError unless the expression handles it with `try`.
+export function tryEvaluate(
+    settings: CommonSettings,
+    ast: Ast.TNode,
+    environment: Environment = DefaultEnvironment,
+): TriedEvaluate {
+    const templates: ILocalizationTemplates = getLocalizationTemplates(settings.locale);
+    const state: EvaluationState = {
+        templates,
+        environment,
+    };
+    const scope: Scope = {
+        lazyByName: new Map(
+            [...environment.valueByName.entries()].map(([name, value]: [string, Value.TValue]) => [
+                name,
+                ValueUtils.evaluatedLazyFactory(name, value),
+            ]),
+        ),
+        maybeParent: undefined,
+    };
+
+    try {
+        return ResultUtils.okFactory(evaluate(state, ast, scope));
+    } catch (err) {
+        return ResultUtils.errFactory(
+            err instanceof ExpressionError || err instanceof UnsupportedError
+                ? err
+                : CommonError.ensureCommonError(templates, err),
+        );
+    }
+}
+
+interface EvaluationState {
+    readonly templates: ILocalizationTemplates;
+    readonly environment: Environment;
+}
+
+interface Scope {
+    readonly lazyByName: Map<string, Value.Lazy>;
+    readonly maybeParent: Scope | undefined;
+}
+
+function evaluate(state: EvaluationState, node: Ast.TNode, scope: Scope): Value.TValue {
+    switch (node.kind) {
+        case Ast.NodeKind.ArithmeticExpression:
+            return evaluateArithmetic(
+                state,
+                node.operatorConstant.constantKind,
+                evaluate(state, node.left, scope),
+                evaluate(state, node.right as Ast.TNode, scope),
+            );
+
+        case Ast.NodeKind.AsExpression: {
+            const value: Value.TValue = evaluate(state, node.left, scope);
+            const right: Ast.TNullablePrimitiveType = node.right as Ast.TNullablePrimitiveType;
+            const typeKind: Type.TypeKind = TypeUtils.typeKindFromPrimitiveTypeConstantKind(
+                AstUtils.primitiveTypeConstantKindFrom(right),
+            );
+            return expectOfType(state, value, typeKind, right.kind === Ast.NodeKind.NullablePrimitiveType);
+        }
+
+        case Ast.NodeKind.EachExpression:
+            return evaluateEachExpression(state, node, scope);
+
+        case Ast.NodeKind.EqualityExpression: {
+            const isEqual: boolean = ValueUtils.equalValue(
+                state.templates,
+                evaluate(state, node.left, scope),
+                evaluate(state, node.right as Ast.TNode, scope),
+            );
+            return ValueUtils.logicalFactory(
+                node.operatorConstant.constantKind === Ast.EqualityOperatorKind.EqualTo ? isEqual : !isEqual,
+            );
+        }
+
+        case Ast.NodeKind.ErrorHandlingExpression:
+            return evaluateErrorHandlingExpression(state, node, scope);
+
+        case Ast.NodeKind.ErrorRaisingExpression:
+            throw expressionErrorFrom(state, evaluate(state, node.paired, scope));
+
+        case Ast.NodeKind.FieldProjection:
+        case Ast.NodeKind.FieldSelector:
+            // Outside of a RecursivePrimaryExpression the field access is of `_`, eg. `each [a]`.
+            return evaluateFieldAccess(state, node, lookup(state, scope, "_"));
+
+        case Ast.NodeKind.FunctionExpression:
+            return evaluateFunctionExpression(state, node, scope);
+
+        case Ast.NodeKind.IdentifierExpression:
+            return lookup(state, scope, StringUtils.normalizeIdentifier(node.identifier.literal));
+
+        case Ast.NodeKind.IfExpression: {
+            const condition: Value.TValue = evaluate(state, node.condition, scope);
+            return expectValueKind(state, condition, Type.TypeKind.Logical).value
+                ? evaluate(state, node.trueExpression, scope)
+                : evaluate(state, node.falseExpression, scope);
+        }
+
+        case Ast.NodeKind.IsExpression: {
+            const value: Value.TValue = evaluate(state, node.left, scope);
+            const right: Ast.TNullablePrimitiveType = node.right as Ast.TNullablePrimitiveType;
+            const typeKind: Type.TypeKind = TypeUtils.typeKindFromPrimitiveTypeConstantKind(
+                AstUtils.primitiveTypeConstantKindFrom(right),
+            );
+            return ValueUtils.logicalFactory(
+                ValueUtils.isOfType(value, typeKind, right.kind === Ast.NodeKind.NullablePrimitiveType),
+            );
+        }
+
+        case Ast.NodeKind.LetExpression:
+            return evaluateLetExpression(state, node, scope);
+
+        case Ast.NodeKind.ListExpression:
+            return evaluateListExpression(state, node, scope);
+
+        case Ast.NodeKind.LiteralExpression:
+            return evaluateLiteralExpression(node);
+
+        case Ast.NodeKind.LogicalExpression:
+            return evaluateLogicalExpression(state, node, scope);
+
+        case Ast.NodeKind.MetadataExpression: {
+            const value: Value.TValue = evaluate(state, node.left, scope);
+            const metadata: Value.RecordValue = expectValueKind(
+                state,
+                evaluate(state, node.right as Ast.TNode, scope),
+                Type.TypeKind.Record,
+            );
+            return {
+                ...value,
+                maybeMetadata:
+                    value.maybeMetadata !== undefined ? mergeRecords(value.maybeMetadata, metadata) : metadata,
+            };
+        }
+
+        case Ast.NodeKind.NotImplementedExpression:
+            throw new ExpressionError(
+                ExpressionErrorReason,
+                Localization.error_evaluation_notImplemented(state.templates),
+                ValueUtils.nullFactory(),
+            );
+
+        case Ast.NodeKind.ParenthesizedExpression:
+            return evaluate(state, node.content, scope);
+
+        case Ast.NodeKind.RecordExpression:
+            return evaluateRecordExpression(state, node, scope);
+
+        case Ast.NodeKind.RecursivePrimaryExpression:
+            return evaluateRecursivePrimaryExpression(state, node, scope);
+
+        case Ast.NodeKind.RelationalExpression:
+            return evaluateRelational(
+                state,
+                node.operatorConstant.constantKind,
+                evaluate(state, node.left, scope),
+                evaluate(state, node.right as Ast.TNode, scope),
+            );
+
+        case Ast.NodeKind.UnaryExpression:
+            return evaluateUnaryExpression(state, node, scope);
+
+        default:
+            throw new UnsupportedError(state.templates, node.kind);
+    }
+}
+
+// M's arithmetic propagates null, so `1 + null` is null.
+function evaluateArithmetic(
+    state: EvaluationState,
+    operator: Ast.ArithmeticOperatorKind,
+    left: Value.TValue,
+    right: Value.TValue,
+): Value.TValue {
+    if (left.kind === Type.TypeKind.Null || right.kind === Type.TypeKind.Null) {
+        return ValueUtils.nullFactory();
+    }
+
+    if (operator === Ast.ArithmeticOperatorKind.And) {
+        if (left.kind === Type.TypeKind.Text && right.kind === Type.TypeKind.Text) {
+            return ValueUtils.textFactory(left.value + right.value);
+        } else if (left.kind === Type.TypeKind.List && right.kind === Type.TypeKind.List) {
+            return ValueUtils.listFactory([...left.elements, ...right.elements]);
+        } else if (left.kind === Type.TypeKind.Record && right.kind === Type.TypeKind.Record) {
+            return mergeRecords(left, right);
+        }
+    } else if (left.kind === Type.TypeKind.Number && right.kind === Type.TypeKind.Number) {
+        switch (operator) {
+            case Ast.ArithmeticOperatorKind.Addition:
+                return ValueUtils.numberFactory(left.value + right.value);
+
+            case Ast.ArithmeticOperatorKind.Division:
+                return ValueUtils.numberFactory(left.value / right.value);
+
+            case Ast.ArithmeticOperatorKind.Multiplication:
+                return ValueUtils.numberFactory(left.value * right.value);
+
+            case Ast.ArithmeticOperatorKind.Subtraction:
+                return ValueUtils.numberFactory(left.value - right.value);
+
+            default:
+                throw Assert.isNever(operator);
+        }
+    }
+
+    throw expressionErrorFactory(
+        Localization.error_evaluation_binOpExpression(state.templates, operator, left.kind, right.kind),
+    );
+}
+
+function evaluateEachExpression(state: EvaluationState, node: Ast.EachExpression, scope: Scope): Value.FunctionValue {
+    const parameter: Type.FunctionParameter = {
+        nameLiteral: "_",
+        isOptional: false,
+        isNullable: true,
+        maybeType: undefined,
+    };
+
+    return ValueUtils.functionFactory([parameter], (args: ReadonlyArray<Value.TValue>) =>
+        evaluate(state, node.paired, {
+            lazyByName: new Map([["_", ValueUtils.evaluatedLazyFactory("_", args[0])]]),
+            maybeParent: scope,
+        }),
+    );
+}
+
+// `try x` is the record `[HasError = false, Value = x]`, or `[HasError = true, Error = [Reason, Message, Detail]]`.
+function evaluateErrorHandlingExpression(
+    state: EvaluationState,
+    node: Ast.ErrorHandlingExpression,
+    scope: Scope,
+): Value.TValue {
+    let value: Value.TValue;
+    try {
+        value = evaluate(state, node.protectedExpression, scope);
+    } catch (err) {
+        if (!(err instanceof ExpressionError)) {
+            throw err;
+        } else if (node.maybeOtherwiseExpression !== undefined) {
+            return evaluate(state, node.maybeOtherwiseExpression.paired, scope);
+        }
+
+        return ValueUtils.evaluatedRecordFactory(
+            new Map<string, Value.TValue>([
+                ["HasError", ValueUtils.logicalFactory(true)],
+                [
+                    "Error",
+                    ValueUtils.evaluatedRecordFactory(
+                        new Map<string, Value.TValue>([
+                            ["Reason", ValueUtils.textFactory(err.reason)],
+                            ["Message", ValueUtils.textFactory(err.message)],
+                            ["Detail", err.detail],
+                        ]),
+                    ),
+                ],
+            ]),
+        );
+    }
+
+    return node.maybeOtherwiseExpression !== undefined
+        ? value
+        : ValueUtils.evaluatedRecordFactory(
+              new Map<string, Value.TValue>([
+                  ["HasError", ValueUtils.logicalFactory(false)],
+                  ["Value", value],
+              ]),
+          );
+}
+
+function evaluateFieldAccess(
+    state: EvaluationState,
+    node: Ast.FieldProjection | Ast.FieldSelector,
+    subject: Value.TValue,
+): Value.TValue {
+    const record: Value.RecordValue = expectValueKind(state, subject, Type.TypeKind.Record);
+    const isOptional: boolean = node.maybeOptionalConstant !== undefined;
+
+    switch (node.kind) {
+        case Ast.NodeKind.FieldProjection:
+            return ValueUtils.recordFactory(
+                new Map(
+                    node.content.elements.map((csv: Ast.ICsv<Ast.FieldSelector>) => {
+                        const name: string = StringUtils.normalizeIdentifier(csv.node.content.literal);
+                        return [name, expectLazyField(state, record, name, isOptional)];
+                    }),
+                ),
+            );
+
+        case Ast.NodeKind.FieldSelector:
+            return expectField(state, record, StringUtils.normalizeIdentifier(node.content.literal), isOptional);
+
+        default:
+            throw Assert.isNever(node);
+    }
+}
+
+function evaluateFunctionExpression(
+    state: EvaluationState,
+    node: Ast.FunctionExpression,
+    scope: Scope,
+): Value.FunctionValue {
+    const parameters: ReadonlyArray<Type.FunctionParameter> = node.parameters.content.elements.map(
+        (csv: Ast.ICsv<Ast.IParameter<Ast.AsNullablePrimitiveType | undefined>>) => functionParameterFrom(csv.node),
+    );
+    const maybeReturnType: Ast.AsNullablePrimitiveType | undefined = node.maybeFunctionReturnType;
+
+    return ValueUtils.functionFactory(parameters, (args: ReadonlyArray<Value.TValue>) => {
+        const result: Value.TValue = evaluate(state, node.expression, {
+            lazyByName: new Map(
+                parameters.map((parameter: Type.FunctionParameter, index: number) => [
+                    parameter.nameLiteral,
+                    ValueUtils.evaluatedLazyFactory(parameter.nameLiteral, args[index]),
+                ]),
+            ),
+            maybeParent: scope,
+        });
+        if (maybeReturnType === undefined) {
+            return result;
+        }
+        const simplified: AstUtils.SimplifiedType = AstUtils.simplifyAsNullablePrimitiveType(maybeReturnType);
+
+        return expectOfType(
+            state,
+            result,
+            TypeUtils.typeKindFromPrimitiveTypeConstantKind(simplified.primitiveTypeConstantKind),
+            simplified.isNullable,
+        );
+    });
+}
+
+function evaluateLetExpression(state: EvaluationState, node: Ast.LetExpression, scope: Scope): Value.TValue {
+    const lazyByName: Map<string, Value.Lazy> = new Map();
+    const letScope: Scope = {
+        lazyByName,
+        maybeParent: scope,
+    };
+    for (const csv of node.variableList.elements) {
+        const name: string = StringUtils.normalizeIdentifier(csv.node.key.literal);
+        lazyByName.set(
+            name,
+            ValueUtils.lazyFactory(name, () => evaluate(state, csv.node.value, letScope)),
+        );
+    }
+
+    return evaluate(state, node.expression, letScope);
+}
+
+function evaluateListExpression(state: EvaluationState, node: Ast.ListExpression, scope: Scope): Value.ListValue {
+    const elements: Value.TValue[] = [];
+    for (const csv of node.content.elements) {
+        const item: Ast.TListItem = csv.node;
+        if (item.kind !== Ast.NodeKind.RangeExpression) {
+            elements.push(evaluate(state, item, scope));
+            continue;
+        }
+
+        // Eg. `{1..3}` is `{1, 2, 3}`.
+        const start: number = expectValueKind(state, evaluate(state, item.left, scope), Type.TypeKind.Number).value;
+        const end: number = expectValueKind(state, evaluate(state, item.right, scope), Type.TypeKind.Number).value;
+        for (let value: number = start; value <= end; value += 1) {
+            elements.push(ValueUtils.numberFactory(value));
+        }
+    }
+
+    return ValueUtils.listFactory(elements);
+}
+
+function evaluateLiteralExpression(node: Ast.LiteralExpression): Value.TValue {
+    switch (node.literalKind) {
+        // Only a ListLiteral, which isn't an expression, has a LiteralKind.List.
+        case Ast.LiteralKind.List:
+            throw Assert.shouldNeverBeReachedTypescript();
+
+        case Ast.LiteralKind.Logical:
+            return ValueUtils.logicalFactory(node.literal === "true");
+
+        case Ast.LiteralKind.Null:
+            return ValueUtils.nullFactory();
+
+        case Ast.LiteralKind.Numeric:
+            return ValueUtils.numberFactory(numberFromLiteral(node.literal));
+
+        case Ast.LiteralKind.Text:
+            return ValueUtils.textFactory(textFromLiteral(node.literal));
+
+        default:
+            throw Assert.isNever(node.literalKind);
+    }
+}
+
+// Both operators short-circuit, and null is treated as an unknown logical,
+// eg. `null and false` is false while `null and true` is null.
+function evaluateLogicalExpression(state: EvaluationState, node: Ast.LogicalExpression, scope: Scope): Value.TValue {
+    const isAnd: boolean = node.operatorConstant.constantKind === Ast.LogicalOperatorKind.And;
+    const left: Value.TValue = evaluateLogicalOperand(state, node.operatorConstant.constantKind, node.left, scope);
+    // The result is decided by the left operand, eg. `false and x`.
+    if (left.kind === Type.TypeKind.Logical && left.value !== isAnd) {
+        return left;
+    }
+
+    const right: Value.TValue = evaluateLogicalOperand(
+        state,
+        node.operatorConstant.constantKind,
+        node.right as Ast.TNode,
+        scope,
+    );
+    if (left.kind === Type.TypeKind.Logical) {
+        return right;
+    }
+
+    return right.kind === Type.TypeKind.Logical && right.value !== isAnd ? right : ValueUtils.nullFactory();
+}
+
+function evaluateLogicalOperand(
+    state: EvaluationState,
+    operator: Ast.LogicalOperatorKind,
+    node: Ast.TNode,
+    scope: Scope,
+): Value.TValue {
+    const value: Value.TValue = evaluate(state, node, scope);
+    if (value.kind !== Type.TypeKind.Logical && value.kind !== Type.TypeKind.Null) {
+        throw expressionErrorFactory(
+            Localization.error_evaluation_unaryExpression(state.templates, operator, value.kind),
+        );
+    }
+
+    return value;
+}
+
+function evaluateRecordExpression(state: EvaluationState, node: Ast.RecordExpression, scope: Scope): Value.RecordValue {
+    // The fields are in scope of each other, eg. `[a = 1, b = a + 1]`.
+    const lazyByName: Map<string, Value.Lazy> = new Map();
+    const recordScope: Scope = {
+        lazyByName,
+        maybeParent: scope,
+    };
+    for (const csv of node.content.elements) {
+        const name: string = StringUtils.normalizeIdentifier(csv.node.key.literal);
+        if (lazyByName.has(name)) {
+            throw expressionErrorFactory(Localization.error_evaluation_duplicateField(state.templates, name));
+        }
+        lazyByName.set(
+            name,
+            ValueUtils.lazyFactory(name, () => evaluate(state, csv.node.value, recordScope)),
+        );
+    }
+
+    return ValueUtils.recordFactory(lazyByName);
+}
+
+function evaluateRecursivePrimaryExpression(
+    state: EvaluationState,
+    node: Ast.RecursivePrimaryExpression,
+    scope: Scope,
+): Value.TValue {
+    let value: Value.TValue = evaluate(state, node.head, scope);
+    for (const recursiveExpression of node.recursiveExpressions.elements) {
+        switch (recursiveExpression.kind) {
+            case Ast.NodeKind.FieldProjection:
+            case Ast.NodeKind.FieldSelector:
+                value = evaluateFieldAccess(state, recursiveExpression, value);
+                break;
+
+            case Ast.NodeKind.InvokeExpression:
+                value = invoke(
+                    state,
+                    expectValueKind(state, value, Type.TypeKind.Function),
+                    recursiveExpression.content.elements.map((csv: Ast.ICsv<Ast.TExpression>) =>
+                        evaluate(state, csv.node, scope),
+                    ),
+                );
+                break;
+
+            case Ast.NodeKind.ItemAccessExpression:
+                value = evaluateItemAccess(
+                    state,
+                    expectValueKind(state, value, Type.TypeKind.List),
+                    evaluate(state, recursiveExpression.content, scope),
+                    recursiveExpression.maybeOptionalConstant !== undefined,
+                );
+                break;
+
+            default:
+                throw Assert.isNever(recursiveExpression);
+        }
+    }
+
+    return value;
+}
+
+function evaluateItemAccess(
+    state: EvaluationState,
+    list: Value.ListValue,
+    indexValue: Value.TValue,
+    isOptional: boolean,
+): Value.TValue {
+    const index: number = expectValueKind(state, indexValue, Type.TypeKind.Number).value;
+    if (Number.isInteger(index) && index >= 0 && index < list.elements.length) {
+        return list.elements[index];
+    } else if (isOptional) {
+        return ValueUtils.nullFactory();
+    }
+
+    throw expressionErrorFactory(Localization.error_evaluation_indexOutOfRange(state.templates, index));
+}
+
+// Comparing with null is null, eg. `1 < null`.
+function evaluateRelational(
+    state: EvaluationState,
+    operator: Ast.RelationalOperatorKind,
+    left: Value.TValue,
+    right: Value.TValue,
+): Value.TValue {
+    if (left.kind === Type.TypeKind.Null || right.kind === Type.TypeKind.Null) {
+        return ValueUtils.nullFactory();
+    } else if (
+        left.kind !== right.kind ||
+        (left.kind !== Type.TypeKind.Logical && left.kind !== Type.TypeKind.Number && left.kind !== Type.TypeKind.Text)
+    ) {
+        throw expressionErrorFactory(
+            Localization.error_evaluation_binOpExpression(state.templates, operator, left.kind, right.kind),
+        );
+    }
+    const leftValue: boolean | number | string = left.value;
+    const rightValue: boolean | number | string = (right as Value.LogicalValue | Value.NumberValue | Value.TextValue)
+        .value;
+
+    switch (operator) {
+        case Ast.RelationalOperatorKind.GreaterThan:
+            return ValueUtils.logicalFactory(leftValue > rightValue);
+
+        case Ast.RelationalOperatorKind.GreaterThanEqualTo:
+            return ValueUtils.logicalFactory(leftValue >= rightValue);
+
+        case Ast.RelationalOperatorKind.LessThan:
+            return ValueUtils.logicalFactory(leftValue < rightValue);
+
+        case Ast.RelationalOperatorKind.LessThanEqualTo:
+            return ValueUtils.logicalFactory(leftValue <= rightValue);
+
+        default:
+            throw Assert.isNever(operator);
+    }
+}
+
+// The operators are applied from the innermost outwards, eg. `not not true` is `not (not true)`.
+function evaluateUnaryExpression(state: EvaluationState, node: Ast.UnaryExpression, scope: Scope): Value.TValue {
+    let value: Value.TValue = evaluate(state, node.typeExpression, scope);
+    for (let index: number = node.operators.elements.length - 1; index >= 0; index -= 1) {
+        const operator: Ast.UnaryOperatorKind = node.operators.elements[index].constantKind;
+        if (value.kind === Type.TypeKind.Null) {
+            continue;
+        }
+
+        if (operator === Ast.UnaryOperatorKind.Not && value.kind === Type.TypeKind.Logical) {
+            value = ValueUtils.logicalFactory(!value.value);
+        } else if (operator === Ast.UnaryOperatorKind.Negative && value.kind === Type.TypeKind.Number) {
+            value = ValueUtils.numberFactory(-value.value);
+        } else if (operator !== Ast.UnaryOperatorKind.Positive || value.kind !== Type.TypeKind.Number) {
+            throw expressionErrorFactory(
+                Localization.error_evaluation_unaryExpression(state.templates, operator, value.kind),
+            );
+        }
+    }
+
+    return value;
+}
+
+function invoke(state: EvaluationState, fn: Value.FunctionValue, args: ReadonlyArray<Value.TValue>): Value.TValue {
+    const numRequired: number = fn.parameters.filter((parameter: Type.FunctionParameter) => !parameter.isOptional)
+        .length;
+    if (args.length < numRequired) {
+        throw expressionErrorFactory(
+            Localization.error_evaluation_tooFewArguments(state.templates, numRequired, args.length),
+        );
+    } else if (args.length > fn.parameters.length) {
+        throw expressionErrorFactory(
+            Localization.error_evaluation_tooManyArguments(state.templates, fn.parameters.length, args.length),
+        );
+    }
+
+    return fn.invoke(
+        fn.parameters.map((parameter: Type.FunctionParameter, index: number) => {
+            if (index >= args.length) {
+                return ValueUtils.nullFactory();
+            }
+            const arg: Value.TValue = args[index];
+
+            // An optional parameter is also nullable.
+            return parameter.maybeType !== undefined
+                ? expectOfType(state, arg, parameter.maybeType, parameter.isNullable || parameter.isOptional)
+                : arg;
+        }),
+    );
+}
+
+function lookup(state: EvaluationState, scope: Scope, name: string): Value.TValue {
+    let maybeScope: Scope | undefined = scope;
+    while (maybeScope !== undefined) {
+        const maybeLazy: Value.Lazy | undefined = maybeScope.lazyByName.get(name);
+        if (maybeLazy !== undefined) {
+            return ValueUtils.force(state.templates, maybeLazy);
+        }
+        maybeScope = maybeScope.maybeParent;
+    }
+
+    const maybeLibraryValue: Value.TValue | undefined =
+        state.environment.maybeLibraryResolver !== undefined ? state.environment.maybeLibraryResolver(name) : undefined;
+    if (maybeLibraryValue === undefined) {
+        throw expressionErrorFactory(Localization.error_evaluation_unknownIdentifier(state.templates, name));
+    }
+
+    return maybeLibraryValue;
+}
+
+// `error "foo"` uses the default reason, while `error [Reason = "Foo", Message = "bar"]` gives its own.
+function expressionErrorFrom(state: EvaluationState, value: Value.TValue): ExpressionError {
+    if (value.kind === Type.TypeKind.Text) {
+        return new ExpressionError(ExpressionErrorReason, value.value, ValueUtils.nullFactory());
+    }
+    const record: Value.RecordValue = expectValueKind(state, value, Type.TypeKind.Record);
+
+    const maybeReason: Value.TValue | undefined = maybeFieldValue(state, record, "Reason");
+    const maybeMessage: Value.TValue | undefined = maybeFieldValue(state, record, "Message");
+    const maybeDetail: Value.TValue | undefined = maybeFieldValue(state, record, "Detail");
+    return new ExpressionError(
+        maybeReason !== undefined
+            ? expectValueKind(state, maybeReason, Type.TypeKind.Text).value
+            : ExpressionErrorReason,
+        maybeMessage !== undefined && maybeMessage.kind !== Type.TypeKind.Null
+            ? expectValueKind(state, maybeMessage, Type.TypeKind.Text).value
+            : "",
+        maybeDetail !== undefined ? maybeDetail : ValueUtils.nullFactory(),
+    );
+}
+
+function expressionErrorFactory(message: string): ExpressionError {
+    return new ExpressionError(ExpressionErrorReason, message, ValueUtils.nullFactory());
+}
+
+function expectField(
+    state: EvaluationState,
+    record: Value.RecordValue,
+    name: string,
+    isOptional: boolean,
+): Value.TValue {
+    return ValueUtils.force(state.templates, expectLazyField(state, record, name, isOptional));
+}
+
+// A missing field is null if the access is optional, eg. `[a = 1][b]?`.
+function expectLazyField(
+    state: EvaluationState,
+    record: Value.RecordValue,
+    name: string,
+    isOptional: boolean,
+): Value.Lazy {
+    const maybeField: Value.Lazy | undefined = record.fields.get(name);
+    if (maybeField !== undefined) {
+        return maybeField;
+    } else if (isOptional) {
+        return ValueUtils.evaluatedLazyFactory(name, ValueUtils.nullFactory());
+    }
+
+    throw expressionErrorFactory(Localization.error_evaluation_fieldNotFound(state.templates, name));
+}
+
+function maybeFieldValue(state: EvaluationState, record: Value.RecordValue, name: string): Value.TValue | undefined {
+    const maybeField: Value.Lazy | undefined = record.fields.get(name);
+    return maybeField !== undefined ? ValueUtils.force(state.templates, maybeField) : undefined;
+}
+
+function expectOfType(
+    state: EvaluationState,
+    value: Value.TValue,
+    typeKind: Type.TypeKind,
+    isNullable: boolean,
+): Value.TValue {
+    if (ValueUtils.isOfType(value, typeKind, isNullable)) {
+        return value;
+    }
+
+    throw expressionErrorFactory(
+        Localization.error_evaluation_typeMismatch(
+            state.templates,
+            value.kind,
+            isNullable ? `nullable ${typeKind}` : typeKind,
+        ),
+    );
+}
+
+function expectValueKind<K extends Value.TValueKind>(
+    state: EvaluationState,
+    value: Value.TValue,
+    kind: K,
+): Extract<Value.TValue, Value.IValue<K>> {
+    if (value.kind !== kind) {
+        throw expressionErrorFactory(Localization.error_evaluation_typeMismatch(state.templates, value.kind, kind));
+    }
+
+    return value as Extract<Value.TValue, Value.IValue<K>>;
+}
+
+function functionParameterFrom(node: Ast.IParameter<Ast.AsNullablePrimitiveType | undefined>): Type.FunctionParameter {
+    const nameLiteral: string = StringUtils.normalizeIdentifier(node.name.literal);
+    const isOptional: boolean = node.maybeOptionalConstant !== undefined;
+    if (node.maybeParameterType === undefined) {
+        return {
+            nameLiteral,
+            isOptional,
+            isNullable: true,
+            maybeType: undefined,
+        };
+    }
+    const simplified: AstUtils.SimplifiedType = AstUtils.simplifyAsNullablePrimitiveType(node.maybeParameterType);
+
+    return {
+        nameLiteral,
+        isOptional,
+        isNullable: simplified.isNullable,
+        maybeType: TypeUtils.typeKindFromPrimitiveTypeConstantKind(simplified.primitiveTypeConstantKind),
+    };
+}
+
+// The fields of the right record replace those of the same name in the left.
+function mergeRecords(left: Value.RecordValue, right: Value.RecordValue): Value.RecordValue {
+    return ValueUtils.recordFactory(new Map([...left.fields.entries(), ...right.fields.entries()]));
+}
+
+function numberFromLiteral(literal: string): number {
+    switch (literal) {
+        case "#infinity":
+            return Number.POSITIVE_INFINITY;
+
+        case "#nan":
+            return Number.NaN;
+
+        // Both decimal and hexadecimal literals, eg. `1.5e3` and `0xff`, are understood by Number.
+        default:
+            return Number(literal);
+    }
+}
+
+// Removes the quotes and replaces escape sequences, eg. `"a""b#(tab)"` is `a"b` followed by a tab.
+function textFromLiteral(literal: string): string {
+    return literal.slice(1, -1).replace(/""|#\(([^)]*)\)/g, (match: string, maybeEscapes: string | undefined) => {
+        if (maybeEscapes === undefined) {
+            return `"`;
+        }
+
+        const characters: string[] = [];
+        for (const escape of maybeEscapes.split(",")) {
+            const maybeCharacter: string | undefined = maybeEscapedCharacter(escape.trim());
+            if (maybeCharacter === undefined) {
+                return match;
+            }
+            characters.push(maybeCharacter);
+        }
+        return characters.join("");
+    });
+}
+
+function maybeEscapedCharacter(escape: string): string | undefined {
+    switch (escape) {
+        case "#":
+            return "#";
+
+        case "cr":
+            return "\r";
+
+        case "lf":
+            return "\n";
+
+        case "tab":
+            return "\t";
+
+        default:
+            return /^([0-9A-Fa-f]{4}|[0-9A-Fa-f]{8})$/.test(escape)
+                ? String.fromCodePoint(parseInt(escape, 16))
+                : undefined;
+    }
+}
@@ -0,0 +1,9 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import * as EvaluationError from "./error";
+import * as Value from "./value";
+import * as ValueUtils from "./valueUtils";
+
+export { EvaluationError, Value, ValueUtils };
+export * from "./evaluate";
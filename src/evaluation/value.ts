@@ -0,0 +1,55 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Type } from "../type";
+
+// The values the evaluator can produce, which are a subset of the values M has.
+// Each value's kind is the TypeKind of its primitive type, eg. `1` is TypeKind.Number.
+export type TValue = FunctionValue | ListValue | LogicalValue | NullValue | NumberValue | RecordValue | TextValue;
+export type TValueKind = TValue["kind"];
+
+export interface IValue<T extends TValueKind = TValueKind> {
+    readonly kind: T;
+    // Attached using a MetadataExpression, eg. `1 meta [a = 2]`.
+    readonly maybeMetadata: RecordValue | undefined;
+}
+
+export interface FunctionValue extends IValue<Type.TypeKind.Function> {
+    readonly parameters: ReadonlyArray<Type.FunctionParameter>;
+    // Only called once the arguments have been checked against the parameters,
+    // with null given for any optional parameter without an argument.
+    readonly invoke: (args: ReadonlyArray<TValue>) => TValue;
+}
+
+export interface ListValue extends IValue<Type.TypeKind.List> {
+    readonly elements: ReadonlyArray<TValue>;
+}
+
+export interface LogicalValue extends IValue<Type.TypeKind.Logical> {
+    readonly value: boolean;
+}
+
+export interface NullValue extends IValue<Type.TypeKind.Null> {}
+
+export interface NumberValue extends IValue<Type.TypeKind.Number> {
+    readonly value: number;
+}
+
+export interface RecordValue extends IValue<Type.TypeKind.Record> {
+    // Each field is only evaluated when it's first needed, eg. `[a = 1, b = error "x"][a]` is 1.
+    readonly fields: Map<string, Lazy>;
+}
+
+export interface TextValue extends IValue<Type.TypeKind.Text> {
+    readonly value: string;
+}
+
+// A binding which is evaluated the first time it's needed.
+// Both the value and any error are kept, so the expression is evaluated at most once.
+export interface Lazy {
+    readonly name: string;
+    readonly evaluate: () => TValue;
+    isEvaluating: boolean;
+    maybeValue: TValue | undefined;
+    maybeError: Error | undefined;
+}
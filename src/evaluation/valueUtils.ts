@@ -0,0 +1,191 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert } from "../common";
+import { ILocalizationTemplates, Localization } from "../localization";
+import { Type } from "../type";
+import { ExpressionError, ExpressionErrorReason } from "./error";
+import * as Value from "./value";
+
+export function functionFactory(
+    parameters: ReadonlyArray<Type.FunctionParameter>,
+    invoke: (args: ReadonlyArray<Value.TValue>) => Value.TValue,
+): Value.FunctionValue {
+    return {
+        kind: Type.TypeKind.Function,
+        maybeMetadata: undefined,
+        parameters,
+        invoke,
+    };
+}
+
+export function listFactory(elements: ReadonlyArray<Value.TValue>): Value.ListValue {
+    return {
+        kind: Type.TypeKind.List,
+        maybeMetadata: undefined,
+        elements,
+    };
+}
+
+export function logicalFactory(value: boolean): Value.LogicalValue {
+    return {
+        kind: Type.TypeKind.Logical,
+        maybeMetadata: undefined,
+        value,
+    };
+}
+
+export function nullFactory(): Value.NullValue {
+    return {
+        kind: Type.TypeKind.Null,
+        maybeMetadata: undefined,
+    };
+}
+
+export function numberFactory(value: number): Value.NumberValue {
+    return {
+        kind: Type.TypeKind.Number,
+        maybeMetadata: undefined,
+        value,
+    };
+}
+
+export function recordFactory(fields: Map<string, Value.Lazy>): Value.RecordValue {
+    return {
+        kind: Type.TypeKind.Record,
+        maybeMetadata: undefined,
+        fields,
+    };
+}
+
+export function evaluatedRecordFactory(fields: Map<string, Value.TValue>): Value.RecordValue {
+    return recordFactory(
+        new Map(
+            [...fields.entries()].map(([name, value]: [string, Value.TValue]) => [
+                name,
+                evaluatedLazyFactory(name, value),
+            ]),
+        ),
+    );
+}
+
+export function textFactory(value: string): Value.TextValue {
+    return {
+        kind: Type.TypeKind.Text,
+        maybeMetadata: undefined,
+        value,
+    };
+}
+
+export function lazyFactory(name: string, evaluateFn: () => Value.TValue): Value.Lazy {
+    return {
+        name,
+        evaluate: evaluateFn,
+        isEvaluating: false,
+        maybeValue: undefined,
+        maybeError: undefined,
+    };
+}
+
+export function evaluatedLazyFactory(name: string, value: Value.TValue): Value.Lazy {
+    return {
+        ...lazyFactory(name, () => value),
+        maybeValue: value,
+    };
+}
+
+// Evaluates the binding if it hasn't been already, throwing an ExpressionError if it depends on itself.
+export function force(templates: ILocalizationTemplates, lazy: Value.Lazy): Value.TValue {
+    if (lazy.maybeValue !== undefined) {
+        return lazy.maybeValue;
+    } else if (lazy.maybeError !== undefined) {
+        throw lazy.maybeError;
+    } else if (lazy.isEvaluating) {
+        throw new ExpressionError(
+            ExpressionErrorReason,
+            Localization.error_evaluation_cyclicReference(templates, lazy.name),
+            nullFactory(),
+        );
+    }
+
+    lazy.isEvaluating = true;
+    try {
+        lazy.maybeValue = lazy.evaluate();
+        return lazy.maybeValue;
+    } catch (err) {
+        lazy.maybeError = err;
+        throw err;
+    } finally {
+        lazy.isEvaluating = false;
+    }
+}
+
+// Metadata doesn't take part in equality.
+// Functions are only equal to themselves, and records are equal if they have the same fields in any order.
+// Fields are evaluated as they're compared.
+export function equalValue(templates: ILocalizationTemplates, left: Value.TValue, right: Value.TValue): boolean {
+    if (left.kind !== right.kind) {
+        return false;
+    }
+
+    switch (left.kind) {
+        case Type.TypeKind.Function:
+            return left.invoke === (right as Value.FunctionValue).invoke;
+
+        case Type.TypeKind.List: {
+            const rightElements: ReadonlyArray<Value.TValue> = (right as Value.ListValue).elements;
+            return (
+                left.elements.length === rightElements.length &&
+                left.elements.every((element: Value.TValue, index: number) =>
+                    equalValue(templates, element, rightElements[index]),
+                )
+            );
+        }
+
+        case Type.TypeKind.Logical:
+        case Type.TypeKind.Number:
+        case Type.TypeKind.Text:
+            return left.value === (right as Value.LogicalValue | Value.NumberValue | Value.TextValue).value;
+
+        case Type.TypeKind.Null:
+            return true;
+
+        case Type.TypeKind.Record: {
+            const rightFields: Map<string, Value.Lazy> = (right as Value.RecordValue).fields;
+            if (left.fields.size !== rightFields.size) {
+                return false;
+            }
+
+            for (const [key, leftField] of left.fields.entries()) {
+                const maybeRightField: Value.Lazy | undefined = rightFields.get(key);
+                if (
+                    maybeRightField === undefined ||
+                    !equalValue(templates, force(templates, leftField), force(templates, maybeRightField))
+                ) {
+                    return false;
+                }
+            }
+            return true;
+        }
+
+        default:
+            throw Assert.isNever(left);
+    }
+}
+
+// Does the value conform to the primitive type, eg. `x is nullable number`.
+export function isOfType(value: Value.TValue, typeKind: Type.TypeKind, isNullable: boolean): boolean {
+    switch (typeKind) {
+        case Type.TypeKind.Any:
+            return true;
+
+        case Type.TypeKind.AnyNonNull:
+            return value.kind !== Type.TypeKind.Null;
+
+        case Type.TypeKind.Null:
+            return value.kind === Type.TypeKind.Null;
+
+        default:
+            return value.kind === Type.TypeKind.Null ? isNullable : value.kind === typeKind;
+    }
+}
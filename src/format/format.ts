@@ -0,0 +1,67 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { CommonError, Doc, Result, ResultUtils } from "../common";
+import { LexError } from "../lexer";
+import { getLocalizationTemplates } from "../localization";
+import { IParserState, ParseError } from "../parser";
+import { DefaultSettings, LexSettings, ParseSettings } from "../settings";
+import { LexParseOk, TriedLexParse, tryLexParse } from "../task";
+import { printDocument } from "./print";
+
+export type TriedFormat<S extends IParserState = IParserState> = Result<
+    string,
+    CommonError.CommonError | LexError.TLexError | ParseError.TParseError<S>
+>;
+
+// How a group is laid out, re-exported from Doc as the settings below take it.
+export import BreakKind = Doc.BreakKind;
+
+export const enum IndentationLiteral {
+    SpaceX2 = "  ",
+    SpaceX4 = "    ",
+    Tab = "\t",
+}
+
+export const enum NewlineLiteral {
+    Unix = "\n",
+    Windows = "\r\n",
+}
+
+export interface FormatSettings<S extends IParserState = IParserState> extends LexSettings, ParseSettings<S> {
+    readonly indentationLiteral: IndentationLiteral;
+    readonly newlineLiteral: NewlineLiteral;
+    // The width a group is allowed to take up before being broken over multiple lines.
+    readonly maxWidth: number;
+    readonly letExpressionBreak: BreakKind;
+    readonly listExpressionBreak: BreakKind;
+    readonly recordExpressionBreak: BreakKind;
+    // Keyword operators such as `and` or `meta` always have surrounding spaces.
+    readonly spaceAroundOperators: boolean;
+}
+
+export const DefaultFormatSettings: FormatSettings = {
+    ...DefaultSettings,
+    indentationLiteral: IndentationLiteral.SpaceX4,
+    newlineLiteral: NewlineLiteral.Unix,
+    maxWidth: 120,
+    letExpressionBreak: BreakKind.Always,
+    listExpressionBreak: BreakKind.WhenExceedsMaxWidth,
+    recordExpressionBreak: BreakKind.WhenExceedsMaxWidth,
+    spaceAroundOperators: true,
+};
+
+export function tryFormat<S extends IParserState = IParserState>(
+    settings: FormatSettings<S>,
+    text: string,
+): TriedFormat<S> {
+    const triedLexParse: TriedLexParse<S> = tryLexParse(settings, text);
+    if (ResultUtils.isErr(triedLexParse)) {
+        return triedLexParse;
+    }
+    const lexParseOk: LexParseOk<S> = triedLexParse.value;
+
+    return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () =>
+        Doc.render(settings, printDocument(settings, lexParseOk)),
+    );
+}
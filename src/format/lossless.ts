@@ -0,0 +1,55 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Language } from "..";
+import { CommonError } from "../common";
+import { Ast } from "../language";
+import { TriviaUtils } from "../lexer";
+import { IParserState, NodeIdMap, NodeIdMapUtils } from "../parser";
+import { LexParseOk } from "../task";
+
+// Prints each leaf of the Ast in document order using the tokens it spans along with their trivia,
+// which reproduces the original text byte for byte.
+export function printLossless<S extends IParserState = IParserState>(lexParseOk: LexParseOk<S>): string {
+    const nodeIdMapCollection: NodeIdMap.Collection = lexParseOk.state.contextState.nodeIdMapCollection;
+    const tokens: ReadonlyArray<Language.TokenWithTrivia> = TriviaUtils.tokensWithTriviaFrom(lexParseOk.lexerSnapshot);
+    const leafs: ReadonlyArray<Ast.TNode> = lexParseOk.state.contextState.leafNodeIds
+        .map((nodeId: number) => NodeIdMapUtils.expectAstNode(nodeIdMapCollection.astNodeById, nodeId))
+        .sort(
+            (left: Ast.TNode, right: Ast.TNode) => left.tokenRange.tokenIndexStart - right.tokenRange.tokenIndexStart,
+        );
+
+    const printed: string[] = [];
+    let nextTokenIndex: number = 0;
+    for (const leaf of leafs) {
+        const tokenRange: Language.TokenRange = leaf.tokenRange;
+        if (tokenRange.tokenIndexStart !== nextTokenIndex && tokenRange.tokenIndexEnd >= tokenRange.tokenIndexStart) {
+            const details: {} = {
+                nodeId: leaf.id,
+                tokenIndexStart: tokenRange.tokenIndexStart,
+                nextTokenIndex,
+            };
+            throw new CommonError.InvariantError(`expected leafs to cover every token exactly once`, details);
+        }
+
+        // tokenIndexEnd is inclusive, and an Ast.ErrorPlaceholder may span zero tokens.
+        for (
+            let tokenIndex: number = tokenRange.tokenIndexStart;
+            tokenIndex <= tokenRange.tokenIndexEnd;
+            tokenIndex += 1
+        ) {
+            printed.push(TriviaUtils.printTokenWithTrivia(tokens[tokenIndex]));
+            nextTokenIndex = tokenIndex + 1;
+        }
+    }
+
+    if (nextTokenIndex !== tokens.length) {
+        const details: {} = {
+            nextTokenIndex,
+            numTokens: tokens.length,
+        };
+        throw new CommonError.InvariantError(`expected leafs to cover every token exactly once`, details);
+    }
+
+    return printed.join("");
+}
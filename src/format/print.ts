@@ -0,0 +1,450 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Language } from "..";
+import { Assert, CommonError, Doc } from "../common";
+import { Ast } from "../language";
+import { IParserState, NodeIdMap, NodeIdMapUtils } from "../parser";
+import { LexParseOk } from "../task";
+import { BreakKind, FormatSettings } from "./format";
+
+export function printDocument<S extends IParserState = IParserState>(
+    settings: FormatSettings<S>,
+    lexParseOk: LexParseOk<S>,
+): Doc.TDoc {
+    const state: PrintState = {
+        settings,
+        text: lexParseOk.lexerSnapshot.text,
+        commentsByLeafId: attachComments(
+            lexParseOk.state.contextState.nodeIdMapCollection,
+            lexParseOk.state.contextState.leafNodeIds,
+            lexParseOk.lexerSnapshot.comments,
+        ),
+    };
+
+    return print(state, lexParseOk.ast);
+}
+
+interface PrintState {
+    // Printing doesn't depend on the parser, so it's dropped to avoid carrying around the parser's state generic.
+    readonly settings: Omit<FormatSettings, "parser" | "newParserState">;
+    readonly text: string;
+    readonly commentsByLeafId: Map<number, LeafComments>;
+}
+
+// Comments which come after a leaf on the same line are trailing comments,
+// unless it's a multiline comment followed by another leaf on the same line.
+// Every other comment is a leading comment of the next leaf.
+interface LeafComments {
+    readonly leading: Language.TComment[];
+    readonly trailing: Language.TComment[];
+}
+
+function print(state: PrintState, node: Ast.TNode): Doc.TDoc {
+    switch (node.kind) {
+        case Ast.NodeKind.Constant:
+        case Ast.NodeKind.ErrorPlaceholder:
+        case Ast.NodeKind.GeneralizedIdentifier:
+        case Ast.NodeKind.Identifier:
+        case Ast.NodeKind.LiteralExpression:
+            return printLeaf(state, node);
+
+        case Ast.NodeKind.ArithmeticExpression:
+        case Ast.NodeKind.EqualityExpression:
+        case Ast.NodeKind.RelationalExpression:
+            return printBinOpExpression(state, node, state.settings.spaceAroundOperators);
+
+        case Ast.NodeKind.AsExpression:
+        case Ast.NodeKind.IsExpression:
+        case Ast.NodeKind.LogicalExpression:
+        case Ast.NodeKind.MetadataExpression:
+            return printBinOpExpression(state, node, true);
+
+        case Ast.NodeKind.ArrayWrapper:
+            return Doc.concat(
+                (node.elements as ReadonlyArray<Ast.TNode>).map((element: Ast.TNode) => print(state, element)),
+            );
+
+        case Ast.NodeKind.Csv:
+            return printCsv(state, node);
+
+        case Ast.NodeKind.AsNullablePrimitiveType:
+        case Ast.NodeKind.AsType:
+        case Ast.NodeKind.EachExpression:
+        case Ast.NodeKind.ErrorRaisingExpression:
+        case Ast.NodeKind.IsNullablePrimitiveType:
+        case Ast.NodeKind.NullablePrimitiveType:
+        case Ast.NodeKind.NullableType:
+        case Ast.NodeKind.OtherwiseExpression:
+        case Ast.NodeKind.TypePrimaryType:
+            return Doc.concat([print(state, node.constant), " ", print(state, node.paired)]);
+
+        case Ast.NodeKind.ErrorHandlingExpression:
+            return Doc.concat([
+                print(state, node.tryConstant),
+                " ",
+                print(state, node.protectedExpression),
+                maybePrint(state, node.maybeOtherwiseExpression, " "),
+            ]);
+
+        case Ast.NodeKind.FieldProjection:
+        case Ast.NodeKind.FieldSelector:
+        case Ast.NodeKind.ItemAccessExpression:
+            return Doc.concat([
+                printWrapped(state, node, print(state, node.content)),
+                maybePrint(state, node.maybeOptionalConstant),
+            ]);
+
+        case Ast.NodeKind.FieldSpecification:
+            return Doc.concat([
+                maybePrint(state, node.maybeOptionalConstant),
+                node.maybeOptionalConstant ? " " : "",
+                print(state, node.name),
+                maybePrint(state, node.maybeFieldTypeSpecification, " "),
+            ]);
+
+        case Ast.NodeKind.FieldSpecificationList: {
+            const hasFields: boolean = node.content.elements.length > 0;
+            const content: Doc.TDoc = Doc.concat([
+                printCsvArray(state, node.content),
+                maybePrint(state, node.maybeOpenRecordMarkerConstant, hasFields ? Doc.NormalLine : ""),
+            ]);
+            return printBreakableWrapped(state, node, content, BreakKind.WhenExceedsMaxWidth);
+        }
+
+        case Ast.NodeKind.FieldTypeSpecification:
+            return Doc.concat([print(state, node.equalConstant), " ", print(state, node.fieldType)]);
+
+        case Ast.NodeKind.FunctionExpression:
+            return Doc.concat([
+                print(state, node.parameters),
+                maybePrint(state, node.maybeFunctionReturnType, " "),
+                " ",
+                print(state, node.fatArrowConstant),
+                " ",
+                print(state, node.expression),
+            ]);
+
+        case Ast.NodeKind.FunctionType:
+            return Doc.concat([
+                print(state, node.functionConstant),
+                " ",
+                print(state, node.parameters),
+                " ",
+                print(state, node.functionReturnType),
+            ]);
+
+        case Ast.NodeKind.GeneralizedIdentifierPairedAnyLiteral:
+        case Ast.NodeKind.GeneralizedIdentifierPairedExpression:
+        case Ast.NodeKind.IdentifierPairedExpression:
+            return Doc.concat([
+                print(state, node.key),
+                " ",
+                print(state, node.equalConstant),
+                " ",
+                print(state, node.value),
+            ]);
+
+        case Ast.NodeKind.IdentifierExpression:
+            return Doc.concat([maybePrint(state, node.maybeInclusiveConstant), print(state, node.identifier)]);
+
+        case Ast.NodeKind.IfExpression:
+            return printIfExpression(state, node);
+
+        case Ast.NodeKind.InvokeExpression:
+        case Ast.NodeKind.ParameterList:
+            return printBreakableWrapped(
+                state,
+                node,
+                printCsvArray(state, node.content),
+                BreakKind.WhenExceedsMaxWidth,
+            );
+
+        case Ast.NodeKind.LetExpression:
+            return printLetExpression(state, node);
+
+        case Ast.NodeKind.ListExpression:
+        case Ast.NodeKind.ListLiteral:
+            return printBreakableWrapped(
+                state,
+                node,
+                printCsvArray(state, node.content),
+                state.settings.listExpressionBreak,
+            );
+
+        case Ast.NodeKind.RecordExpression:
+        case Ast.NodeKind.RecordLiteral:
+            return printBreakableWrapped(
+                state,
+                node,
+                printCsvArray(state, node.content),
+                state.settings.recordExpressionBreak,
+            );
+
+        case Ast.NodeKind.ListType:
+        case Ast.NodeKind.ParenthesizedExpression:
+            return printWrapped(state, node, print(state, node.content));
+
+        case Ast.NodeKind.NotImplementedExpression:
+            return print(state, node.ellipsisConstant);
+
+        case Ast.NodeKind.Parameter:
+            return Doc.concat([
+                maybePrint(state, node.maybeOptionalConstant),
+                node.maybeOptionalConstant ? " " : "",
+                print(state, node.name),
+                maybePrint(state, node.maybeParameterType, " "),
+            ]);
+
+        case Ast.NodeKind.PrimitiveType:
+            return print(state, node.primitiveType);
+
+        case Ast.NodeKind.RangeExpression:
+            return Doc.concat([print(state, node.left), print(state, node.rangeConstant), print(state, node.right)]);
+
+        case Ast.NodeKind.RecordType:
+            return print(state, node.fields);
+
+        case Ast.NodeKind.RecursivePrimaryExpression:
+            return Doc.concat([print(state, node.head), print(state, node.recursiveExpressions)]);
+
+        case Ast.NodeKind.Section:
+            return printSection(state, node);
+
+        case Ast.NodeKind.SectionMember:
+            return Doc.concat([
+                maybePrint(state, node.maybeLiteralAttributes),
+                node.maybeLiteralAttributes ? Doc.NormalLine : "",
+                maybePrint(state, node.maybeSharedConstant),
+                node.maybeSharedConstant ? " " : "",
+                print(state, node.namePairedExpression),
+                print(state, node.semicolonConstant),
+            ]);
+
+        case Ast.NodeKind.TableType:
+            return Doc.concat([print(state, node.tableConstant), " ", print(state, node.rowType)]);
+
+        case Ast.NodeKind.UnaryExpression:
+            return Doc.concat([
+                ...node.operators.elements.map((operator: Ast.IConstant<Ast.UnaryOperatorKind>) =>
+                    operator.constantKind === Ast.UnaryOperatorKind.Not
+                        ? Doc.concat([print(state, operator), " "])
+                        : print(state, operator),
+                ),
+                print(state, node.typeExpression),
+            ]);
+
+        default:
+            throw Assert.isNever(node);
+    }
+}
+
+function maybePrint(state: PrintState, maybeNode: Ast.TNode | undefined, prefix: Doc.TDoc = ""): Doc.TDoc {
+    return maybeNode !== undefined ? Doc.concat([prefix, print(state, maybeNode)]) : "";
+}
+
+function printLeaf(
+    state: PrintState,
+    node: Ast.TConstant | Ast.ErrorPlaceholder | Ast.GeneralizedIdentifier | Ast.Identifier | Ast.LiteralExpression,
+): Doc.TDoc {
+    let text: string;
+    switch (node.kind) {
+        case Ast.NodeKind.Constant:
+            text = node.constantKind;
+            break;
+
+        case Ast.NodeKind.ErrorPlaceholder:
+            text = state.text.slice(node.tokenRange.positionStart.codeUnit, node.tokenRange.positionEnd.codeUnit);
+            break;
+
+        case Ast.NodeKind.GeneralizedIdentifier:
+        case Ast.NodeKind.Identifier:
+        case Ast.NodeKind.LiteralExpression:
+            text = node.literal;
+            break;
+
+        default:
+            throw Assert.isNever(node);
+    }
+
+    const maybeComments: LeafComments | undefined = state.commentsByLeafId.get(node.id);
+    if (maybeComments === undefined) {
+        return text;
+    }
+    const comments: LeafComments = maybeComments;
+
+    const docs: Doc.TDoc[] = [];
+    for (const comment of comments.leading) {
+        docs.push(comment.data, comment.containsNewline ? Doc.HardLine : " ");
+    }
+    docs.push(text);
+    for (const comment of comments.trailing) {
+        docs.push(comment.kind === Language.CommentKind.Line ? Doc.lineSuffix(` ${comment.data}`) : ` ${comment.data}`);
+    }
+
+    return Doc.concat(docs);
+}
+
+function printBinOpExpression(state: PrintState, node: Ast.TBinOpExpression, spaceAroundOperator: boolean): Doc.TDoc {
+    const separator: string = spaceAroundOperator ? " " : "";
+    return Doc.concat([
+        print(state, node.left),
+        separator,
+        print(state, node.operatorConstant),
+        separator,
+        print(state, node.right),
+    ]);
+}
+
+function printCsv(state: PrintState, node: Ast.TCsv): Doc.TDoc {
+    return Doc.concat([print(state, node.node), maybePrint(state, node.maybeCommaConstant)]);
+}
+
+// Each Csv is placed on its own line if the enclosing group is broken.
+function printCsvArray(state: PrintState, node: Ast.TCsvArray): Doc.TDoc {
+    return Doc.join(
+        Doc.NormalLine,
+        node.elements.map((csv: Ast.TCsv) => printCsv(state, csv)),
+    );
+}
+
+function printWrapped(state: PrintState, node: Ast.TWrapped, content: Doc.TDoc): Doc.TDoc {
+    return Doc.concat([print(state, node.openWrapperConstant), content, print(state, node.closeWrapperConstant)]);
+}
+
+function printBreakableWrapped(
+    state: PrintState,
+    node: Ast.TWrapped,
+    content: Doc.TDoc,
+    breakKind: BreakKind,
+): Doc.TDoc {
+    if (isEmptyWrapped(node)) {
+        return printWrapped(state, node, content);
+    }
+
+    return Doc.group(
+        Doc.concat([
+            print(state, node.openWrapperConstant),
+            Doc.indent(Doc.concat([Doc.SoftLine, content])),
+            Doc.SoftLine,
+            print(state, node.closeWrapperConstant),
+        ]),
+        breakKind,
+    );
+}
+
+function printLetExpression(state: PrintState, node: Ast.LetExpression): Doc.TDoc {
+    return Doc.group(
+        Doc.concat([
+            print(state, node.letConstant),
+            Doc.indent(Doc.concat([Doc.NormalLine, printCsvArray(state, node.variableList)])),
+            Doc.NormalLine,
+            print(state, node.inConstant),
+            Doc.indent(Doc.concat([Doc.NormalLine, print(state, node.expression)])),
+        ]),
+        state.settings.letExpressionBreak,
+    );
+}
+
+// Chains of `else if` are kept at the same indentation level.
+function printIfExpression(state: PrintState, node: Ast.IfExpression): Doc.TDoc {
+    const falseExpression: Doc.TDoc =
+        node.falseExpression.kind === Ast.NodeKind.IfExpression
+            ? Doc.concat([" ", print(state, node.falseExpression)])
+            : Doc.indent(Doc.concat([Doc.NormalLine, print(state, node.falseExpression)]));
+
+    return Doc.group(
+        Doc.concat([
+            print(state, node.ifConstant),
+            " ",
+            print(state, node.condition),
+            " ",
+            print(state, node.thenConstant),
+            Doc.indent(Doc.concat([Doc.NormalLine, print(state, node.trueExpression)])),
+            Doc.NormalLine,
+            print(state, node.elseConstant),
+            falseExpression,
+        ]),
+        BreakKind.WhenExceedsMaxWidth,
+    );
+}
+
+function printSection(state: PrintState, node: Ast.Section): Doc.TDoc {
+    return Doc.concat([
+        maybePrint(state, node.maybeLiteralAttributes),
+        node.maybeLiteralAttributes ? Doc.HardLine : "",
+        print(state, node.sectionConstant),
+        maybePrint(state, node.maybeName, " "),
+        print(state, node.semicolonConstant),
+        ...node.sectionMembers.elements.map((sectionMember: Ast.SectionMember) =>
+            Doc.concat([Doc.HardLine, print(state, sectionMember)]),
+        ),
+    ]);
+}
+
+function isEmptyWrapped(node: Ast.TWrapped): boolean {
+    const content: Ast.TNode = node.content as Ast.TNode;
+    return content.kind === Ast.NodeKind.ArrayWrapper && content.elements.length === 0;
+}
+
+function attachComments(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    comments: ReadonlyArray<Language.TComment>,
+): Map<number, LeafComments> {
+    const commentsByLeafId: Map<number, LeafComments> = new Map();
+    if (!comments.length) {
+        return commentsByLeafId;
+    }
+
+    const leafs: ReadonlyArray<Ast.TNode> = leafNodeIds
+        .map((nodeId: number) => NodeIdMapUtils.expectAstNode(nodeIdMapCollection.astNodeById, nodeId))
+        .sort(
+            (left: Ast.TNode, right: Ast.TNode) =>
+                left.tokenRange.positionStart.codeUnit - right.tokenRange.positionStart.codeUnit,
+        );
+    if (!leafs.length) {
+        const details: {} = { numComments: comments.length };
+        throw new CommonError.InvariantError(`expected at least one leaf to attach comments to`, details);
+    }
+
+    let leafIndex: number = 0;
+    for (const comment of comments) {
+        while (
+            leafIndex < leafs.length &&
+            leafs[leafIndex].tokenRange.positionStart.codeUnit < comment.positionStart.codeUnit
+        ) {
+            leafIndex += 1;
+        }
+
+        const maybePreviousLeaf: Ast.TNode | undefined = leafs[leafIndex - 1];
+        const maybeNextLeaf: Ast.TNode | undefined = leafs[leafIndex];
+        const isTrailing: boolean =
+            maybePreviousLeaf !== undefined &&
+            (maybeNextLeaf === undefined ||
+                (maybePreviousLeaf.tokenRange.positionEnd.lineNumber === comment.positionStart.lineNumber &&
+                    (comment.kind === Language.CommentKind.Line ||
+                        maybeNextLeaf.tokenRange.positionStart.lineNumber !== comment.positionEnd.lineNumber)));
+
+        if (isTrailing) {
+            expectLeafComments(commentsByLeafId, maybePreviousLeaf!.id).trailing.push(comment);
+        } else {
+            expectLeafComments(commentsByLeafId, maybeNextLeaf!.id).leading.push(comment);
+        }
+    }
+
+    return commentsByLeafId;
+}
+
+function expectLeafComments(commentsByLeafId: Map<number, LeafComments>, nodeId: number): LeafComments {
+    let maybeLeafComments: LeafComments | undefined = commentsByLeafId.get(nodeId);
+    if (maybeLeafComments === undefined) {
+        maybeLeafComments = {
+            leading: [],
+            trailing: [],
+        };
+        commentsByLeafId.set(nodeId, maybeLeafComments);
+    }
+
+    return maybeLeafComments;
+}
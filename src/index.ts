@@ -1,11 +1,18 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
+import * as AstDiff from "./astDiff";
+import * as Evaluation from "./evaluation";
+import * as Format from "./format";
 import * as Inspection from "./inspection";
 import * as Language from "./language";
+import * as Library from "./library";
+import * as Lint from "./lint";
+import * as Refactor from "./refactor";
+import * as Server from "./server";
 import * as Task from "./task";
 
-export { Inspection, Language, Task };
+export { AstDiff, Evaluation, Format, Inspection, Language, Library, Lint, Refactor, Server, Task };
 export * from "./common";
 export * from "./lexer";
 export * from "./localization";
@@ -5,16 +5,46 @@ import { Language } from "..";
 import { CommonError, Result } from "../common";
 import { ResultUtils } from "../common/result";
 import { Ast, ExpressionKeywords } from "../language";
+import { TLibraryDefinition } from "../library";
 import { getLocalizationTemplates } from "../localization";
-import { AncestryUtils, IParserState, NodeIdMap, NodeIdMapUtils, ParseError, TXorNode, XorNodeKind } from "../parser";
-import { CommonSettings } from "../settings";
+import {
+    AncestryUtils,
+    IParserState,
+    NodeIdMap,
+    NodeIdMapIterator,
+    NodeIdMapUtils,
+    ParseError,
+    TXorNode,
+    XorNodeKind,
+} from "../parser";
+import { CommonSettings, libraryDefinitionsFor } from "../settings";
+import { Type } from "../type";
 import { ActiveNode } from "./activeNode";
 import { Position, PositionUtils } from "./position";
+import { ScopeItemByKey, TriedScopeForRoot, tryScopeItems } from "./scope";
+import { ScopeTypeByKey, TriedScopeType, TriedType, tryScopeType, tryType } from "./type";
 
-export type Autocomplete = ReadonlyArray<Language.KeywordKind>;
+export type Autocomplete = ReadonlyArray<AutocompleteItem>;
 
 export type TriedAutocomplete = Result<Autocomplete, CommonError.CommonError>;
 
+export const enum AutocompleteItemKind {
+    Field = "Field",
+    Identifier = "Identifier",
+    Keyword = "Keyword",
+    LibraryMember = "LibraryMember",
+    PrimitiveType = "PrimitiveType",
+}
+
+export interface AutocompleteItem {
+    readonly kind: AutocompleteItemKind;
+    readonly label: string;
+    // Extra information for the label, such as the TypeKind of an identifier or the description of a library member.
+    readonly maybeDetail: string | undefined;
+    // What should be written into the document if the item is selected.
+    readonly insertText: string;
+}
+
 export const StartOfDoctumentKeywords: ReadonlyArray<Language.KeywordKind> = [
     ...ExpressionKeywords,
     Language.KeywordKind.Section,
@@ -23,27 +53,54 @@ export const StartOfDoctumentKeywords: ReadonlyArray<Language.KeywordKind> = [
 export function tryAutocomplete<S extends IParserState = IParserState>(
     settings: CommonSettings,
     nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
     maybeActiveNode: ActiveNode | undefined,
     maybeParseError: ParseError.ParseError<S> | undefined,
 ): TriedAutocomplete {
     if (maybeActiveNode === undefined) {
-        return ResultUtils.okFactory([...ExpressionAutocomplete, Language.KeywordKind.Section]);
+        return ResultUtils.okFactory([
+            ...StartOfDoctumentKeywords.map(keywordAutocompleteItemFactory),
+            ...libraryAutocompleteItems(settings, undefined),
+        ]);
     }
+    const activeNode: ActiveNode = maybeActiveNode;
+
     return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () =>
-        inspectAutocomplete(nodeIdMapCollection, maybeActiveNode, maybeParseError),
+        inspectAutocomplete(settings, nodeIdMapCollection, leafNodeIds, activeNode, maybeParseError),
     );
 }
 
 function inspectAutocomplete<S extends IParserState = IParserState>(
+    settings: CommonSettings,
     nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
     activeNode: ActiveNode,
     maybeParseError: ParseError.ParseError<S> | undefined,
-): ReadonlyArray<Language.KeywordKind> {
+): Autocomplete {
     const leaf: TXorNode = activeNode.ancestry[0];
     const maybeParseErrorToken: Language.Token | undefined = maybeParseError
         ? ParseError.maybeTokenFrom(maybeParseError.innerError)
         : undefined;
 
+    // Field names and primitive types are the only valid things to write in their respective contexts.
+    const maybeFieldAutocomplete: Autocomplete | undefined = maybeAutocompleteFields(
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        activeNode,
+        maybeParseErrorToken,
+    );
+    if (maybeFieldAutocomplete !== undefined) {
+        return maybeFieldAutocomplete;
+    }
+    const maybePrimitiveTypeAutocomplete: Autocomplete | undefined = maybeAutocompletePrimitiveTypes(
+        activeNode,
+        maybeParseErrorToken,
+    );
+    if (maybePrimitiveTypeAutocomplete !== undefined) {
+        return maybePrimitiveTypeAutocomplete;
+    }
+
     let maybePositionName: string | undefined;
     if (PositionUtils.isInXorNode(nodeIdMapCollection, activeNode.position, leaf, false, true)) {
         if (activeNode.maybeIdentifierUnderPosition !== undefined) {
@@ -70,7 +127,18 @@ function inspectAutocomplete<S extends IParserState = IParserState>(
         activeNode,
         maybeParseErrorToken,
     );
-    return filterRecommendations(inspected, maybePositionName);
+    const keywordItems: ReadonlyArray<AutocompleteItem> = filterRecommendations(inspected, maybePositionName).map(
+        keywordAutocompleteItemFactory,
+    );
+    if (!isIdentifierExpected(activeNode, inspected)) {
+        return keywordItems;
+    }
+
+    return [
+        ...keywordItems,
+        ...identifierAutocompleteItems(settings, nodeIdMapCollection, leafNodeIds, activeNode, maybePositionName),
+        ...libraryAutocompleteItems(settings, maybePositionName),
+    ];
 }
 
 // Travel the ancestry path in Active node in [parent, child] pairs.
@@ -406,3 +474,298 @@ function autocompleteSectionMember(
 
     return [];
 }
+
+// An identifier can be written either where an expression is expected, or if an identifier is being written.
+function isIdentifierExpected(activeNode: ActiveNode, keywords: ReadonlyArray<Language.KeywordKind>): boolean {
+    const ancestry: ReadonlyArray<TXorNode> = activeNode.ancestry;
+    if (
+        ancestry.length > 1 &&
+        ancestry[0].node.kind === Ast.NodeKind.Identifier &&
+        ancestry[1].node.kind === Ast.NodeKind.IdentifierExpression
+    ) {
+        return true;
+    }
+
+    return ExpressionKeywords.every((keywordKind: Language.KeywordKind) => keywords.indexOf(keywordKind) !== -1);
+}
+
+function identifierAutocompleteItems(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    activeNode: ActiveNode,
+    maybePositionName: string | undefined,
+): ReadonlyArray<AutocompleteItem> {
+    const nodeId: number = activeNode.ancestry[0].node.id;
+
+    const triedScopeItems: TriedScopeForRoot = tryScopeItems(
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        nodeId,
+        undefined,
+    );
+    if (ResultUtils.isErr(triedScopeItems)) {
+        throw triedScopeItems.error;
+    }
+    const scopeItemByKey: ScopeItemByKey = triedScopeItems.value;
+
+    const triedScopeType: TriedScopeType = tryScopeType(settings, nodeIdMapCollection, leafNodeIds, nodeId);
+    if (ResultUtils.isErr(triedScopeType)) {
+        throw triedScopeType.error;
+    }
+    const scopeTypeByKey: ScopeTypeByKey = triedScopeType.value;
+
+    const items: AutocompleteItem[] = [];
+    for (const [key, scopeItem] of scopeItemByKey.entries()) {
+        // A recursive identifier, such as the key currently being assigned to, requires an '@' prefix.
+        if (scopeItem.isRecursive || (maybePositionName !== undefined && !key.startsWith(maybePositionName))) {
+            continue;
+        }
+
+        const maybeType: Type.TType | undefined = scopeTypeByKey.get(key);
+        items.push({
+            kind: AutocompleteItemKind.Identifier,
+            label: key,
+            maybeDetail: maybeType !== undefined ? maybeType.kind : undefined,
+            insertText: key,
+        });
+    }
+
+    return items;
+}
+
+function libraryAutocompleteItems(
+    settings: CommonSettings,
+    maybePositionName: string | undefined,
+): ReadonlyArray<AutocompleteItem> {
+    const items: AutocompleteItem[] = [];
+    for (const definition of libraryDefinitionsFor(settings).values()) {
+        if (maybePositionName === undefined || definition.label.startsWith(maybePositionName)) {
+            items.push(libraryAutocompleteItemFactory(definition));
+        }
+    }
+
+    return items;
+}
+
+// Field names for a FieldSelector, either a parsed one such as 'foo[bar|]', or an unterminated one such as 'foo[|'.
+function maybeAutocompleteFields(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    activeNode: ActiveNode,
+    maybeParseErrorToken: Language.Token | undefined,
+): Autocomplete | undefined {
+    const ancestry: ReadonlyArray<TXorNode> = activeNode.ancestry;
+
+    let maybeFieldsOfType: Type.TType | undefined;
+    let maybePositionName: string | undefined;
+    const maybeFieldSelector: TXorNode | undefined = ancestry
+        .slice(0, 2)
+        .find((xorNode: TXorNode) => xorNode.node.kind === Ast.NodeKind.FieldSelector);
+    if (maybeFieldSelector !== undefined) {
+        maybeFieldsOfType = maybeFieldSelectorSubjectType(
+            settings,
+            nodeIdMapCollection,
+            leafNodeIds,
+            maybeFieldSelector,
+        );
+        maybePositionName =
+            activeNode.maybeIdentifierUnderPosition !== undefined
+                ? activeNode.maybeIdentifierUnderPosition.literal
+                : undefined;
+    } else if (
+        maybeParseErrorToken !== undefined &&
+        maybeParseErrorToken.kind === Language.TokenKind.LeftBracket &&
+        PositionUtils.isAfterTokenPosition(activeNode.position, maybeParseErrorToken.positionStart, false)
+    ) {
+        const maybeFieldsOf: TXorNode | undefined = maybeUnterminatedFieldSelectorPreviousSibling(
+            nodeIdMapCollection,
+            ancestry,
+        );
+        maybeFieldsOfType =
+            maybeFieldsOf !== undefined
+                ? expectType(settings, nodeIdMapCollection, leafNodeIds, maybeFieldsOf.node.id)
+                : undefined;
+    }
+
+    if (maybeFieldsOfType === undefined) {
+        return undefined;
+    }
+    const fieldsOfType: Type.TType = maybeFieldsOfType;
+    if (
+        fieldsOfType.maybeExtendedKind !== Type.ExtendedTypeKind.DefinedRecord &&
+        fieldsOfType.maybeExtendedKind !== Type.ExtendedTypeKind.DefinedTable
+    ) {
+        return undefined;
+    }
+
+    const items: AutocompleteItem[] = [];
+    for (const [fieldName, fieldType] of fieldsOfType.fields.entries()) {
+        if (maybePositionName === undefined || fieldName.startsWith(maybePositionName)) {
+            items.push({
+                kind: AutocompleteItemKind.Field,
+                label: fieldName,
+                maybeDetail: fieldType.kind,
+                insertText: fieldName,
+            });
+        }
+    }
+
+    return items;
+}
+
+// 'foo[bar|]' selects from foo, while 'each [bar|]' implicitly selects from '_'.
+function maybeFieldSelectorSubjectType(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    fieldSelector: TXorNode,
+): Type.TType | undefined {
+    if (
+        NodeIdMapUtils.maybeParentXorNode(nodeIdMapCollection, fieldSelector.node.id, [Ast.NodeKind.ArrayWrapper]) !==
+        undefined
+    ) {
+        const previousSibling: TXorNode = NodeIdMapUtils.expectRecursiveExpressionPreviousSibling(
+            nodeIdMapCollection,
+            fieldSelector.node.id,
+        );
+        return expectType(settings, nodeIdMapCollection, leafNodeIds, previousSibling.node.id);
+    }
+
+    const triedScopeType: TriedScopeType = tryScopeType(
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        fieldSelector.node.id,
+    );
+    if (ResultUtils.isErr(triedScopeType)) {
+        throw triedScopeType.error;
+    }
+    return triedScopeType.value.get("_");
+}
+
+function expectType(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    nodeId: number,
+): Type.TType {
+    const triedType: TriedType = tryType(settings, nodeIdMapCollection, leafNodeIds, nodeId);
+    if (ResultUtils.isErr(triedType)) {
+        throw triedType.error;
+    }
+    return triedType.value;
+}
+
+// 'foo[|' creates an UnterminatedBracketError before a FieldSelector context is created,
+// leaving the ancestry as [ArrayWrapper, RecursivePrimaryExpression, ...].
+function maybeUnterminatedFieldSelectorPreviousSibling(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    ancestry: ReadonlyArray<TXorNode>,
+): TXorNode | undefined {
+    if (
+        ancestry.length < 2 ||
+        ancestry[0].node.kind !== Ast.NodeKind.ArrayWrapper ||
+        ancestry[1].node.kind !== Ast.NodeKind.RecursivePrimaryExpression
+    ) {
+        return undefined;
+    }
+
+    const recursiveExpressions: ReadonlyArray<TXorNode> = NodeIdMapIterator.expectXorChildren(
+        nodeIdMapCollection,
+        ancestry[0].node.id,
+    );
+    return recursiveExpressions.length !== 0
+        ? recursiveExpressions[recursiveExpressions.length - 1]
+        : NodeIdMapUtils.maybeXorChildByAttributeIndex(nodeIdMapCollection, ancestry[1].node.id, 0, undefined);
+}
+
+// Primitive types are expected after 'as', 'is', or 'type'. Eg. '1 as |', '(x as |) => x', or 'type |'.
+function maybeAutocompletePrimitiveTypes(
+    activeNode: ActiveNode,
+    maybeParseErrorToken: Language.Token | undefined,
+): Autocomplete | undefined {
+    const leaf: TXorNode = activeNode.ancestry[0];
+
+    let maybePositionName: string | undefined;
+    switch (leaf.node.kind) {
+        case Ast.NodeKind.PrimitiveType:
+            if (leaf.kind === XorNodeKind.Ast) {
+                maybePositionName = (leaf.node as Ast.PrimitiveType).primitiveType.constantKind;
+            }
+            break;
+
+        case Ast.NodeKind.TypePrimaryType:
+            if (leaf.kind === XorNodeKind.Ast) {
+                return undefined;
+            }
+            break;
+
+        default:
+            return undefined;
+    }
+
+    // Eg. '1 as n|' where 'n' fails to be read as a primitive type.
+    if (
+        maybePositionName === undefined &&
+        maybeParseErrorToken !== undefined &&
+        PositionUtils.isInToken(activeNode.position, maybeParseErrorToken, false, true)
+    ) {
+        maybePositionName = maybeParseErrorToken.data;
+    }
+
+    const positionName: string | undefined = maybePositionName;
+    return PrimitiveTypeConstantKinds.filter(
+        (primitiveTypeConstantKind: Ast.PrimitiveTypeConstantKind) =>
+            positionName === undefined || primitiveTypeConstantKind.startsWith(positionName),
+    ).map((primitiveTypeConstantKind: Ast.PrimitiveTypeConstantKind) => {
+        return {
+            kind: AutocompleteItemKind.PrimitiveType,
+            label: primitiveTypeConstantKind,
+            maybeDetail: undefined,
+            insertText: primitiveTypeConstantKind,
+        };
+    });
+}
+
+function keywordAutocompleteItemFactory(keywordKind: Language.KeywordKind): AutocompleteItem {
+    return {
+        kind: AutocompleteItemKind.Keyword,
+        label: keywordKind,
+        maybeDetail: undefined,
+        insertText: keywordKind,
+    };
+}
+
+function libraryAutocompleteItemFactory(definition: TLibraryDefinition): AutocompleteItem {
+    return {
+        kind: AutocompleteItemKind.LibraryMember,
+        label: definition.label,
+        maybeDetail: definition.description,
+        insertText: definition.label,
+    };
+}
+
+const PrimitiveTypeConstantKinds: ReadonlyArray<Ast.PrimitiveTypeConstantKind> = [
+    Ast.PrimitiveTypeConstantKind.Action,
+    Ast.PrimitiveTypeConstantKind.Any,
+    Ast.PrimitiveTypeConstantKind.AnyNonNull,
+    Ast.PrimitiveTypeConstantKind.Binary,
+    Ast.PrimitiveTypeConstantKind.Date,
+    Ast.PrimitiveTypeConstantKind.DateTime,
+    Ast.PrimitiveTypeConstantKind.DateTimeZone,
+    Ast.PrimitiveTypeConstantKind.Duration,
+    Ast.PrimitiveTypeConstantKind.Function,
+    Ast.PrimitiveTypeConstantKind.List,
+    Ast.PrimitiveTypeConstantKind.Logical,
+    Ast.PrimitiveTypeConstantKind.None,
+    Ast.PrimitiveTypeConstantKind.Null,
+    Ast.PrimitiveTypeConstantKind.Number,
+    Ast.PrimitiveTypeConstantKind.Record,
+    Ast.PrimitiveTypeConstantKind.Table,
+    Ast.PrimitiveTypeConstantKind.Text,
+    Ast.PrimitiveTypeConstantKind.Time,
+    Ast.PrimitiveTypeConstantKind.Type,
+];
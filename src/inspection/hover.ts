@@ -0,0 +1,265 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert, CommonError, Result, ResultUtils } from "../common";
+import { Ast, CommentKind, TComment, TokenPosition } from "../language";
+import { getLocalizationTemplates } from "../localization";
+import { NodeIdMap, NodeIdMapUtils, TXorNode } from "../parser";
+import { CommonSettings } from "../settings";
+import { Type, TypeUtils } from "../type";
+import { ActiveNode, ActiveNodeUtils } from "./activeNode";
+import { Position } from "./position";
+import { Definition, TriedDefinition, tryDefinition } from "./reference";
+import { ScopeItemKind } from "./scope";
+import { TriedType, tryType, TypeCache } from "./type";
+
+export type TriedHover = Result<Hover | undefined, CommonError.CommonError>;
+
+export interface Hover {
+    readonly identifier: Ast.Identifier | Ast.GeneralizedIdentifier;
+    readonly type: Type.TType;
+    // Undefined if the identifier couldn't be resolved to where it was introduced, eg. a library member.
+    readonly maybeDefinition: Definition | undefined;
+    // The comments immediately preceding a let binding or section member, without their delimiters.
+    readonly maybeDocumentation: string | undefined;
+    // The above rendered as markdown.
+    readonly markdown: string;
+}
+
+// Describes the identifier under the position, or returns undefined if there isn't one.
+// Works both for a use of an identifier (`x` in `let x = 1 in x`) and for the declaration itself.
+//
+// A comment is only treated as documentation if nothing other than whitespace separates it from the declaration,
+// and it doesn't start on the same line as the preceding token. Eg. `a = 1, // about a` doesn't document the next key.
+export function tryHover(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    comments: ReadonlyArray<TComment>,
+    position: Position,
+    // If a cache is given, then it's mutated with any scope or type that needed to be generated.
+    maybeTypeCache: TypeCache | undefined = undefined,
+): TriedHover {
+    const typeCache: TypeCache =
+        maybeTypeCache !== undefined
+            ? maybeTypeCache
+            : {
+                  scopeById: new Map(),
+                  typeById: new Map(),
+              };
+
+    return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () => {
+        const maybeActiveNode: ActiveNode | undefined = ActiveNodeUtils.maybeActiveNode(
+            nodeIdMapCollection,
+            leafNodeIds,
+            position,
+        );
+        if (maybeActiveNode === undefined || maybeActiveNode.maybeIdentifierUnderPosition === undefined) {
+            return undefined;
+        }
+        const identifier: Ast.Identifier | Ast.GeneralizedIdentifier = maybeActiveNode.maybeIdentifierUnderPosition;
+
+        const maybeTypedNodeId: number | undefined = maybeTypedNodeIdFrom(nodeIdMapCollection, identifier);
+        if (maybeTypedNodeId === undefined) {
+            return undefined;
+        }
+        const triedType: TriedType = tryType(settings, nodeIdMapCollection, leafNodeIds, maybeTypedNodeId, typeCache);
+        if (ResultUtils.isErr(triedType)) {
+            throw triedType.error;
+        }
+
+        const triedDefinition: TriedDefinition = tryDefinition(
+            settings,
+            nodeIdMapCollection,
+            leafNodeIds,
+            position,
+            typeCache.scopeById,
+        );
+        if (ResultUtils.isErr(triedDefinition)) {
+            throw triedDefinition.error;
+        }
+        const maybeDefinition: Definition | undefined = triedDefinition.value;
+
+        const maybeDocumentation: string | undefined =
+            maybeDefinition !== undefined
+                ? maybeDocumentationFrom(nodeIdMapCollection, leafNodeIds, comments, maybeDefinition)
+                : undefined;
+
+        return {
+            identifier,
+            type: triedType.value,
+            maybeDefinition,
+            maybeDocumentation,
+            markdown: markdownFrom(identifier, triedType.value, maybeDefinition, maybeDocumentation),
+        };
+    });
+}
+
+// The node whose type is shown for the identifier.
+function maybeTypedNodeIdFrom(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    identifier: Ast.Identifier | Ast.GeneralizedIdentifier,
+): number | undefined {
+    const maybeParent: TXorNode | undefined = NodeIdMapUtils.maybeParentXorNode(
+        nodeIdMapCollection,
+        identifier.id,
+        undefined,
+    );
+    if (maybeParent === undefined) {
+        return undefined;
+    }
+    const parent: TXorNode = maybeParent;
+
+    switch (parent.node.kind) {
+        case Ast.NodeKind.FieldSelector:
+        case Ast.NodeKind.IdentifierExpression:
+        case Ast.NodeKind.Parameter:
+            return parent.node.id;
+
+        case Ast.NodeKind.GeneralizedIdentifierPairedExpression:
+        case Ast.NodeKind.IdentifierPairedExpression: {
+            if (identifier.maybeAttributeIndex !== 0) {
+                return undefined;
+            }
+            const maybeValue: TXorNode | undefined = NodeIdMapUtils.maybeXorChildByAttributeIndex(
+                nodeIdMapCollection,
+                parent.node.id,
+                2,
+                undefined,
+            );
+
+            return maybeValue !== undefined ? maybeValue.node.id : undefined;
+        }
+
+        default:
+            return undefined;
+    }
+}
+
+function maybeDocumentationFrom(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    comments: ReadonlyArray<TComment>,
+    definition: Definition,
+): string | undefined {
+    let declaration: TXorNode;
+    switch (definition.kind) {
+        case ScopeItemKind.KeyValuePair:
+            declaration = NodeIdMapUtils.expectXorNode(nodeIdMapCollection, definition.nodeId);
+            break;
+
+        // Includes any literal attributes and the `shared` constant.
+        case ScopeItemKind.SectionMember:
+            declaration = NodeIdMapUtils.expectParentXorNode(nodeIdMapCollection, definition.nodeId, [
+                Ast.NodeKind.SectionMember,
+            ]);
+            break;
+
+        case ScopeItemKind.Each:
+        case ScopeItemKind.Parameter:
+            return undefined;
+
+        default:
+            throw Assert.isNever(definition.kind);
+    }
+
+    const tokenIndexStart: number = NodeIdMapUtils.xorNodeTokenRange(nodeIdMapCollection, declaration).tokenIndexStart;
+    let maybeDeclarationStart: TokenPosition | undefined;
+    let maybePreviousEnd: TokenPosition | undefined;
+    for (const nodeId of leafNodeIds) {
+        const leaf: Ast.TNode = NodeIdMapUtils.expectAstNode(nodeIdMapCollection.astNodeById, nodeId);
+        if (leaf.tokenRange.tokenIndexStart === tokenIndexStart) {
+            maybeDeclarationStart = leaf.tokenRange.positionStart;
+        } else if (leaf.tokenRange.tokenIndexEnd === tokenIndexStart - 1) {
+            maybePreviousEnd = leaf.tokenRange.positionEnd;
+        }
+    }
+    if (maybeDeclarationStart === undefined) {
+        return undefined;
+    }
+    const declarationStart: TokenPosition = maybeDeclarationStart;
+    const previousEnd: TokenPosition | undefined = maybePreviousEnd;
+
+    const documentation: string = comments
+        .filter(
+            (comment: TComment) =>
+                comment.positionEnd.codeUnit <= declarationStart.codeUnit &&
+                (previousEnd === undefined ||
+                    (comment.positionStart.codeUnit >= previousEnd.codeUnit &&
+                        comment.positionStart.lineNumber !== previousEnd.lineNumber)),
+        )
+        .map(commentContent)
+        .join("\n")
+        .trim();
+
+    return documentation !== "" ? documentation : undefined;
+}
+
+// Removes the comment's delimiters, as well as any leading `*` decoration in a multiline comment.
+function commentContent(comment: TComment): string {
+    switch (comment.kind) {
+        case CommentKind.Line:
+            return comment.data.slice(2).trim();
+
+        case CommentKind.Multiline:
+            return comment.data
+                .slice(2, -2)
+                .split("\n")
+                .map((line: string) => line.trim().replace(/^\*\s?/, ""))
+                .join("\n")
+                .trim();
+
+        default:
+            throw Assert.isNever(comment);
+    }
+}
+
+function markdownFrom(
+    identifier: Ast.Identifier | Ast.GeneralizedIdentifier,
+    type: Type.TType,
+    maybeDefinition: Definition | undefined,
+    maybeDocumentation: string | undefined,
+): string {
+    const prefix: string = maybeDefinition !== undefined ? `(${definitionKindText(maybeDefinition.kind)}) ` : "";
+    const signature: string = [
+        "```powerquery",
+        `${prefix}${identifier.literal}: ${TypeUtils.nameOf(type, HoverMaxWidth)}`,
+        "```",
+    ].join("\n");
+    if (maybeDefinition === undefined) {
+        return signature;
+    }
+
+    const declarationStart: TokenPosition = maybeDefinition.tokenRange.positionStart;
+    const lines: string[] = [
+        signature,
+        `Ln ${declarationStart.lineNumber + 1}, Col ${declarationStart.lineCodeUnit + 1}`,
+    ];
+    if (maybeDocumentation !== undefined) {
+        lines.push(maybeDocumentation);
+    }
+
+    return lines.join("\n\n");
+}
+
+function definitionKindText(kind: Definition["kind"]): string {
+    switch (kind) {
+        case ScopeItemKind.Each:
+            return "each";
+
+        case ScopeItemKind.KeyValuePair:
+            return "key";
+
+        case ScopeItemKind.Parameter:
+            return "parameter";
+
+        case ScopeItemKind.SectionMember:
+            return "section member";
+
+        default:
+            throw Assert.isNever(kind);
+    }
+}
+
+// Wide types, such as records with many fields, are broken over multiple lines.
+const HoverMaxWidth: number = 80;
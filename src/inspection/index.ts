@@ -6,3 +6,6 @@ export * from "./position";
 export * from "./scope";
 export * from "./type";
 export * from "./invokeExpression";
+export * from "./reference";
+export * from "./hover";
+export * from "./semanticToken";
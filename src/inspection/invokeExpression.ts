@@ -3,11 +3,13 @@
 
 import { CommonError, Result, ResultUtils } from "../common";
 import { Ast } from "../language";
+import { getLocalizationTemplates } from "../localization";
 import { AncestryUtils, NodeIdMap, NodeIdMapIterator, NodeIdMapUtils, TXorNode, XorNodeKind } from "../parser";
 import { CommonSettings } from "../settings";
+import { Type } from "../type";
 import { ActiveNode } from "./activeNode";
 import { Position, PositionUtils } from "./position";
-import { getLocalizationTemplates } from "../localization";
+import { TriedType, tryType, TypeCache } from "./type";
 
 export type TriedInvokeExpression = Result<InvokeExpression | undefined, CommonError.CommonError>;
 
@@ -15,6 +17,10 @@ export interface InvokeExpression {
     readonly xorNode: TXorNode;
     readonly maybeName: string | undefined;
     readonly maybeArguments: InvokeExpressionArgs | undefined;
+    // The type of what's being invoked, eg. the type of `Foo` in `Foo(1)`.
+    readonly invokedType: Type.TType;
+    // Only exists if invokedType is a DefinedFunction.
+    readonly maybeSignature: InvokeExpressionSignature | undefined;
 }
 
 export interface InvokeExpressionArgs {
@@ -22,19 +28,32 @@ export interface InvokeExpressionArgs {
     readonly argumentOrdinal: number;
 }
 
+export interface InvokeExpressionSignature {
+    readonly parameters: ReadonlyArray<Type.FunctionParameter>;
+    readonly returnType: Type.TType;
+    // The parameter which the argument under the position is given to.
+    // Undefined if there are more arguments than parameters.
+    readonly maybeActiveParameterIndex: number | undefined;
+}
+
 export function tryInvokeExpression(
     settings: CommonSettings,
     nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
     activeNode: ActiveNode,
+    maybeTypeCache: TypeCache | undefined = undefined,
 ): TriedInvokeExpression {
     return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () =>
-        inspectInvokeExpression(nodeIdMapCollection, activeNode),
+        inspectInvokeExpression(settings, nodeIdMapCollection, leafNodeIds, activeNode, maybeTypeCache),
     );
 }
 
 function inspectInvokeExpression(
+    settings: CommonSettings,
     nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
     activeNode: ActiveNode,
+    maybeTypeCache: TypeCache | undefined,
 ): InvokeExpression | undefined {
     const ancestors: ReadonlyArray<TXorNode> = activeNode.ancestry;
     const numAncestors: number = activeNode.ancestry.length;
@@ -46,10 +65,25 @@ function inspectInvokeExpression(
             continue;
         }
 
+        const maybeArguments: InvokeExpressionArgs | undefined = inspectInvokeExpressionArguments(
+            nodeIdMapCollection,
+            activeNode,
+            ancestryIndex,
+        );
+        const invokedType: Type.TType = inspectInvokedType(
+            settings,
+            nodeIdMapCollection,
+            leafNodeIds,
+            xorNode,
+            maybeTypeCache,
+        );
+
         return {
             xorNode,
             maybeName: maybeInvokeExpressionName(nodeIdMapCollection, xorNode.node.id),
-            maybeArguments: inspectInvokeExpressionArguments(nodeIdMapCollection, activeNode, ancestryIndex),
+            maybeArguments,
+            invokedType,
+            maybeSignature: maybeInvokeExpressionSignature(invokedType, maybeArguments),
         };
     }
 
@@ -125,6 +159,49 @@ function maybeInvokeExpressionName(nodeIdMapCollection: NodeIdMap.Collection, no
     return maybeName;
 }
 
+function inspectInvokedType(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    invokeExpr: TXorNode,
+    maybeTypeCache: TypeCache | undefined,
+): Type.TType {
+    const invoked: TXorNode = NodeIdMapUtils.expectRecursiveExpressionPreviousSibling(
+        nodeIdMapCollection,
+        invokeExpr.node.id,
+    );
+    const triedInvokedType: TriedType = tryType(
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        invoked.node.id,
+        maybeTypeCache,
+    );
+    if (ResultUtils.isErr(triedInvokedType)) {
+        throw triedInvokedType.error;
+    }
+
+    return triedInvokedType.value;
+}
+
+function maybeInvokeExpressionSignature(
+    invokedType: Type.TType,
+    maybeArguments: InvokeExpressionArgs | undefined,
+): InvokeExpressionSignature | undefined {
+    if (invokedType.maybeExtendedKind !== Type.ExtendedTypeKind.DefinedFunction) {
+        return undefined;
+    }
+
+    const parameters: ReadonlyArray<Type.FunctionParameter> = invokedType.parameters;
+    const argumentOrdinal: number = maybeArguments !== undefined ? maybeArguments.argumentOrdinal : 0;
+
+    return {
+        parameters,
+        returnType: invokedType.returnType,
+        maybeActiveParameterIndex: argumentOrdinal < parameters.length ? argumentOrdinal : undefined,
+    };
+}
+
 function inspectInvokeExpressionArguments(
     nodeIdMapCollection: NodeIdMap.Collection,
     activeNode: ActiveNode,
@@ -0,0 +1,341 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert, CommonError, Result, ResultUtils, StringUtils } from "../common";
+import { Ast, TokenRange } from "../language";
+import { getLocalizationTemplates } from "../localization";
+import { AncestryUtils, NodeIdMap, NodeIdMapUtils, TXorNode, XorNodeKind } from "../parser";
+import { CommonSettings } from "../settings";
+import { ActiveNode, ActiveNodeUtils } from "./activeNode";
+import { Position } from "./position";
+import { ScopeById, ScopeItemKind, ScopeUtils, TScopeItem } from "./scope";
+
+export type TriedDefinition = Result<Definition | undefined, CommonError.CommonError>;
+
+export type TriedReferences = Result<ReadonlyArray<Reference>, CommonError.CommonError>;
+
+export interface Definition {
+    readonly kind:
+        | ScopeItemKind.Each
+        | ScopeItemKind.KeyValuePair
+        | ScopeItemKind.Parameter
+        | ScopeItemKind.SectionMember;
+    // The node which introduces the name, which is also the id used by its TScopeItem.
+    // Eg. the IdentifierPairedExpression for `x = 1` in `let x = 1 in x`.
+    readonly nodeId: number;
+    // Undefined for the implicit `_` parameter of an EachExpression.
+    readonly maybeIdentifier: Ast.Identifier | Ast.GeneralizedIdentifier | undefined;
+    // Either the range of the identifier, or the range of the `each` constant.
+    readonly tokenRange: TokenRange;
+}
+
+export interface Reference {
+    readonly identifier: Ast.Identifier | Ast.GeneralizedIdentifier;
+    // True if the identifier is the name being introduced rather than a use of it.
+    readonly isDeclaration: boolean;
+    readonly tokenRange: TokenRange;
+}
+
+// Finds where the identifier under the position was introduced.
+// Works both for a use of an identifier (`x` in `let x = 1 in x`) and for the declaration itself.
+//
+// Identifiers are compared after normalization, so `#"x"` and `x` are treated as the same name.
+// Inside of its own definition an identifier only resolves when it's inclusive (`@x`),
+// which follows the rules used by Scope. Elsewhere `@x` resolves the same as `x`, eg. `let a = 1 in @a`.
+// Section-qualified access (`Section1!x`) isn't parsed, so only unqualified access to section members is resolved.
+export function tryDefinition(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    position: Position,
+    // If a map is given, then it's mutated with any scope that needed to be generated.
+    maybeScopeById: ScopeById | undefined = undefined,
+): TriedDefinition {
+    return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () =>
+        inspectDefinition(
+            stateFactory(settings, nodeIdMapCollection, leafNodeIds, maybeScopeById),
+            maybeIdentifierUnderPosition(nodeIdMapCollection, leafNodeIds, position),
+        ),
+    );
+}
+
+// Finds every use of the identifier under the position, including its declaration, ordered by their position.
+// Returns an empty array if the identifier couldn't be resolved to a definition.
+export function tryReferences(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    position: Position,
+    // If a map is given, then it's mutated with any scope that needed to be generated.
+    maybeScopeById: ScopeById | undefined = undefined,
+): TriedReferences {
+    return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () =>
+        inspectIdentifierReferences(
+            stateFactory(settings, nodeIdMapCollection, leafNodeIds, maybeScopeById),
+            maybeIdentifierUnderPosition(nodeIdMapCollection, leafNodeIds, position),
+        ),
+    );
+}
+
+// The same as tryReferences, but for the given identifier rather than the one under a position.
+export function tryIdentifierReferences(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    identifier: Ast.Identifier | Ast.GeneralizedIdentifier,
+    // If a map is given, then it's mutated with any scope that needed to be generated.
+    maybeScopeById: ScopeById | undefined = undefined,
+): TriedReferences {
+    return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () =>
+        inspectIdentifierReferences(
+            stateFactory(settings, nodeIdMapCollection, leafNodeIds, maybeScopeById),
+            identifier,
+        ),
+    );
+}
+
+interface ReferenceState {
+    readonly settings: CommonSettings;
+    readonly nodeIdMapCollection: NodeIdMap.Collection;
+    readonly leafNodeIds: ReadonlyArray<number>;
+    readonly scopeById: ScopeById;
+}
+
+function stateFactory(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    maybeScopeById: ScopeById | undefined,
+): ReferenceState {
+    return {
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        scopeById: maybeScopeById !== undefined ? maybeScopeById : new Map(),
+    };
+}
+
+function maybeIdentifierUnderPosition(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    position: Position,
+): Ast.Identifier | Ast.GeneralizedIdentifier | undefined {
+    const maybeActiveNode: ActiveNode | undefined = ActiveNodeUtils.maybeActiveNode(
+        nodeIdMapCollection,
+        leafNodeIds,
+        position,
+    );
+
+    return maybeActiveNode !== undefined ? maybeActiveNode.maybeIdentifierUnderPosition : undefined;
+}
+
+function inspectIdentifierReferences(
+    state: ReferenceState,
+    maybeIdentifier: Ast.Identifier | Ast.GeneralizedIdentifier | undefined,
+): ReadonlyArray<Reference> {
+    const maybeDefinition: Definition | undefined = inspectDefinition(state, maybeIdentifier);
+    return maybeDefinition !== undefined ? inspectReferences(state, maybeDefinition) : [];
+}
+
+function inspectDefinition(
+    state: ReferenceState,
+    maybeIdentifier: Ast.Identifier | Ast.GeneralizedIdentifier | undefined,
+): Definition | undefined {
+    if (maybeIdentifier === undefined) {
+        return undefined;
+    }
+    const identifier: Ast.Identifier | Ast.GeneralizedIdentifier = maybeIdentifier;
+
+    const maybeParent: TXorNode | undefined = NodeIdMapUtils.maybeParentXorNode(
+        state.nodeIdMapCollection,
+        identifier.id,
+        undefined,
+    );
+    if (maybeParent === undefined) {
+        return undefined;
+    }
+    const parent: TXorNode = maybeParent;
+
+    switch (parent.node.kind) {
+        case Ast.NodeKind.IdentifierExpression:
+            return parent.kind === XorNodeKind.Ast
+                ? maybeIdentifierExpressionDefinition(state, parent.node as Ast.IdentifierExpression)
+                : undefined;
+
+        case Ast.NodeKind.GeneralizedIdentifierPairedExpression:
+        case Ast.NodeKind.IdentifierPairedExpression:
+            return identifier.maybeAttributeIndex === 0
+                ? maybePairedExpressionDefinition(state, parent, identifier)
+                : undefined;
+
+        case Ast.NodeKind.Parameter:
+            return maybeParameterDefinition(state, parent, identifier);
+
+        default:
+            return undefined;
+    }
+}
+
+function maybeIdentifierExpressionDefinition(
+    state: ReferenceState,
+    identifierExpression: Ast.IdentifierExpression,
+): Definition | undefined {
+    const isInclusive: boolean = identifierExpression.maybeInclusiveConstant !== undefined;
+    const maybeScopeItem: TScopeItem | undefined = ScopeUtils.maybeScopeItemFor(
+        ScopeUtils.expectScopeItemByKey(
+            state.settings,
+            state.nodeIdMapCollection,
+            state.leafNodeIds,
+            state.scopeById,
+            identifierExpression.id,
+        ),
+        identifierExpression.identifier.literal,
+    );
+    if (maybeScopeItem === undefined || (maybeScopeItem.isRecursive && !isInclusive)) {
+        return undefined;
+    }
+    const scopeItem: TScopeItem = maybeScopeItem;
+
+    switch (scopeItem.kind) {
+        case ScopeItemKind.Each:
+            return maybeEachDefinition(state, scopeItem.eachExpression);
+
+        case ScopeItemKind.KeyValuePair:
+        case ScopeItemKind.SectionMember:
+            return definitionFactory(scopeItem.kind, scopeItem.id, scopeItem.key);
+
+        case ScopeItemKind.Parameter:
+            return definitionFactory(scopeItem.kind, scopeItem.id, scopeItem.name);
+
+        case ScopeItemKind.Undefined:
+            return undefined;
+
+        default:
+            throw Assert.isNever(scopeItem);
+    }
+}
+
+function maybePairedExpressionDefinition(
+    state: ReferenceState,
+    pairedExpression: TXorNode,
+    key: Ast.Identifier | Ast.GeneralizedIdentifier,
+): Definition | undefined {
+    const maybeGrandparent: TXorNode | undefined = NodeIdMapUtils.maybeParentXorNode(
+        state.nodeIdMapCollection,
+        pairedExpression.node.id,
+        undefined,
+    );
+    if (maybeGrandparent === undefined) {
+        return undefined;
+    }
+
+    // Section members are the only IdentifierPairedExpression which isn't wrapped in a Csv.
+    const kind: ScopeItemKind.KeyValuePair | ScopeItemKind.SectionMember =
+        maybeGrandparent.node.kind === Ast.NodeKind.SectionMember
+            ? ScopeItemKind.SectionMember
+            : ScopeItemKind.KeyValuePair;
+
+    return definitionFactory(kind, pairedExpression.node.id, key);
+}
+
+// Parameters are also found in FunctionTypes, which don't introduce any names into scope.
+function maybeParameterDefinition(
+    state: ReferenceState,
+    parameter: TXorNode,
+    name: Ast.Identifier | Ast.GeneralizedIdentifier,
+): Definition | undefined {
+    const ancestry: ReadonlyArray<TXorNode> = AncestryUtils.expectAncestry(
+        state.nodeIdMapCollection,
+        parameter.node.id,
+    );
+    const maybeParameterList: TXorNode | undefined = ancestry.find(
+        (xorNode: TXorNode) => xorNode.node.kind === Ast.NodeKind.ParameterList,
+    );
+    if (maybeParameterList === undefined) {
+        return undefined;
+    }
+
+    const maybeFnExpr: TXorNode | undefined = NodeIdMapUtils.maybeParentXorNode(
+        state.nodeIdMapCollection,
+        maybeParameterList.node.id,
+        [Ast.NodeKind.FunctionExpression],
+    );
+
+    return maybeFnExpr !== undefined ? definitionFactory(ScopeItemKind.Parameter, parameter.node.id, name) : undefined;
+}
+
+function maybeEachDefinition(state: ReferenceState, eachExpression: TXorNode): Definition | undefined {
+    const maybeEachConstant:
+        | Ast.TNode
+        | undefined = NodeIdMapUtils.maybeAstChildByAttributeIndex(
+        state.nodeIdMapCollection,
+        eachExpression.node.id,
+        0,
+        [Ast.NodeKind.Constant],
+    );
+    if (maybeEachConstant === undefined) {
+        return undefined;
+    }
+
+    return {
+        kind: ScopeItemKind.Each,
+        nodeId: eachExpression.node.id,
+        maybeIdentifier: undefined,
+        tokenRange: maybeEachConstant.tokenRange,
+    };
+}
+
+function definitionFactory(
+    kind: ScopeItemKind.KeyValuePair | ScopeItemKind.Parameter | ScopeItemKind.SectionMember,
+    nodeId: number,
+    identifier: Ast.Identifier | Ast.GeneralizedIdentifier,
+): Definition {
+    return {
+        kind,
+        nodeId,
+        maybeIdentifier: identifier,
+        tokenRange: identifier.tokenRange,
+    };
+}
+
+function inspectReferences(state: ReferenceState, definition: Definition): ReadonlyArray<Reference> {
+    const references: Reference[] = [];
+
+    let normalizedLiteral: string;
+    if (definition.maybeIdentifier !== undefined) {
+        references.push(referenceFactory(definition.maybeIdentifier, true));
+        normalizedLiteral = StringUtils.normalizeIdentifier(definition.maybeIdentifier.literal);
+    } else {
+        normalizedLiteral = "_";
+    }
+
+    for (const astNode of state.nodeIdMapCollection.astNodeById.values()) {
+        if (
+            astNode.kind !== Ast.NodeKind.IdentifierExpression ||
+            StringUtils.normalizeIdentifier(astNode.identifier.literal) !== normalizedLiteral
+        ) {
+            continue;
+        }
+
+        const maybeDefinition: Definition | undefined = maybeIdentifierExpressionDefinition(state, astNode);
+        if (
+            maybeDefinition !== undefined &&
+            maybeDefinition.kind === definition.kind &&
+            maybeDefinition.nodeId === definition.nodeId
+        ) {
+            references.push(referenceFactory(astNode.identifier, false));
+        }
+    }
+
+    return references.sort(
+        (left: Reference, right: Reference) => left.tokenRange.tokenIndexStart - right.tokenRange.tokenIndexStart,
+    );
+}
+
+function referenceFactory(identifier: Ast.Identifier | Ast.GeneralizedIdentifier, isDeclaration: boolean): Reference {
+    return {
+        identifier,
+        isDeclaration,
+        tokenRange: identifier.tokenRange,
+    };
+}
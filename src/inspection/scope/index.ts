@@ -1,5 +1,8 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
+import * as ScopeUtils from "./scopeUtils";
+
+export { ScopeUtils };
 export * from "./scope";
 export * from "./scopeItem";
@@ -155,6 +155,9 @@ function inspectEachExpression(state: ScopeInspectionState, eachExpr: TXorNode):
         throw maybeErr;
     }
 
+    // Propegates the parent's scope.
+    const scope: ScopeItemByKey = getOrCreateScope(state, eachExpr.node.id, undefined);
+
     expandChildScope(
         state,
         eachExpr,
@@ -170,7 +173,7 @@ function inspectEachExpression(state: ScopeInspectionState, eachExpr: TXorNode):
                 },
             ],
         ],
-        undefined,
+        scope,
     );
 }
 
@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { CommonError, ResultUtils, StringUtils } from "../../common";
+import { TLibraryDefinition } from "../../library";
+import { AncestryUtils, NodeIdMap } from "../../parser";
+import { CommonSettings, libraryDefinitionsFor } from "../../settings";
+import { ScopeById, ScopeItemByKey, TriedScope, tryScope } from "./scope";
+import { TScopeItem } from "./scopeItem";
+
+// Prefers an exact match, else falls back to comparing normalized keys, eg. `#"x"` and `x`.
+export function maybeScopeItemFor(scopeItemByKey: ScopeItemByKey, literal: string): TScopeItem | undefined {
+    const maybeExact: TScopeItem | undefined = scopeItemByKey.get(literal);
+    if (maybeExact !== undefined) {
+        return maybeExact;
+    }
+
+    const normalizedLiteral: string = StringUtils.normalizeIdentifier(literal);
+    for (const [key, scopeItem] of scopeItemByKey.entries()) {
+        if (StringUtils.normalizeIdentifier(key) === normalizedLiteral) {
+            return scopeItem;
+        }
+    }
+
+    return undefined;
+}
+
+// Identifiers which aren't in scope fall back to the library definitions in the settings, eg. `Text.Length`.
+// Returns undefined if the literal is in scope, as the document shadows the library.
+export function maybeLibraryDefinitionFor(
+    settings: CommonSettings,
+    scopeItemByKey: ScopeItemByKey,
+    literal: string,
+): TLibraryDefinition | undefined {
+    if (maybeScopeItemFor(scopeItemByKey, literal) !== undefined) {
+        return undefined;
+    }
+
+    return libraryDefinitionsFor(settings).get(literal);
+}
+
+// Returns the scope of the node, inspecting it only if it isn't already in scopeById.
+// scopeById is mutated with any scope that needed to be generated.
+export function expectScopeItemByKey(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    scopeById: ScopeById,
+    nodeId: number,
+): ScopeItemByKey {
+    const maybeCached: ScopeItemByKey | undefined = scopeById.get(nodeId);
+    if (maybeCached !== undefined) {
+        return maybeCached;
+    }
+
+    const triedScope: TriedScope = tryScope(
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        AncestryUtils.expectAncestry(nodeIdMapCollection, nodeId),
+        scopeById,
+    );
+    if (ResultUtils.isErr(triedScope)) {
+        throw triedScope.error;
+    }
+
+    const maybeScope: ScopeItemByKey | undefined = triedScope.value.get(nodeId);
+    if (maybeScope === undefined) {
+        const details: {} = { nodeId };
+        throw new CommonError.InvariantError(`expected nodeId in scopeById`, details);
+    }
+
+    return maybeScope;
+}
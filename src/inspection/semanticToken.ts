@@ -0,0 +1,352 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert, CommonError, Result, ResultUtils } from "../common";
+import { Ast, KeywordKind, Keywords, TComment, Token, TokenKind, TokenPosition } from "../language";
+import { LexerSnapshot } from "../lexer";
+import { LibraryDefinitionKind, TLibraryDefinition } from "../library";
+import { getLocalizationTemplates } from "../localization";
+import { NodeIdMap, NodeIdMapUtils } from "../parser";
+import { CommonSettings } from "../settings";
+import { ScopeById, ScopeItemByKey, ScopeItemKind, ScopeUtils, TScopeItem } from "./scope";
+
+// A classification of the document's tokens for syntax highlighting,
+// which unlike TokenKind can tell apart what an identifier refers to, eg. a record field `[Sales]` from a variable.
+
+export type TriedSemanticTokens = Result<ReadonlyArray<SemanticToken>, CommonError.CommonError>;
+
+export const enum SemanticTokenKind {
+    Comment = "Comment",
+    DateLiteral = "DateLiteral",
+    Keyword = "Keyword",
+    LibraryFunction = "LibraryFunction",
+    NumberLiteral = "NumberLiteral",
+    Operator = "Operator",
+    Parameter = "Parameter",
+    RecordField = "RecordField",
+    SectionMember = "SectionMember",
+    TextLiteral = "TextLiteral",
+    TypeName = "TypeName",
+    Variable = "Variable",
+}
+
+export interface SemanticToken {
+    readonly kind: SemanticTokenKind;
+    // True if the token is a name being introduced rather than a use of it, eg. `x` in `let x = 1`.
+    readonly isDeclaration: boolean;
+    readonly positionStart: TokenPosition;
+    readonly positionEnd: TokenPosition;
+}
+
+// Returns the semantic tokens ordered by their position, which includes comments.
+// Punctuation such as brackets, commas, and semicolons aren't classified.
+//
+// The parse should be done with error recovery so highlighting doesn't stop at the first syntax error,
+// which is what Task.tryLexParseSemanticTokens does.
+// Identifiers are resolved using Scope, falling back to the library definitions in the settings.
+export function trySemanticTokens(
+    settings: CommonSettings,
+    lexerSnapshot: LexerSnapshot,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    // If a map is given, then it's mutated with any scope that needed to be generated.
+    maybeScopeById: ScopeById | undefined = undefined,
+): TriedSemanticTokens {
+    return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () =>
+        semanticTokensFrom({
+            settings,
+            lexerSnapshot,
+            nodeIdMapCollection,
+            leafNodeIds,
+            scopeById: maybeScopeById !== undefined ? maybeScopeById : new Map(),
+        }),
+    );
+}
+
+interface SemanticTokenState {
+    readonly settings: CommonSettings;
+    readonly lexerSnapshot: LexerSnapshot;
+    readonly nodeIdMapCollection: NodeIdMap.Collection;
+    readonly leafNodeIds: ReadonlyArray<number>;
+    readonly scopeById: ScopeById;
+}
+
+// What an identifier was classified as.
+interface IdentifierKind {
+    readonly kind: SemanticTokenKind;
+    readonly isDeclaration: boolean;
+}
+
+function semanticTokensFrom(state: SemanticTokenState): ReadonlyArray<SemanticToken> {
+    const semanticTokens: SemanticToken[] = state.lexerSnapshot.comments.map((comment: TComment) =>
+        semanticTokenFactory(SemanticTokenKind.Comment, false, comment.positionStart, comment.positionEnd),
+    );
+
+    // A GeneralizedIdentifier can span multiple tokens, eg. `[Sales Amount]`, so leafs are keyed by their first token.
+    const leafByTokenIndex: Map<number, Ast.TNode> = new Map();
+    for (const nodeId of state.leafNodeIds) {
+        const leaf: Ast.TNode = NodeIdMapUtils.expectAstNode(state.nodeIdMapCollection.astNodeById, nodeId);
+        leafByTokenIndex.set(leaf.tokenRange.tokenIndexStart, leaf);
+    }
+
+    const tokens: ReadonlyArray<Token> = state.lexerSnapshot.tokens;
+    let tokenIndex: number = 0;
+    while (tokenIndex < tokens.length) {
+        const token: Token = tokens[tokenIndex];
+        const maybeLeaf: Ast.TNode | undefined = leafByTokenIndex.get(tokenIndex);
+
+        // Keywords such as `#date` are parsed as identifiers when invoked, eg. `#date(2020, 1, 1)`.
+        if (
+            maybeLeaf !== undefined &&
+            (maybeLeaf.kind === Ast.NodeKind.Identifier || maybeLeaf.kind === Ast.NodeKind.GeneralizedIdentifier) &&
+            !(maybeLeaf.kind === Ast.NodeKind.Identifier && isKeywordToken(token))
+        ) {
+            const leaf: Ast.Identifier | Ast.GeneralizedIdentifier = maybeLeaf;
+            const maybeIdentifierKind: IdentifierKind | undefined = maybeIdentifierKindFor(state, leaf);
+            if (maybeIdentifierKind !== undefined) {
+                semanticTokens.push(
+                    semanticTokenFactory(
+                        maybeIdentifierKind.kind,
+                        maybeIdentifierKind.isDeclaration,
+                        leaf.tokenRange.positionStart,
+                        leaf.tokenRange.positionEnd,
+                    ),
+                );
+            }
+            tokenIndex = Math.max(tokenIndex, leaf.tokenRange.tokenIndexEnd) + 1;
+            continue;
+        }
+
+        let maybeKind: SemanticTokenKind | undefined;
+        if (maybeLeaf !== undefined && isPrimitiveTypeConstant(state, maybeLeaf)) {
+            maybeKind = SemanticTokenKind.TypeName;
+        } else if (maybeLeaf !== undefined && maybeLeaf.kind === Ast.NodeKind.Constant) {
+            // Includes contextual keywords such as `optional` and `nullable`, which are lexed as identifiers.
+            maybeKind = token.kind === TokenKind.Identifier ? SemanticTokenKind.Keyword : maybeKindFromToken(token);
+        } else {
+            maybeKind = maybeKindFromToken(token);
+        }
+
+        if (maybeKind !== undefined) {
+            semanticTokens.push(semanticTokenFactory(maybeKind, false, token.positionStart, token.positionEnd));
+        }
+        tokenIndex += 1;
+    }
+
+    return semanticTokens.sort(
+        (left: SemanticToken, right: SemanticToken) => left.positionStart.codeUnit - right.positionStart.codeUnit,
+    );
+}
+
+function maybeIdentifierKindFor(
+    state: SemanticTokenState,
+    identifier: Ast.Identifier | Ast.GeneralizedIdentifier,
+): IdentifierKind | undefined {
+    const maybeParent: Ast.TNode | undefined = NodeIdMapUtils.maybeParentAstNode(
+        state.nodeIdMapCollection,
+        identifier.id,
+    );
+    if (maybeParent === undefined) {
+        return undefined;
+    }
+    const parent: Ast.TNode = maybeParent;
+
+    switch (parent.kind) {
+        case Ast.NodeKind.IdentifierExpression:
+            return {
+                kind: referenceKindFor(state, parent),
+                isDeclaration: false,
+            };
+
+        case Ast.NodeKind.IdentifierPairedExpression: {
+            if (parent.key !== identifier) {
+                return undefined;
+            }
+            const maybeGrandparent: Ast.TNode | undefined = NodeIdMapUtils.maybeParentAstNode(
+                state.nodeIdMapCollection,
+                parent.id,
+            );
+            return {
+                kind:
+                    maybeGrandparent !== undefined && maybeGrandparent.kind === Ast.NodeKind.SectionMember
+                        ? SemanticTokenKind.SectionMember
+                        : SemanticTokenKind.Variable,
+                isDeclaration: true,
+            };
+        }
+
+        case Ast.NodeKind.GeneralizedIdentifierPairedExpression:
+            return parent.key === identifier ? { kind: SemanticTokenKind.RecordField, isDeclaration: true } : undefined;
+
+        case Ast.NodeKind.FieldSpecification:
+            return { kind: SemanticTokenKind.RecordField, isDeclaration: true };
+
+        case Ast.NodeKind.FieldSelector:
+            return { kind: SemanticTokenKind.RecordField, isDeclaration: false };
+
+        case Ast.NodeKind.Parameter:
+            return { kind: SemanticTokenKind.Parameter, isDeclaration: true };
+
+        // The name of a section isn't something which can be referenced.
+        default:
+            return undefined;
+    }
+}
+
+function referenceKindFor(
+    state: SemanticTokenState,
+    identifierExpression: Ast.IdentifierExpression,
+): SemanticTokenKind {
+    const literal: string = identifierExpression.identifier.literal;
+    const scopeItemByKey: ScopeItemByKey = ScopeUtils.expectScopeItemByKey(
+        state.settings,
+        state.nodeIdMapCollection,
+        state.leafNodeIds,
+        state.scopeById,
+        identifierExpression.id,
+    );
+    const maybeScopeItem: TScopeItem | undefined = ScopeUtils.maybeScopeItemFor(scopeItemByKey, literal);
+
+    if (maybeScopeItem !== undefined) {
+        switch (maybeScopeItem.kind) {
+            case ScopeItemKind.Each:
+            case ScopeItemKind.Parameter:
+                return SemanticTokenKind.Parameter;
+
+            case ScopeItemKind.KeyValuePair:
+                // Records use GeneralizedIdentifier for their keys while let expressions use Identifier.
+                return maybeScopeItem.key.kind === Ast.NodeKind.GeneralizedIdentifier
+                    ? SemanticTokenKind.RecordField
+                    : SemanticTokenKind.Variable;
+
+            case ScopeItemKind.SectionMember:
+                return SemanticTokenKind.SectionMember;
+
+            case ScopeItemKind.Undefined:
+                return SemanticTokenKind.Variable;
+
+            default:
+                throw Assert.isNever(maybeScopeItem);
+        }
+    }
+
+    const maybeLibraryDefinition: TLibraryDefinition | undefined = ScopeUtils.maybeLibraryDefinitionFor(
+        state.settings,
+        scopeItemByKey,
+        literal,
+    );
+    if (maybeLibraryDefinition === undefined) {
+        return SemanticTokenKind.Variable;
+    }
+
+    switch (maybeLibraryDefinition.kind) {
+        case LibraryDefinitionKind.Function:
+            return SemanticTokenKind.LibraryFunction;
+
+        case LibraryDefinitionKind.Type:
+            return SemanticTokenKind.TypeName;
+
+        case LibraryDefinitionKind.Constant:
+            return SemanticTokenKind.Variable;
+
+        default:
+            throw Assert.isNever(maybeLibraryDefinition);
+    }
+}
+
+// Eg. `number` in `(x as number) => x`.
+function isPrimitiveTypeConstant(state: SemanticTokenState, leaf: Ast.TNode): boolean {
+    const maybeParent: Ast.TNode | undefined = NodeIdMapUtils.maybeParentAstNode(state.nodeIdMapCollection, leaf.id);
+    return maybeParent !== undefined && maybeParent.kind === Ast.NodeKind.PrimitiveType;
+}
+
+function isKeywordToken(token: Token): boolean {
+    return Keywords.includes(token.data as KeywordKind);
+}
+
+function maybeKindFromToken(token: Token): SemanticTokenKind | undefined {
+    switch (token.kind) {
+        case TokenKind.Ampersand:
+        case TokenKind.Asterisk:
+        case TokenKind.AtSign:
+        case TokenKind.Bang:
+        case TokenKind.Division:
+        case TokenKind.DotDot:
+        case TokenKind.Ellipsis:
+        case TokenKind.Equal:
+        case TokenKind.FatArrow:
+        case TokenKind.GreaterThan:
+        case TokenKind.GreaterThanEqualTo:
+        case TokenKind.LessThan:
+        case TokenKind.LessThanEqualTo:
+        case TokenKind.Minus:
+        case TokenKind.NotEqual:
+        case TokenKind.Plus:
+        case TokenKind.QuestionMark:
+            return SemanticTokenKind.Operator;
+
+        case TokenKind.KeywordAnd:
+        case TokenKind.KeywordAs:
+        case TokenKind.KeywordEach:
+        case TokenKind.KeywordElse:
+        case TokenKind.KeywordError:
+        case TokenKind.KeywordFalse:
+        case TokenKind.KeywordHashBinary:
+        case TokenKind.KeywordHashSections:
+        case TokenKind.KeywordHashShared:
+        case TokenKind.KeywordHashTable:
+        case TokenKind.KeywordIf:
+        case TokenKind.KeywordIn:
+        case TokenKind.KeywordIs:
+        case TokenKind.KeywordLet:
+        case TokenKind.KeywordMeta:
+        case TokenKind.KeywordNot:
+        case TokenKind.KeywordOr:
+        case TokenKind.KeywordOtherwise:
+        case TokenKind.KeywordSection:
+        case TokenKind.KeywordShared:
+        case TokenKind.KeywordThen:
+        case TokenKind.KeywordTrue:
+        case TokenKind.KeywordTry:
+        case TokenKind.KeywordType:
+        case TokenKind.NullLiteral:
+            return SemanticTokenKind.Keyword;
+
+        case TokenKind.KeywordHashDate:
+        case TokenKind.KeywordHashDateTime:
+        case TokenKind.KeywordHashDateTimeZone:
+        case TokenKind.KeywordHashDuration:
+        case TokenKind.KeywordHashTime:
+            return SemanticTokenKind.DateLiteral;
+
+        case TokenKind.HexLiteral:
+        case TokenKind.KeywordHashInfinity:
+        case TokenKind.KeywordHashNan:
+        case TokenKind.NumericLiteral:
+            return SemanticTokenKind.NumberLiteral;
+
+        case TokenKind.TextLiteral:
+            return SemanticTokenKind.TextLiteral;
+
+        // An identifier which didn't make it into the Ast, such as one skipped over during error recovery.
+        case TokenKind.Identifier:
+            return SemanticTokenKind.Variable;
+
+        default:
+            return undefined;
+    }
+}
+
+function semanticTokenFactory(
+    kind: SemanticTokenKind,
+    isDeclaration: boolean,
+    positionStart: TokenPosition,
+    positionEnd: TokenPosition,
+): SemanticToken {
+    return {
+        kind,
+        isDeclaration,
+        positionStart,
+        positionEnd,
+    };
+}
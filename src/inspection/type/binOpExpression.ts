@@ -130,11 +130,22 @@ function createLookupsForRelational(typeKind: Type.TypeKind): ReadonlyArray<[str
     ];
 }
 
+// Any value can also be compared to null, eg. 'x <> null'.
 function createLookupsForEquality(typeKind: Type.TypeKind): ReadonlyArray<[string, Type.TypeKind]> {
-    return [
+    const lookups: [string, Type.TypeKind][] = [
         [lookupKey(typeKind, Ast.EqualityOperatorKind.EqualTo, typeKind), Type.TypeKind.Logical],
         [lookupKey(typeKind, Ast.EqualityOperatorKind.NotEqualTo, typeKind), Type.TypeKind.Logical],
     ];
+    if (typeKind !== Type.TypeKind.Null) {
+        lookups.push(
+            [lookupKey(typeKind, Ast.EqualityOperatorKind.EqualTo, Type.TypeKind.Null), Type.TypeKind.Logical],
+            [lookupKey(typeKind, Ast.EqualityOperatorKind.NotEqualTo, Type.TypeKind.Null), Type.TypeKind.Logical],
+            [lookupKey(Type.TypeKind.Null, Ast.EqualityOperatorKind.EqualTo, typeKind), Type.TypeKind.Logical],
+            [lookupKey(Type.TypeKind.Null, Ast.EqualityOperatorKind.NotEqualTo, typeKind), Type.TypeKind.Logical],
+        );
+    }
+
+    return lookups;
 }
 
 // Note: does not include the and <'&'> operator.
@@ -3,3 +3,4 @@
 
 export * from "./tasks";
 export * from "./type";
+export * from "./typeDiagnostic";
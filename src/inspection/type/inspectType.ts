@@ -3,13 +3,30 @@
 
 import { ArrayUtils, Assert, CommonError, MapUtils, ResultUtils, TypeScriptUtils } from "../../common";
 import { Ast, AstUtils } from "../../language";
+import { LibraryUtils } from "../../library";
 import { AncestryUtils, NodeIdMap, NodeIdMapIterator, NodeIdMapUtils, TXorNode, XorNodeKind } from "../../parser";
-import { Type, TypeInspector, TypeUtils } from "../../type";
-import { ScopeItemByKey, ScopeItemKind, TriedScopeForRoot, tryScopeItems, TScopeItem } from "../scope";
+import { libraryDefinitionsFor } from "../../settings";
+import { ExternalType, Type, TypeInspector, TypeUtils } from "../../type";
+import {
+    EachScopeItem,
+    ParameterScopeItem,
+    ScopeItemByKey,
+    ScopeItemKind,
+    ScopeUtils,
+    TriedScopeForRoot,
+    tryScopeItems,
+    TScopeItem,
+} from "../scope";
 import * as BinOpExpression from "./binOpExpression";
-import { TypeInspectionState } from "./type";
+import * as Narrowing from "./narrowing";
+import * as TableSchema from "./tableSchema";
+import { InvokeArgumentMismatchKind, TInvokeArgumentMismatch, TypeInspectionState } from "./type";
 
 export function getOrCreateType(state: TypeInspectionState, scopeItem: TScopeItem): Type.TType {
+    // `_` shares its id with the EachExpression, so anything cached under the id is the type of the expression.
+    if (scopeItem.kind === ScopeItemKind.Each) {
+        return inspectScopeItem(state, scopeItem);
+    }
     const nodeId: number = scopeItem.id;
 
     const maybeGivenType: Type.TType | undefined = state.givenTypeById.get(nodeId);
@@ -50,7 +67,7 @@ export function getOrCreateScope(state: TypeInspectionState, nodeId: number): Sc
 export function inspectScopeItem(state: TypeInspectionState, scopeItem: TScopeItem): Type.TType {
     switch (scopeItem.kind) {
         case ScopeItemKind.Each:
-            return inspectXorNode(state, scopeItem.eachExpression);
+            return inspectEachScopeItem(state, scopeItem);
 
         case ScopeItemKind.KeyValuePair:
             return scopeItem.maybeValue === undefined
@@ -58,7 +75,7 @@ export function inspectScopeItem(state: TypeInspectionState, scopeItem: TScopeIt
                 : inspectXorNode(state, scopeItem.maybeValue);
 
         case ScopeItemKind.Parameter:
-            return TypeUtils.parameterFactory(scopeItem);
+            return inspectParameterScopeItem(state, scopeItem);
 
         case ScopeItemKind.SectionMember:
             return scopeItem.maybeValue === undefined
@@ -151,6 +168,10 @@ export function inspectXorNode(state: TypeInspectionState, xorNode: TXorNode): T
             result = inspectErrorHandlingExpression(state, xorNode);
             break;
 
+        case Ast.NodeKind.ErrorPlaceholder:
+            result = TypeUtils.unknownFactory();
+            break;
+
         case Ast.NodeKind.FieldProjection:
             result = inspectFieldProjection(state, xorNode);
             break;
@@ -258,6 +279,80 @@ interface ExaminedFieldSpecificationList {
     readonly isOpen: boolean;
 }
 
+// Checks the number of arguments, and the type of each argument against its parameter.
+// Arguments which are typed as any aren't known well enough to be reported.
+// Context nodes aren't checked as the user is probably still typing the arguments.
+export function maybeInvokeArgumentMismatch(
+    state: TypeInspectionState,
+    invokeExpression: TXorNode,
+    definedFunction: Type.DefinedFunction,
+): TInvokeArgumentMismatch | undefined {
+    if (invokeExpression.kind !== XorNodeKind.Ast) {
+        return undefined;
+    }
+    const args: ReadonlyArray<TXorNode> = NodeIdMapIterator.invokeExpressionArgs(
+        state.nodeIdMapCollection,
+        invokeExpression,
+    );
+    const parameters: ReadonlyArray<Type.FunctionParameter> = definedFunction.parameters;
+
+    const numRequiredParameters: number = parameters.filter(
+        (parameter: Type.FunctionParameter) => !parameter.isOptional,
+    ).length;
+    if (args.length < numRequiredParameters) {
+        return {
+            kind: InvokeArgumentMismatchKind.TooFewArguments,
+            expected: numRequiredParameters,
+            actual: args.length,
+        };
+    } else if (args.length > parameters.length) {
+        return {
+            kind: InvokeArgumentMismatchKind.TooManyArguments,
+            expected: parameters.length,
+            actual: args.length,
+        };
+    }
+
+    for (let index: number = 0; index < args.length; index += 1) {
+        // An EachExpression is typed as its body, but what's passed as the argument is a function.
+        const argumentType: Type.TType =
+            args[index].node.kind === Ast.NodeKind.EachExpression
+                ? TypeUtils.genericFactory(Type.TypeKind.Function, false)
+                : inspectXorNode(state, args[index]);
+        const isAny: boolean =
+            argumentType.maybeExtendedKind === undefined &&
+            (argumentType.kind === Type.TypeKind.Any || argumentType.kind === Type.TypeKind.AnyNonNull);
+
+        if (!isAny && !TypeUtils.isCompatible(argumentType, TypeUtils.functionParameterType(parameters[index]))) {
+            return {
+                kind: InvokeArgumentMismatchKind.ArgumentType,
+                argument: args[index],
+                argumentType,
+                parameter: parameters[index],
+            };
+        }
+    }
+
+    return undefined;
+}
+
+// A FieldSelector or FieldProjection outside of a RecursivePrimaryExpression implicitly accesses `_`,
+// eg. `each [a]` is shorthand for `each _[a]`.
+export function inspectFieldAccessSubject(state: TypeInspectionState, xorNode: TXorNode): Type.TType {
+    if (
+        NodeIdMapUtils.maybeParentXorNode(state.nodeIdMapCollection, xorNode.node.id, [Ast.NodeKind.ArrayWrapper]) !==
+        undefined
+    ) {
+        return inspectXorNode(
+            state,
+            NodeIdMapUtils.expectRecursiveExpressionPreviousSibling(state.nodeIdMapCollection, xorNode.node.id),
+        );
+    }
+
+    const maybeEachScopeItem: TScopeItem | undefined = getOrCreateScope(state, xorNode.node.id).get("_");
+    return maybeEachScopeItem !== undefined ? getOrCreateType(state, maybeEachScopeItem) : TypeUtils.unknownFactory();
+}
+
 function inspectFromChildAttributeIndex(
     state: TypeInspectionState,
     parentXorNode: TXorNode,
@@ -333,7 +428,11 @@ function inspectBinOpExpression(state: TypeInspectionState, xorNode: TXorNode):
         const key: string = BinOpExpression.lookupKey(leftType.kind, operatorKind, rightType.kind);
         const maybeResultTypeKind: Type.TypeKind | undefined = BinOpExpression.Lookup.get(key);
         if (maybeResultTypeKind === undefined) {
-            return TypeUtils.noneFactory();
+            // 'null + 1'
+            // Null propagates through every operator other than equality, which has a lookup for null.
+            return leftType.kind === Type.TypeKind.Null || rightType.kind === Type.TypeKind.Null
+                ? TypeUtils.nullFactory()
+                : TypeUtils.noneFactory();
         }
         const resultTypeKind: Type.TypeKind = maybeResultTypeKind;
 
@@ -343,6 +442,13 @@ function inspectBinOpExpression(state: TypeInspectionState, xorNode: TXorNode):
             (resultTypeKind === Type.TypeKind.Record || resultTypeKind === Type.TypeKind.Table)
         ) {
             return inspectRecordOrTableUnion(leftType as TRecordOrTable, rightType as TRecordOrTable);
+        }
+        // Comparing for equality never results in null, eg. 'null = null' is true.
+        else if (
+            operatorKind === Ast.EqualityOperatorKind.EqualTo ||
+            operatorKind === Ast.EqualityOperatorKind.NotEqualTo
+        ) {
+            return TypeUtils.genericFactory(resultTypeKind, false);
         } else {
             return TypeUtils.genericFactory(resultTypeKind, leftType.isNullable || rightType.isNullable);
         }
@@ -460,11 +566,7 @@ function inspectFieldProjection(state: TypeInspectionState, xorNode: TXorNode):
         state.nodeIdMapCollection,
         xorNode,
     );
-    const previousSibling: TXorNode = NodeIdMapUtils.expectRecursiveExpressionPreviousSibling(
-        state.nodeIdMapCollection,
-        xorNode.node.id,
-    );
-    const previousSiblingType: Type.TType = inspectXorNode(state, previousSibling);
+    const previousSiblingType: Type.TType = inspectFieldAccessSubject(state, xorNode);
     const isOptional: boolean =
         NodeIdMapUtils.maybeAstChildByAttributeIndex(state.nodeIdMapCollection, xorNode.node.id, 3, [
             Ast.NodeKind.Constant,
@@ -550,11 +652,7 @@ function inspectFieldSelector(state: TypeInspectionState, xorNode: TXorNode): Ty
     }
     const fieldName: string = (maybeFieldName as Ast.GeneralizedIdentifier).literal;
 
-    const previousSibling: TXorNode = NodeIdMapUtils.expectRecursiveExpressionPreviousSibling(
-        state.nodeIdMapCollection,
-        xorNode.node.id,
-    );
-    const previousSiblingType: Type.TType = inspectXorNode(state, previousSibling);
+    const previousSiblingType: Type.TType = inspectFieldAccessSubject(state, xorNode);
     const isOptional: boolean =
         NodeIdMapUtils.maybeAstChildByAttributeIndex(state.nodeIdMapCollection, xorNode.node.id, 3, [
             Ast.NodeKind.Constant,
@@ -685,6 +783,7 @@ function inspectFunctionExpression(state: TypeInspectionState, xorNode: TXorNode
         parameters: inspectedFunctionExpression.parameters.map(
             (parameter: TypeInspector.InspectedFunctionParameter) => {
                 return {
+                    nameLiteral: parameter.nameLiteral,
                     isNullable: parameter.isNullable,
                     isOptional: parameter.isOptional,
                     maybeType: parameter.maybeType,
@@ -775,7 +874,38 @@ function inspectIdentifierExpression(state: TypeInspectionState, xorNode: TXorNo
     }
 
     const dereferencedType: Type.TType | undefined = maybeDereferencedIdentifierType(state, xorNode);
-    return dereferencedType !== undefined ? dereferencedType : TypeUtils.unknownFactory();
+    if (dereferencedType === undefined) {
+        return TypeUtils.unknownFactory();
+    }
+
+    const identifierExpression: Ast.IdentifierExpression = xorNode.node as Ast.IdentifierExpression;
+    const maybeScopeItem: TScopeItem | undefined = maybeIdentifierExpressionScopeItem(state, identifierExpression);
+    if (maybeScopeItem === undefined) {
+        return dereferencedType;
+    }
+    const scopeItemId: number = maybeScopeItem.id;
+
+    return Narrowing.narrowedType(
+        state.nodeIdMapCollection,
+        identifierExpression,
+        dereferencedType,
+        (other: Ast.IdentifierExpression) => {
+            const maybeOtherScopeItem: TScopeItem | undefined = maybeIdentifierExpressionScopeItem(state, other);
+            return maybeOtherScopeItem !== undefined && maybeOtherScopeItem.id === scopeItemId;
+        },
+    );
+}
+
+// Undefined for recursive references, eg. `@x`, and for identifiers defined outside of the document.
+function maybeIdentifierExpressionScopeItem(
+    state: TypeInspectionState,
+    identifierExpression: Ast.IdentifierExpression,
+): TScopeItem | undefined {
+    if (identifierExpression.maybeInclusiveConstant !== undefined) {
+        return undefined;
+    }
+
+    return getOrCreateScope(state, identifierExpression.id).get(identifierExpression.identifier.literal);
 }
 
 function inspectIfExpression(state: TypeInspectionState, xorNode: TXorNode): Type.TType {
@@ -825,16 +955,32 @@ function inspectInvokeExpression(state: TypeInspectionState, xorNode: TXorNode):
         state.nodeIdMapCollection,
         xorNode.node.id,
     );
+    // The arguments are checked against the invoked value's type before asking for the type of the invocation,
+    // as an external identifier's invocation type doesn't account for mismatched arguments.
     const previousSiblingType: Type.TType = inspectXorNode(state, previousSibling);
     if (previousSiblingType.kind === Type.TypeKind.Any) {
         return TypeUtils.anyFactory();
     } else if (previousSiblingType.kind !== Type.TypeKind.Function) {
         return TypeUtils.noneFactory();
-    } else if (previousSiblingType.maybeExtendedKind === Type.ExtendedTypeKind.DefinedFunction) {
-        return previousSiblingType.returnType;
-    } else {
-        return TypeUtils.anyFactory();
+    } else if (
+        previousSiblingType.maybeExtendedKind === Type.ExtendedTypeKind.DefinedFunction &&
+        maybeInvokeArgumentMismatch(state, xorNode, previousSiblingType) !== undefined
+    ) {
+        return TypeUtils.noneFactory();
+    }
+
+    const maybeExternalInvocationType: Type.TType | undefined = maybeExternalInvokeExpressionType(
+        state,
+        xorNode,
+        previousSibling,
+    );
+    if (maybeExternalInvocationType !== undefined) {
+        return maybeExternalInvocationType;
     }
+
+    return previousSiblingType.maybeExtendedKind === Type.ExtendedTypeKind.DefinedFunction
+        ? previousSiblingType.returnType
+        : TypeUtils.anyFactory();
 }
 
 function inspectListType(
@@ -912,7 +1058,11 @@ function inspectParameter(state: TypeInspectionState, xorNode: TXorNode): Type.T
         Ast.NodeKind.Constant,
     ]);
 
-    const maybeParameterType: Type.TType | undefined = inspectFromChildAttributeIndex(state, xorNode, 2);
+    const maybeParameterType: Type.TType | undefined =
+        NodeIdMapUtils.maybeXorChildByAttributeIndex(state.nodeIdMapCollection, xorNode.node.id, 2, undefined) !==
+        undefined
+            ? inspectFromChildAttributeIndex(state, xorNode, 2)
+            : maybeContextualParameterTypeFrom(state, xorNode.node.id) || TypeUtils.unknownFactory();
 
     return {
         ...maybeParameterType,
@@ -1373,7 +1523,13 @@ function maybeDereferencedIdentifierType(state: TypeInspectionState, xorNode: TX
 
     const scopeItemByKey: ScopeItemByKey = getOrCreateScope(state, deferenced.id);
     const maybeScopeItem: undefined | TScopeItem = scopeItemByKey.get(identifierLiteral);
-    if (maybeScopeItem === undefined || (maybeScopeItem.isRecursive === true && isIdentifierRecurisve === false)) {
+    // The identifier might be defined outside of the document, eg. `Text.Length`.
+    if (maybeScopeItem === undefined && isIdentifierRecurisve === false) {
+        return maybeExternalType(state, ExternalType.valueTypeRequestFactory(identifierLiteral));
+    } else if (
+        maybeScopeItem === undefined ||
+        (maybeScopeItem.isRecursive === true && isIdentifierRecurisve === false)
+    ) {
         return undefined;
     }
     const scopeItem: TScopeItem = maybeScopeItem;
@@ -1385,15 +1541,14 @@ function maybeDereferencedIdentifierType(state: TypeInspectionState, xorNode: TX
     let maybeNextXorNode: undefined | TXorNode;
     switch (scopeItem.kind) {
         case ScopeItemKind.Each:
-            maybeNextXorNode = scopeItem.eachExpression;
-            break;
+            return inspectEachScopeItem(state, scopeItem);
 
         case ScopeItemKind.KeyValuePair:
             maybeNextXorNode = scopeItem.maybeValue;
             break;
 
         case ScopeItemKind.Parameter:
-            return TypeUtils.parameterFactory(scopeItem);
+            return inspectParameterScopeItem(state, scopeItem);
 
         case ScopeItemKind.SectionMember:
             maybeNextXorNode = scopeItem.maybeValue;
@@ -1412,6 +1567,152 @@ function maybeDereferencedIdentifierType(state: TypeInspectionState, xorNode: TX
     return inspectXorNode(state, maybeNextXorNode);
 }
 
+// Gives the external type resolver a chance to type an invocation on an identifier outside of the document,
+// eg. `Text.Length("a")`, using the argument types.
+function maybeExternalInvokeExpressionType(
+    state: TypeInspectionState,
+    invokeExpr: TXorNode,
+    previousSibling: TXorNode,
+): Type.TType | undefined {
+    const maybeIdentifierLiteral: string | undefined = maybeExternalIdentifierLiteral(state, previousSibling);
+    if (maybeIdentifierLiteral === undefined) {
+        return undefined;
+    }
+    const identifierLiteral: string = maybeIdentifierLiteral;
+
+    const args: ReadonlyArray<TXorNode> = NodeIdMapIterator.invokeExpressionArgs(state.nodeIdMapCollection, invokeExpr);
+    const maybeTableType: Type.DefinedTable | undefined = TableSchema.maybeInvocationType(
+        state.nodeIdMapCollection,
+        identifierLiteral,
+        args,
+        (arg: TXorNode) => inspectXorNode(state, arg),
+    );
+    if (maybeTableType !== undefined) {
+        return maybeTableType;
+    }
+
+    return maybeExternalType(
+        state,
+        ExternalType.invocationTypeRequestFactory(
+            identifierLiteral,
+            args.map((arg: TXorNode) => inspectXorNode(state, arg)),
+        ),
+    );
+}
+
+// The type of a function's parameter as implied by where the function is passed,
+// eg. `_` is a row of the table in `Table.SelectRows(table, each [a] > 1)`.
+// Only functions which are passed directly to an identifier outside of the document are inferred.
+function maybeContextualParameterType(
+    state: TypeInspectionState,
+    fnExpression: TXorNode,
+    parameterIndex: number,
+): Type.TType | undefined {
+    const nodeIdMapCollection: NodeIdMap.Collection = state.nodeIdMapCollection;
+    const maybeCsv: TXorNode | undefined = NodeIdMapUtils.maybeParentXorNode(
+        nodeIdMapCollection,
+        fnExpression.node.id,
+        [Ast.NodeKind.Csv],
+    );
+    const maybeArrayWrapper: TXorNode | undefined =
+        maybeCsv !== undefined
+            ? NodeIdMapUtils.maybeParentXorNode(nodeIdMapCollection, maybeCsv.node.id, [Ast.NodeKind.ArrayWrapper])
+            : undefined;
+    const maybeInvokeExpression: TXorNode | undefined =
+        maybeArrayWrapper !== undefined
+            ? NodeIdMapUtils.maybeParentXorNode(nodeIdMapCollection, maybeArrayWrapper.node.id, [
+                  Ast.NodeKind.InvokeExpression,
+              ])
+            : undefined;
+    if (maybeInvokeExpression === undefined) {
+        return undefined;
+    }
+    const invokeExpression: TXorNode = maybeInvokeExpression;
+
+    const maybeIdentifierLiteral: string | undefined = maybeExternalIdentifierLiteral(
+        state,
+        NodeIdMapUtils.expectRecursiveExpressionPreviousSibling(nodeIdMapCollection, invokeExpression.node.id),
+    );
+    if (maybeIdentifierLiteral === undefined) {
+        return undefined;
+    }
+
+    const args: ReadonlyArray<TXorNode> = NodeIdMapIterator.invokeExpressionArgs(nodeIdMapCollection, invokeExpression);
+    const argumentIndex: number = args.findIndex((arg: TXorNode) => arg.node.id === fnExpression.node.id);
+    const precedingArgs: ReadonlyArray<Type.TType> = args
+        .slice(0, argumentIndex)
+        .map((arg: TXorNode) => inspectXorNode(state, arg));
+
+    return maybeExternalType(
+        state,
+        ExternalType.parameterTypeRequestFactory(maybeIdentifierLiteral, precedingArgs, argumentIndex, parameterIndex),
+    );
+}
+
+function maybeContextualParameterTypeFrom(state: TypeInspectionState, parameterId: number): Type.TType | undefined {
+    const maybeFnExpression: TXorNode | undefined = AncestryUtils.expectAncestry(
+        state.nodeIdMapCollection,
+        parameterId,
+    ).find((xorNode: TXorNode) => xorNode.node.kind === Ast.NodeKind.FunctionExpression);
+    if (maybeFnExpression === undefined) {
+        return undefined;
+    }
+    const fnExpression: TXorNode = maybeFnExpression;
+
+    const parameterIndex: number = TypeInspector.inspectFunctionExpression(
+        state.nodeIdMapCollection,
+        fnExpression,
+    ).parameters.findIndex((parameter: TypeInspector.InspectedFunctionParameter) => parameter.id === parameterId);
+
+    return maybeContextualParameterType(state, fnExpression, parameterIndex);
+}
+
+function inspectEachScopeItem(state: TypeInspectionState, scopeItem: EachScopeItem): Type.TType {
+    const maybeContextualType: Type.TType | undefined = maybeContextualParameterType(
+        state,
+        scopeItem.eachExpression,
+        0,
+    );
+    return maybeContextualType !== undefined ? maybeContextualType : TypeUtils.unknownFactory();
+}
+
+// A parameter which doesn't state its type might have it inferred from where its function is passed.
+function inspectParameterScopeItem(state: TypeInspectionState, scopeItem: ParameterScopeItem): Type.TType {
+    if (scopeItem.maybeType !== undefined) {
+        return TypeUtils.parameterFactory(scopeItem);
+    }
+
+    const maybeContextualType: Type.TType | undefined = maybeContextualParameterTypeFrom(state, scopeItem.id);
+    return maybeContextualType !== undefined ? maybeContextualType : TypeUtils.parameterFactory(scopeItem);
+}
+
+// The literal of an identifier which isn't defined in the document but is in the library.
+function maybeExternalIdentifierLiteral(state: TypeInspectionState, xorNode: TXorNode): string | undefined {
+    if (
+        xorNode.kind !== XorNodeKind.Ast ||
+        xorNode.node.kind !== Ast.NodeKind.IdentifierExpression ||
+        xorNode.node.maybeInclusiveConstant !== undefined
+    ) {
+        return undefined;
+    }
+
+    const identifierLiteral: string = xorNode.node.identifier.literal;
+    return ScopeUtils.maybeLibraryDefinitionFor(
+        state.settings,
+        getOrCreateScope(state, xorNode.node.id),
+        identifierLiteral,
+    ) !== undefined
+        ? identifierLiteral
+        : undefined;
+}
+
+function maybeExternalType(
+    state: TypeInspectionState,
+    request: ExternalType.TExternalTypeRequest,
+): Type.TType | undefined {
+    return LibraryUtils.maybeExternalType(libraryDefinitionsFor(state.settings), request);
+}
+
 function maybeDereferencedIdentifier(state: TypeInspectionState, xorNode: TXorNode): TXorNode | undefined {
     const maybeErr: CommonError.InvariantError | undefined = NodeIdMapUtils.testAstAnyNodeKind(xorNode, [
         Ast.NodeKind.Identifier,
@@ -1447,12 +1748,12 @@ function maybeDereferencedIdentifier(state: TypeInspectionState, xorNode: TXorNo
     const scopeItemByKey: ScopeItemByKey = getOrCreateScope(state, identifier.id);
     const maybeScopeItem: undefined | TScopeItem = scopeItemByKey.get(identifierLiteral);
 
-    if (
-        // If the identifier couldn't be found in the generated scope,
-        // then either the scope generation is incorrect or it's an external identifier (eg. Odbc.Database).
-        maybeScopeItem === undefined ||
-        maybeScopeItem.isRecursive !== isIdentifierRecurisve
-    ) {
+    // If the identifier couldn't be found in the generated scope,
+    // then either the scope generation is incorrect or it's an external identifier (eg. Odbc.Database).
+    // An external identifier can't be dereferenced any further, so it's left for the library definitions.
+    if (maybeScopeItem === undefined) {
+        return isIdentifierRecurisve === false ? xorNode : undefined;
+    } else if (maybeScopeItem.isRecursive !== isIdentifierRecurisve) {
         return undefined;
     }
     const scopeItem: TScopeItem = maybeScopeItem;
@@ -0,0 +1,222 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Ast } from "../../language";
+import { AncestryUtils, NodeIdMap, TXorNode, XorNodeKind } from "../../parser";
+import { Type, TypeUtils } from "../../type";
+
+// Narrows the type of an identifier using the conditions which must hold for it to be evaluated.
+// Eg. `x` is text in `if x is text then x else 0`, and isn't null in `(x <> null) and (x > 1)`.
+//
+// isSubject is used to check if an IdentifierExpression in a condition refers to the same value,
+// which means a condition on a shadowed identifier of the same name is ignored.
+export function narrowedType(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    identifierExpression: Ast.IdentifierExpression,
+    type: Type.TType,
+    isSubject: (identifierExpression: Ast.IdentifierExpression) => boolean,
+): Type.TType {
+    const ancestry: ReadonlyArray<TXorNode> = AncestryUtils.expectAncestry(
+        nodeIdMapCollection,
+        identifierExpression.id,
+    );
+
+    let narrowed: Type.TType = type;
+    for (let index: number = 1; index < ancestry.length; index += 1) {
+        const child: TXorNode = ancestry[index - 1];
+        const parent: TXorNode = ancestry[index];
+        if (parent.kind === XorNodeKind.Ast) {
+            narrowed = narrowedByParent(narrowed, child, parent.node, isSubject);
+        }
+    }
+
+    return narrowed;
+}
+
+function narrowedByParent(
+    type: Type.TType,
+    child: TXorNode,
+    parent: Ast.TNode,
+    isSubject: (identifierExpression: Ast.IdentifierExpression) => boolean,
+): Type.TType {
+    switch (parent.kind) {
+        case Ast.NodeKind.IfExpression:
+            if (child.node.id === parent.trueExpression.id) {
+                return narrowedByCondition(type, parent.condition, true, isSubject);
+            } else if (child.node.id === parent.falseExpression.id) {
+                return narrowedByCondition(type, parent.condition, false, isSubject);
+            } else {
+                return type;
+            }
+
+        // The right operand is only evaluated if the left operand didn't already decide the result.
+        case Ast.NodeKind.LogicalExpression: {
+            if (child.node.id !== parent.right.id) {
+                return type;
+            }
+            const isLeftTrue: boolean = parent.operatorConstant.constantKind === Ast.LogicalOperatorKind.And;
+
+            return narrowedByCondition(type, parent.left, isLeftTrue, isSubject);
+        }
+
+        default:
+            return type;
+    }
+}
+
+function narrowedByCondition(
+    type: Type.TType,
+    condition: Ast.TNode,
+    isTrue: boolean,
+    isSubject: (identifierExpression: Ast.IdentifierExpression) => boolean,
+): Type.TType {
+    switch (condition.kind) {
+        case Ast.NodeKind.EqualityExpression: {
+            let maybeOther: Ast.TNode | undefined;
+            if (isNullLiteral(condition.left)) {
+                maybeOther = condition.right;
+            } else if (isNullLiteral(condition.right)) {
+                maybeOther = condition.left;
+            }
+            if (maybeOther === undefined || !isSubjectNode(maybeOther, isSubject)) {
+                return type;
+            }
+            const isEqualTo: boolean = condition.operatorConstant.constantKind === Ast.EqualityOperatorKind.EqualTo;
+
+            return isEqualTo === isTrue ? TypeUtils.nullFactory() : nonNullableType(type);
+        }
+
+        case Ast.NodeKind.IsExpression:
+            return isSubjectNode(condition.left, isSubject)
+                ? narrowedByIs(type, condition.right as Ast.TNullablePrimitiveType, isTrue)
+                : type;
+
+        // `a and b` is only true if both are true, while `a or b` is only false if both are false.
+        case Ast.NodeKind.LogicalExpression: {
+            const isAnd: boolean = condition.operatorConstant.constantKind === Ast.LogicalOperatorKind.And;
+            if (isAnd !== isTrue) {
+                return type;
+            }
+
+            return narrowedByCondition(
+                narrowedByCondition(type, condition.left, isTrue, isSubject),
+                condition.right,
+                isTrue,
+                isSubject,
+            );
+        }
+
+        case Ast.NodeKind.ParenthesizedExpression:
+            return narrowedByCondition(type, condition.content, isTrue, isSubject);
+
+        case Ast.NodeKind.UnaryExpression: {
+            const operators: ReadonlyArray<Ast.IConstant<Ast.UnaryOperatorKind>> = condition.operators.elements;
+            if (
+                operators.some(
+                    (operator: Ast.IConstant<Ast.UnaryOperatorKind>) =>
+                        operator.constantKind !== Ast.UnaryOperatorKind.Not,
+                )
+            ) {
+                return type;
+            }
+            const isNegated: boolean = operators.length % 2 === 1;
+
+            return narrowedByCondition(type, condition.typeExpression, isNegated ? !isTrue : isTrue, isSubject);
+        }
+
+        default:
+            return type;
+    }
+}
+
+function narrowedByIs(type: Type.TType, isType: Ast.TNullablePrimitiveType, isTrue: boolean): Type.TType {
+    const primitiveType: Ast.PrimitiveType =
+        isType.kind === Ast.NodeKind.NullablePrimitiveType ? isType.paired : isType;
+    const checkedType: Type.TType = TypeUtils.genericFactory(
+        TypeUtils.typeKindFromPrimitiveTypeConstantKind(primitiveType.primitiveType.constantKind),
+        isType.kind === Ast.NodeKind.NullablePrimitiveType,
+    );
+
+    if (checkedType.kind === Type.TypeKind.Any) {
+        return isTrue ? type : TypeUtils.noneFactory();
+    } else if (checkedType.kind === Type.TypeKind.Null) {
+        return isTrue ? TypeUtils.nullFactory() : nonNullableType(type);
+    }
+
+    const members: ReadonlyArray<Type.TType> = unionMembers(type);
+    if (isTrue) {
+        const narrowedMembers: ReadonlyArray<Type.TType> = members
+            .map((member: Type.TType) => maybeNarrowedMemberByIs(member, checkedType))
+            .filter((member: Type.TType | undefined) => member !== undefined) as ReadonlyArray<Type.TType>;
+
+        return narrowedMembers.length ? TypeUtils.anyUnionFactory(narrowedMembers) : checkedType;
+    }
+
+    // Only members which are entirely covered by the checked type can be removed.
+    const remainingMembers: ReadonlyArray<Type.TType> = members.filter(
+        (member: Type.TType) =>
+            !(member.kind === checkedType.kind && (checkedType.isNullable || !member.isNullable)) &&
+            !(member.kind === Type.TypeKind.Null && checkedType.isNullable),
+    );
+    if (!remainingMembers.length) {
+        return type;
+    }
+    const narrowed: Type.TType = TypeUtils.anyUnionFactory(remainingMembers);
+
+    return checkedType.isNullable ? nonNullableType(narrowed) : narrowed;
+}
+
+// Undefined if the member can't be the checked type.
+function maybeNarrowedMemberByIs(member: Type.TType, checkedType: Type.TType): Type.TType | undefined {
+    switch (member.kind) {
+        case Type.TypeKind.Any:
+        case Type.TypeKind.AnyNonNull:
+        case Type.TypeKind.Unknown:
+            return checkedType;
+
+        case Type.TypeKind.Null:
+            return checkedType.isNullable ? member : undefined;
+
+        default:
+            return member.kind === checkedType.kind
+                ? { ...member, isNullable: member.isNullable && checkedType.isNullable }
+                : undefined;
+    }
+}
+
+function nonNullableType(type: Type.TType): Type.TType {
+    switch (type.kind) {
+        case Type.TypeKind.Any:
+            return type.maybeExtendedKind === Type.ExtendedTypeKind.AnyUnion
+                ? TypeUtils.anyUnionFactory(
+                      type.unionedTypePairs
+                          .filter((member: Type.TType) => member.kind !== Type.TypeKind.Null)
+                          .map(nonNullableType),
+                  )
+                : TypeUtils.genericFactory(Type.TypeKind.AnyNonNull, false);
+
+        case Type.TypeKind.Null:
+            return TypeUtils.noneFactory();
+
+        case Type.TypeKind.Unknown:
+            return type;
+
+        default:
+            return { ...type, isNullable: false };
+    }
+}
+
+function unionMembers(type: Type.TType): ReadonlyArray<Type.TType> {
+    return type.maybeExtendedKind === Type.ExtendedTypeKind.AnyUnion ? type.unionedTypePairs : [type];
+}
+
+function isNullLiteral(node: Ast.TNode): boolean {
+    return node.kind === Ast.NodeKind.LiteralExpression && node.literalKind === Ast.LiteralKind.Null;
+}
+
+function isSubjectNode(
+    node: Ast.TNode,
+    isSubject: (identifierExpression: Ast.IdentifierExpression) => boolean,
+): boolean {
+    return node.kind === Ast.NodeKind.IdentifierExpression && isSubject(node);
+}
@@ -0,0 +1,444 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Ast } from "../../language";
+import { NodeIdMap, NodeIdMapIterator, TXorNode, XorNodeKind } from "../../parser";
+import { Type, TypeUtils } from "../../type";
+
+// The columns of a table produced by a well-known library function, derived from the invocation's arguments.
+// Eg. `Table.RenameColumns(t, {"a", "b"})` has the columns of `t`, except that `a` is now named `b`.
+//
+// Returns undefined if the function isn't one of the well-known functions,
+// or if the arguments aren't literals which can be followed (such as a column name held in a variable).
+export function maybeInvocationType(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    identifierLiteral: string,
+    args: ReadonlyArray<TXorNode>,
+    inspect: (xorNode: TXorNode) => Type.TType,
+): Type.DefinedTable | undefined {
+    const maybeSchema: Schema | undefined = maybeInvocationSchema(
+        nodeIdMapCollection,
+        identifierLiteral,
+        args,
+        inspect,
+    );
+
+    return maybeSchema !== undefined
+        ? TypeUtils.definedTableFactory(false, maybeSchema.fields, maybeSchema.isOpen)
+        : undefined;
+}
+
+interface Schema {
+    readonly fields: Map<string, Type.TType>;
+    readonly isOpen: boolean;
+}
+
+function maybeInvocationSchema(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    identifierLiteral: string,
+    args: ReadonlyArray<TXorNode>,
+    inspect: (xorNode: TXorNode) => Type.TType,
+): Schema | undefined {
+    if (identifierLiteral === "#table") {
+        return args.length ? maybeHashTableSchema(nodeIdMapCollection, args[0], inspect) : undefined;
+    } else if (identifierLiteral === "Table.FromRecords") {
+        return args.length === 1 ? maybeFromRecordsSchema(inspect(args[0])) : undefined;
+    }
+
+    const maybeTableSchema: Schema | undefined = args.length ? maybeSchemaOf(inspect(args[0])) : undefined;
+    if (maybeTableSchema === undefined) {
+        return undefined;
+    }
+    const tableSchema: Schema = maybeTableSchema;
+
+    switch (identifierLiteral) {
+        case "Table.Distinct":
+        case "Table.FirstN":
+        case "Table.SelectRows":
+        case "Table.Sort":
+            return tableSchema;
+
+        case "Table.AddColumn":
+            return args.length >= 3
+                ? maybeAddColumnSchema(tableSchema, args[1], args[2], args.length >= 4 ? args[3] : undefined, inspect)
+                : undefined;
+
+        case "Table.ExpandRecordColumn":
+            return args.length >= 3
+                ? maybeExpandRecordColumnSchema(
+                      nodeIdMapCollection,
+                      tableSchema,
+                      args[1],
+                      args[2],
+                      args.length >= 4 ? args[3] : undefined,
+                  )
+                : undefined;
+
+        case "Table.RemoveColumns":
+            return args.length >= 2 ? maybeRemoveColumnsSchema(nodeIdMapCollection, tableSchema, args[1]) : undefined;
+
+        case "Table.RenameColumns":
+            return args.length >= 2 ? maybeRenameColumnsSchema(nodeIdMapCollection, tableSchema, args[1]) : undefined;
+
+        case "Table.SelectColumns":
+            return args.length >= 2 ? maybeSelectColumnsSchema(nodeIdMapCollection, tableSchema, args[1]) : undefined;
+
+        case "Table.TransformColumnTypes":
+            return args.length >= 2
+                ? maybeTransformColumnTypesSchema(nodeIdMapCollection, tableSchema, args[1], inspect)
+                : undefined;
+
+        default:
+            return undefined;
+    }
+}
+
+// `#table({"a", "b"}, rows)` has columns of an unknown type, while `#table(type table [a = number], rows)` is typed.
+function maybeHashTableSchema(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    columns: TXorNode,
+    inspect: (xorNode: TXorNode) => Type.TType,
+): Schema | undefined {
+    const maybeColumnNames: ReadonlyArray<string> | undefined = maybeTextLiterals(nodeIdMapCollection, columns);
+    if (maybeColumnNames !== undefined) {
+        return {
+            fields: new Map(maybeColumnNames.map((name: string) => [name, TypeUtils.anyFactory()])),
+            isOpen: false,
+        };
+    }
+
+    const columnsType: Type.TType = inspect(columns);
+    return columnsType.maybeExtendedKind === Type.ExtendedTypeKind.DefinedType
+        ? maybeSchemaOf(columnsType.primaryType)
+        : undefined;
+}
+
+// The columns are every field found in the records, each typed as the union of the field's types.
+function maybeFromRecordsSchema(records: Type.TType): Schema | undefined {
+    if (records.maybeExtendedKind !== Type.ExtendedTypeKind.DefinedList || !records.elements.length) {
+        return undefined;
+    }
+
+    const fieldTypesByName: Map<string, Type.TType[]> = new Map();
+    let isOpen: boolean = false;
+    for (const element of records.elements) {
+        if (element.maybeExtendedKind !== Type.ExtendedTypeKind.DefinedRecord) {
+            return undefined;
+        }
+        isOpen = isOpen || element.isOpen;
+
+        for (const [name, fieldType] of element.fields.entries()) {
+            const maybeFieldTypes: Type.TType[] | undefined = fieldTypesByName.get(name);
+            if (maybeFieldTypes !== undefined) {
+                maybeFieldTypes.push(fieldType);
+            } else {
+                fieldTypesByName.set(name, [fieldType]);
+            }
+        }
+    }
+
+    const fields: Map<string, Type.TType> = new Map();
+    for (const [name, fieldTypes] of fieldTypesByName.entries()) {
+        fields.set(name, TypeUtils.anyUnionFactory(fieldTypes));
+    }
+
+    return {
+        fields,
+        isOpen,
+    };
+}
+
+// The new column is typed by the optional columnType argument, otherwise by what the generator returns.
+function maybeAddColumnSchema(
+    tableSchema: Schema,
+    newColumnName: TXorNode,
+    columnGenerator: TXorNode,
+    maybeColumnType: TXorNode | undefined,
+    inspect: (xorNode: TXorNode) => Type.TType,
+): Schema | undefined {
+    const maybeName: string | undefined = maybeTextLiteral(newColumnName);
+    if (maybeName === undefined) {
+        return undefined;
+    }
+
+    let columnType: Type.TType;
+    if (maybeColumnType !== undefined) {
+        columnType = inspect(maybeColumnType);
+    } else {
+        const generatorType: Type.TType = inspect(columnGenerator);
+        if (generatorType.maybeExtendedKind === Type.ExtendedTypeKind.DefinedFunction) {
+            columnType = generatorType.returnType;
+        } else if (columnGenerator.node.kind === Ast.NodeKind.EachExpression) {
+            // The type of an EachExpression is already the type of its body.
+            columnType = generatorType;
+        } else {
+            columnType = TypeUtils.anyFactory();
+        }
+    }
+
+    const fields: Map<string, Type.TType> = new Map(tableSchema.fields);
+    fields.set(maybeName, columnType);
+
+    return {
+        fields,
+        isOpen: tableSchema.isOpen,
+    };
+}
+
+// The record column is replaced, in place, by the expanded fields.
+function maybeExpandRecordColumnSchema(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    tableSchema: Schema,
+    column: TXorNode,
+    fieldNames: TXorNode,
+    maybeNewColumnNames: TXorNode | undefined,
+): Schema | undefined {
+    const maybeColumnName: string | undefined = maybeTextLiteral(column);
+    const maybeFieldNames: ReadonlyArray<string> | undefined = maybeTextLiterals(nodeIdMapCollection, fieldNames);
+    const maybeNewNames: ReadonlyArray<string> | undefined =
+        maybeNewColumnNames !== undefined ? maybeTextLiterals(nodeIdMapCollection, maybeNewColumnNames) : undefined;
+    if (
+        maybeColumnName === undefined ||
+        maybeFieldNames === undefined ||
+        (maybeNewColumnNames !== undefined && maybeNewNames === undefined)
+    ) {
+        return undefined;
+    }
+    const columnName: string = maybeColumnName;
+    const expandedNames: ReadonlyArray<string> = maybeFieldNames;
+    const newNames: ReadonlyArray<string> = maybeNewNames !== undefined ? maybeNewNames : expandedNames;
+
+    const maybeColumnType: Type.TType | undefined = tableSchema.fields.get(columnName);
+    if (maybeColumnType === undefined) {
+        return undefined;
+    }
+    const columnType: Type.TType = maybeColumnType;
+
+    const fields: Map<string, Type.TType> = new Map();
+    for (const [name, fieldType] of tableSchema.fields.entries()) {
+        if (name !== columnName) {
+            fields.set(name, fieldType);
+            continue;
+        }
+
+        expandedNames.forEach((expandedName: string, index: number) => {
+            const maybeExpandedType: Type.TType | undefined =
+                columnType.maybeExtendedKind === Type.ExtendedTypeKind.DefinedRecord
+                    ? columnType.fields.get(expandedName)
+                    : undefined;
+            fields.set(
+                index < newNames.length ? newNames[index] : expandedName,
+                maybeExpandedType !== undefined ? maybeExpandedType : TypeUtils.anyFactory(),
+            );
+        });
+    }
+
+    return {
+        fields,
+        isOpen: tableSchema.isOpen,
+    };
+}
+
+function maybeRemoveColumnsSchema(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    tableSchema: Schema,
+    columns: TXorNode,
+): Schema | undefined {
+    const maybeColumnNames: ReadonlyArray<string> | undefined = maybeTextLiterals(nodeIdMapCollection, columns);
+    if (maybeColumnNames === undefined) {
+        return undefined;
+    }
+    const columnNames: ReadonlyArray<string> = maybeColumnNames;
+
+    const fields: Map<string, Type.TType> = new Map(tableSchema.fields);
+    for (const columnName of columnNames) {
+        fields.delete(columnName);
+    }
+
+    return {
+        fields,
+        isOpen: tableSchema.isOpen,
+    };
+}
+
+// Accepts either a single `{old, new}` pair or a list of them, where renamed columns keep their position.
+function maybeRenameColumnsSchema(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    tableSchema: Schema,
+    renames: TXorNode,
+): Schema | undefined {
+    const maybePairs: ReadonlyArray<[TXorNode, TXorNode]> | undefined = maybeListPairs(nodeIdMapCollection, renames);
+    if (maybePairs === undefined) {
+        return undefined;
+    }
+
+    const newNameByOldName: Map<string, string> = new Map();
+    for (const [oldName, newName] of maybePairs) {
+        const maybeOldName: string | undefined = maybeTextLiteral(oldName);
+        const maybeNewName: string | undefined = maybeTextLiteral(newName);
+        if (maybeOldName === undefined || maybeNewName === undefined) {
+            return undefined;
+        }
+        newNameByOldName.set(maybeOldName, maybeNewName);
+    }
+
+    const fields: Map<string, Type.TType> = new Map();
+    for (const [name, fieldType] of tableSchema.fields.entries()) {
+        const maybeNewName: string | undefined = newNameByOldName.get(name);
+        fields.set(maybeNewName !== undefined ? maybeNewName : name, fieldType);
+    }
+    // An open table might have the column even though it isn't known.
+    if (tableSchema.isOpen) {
+        for (const [oldName, newName] of newNameByOldName.entries()) {
+            if (!tableSchema.fields.has(oldName)) {
+                fields.set(newName, TypeUtils.anyFactory());
+            }
+        }
+    }
+
+    return {
+        fields,
+        isOpen: tableSchema.isOpen,
+    };
+}
+
+// The selected columns are in the order they were given, and the result is closed.
+function maybeSelectColumnsSchema(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    tableSchema: Schema,
+    columns: TXorNode,
+): Schema | undefined {
+    const maybeColumnNames: ReadonlyArray<string> | undefined = maybeTextLiterals(nodeIdMapCollection, columns);
+    if (maybeColumnNames === undefined) {
+        return undefined;
+    }
+    const columnNames: ReadonlyArray<string> = maybeColumnNames;
+
+    const fields: Map<string, Type.TType> = new Map();
+    for (const columnName of columnNames) {
+        const maybeFieldType: Type.TType | undefined = tableSchema.fields.get(columnName);
+        if (maybeFieldType !== undefined) {
+            fields.set(columnName, maybeFieldType);
+        } else if (tableSchema.isOpen) {
+            fields.set(columnName, TypeUtils.anyFactory());
+        }
+    }
+
+    return {
+        fields,
+        isOpen: false,
+    };
+}
+
+// Accepts either a single `{column, type}` pair or a list of them.
+function maybeTransformColumnTypesSchema(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    tableSchema: Schema,
+    typeTransformations: TXorNode,
+    inspect: (xorNode: TXorNode) => Type.TType,
+): Schema | undefined {
+    const maybePairs: ReadonlyArray<[TXorNode, TXorNode]> | undefined = maybeListPairs(
+        nodeIdMapCollection,
+        typeTransformations,
+    );
+    if (maybePairs === undefined) {
+        return undefined;
+    }
+
+    const fields: Map<string, Type.TType> = new Map(tableSchema.fields);
+    for (const [column, columnType] of maybePairs) {
+        const maybeColumnName: string | undefined = maybeTextLiteral(column);
+        if (maybeColumnName === undefined) {
+            return undefined;
+        }
+        if (fields.has(maybeColumnName) || tableSchema.isOpen) {
+            fields.set(maybeColumnName, inspect(columnType));
+        }
+    }
+
+    return {
+        fields,
+        isOpen: tableSchema.isOpen,
+    };
+}
+
+function maybeSchemaOf(type: Type.TType): Schema | undefined {
+    return type.maybeExtendedKind === Type.ExtendedTypeKind.DefinedTable
+        ? {
+              fields: type.fields,
+              isOpen: type.isOpen,
+          }
+        : undefined;
+}
+
+// Eg. both `{"a", "b"}` and `{{"a", "b"}, {"c", "d"}}` are accepted as a list of pairs.
+function maybeListPairs(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    xorNode: TXorNode,
+): ReadonlyArray<[TXorNode, TXorNode]> | undefined {
+    const maybeItems: ReadonlyArray<TXorNode> | undefined = maybeListExpressionItems(nodeIdMapCollection, xorNode);
+    if (maybeItems === undefined) {
+        return undefined;
+    }
+    const items: ReadonlyArray<TXorNode> = maybeItems;
+
+    if (items.length === 2 && !items.some((item: TXorNode) => item.node.kind === Ast.NodeKind.ListExpression)) {
+        return [[items[0], items[1]]];
+    }
+
+    const pairs: [TXorNode, TXorNode][] = [];
+    for (const item of items) {
+        const maybePair: ReadonlyArray<TXorNode> | undefined = maybeListExpressionItems(nodeIdMapCollection, item);
+        if (maybePair === undefined || maybePair.length !== 2) {
+            return undefined;
+        }
+        pairs.push([maybePair[0], maybePair[1]]);
+    }
+
+    return pairs;
+}
+
+// Eg. `"a"` and `{"a", "b"}`.
+function maybeTextLiterals(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    xorNode: TXorNode,
+): ReadonlyArray<string> | undefined {
+    const maybeText: string | undefined = maybeTextLiteral(xorNode);
+    if (maybeText !== undefined) {
+        return [maybeText];
+    }
+
+    const maybeItems: ReadonlyArray<TXorNode> | undefined = maybeListExpressionItems(nodeIdMapCollection, xorNode);
+    if (maybeItems === undefined) {
+        return undefined;
+    }
+
+    const texts: string[] = [];
+    for (const item of maybeItems) {
+        const maybeItemText: string | undefined = maybeTextLiteral(item);
+        if (maybeItemText === undefined) {
+            return undefined;
+        }
+        texts.push(maybeItemText);
+    }
+
+    return texts;
+}
+
+function maybeListExpressionItems(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    xorNode: TXorNode,
+): ReadonlyArray<TXorNode> | undefined {
+    return xorNode.kind === XorNodeKind.Ast && xorNode.node.kind === Ast.NodeKind.ListExpression
+        ? NodeIdMapIterator.listItems(nodeIdMapCollection, xorNode)
+        : undefined;
+}
+
+// The value of a text literal, with any escaped quotes unescaped.
+function maybeTextLiteral(xorNode: TXorNode): string | undefined {
+    return xorNode.kind === XorNodeKind.Ast &&
+        xorNode.node.kind === Ast.NodeKind.LiteralExpression &&
+        xorNode.node.literalKind === Ast.LiteralKind.Text
+        ? xorNode.node.literal.slice(1, -1).replace(/""/g, `"`)
+        : undefined;
+}
@@ -6,7 +6,7 @@ import { getLocalizationTemplates } from "../../localization";
 import { NodeIdMap, NodeIdMapUtils } from "../../parser";
 import { CommonSettings } from "../../settings";
 import { Type } from "../../type";
-import { ScopeById, ScopeItemByKey } from "../scope";
+import { ScopeById, ScopeItemByKey, ScopeItemKind } from "../scope";
 import { getOrCreateScope, getOrCreateType, inspectXorNode } from "./inspectType";
 import { ScopeTypeByKey, TypeById, TypeInspectionState } from "./type";
 
@@ -48,11 +48,11 @@ export function tryType(
 ): TriedType {
     const state: TypeInspectionState = {
         settings,
-        givenTypeById: maybeTypeCache !== undefined ? maybeTypeCache.scopeById : new Map(),
+        givenTypeById: maybeTypeCache !== undefined ? maybeTypeCache.typeById : new Map(),
         deltaTypeById: new Map(),
         nodeIdMapCollection,
         leafNodeIds,
-        scopeById: maybeTypeCache !== undefined ? maybeTypeCache.typeById : new Map(),
+        scopeById: maybeTypeCache !== undefined ? maybeTypeCache.scopeById : new Map(),
     };
 
     return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () =>
@@ -63,8 +63,9 @@ export function tryType(
 function inspectScopeType(state: TypeInspectionState, nodeId: number): ScopeTypeByKey {
     const scopeItemByKey: ScopeItemByKey = getOrCreateScope(state, nodeId);
 
+    // See getOrCreateType for why `_` is never cached.
     for (const scopeItem of scopeItemByKey.values()) {
-        if (!state.givenTypeById.has(scopeItem.id)) {
+        if (scopeItem.kind !== ScopeItemKind.Each && !state.givenTypeById.has(scopeItem.id)) {
             state.deltaTypeById.set(scopeItem.id, getOrCreateType(state, scopeItem));
         }
     }
@@ -75,7 +76,10 @@ function inspectScopeType(state: TypeInspectionState, nodeId: number): ScopeType
 
     const result: ScopeTypeByKey = new Map();
     for (const [key, scopeItem] of scopeItemByKey.entries()) {
-        const maybeType: Type.TType | undefined = state.givenTypeById.get(scopeItem.id);
+        const maybeType: Type.TType | undefined =
+            scopeItem.kind === ScopeItemKind.Each
+                ? getOrCreateType(state, scopeItem)
+                : state.givenTypeById.get(scopeItem.id);
         if (maybeType === undefined) {
             const details: {} = { nodeId: scopeItem.id };
             throw new CommonError.InvariantError(`expected nodeId to be in givenTypeById`, details);
@@ -1,11 +1,13 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { NodeIdMap } from "../../parser";
+import { NodeIdMap, TXorNode } from "../../parser";
 import { CommonSettings } from "../../settings";
 import { Type } from "../../type";
 import { ScopeById } from "../scope";
 
+export type TInvokeArgumentMismatch = InvokeArgumentCountMismatch | InvokeArgumentTypeMismatch;
+
 export type ScopeTypeByKey = Map<string, Type.TType>;
 
 export type TypeById = Map<number, Type.TType>;
@@ -18,3 +20,23 @@ export interface TypeInspectionState {
     readonly leafNodeIds: ReadonlyArray<number>;
     scopeById: ScopeById;
 }
+
+export const enum InvokeArgumentMismatchKind {
+    ArgumentType = "ArgumentType",
+    TooFewArguments = "TooFewArguments",
+    TooManyArguments = "TooManyArguments",
+}
+
+export interface InvokeArgumentCountMismatch {
+    readonly kind: InvokeArgumentMismatchKind.TooFewArguments | InvokeArgumentMismatchKind.TooManyArguments;
+    // Either the number of required parameters, or the number of parameters.
+    readonly expected: number;
+    readonly actual: number;
+}
+
+export interface InvokeArgumentTypeMismatch {
+    readonly kind: InvokeArgumentMismatchKind.ArgumentType;
+    readonly argument: TXorNode;
+    readonly argumentType: Type.TType;
+    readonly parameter: Type.FunctionParameter;
+}
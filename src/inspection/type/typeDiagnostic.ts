@@ -0,0 +1,379 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert, CommonError, Result, ResultUtils } from "../../common";
+import { Ast, TokenRange } from "../../language";
+import { getLocalizationTemplates, ILocalizationTemplates, Localization } from "../../localization";
+import { NodeIdMap, NodeIdMapIterator, NodeIdMapUtils, TXorNode } from "../../parser";
+import { CommonSettings } from "../../settings";
+import { Type, TypeInspector, TypeUtils } from "../../type";
+import { inspectFieldAccessSubject, inspectXorNode, maybeInvokeArgumentMismatch } from "./inspectType";
+import { TypeCache } from "./tasks";
+import { InvokeArgumentMismatchKind, TInvokeArgumentMismatch, TypeInspectionState } from "./type";
+
+export type TriedTypeDiagnostics = Result<ReadonlyArray<TypeDiagnostic>, CommonError.CommonError>;
+
+export const enum TypeDiagnosticKind {
+    ArgumentType = "ArgumentType",
+    BinOpExpression = "BinOpExpression",
+    FieldAccess = "FieldAccess",
+    IfCondition = "IfCondition",
+    InvokeExpression = "InvokeExpression",
+    MissingField = "MissingField",
+    RangeExpression = "RangeExpression",
+    ReturnType = "ReturnType",
+    TooFewArguments = "TooFewArguments",
+    TooManyArguments = "TooManyArguments",
+    UnaryExpression = "UnaryExpression",
+}
+
+export interface TypeDiagnostic {
+    readonly kind: TypeDiagnosticKind;
+    // The node whose type is None because of the diagnostic.
+    readonly nodeId: number;
+    readonly message: string;
+    // Either the range of the node, or of the part of it which caused the error, eg. the condition of an if.
+    readonly tokenRange: TokenRange;
+}
+
+// Returns a diagnostic for each node whose type is None because of the node itself,
+// eg. `"a" + 1`, rather than because one of its children is None, eg. `("a" + 1) * 2`.
+// Nothing is reported when an operand's type isn't known well enough, eg. `x + 1` where `x` is a parameter.
+export function tryTypeDiagnostics(
+    settings: CommonSettings,
+    nodeIdMapCollection: NodeIdMap.Collection,
+    leafNodeIds: ReadonlyArray<number>,
+    maybeTypeCache: TypeCache | undefined = undefined,
+): TriedTypeDiagnostics {
+    const state: TypeInspectionState = {
+        settings,
+        givenTypeById: maybeTypeCache !== undefined ? maybeTypeCache.typeById : new Map(),
+        deltaTypeById: new Map(),
+        nodeIdMapCollection,
+        leafNodeIds,
+        scopeById: maybeTypeCache !== undefined ? maybeTypeCache.scopeById : new Map(),
+    };
+
+    return ResultUtils.ensureResult(getLocalizationTemplates(settings.locale), () => {
+        const templates: ILocalizationTemplates = getLocalizationTemplates(settings.locale);
+        const typeDiagnostics: TypeDiagnostic[] = [];
+
+        for (const astNode of nodeIdMapCollection.astNodeById.values()) {
+            if (typeOf(state, astNode).kind !== Type.TypeKind.None) {
+                continue;
+            }
+
+            const maybeTypeDiagnostic: TypeDiagnostic | undefined = maybeTypeDiagnosticFrom(state, templates, astNode);
+            if (maybeTypeDiagnostic !== undefined) {
+                typeDiagnostics.push(maybeTypeDiagnostic);
+            }
+        }
+
+        for (const [key, value] of state.deltaTypeById.entries()) {
+            state.givenTypeById.set(key, value);
+        }
+
+        return typeDiagnostics.sort(
+            (left: TypeDiagnostic, right: TypeDiagnostic) =>
+                left.tokenRange.positionStart.codeUnit - right.tokenRange.positionStart.codeUnit,
+        );
+    });
+}
+
+function maybeTypeDiagnosticFrom(
+    state: TypeInspectionState,
+    templates: ILocalizationTemplates,
+    astNode: Ast.TNode,
+): TypeDiagnostic | undefined {
+    switch (astNode.kind) {
+        case Ast.NodeKind.ArithmeticExpression:
+        case Ast.NodeKind.EqualityExpression:
+        case Ast.NodeKind.LogicalExpression:
+        case Ast.NodeKind.RelationalExpression: {
+            const leftType: Type.TType = typeOf(state, astNode.left);
+            const rightType: Type.TType = typeOf(state, astNode.right);
+            if (!isKnownType(leftType) || !isKnownType(rightType)) {
+                return undefined;
+            }
+
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.BinOpExpression,
+                astNode,
+                Localization.typeDiagnostic_binOpExpression(
+                    templates,
+                    astNode.operatorConstant.constantKind,
+                    TypeUtils.nameOf(leftType),
+                    TypeUtils.nameOf(rightType),
+                ),
+            );
+        }
+
+        case Ast.NodeKind.FieldProjection:
+        case Ast.NodeKind.FieldSelector:
+            return maybeFieldAccessTypeDiagnostic(state, templates, astNode);
+
+        case Ast.NodeKind.FunctionExpression: {
+            const statedReturnType: Type.TType = TypeInspector.inspectFunctionExpression(
+                state.nodeIdMapCollection,
+                NodeIdMapUtils.xorNodeFromAst(astNode),
+            ).returnType;
+            const expressionType: Type.TType = typeOf(state, astNode.expression);
+            if (!isKnownType(statedReturnType) || !isKnownType(expressionType)) {
+                return undefined;
+            }
+
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.ReturnType,
+                astNode,
+                Localization.typeDiagnostic_returnType(
+                    templates,
+                    TypeUtils.nameOf(statedReturnType),
+                    TypeUtils.nameOf(expressionType),
+                ),
+                astNode.expression.tokenRange,
+            );
+        }
+
+        case Ast.NodeKind.IfExpression: {
+            const conditionType: Type.TType = typeOf(state, astNode.condition);
+            if (!isKnownType(conditionType)) {
+                return undefined;
+            }
+
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.IfCondition,
+                astNode,
+                Localization.typeDiagnostic_ifCondition(templates, TypeUtils.nameOf(conditionType)),
+                astNode.condition.tokenRange,
+            );
+        }
+
+        case Ast.NodeKind.InvokeExpression: {
+            const previousSiblingType: Type.TType = previousSiblingTypeOf(state, astNode);
+            if (previousSiblingType.maybeExtendedKind === Type.ExtendedTypeKind.DefinedFunction) {
+                return maybeInvokeArgumentTypeDiagnostic(state, templates, astNode, previousSiblingType);
+            } else if (!isKnownType(previousSiblingType)) {
+                return undefined;
+            }
+
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.InvokeExpression,
+                astNode,
+                Localization.typeDiagnostic_invokeExpression(templates, TypeUtils.nameOf(previousSiblingType)),
+            );
+        }
+
+        case Ast.NodeKind.RangeExpression: {
+            const leftType: Type.TType = typeOf(state, astNode.left);
+            const rightType: Type.TType = typeOf(state, astNode.right);
+            if (!isKnownType(leftType) || !isKnownType(rightType)) {
+                return undefined;
+            }
+
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.RangeExpression,
+                astNode,
+                Localization.typeDiagnostic_rangeExpression(
+                    templates,
+                    TypeUtils.nameOf(leftType),
+                    TypeUtils.nameOf(rightType),
+                ),
+            );
+        }
+
+        case Ast.NodeKind.UnaryExpression: {
+            const expressionType: Type.TType = typeOf(state, astNode.typeExpression);
+            if (!isKnownType(expressionType)) {
+                return undefined;
+            }
+            // The operators closest to the expression are applied first.
+            const operators: ReadonlyArray<Ast.IConstant<Ast.UnaryOperatorKind>> = [
+                ...astNode.operators.elements,
+            ].reverse();
+            const maybeInvalidOperator: Ast.IConstant<Ast.UnaryOperatorKind> | undefined = operators.find(
+                (operator: Ast.IConstant<Ast.UnaryOperatorKind>) =>
+                    !isValidUnaryOperator(operator.constantKind, expressionType),
+            );
+            if (maybeInvalidOperator === undefined) {
+                return undefined;
+            }
+
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.UnaryExpression,
+                astNode,
+                Localization.typeDiagnostic_unaryExpression(
+                    templates,
+                    maybeInvalidOperator.constantKind,
+                    TypeUtils.nameOf(expressionType),
+                ),
+            );
+        }
+
+        default:
+            return undefined;
+    }
+}
+
+function maybeFieldAccessTypeDiagnostic(
+    state: TypeInspectionState,
+    templates: ILocalizationTemplates,
+    fieldAccess: Ast.FieldProjection | Ast.FieldSelector,
+): TypeDiagnostic | undefined {
+    const previousSiblingType: Type.TType = inspectFieldAccessSubject(
+        state,
+        NodeIdMapUtils.xorNodeFromAst(fieldAccess),
+    );
+    if (!isKnownType(previousSiblingType)) {
+        return undefined;
+    }
+
+    if (previousSiblingType.kind !== Type.TypeKind.Record && previousSiblingType.kind !== Type.TypeKind.Table) {
+        return typeDiagnosticFactory(
+            TypeDiagnosticKind.FieldAccess,
+            fieldAccess,
+            Localization.typeDiagnostic_fieldAccess(templates, TypeUtils.nameOf(previousSiblingType)),
+        );
+    }
+    const maybeFields: ReadonlyMap<string, Type.TType> | undefined = maybeClosedFields(previousSiblingType);
+    if (maybeFields === undefined) {
+        return undefined;
+    }
+    const fields: ReadonlyMap<string, Type.TType> = maybeFields;
+
+    const fieldNames: ReadonlyArray<string> =
+        fieldAccess.kind === Ast.NodeKind.FieldSelector
+            ? [fieldAccess.content.literal]
+            : NodeIdMapIterator.fieldProjectionFieldNames(
+                  state.nodeIdMapCollection,
+                  NodeIdMapUtils.xorNodeFromAst(fieldAccess),
+              );
+    const maybeMissingFieldName: string | undefined = fieldNames.find((fieldName: string) => !fields.has(fieldName));
+    if (maybeMissingFieldName === undefined) {
+        return undefined;
+    }
+
+    return typeDiagnosticFactory(
+        TypeDiagnosticKind.MissingField,
+        fieldAccess,
+        Localization.typeDiagnostic_missingField(templates, maybeMissingFieldName),
+    );
+}
+
+function maybeInvokeArgumentTypeDiagnostic(
+    state: TypeInspectionState,
+    templates: ILocalizationTemplates,
+    invokeExpression: Ast.InvokeExpression,
+    definedFunction: Type.DefinedFunction,
+): TypeDiagnostic | undefined {
+    const maybeMismatch: TInvokeArgumentMismatch | undefined = maybeInvokeArgumentMismatch(
+        state,
+        NodeIdMapUtils.xorNodeFromAst(invokeExpression),
+        definedFunction,
+    );
+    if (maybeMismatch === undefined) {
+        return undefined;
+    }
+    const mismatch: TInvokeArgumentMismatch = maybeMismatch;
+
+    switch (mismatch.kind) {
+        case InvokeArgumentMismatchKind.ArgumentType:
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.ArgumentType,
+                invokeExpression,
+                Localization.typeDiagnostic_argumentType(
+                    templates,
+                    mismatch.parameter.nameLiteral,
+                    TypeUtils.nameOf(TypeUtils.functionParameterType(mismatch.parameter)),
+                    TypeUtils.nameOf(mismatch.argumentType),
+                ),
+                (mismatch.argument.node as Ast.TNode).tokenRange,
+            );
+
+        case InvokeArgumentMismatchKind.TooFewArguments:
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.TooFewArguments,
+                invokeExpression,
+                Localization.typeDiagnostic_tooFewArguments(templates, mismatch.expected, mismatch.actual),
+            );
+
+        case InvokeArgumentMismatchKind.TooManyArguments:
+            return typeDiagnosticFactory(
+                TypeDiagnosticKind.TooManyArguments,
+                invokeExpression,
+                Localization.typeDiagnostic_tooManyArguments(templates, mismatch.expected, mismatch.actual),
+            );
+
+        default:
+            throw Assert.isNever(mismatch);
+    }
+}
+
+function typeDiagnosticFactory(
+    kind: TypeDiagnosticKind,
+    astNode: Ast.TNode,
+    message: string,
+    tokenRange: TokenRange = astNode.tokenRange,
+): TypeDiagnostic {
+    return {
+        kind,
+        nodeId: astNode.id,
+        message,
+        tokenRange,
+    };
+}
+
+function typeOf(state: TypeInspectionState, astNode: Ast.TNode): Type.TType {
+    return inspectXorNode(state, NodeIdMapUtils.xorNodeFromAst(astNode));
+}
+
+function previousSiblingTypeOf(state: TypeInspectionState, astNode: Ast.TNode): Type.TType {
+    const previousSibling: TXorNode = NodeIdMapUtils.expectRecursiveExpressionPreviousSibling(
+        state.nodeIdMapCollection,
+        astNode.id,
+    );
+    return inspectXorNode(state, previousSibling);
+}
+
+// A type which is specific enough that a None can be blamed on it.
+function isKnownType(type: Type.TType): boolean {
+    switch (type.kind) {
+        case Type.TypeKind.Any:
+        case Type.TypeKind.AnyNonNull:
+        case Type.TypeKind.None:
+        case Type.TypeKind.NotApplicable:
+        case Type.TypeKind.Unknown:
+            return false;
+
+        default:
+            return true;
+    }
+}
+
+function isValidUnaryOperator(operatorKind: Ast.UnaryOperatorKind, type: Type.TType): boolean {
+    switch (operatorKind) {
+        case Ast.UnaryOperatorKind.Negative:
+        case Ast.UnaryOperatorKind.Positive:
+            return type.kind === Type.TypeKind.Number;
+
+        case Ast.UnaryOperatorKind.Not:
+            return type.kind === Type.TypeKind.Logical;
+
+        default:
+            throw Assert.isNever(operatorKind);
+    }
+}
+
+// Undefined if any field could exist, eg. `[a = 1, ...]`.
+function maybeClosedFields(type: Type.TType): ReadonlyMap<string, Type.TType> | undefined {
+    switch (type.maybeExtendedKind) {
+        case Type.ExtendedTypeKind.DefinedRecord:
+        case Type.ExtendedTypeKind.DefinedTable:
+            return type.isOpen ? undefined : type.fields;
+
+        case Type.ExtendedTypeKind.PrimaryExpressionTable:
+            return maybeClosedFields(type.type);
+
+        default:
+            return undefined;
+    }
+}
@@ -13,6 +13,7 @@ export const enum NodeKind {
     Csv = "Csv",
     EachExpression = "EachExpression",
     EqualityExpression = "EqualityExpression",
+    ErrorPlaceholder = "ErrorPlaceholder",
     ErrorHandlingExpression = "ErrorHandlingExpression",
     ErrorRaisingExpression = "ErrorRaisingExpression",
     FieldProjection = "FieldProjection",
@@ -244,7 +245,8 @@ export type TExpression =
     | LetExpression
     | IfExpression
     | ErrorRaisingExpression
-    | ErrorHandlingExpression;
+    | ErrorHandlingExpression
+    | ErrorPlaceholder;
 
 // --------------------------------------------------
 // ---------- 12.2.3.2 Logical expressions ----------
@@ -545,6 +547,18 @@ export interface RecursivePrimaryExpression extends INode {
 export interface TypePrimaryType
     extends IPairedConstant<NodeKind.TypePrimaryType, KeywordConstantKind.Type, TPrimaryType> {}
 
+// ------------------------------------------------
+// ---------- Error recovery placeholder ----------
+// ------------------------------------------------
+
+// Only created when parsing with error recovery enabled (see IParserUtils.tryReadWithRecovery).
+// Stands in for an expression which failed to parse, and spans the tokens that were skipped while resyncing.
+// If no tokens were skipped then tokenRange.tokenIndexEnd will be one less than tokenRange.tokenIndexStart.
+export interface ErrorPlaceholder extends INode {
+    readonly kind: NodeKind.ErrorPlaceholder;
+    readonly isLeaf: true;
+}
+
 // -----------------------------------------------
 // ---------- 12.2.4 Literal Attributes ----------
 // -----------------------------------------------
@@ -639,8 +653,7 @@ export type TBinOpExpressionOperator =
     | KeywordConstantKind.Is
     | KeywordConstantKind.Meta;
 
-// The following types are needed for recursiveReadBinOpExpressionHelper,
-// and are created by converting IBinOpExpression<A, B, C, D> to IBinOpExpression<A, D, C, D>.
+// The following types are created by converting IBinOpExpression<A, B, C, D> to IBinOpExpression<A, D, C, D>.
 export type TBinOpExpressionSubtype =
     | IBinOpExpression<NodeKind.AsExpression, TNullablePrimitiveType, KeywordConstantKind.As, TNullablePrimitiveType>
     | IBinOpExpression<NodeKind.IsExpression, TNullablePrimitiveType, KeywordConstantKind.Is, TNullablePrimitiveType>;
@@ -0,0 +1,42 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { TComment } from "./comment";
+import { Token } from "./token";
+
+// Trivia is everything in a document which isn't a token: whitespace, line terminators, and comments.
+// Following the common convention, a token's trailing trivia is everything after it up to and including
+// the first line terminator, while the remainder is the leading trivia of the next token.
+
+export type TTrivia = CommentTrivia | LineTerminatorTrivia | WhitespaceTrivia;
+
+export const enum TriviaKind {
+    Comment = "Comment",
+    LineTerminator = "LineTerminator",
+    Whitespace = "Whitespace",
+}
+
+export interface ITrivia {
+    readonly kind: TriviaKind;
+    readonly data: string;
+    // The code unit in the document where the trivia starts.
+    readonly codeUnit: number;
+}
+
+export interface CommentTrivia extends ITrivia {
+    readonly kind: TriviaKind.Comment;
+    readonly comment: TComment;
+}
+
+export interface LineTerminatorTrivia extends ITrivia {
+    readonly kind: TriviaKind.LineTerminator;
+}
+
+export interface WhitespaceTrivia extends ITrivia {
+    readonly kind: TriviaKind.Whitespace;
+}
+
+export interface TokenWithTrivia extends Token {
+    readonly leadingTrivia: ReadonlyArray<TTrivia>;
+    readonly trailingTrivia: ReadonlyArray<TTrivia>;
+}
@@ -3,6 +3,7 @@
 
 import * as LexError from "./error";
 import * as Lexer from "./lexer";
+import * as TriviaUtils from "./triviaUtils";
 
-export { LexError, Lexer };
+export { LexError, Lexer, TriviaUtils };
 export * from "./lexerSnapshot";
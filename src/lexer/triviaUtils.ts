@@ -0,0 +1,139 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Language } from "..";
+import { LexerSnapshot } from "./lexerSnapshot";
+
+// The lossless mode for a LexerSnapshot.
+// Trivia is only computed on request as most consumers only care about the tokens (and comments).
+export function tokensWithTriviaFrom(lexerSnapshot: LexerSnapshot): ReadonlyArray<Language.TokenWithTrivia> {
+    const text: string = lexerSnapshot.text;
+    const tokens: ReadonlyArray<Language.Token> = lexerSnapshot.tokens;
+    const numTokens: number = tokens.length;
+    if (numTokens === 0) {
+        return [];
+    }
+
+    const commentIterator: CommentIterator = {
+        comments: lexerSnapshot.comments,
+        index: 0,
+    };
+    const leadingTriviaByIndex: Language.TTrivia[][] = [];
+    const trailingTriviaByIndex: Language.TTrivia[][] = [];
+
+    leadingTriviaByIndex.push(triviaBetween(text, commentIterator, 0, tokens[0].positionStart.codeUnit));
+    for (let index: number = 0; index < numTokens - 1; index += 1) {
+        const gap: ReadonlyArray<Language.TTrivia> = triviaBetween(
+            text,
+            commentIterator,
+            tokens[index].positionEnd.codeUnit,
+            tokens[index + 1].positionStart.codeUnit,
+        );
+        const maybeLineTerminatorIndex: number = gap.findIndex(
+            (trivia: Language.TTrivia) => trivia.kind === Language.TriviaKind.LineTerminator,
+        );
+        const splitIndex: number = maybeLineTerminatorIndex === -1 ? gap.length : maybeLineTerminatorIndex + 1;
+
+        trailingTriviaByIndex.push(gap.slice(0, splitIndex));
+        leadingTriviaByIndex.push(gap.slice(splitIndex));
+    }
+    trailingTriviaByIndex.push(
+        triviaBetween(text, commentIterator, tokens[numTokens - 1].positionEnd.codeUnit, text.length),
+    );
+
+    return tokens.map((token: Language.Token, index: number) => {
+        return {
+            ...token,
+            leadingTrivia: leadingTriviaByIndex[index],
+            trailingTrivia: trailingTriviaByIndex[index],
+        };
+    });
+}
+
+export function printTokenWithTrivia(token: Language.TokenWithTrivia): string {
+    return [printTrivia(token.leadingTrivia), token.data, printTrivia(token.trailingTrivia)].join("");
+}
+
+export function printTrivia(trivia: ReadonlyArray<Language.TTrivia>): string {
+    return trivia.map((value: Language.TTrivia) => value.data).join("");
+}
+
+interface CommentIterator {
+    readonly comments: ReadonlyArray<Language.TComment>;
+    index: number;
+}
+
+// Valid Power Query line terminators, with "\r\n" listed first so it takes precedence over "\n".
+const LineTerminatorPattern: RegExp = /\r\n|\n|\u2028|\u2029/g;
+
+// Reads the trivia in text for the range [codeUnitStart, codeUnitEnd).
+// Comments are consumed from the iterator, which works as both tokens and comments are in document order.
+function triviaBetween(
+    text: string,
+    commentIterator: CommentIterator,
+    codeUnitStart: number,
+    codeUnitEnd: number,
+): Language.TTrivia[] {
+    const trivia: Language.TTrivia[] = [];
+    const comments: ReadonlyArray<Language.TComment> = commentIterator.comments;
+
+    let codeUnit: number = codeUnitStart;
+    while (
+        commentIterator.index < comments.length &&
+        comments[commentIterator.index].positionStart.codeUnit < codeUnitEnd
+    ) {
+        const comment: Language.TComment = comments[commentIterator.index];
+        trivia.push(...whitespaceTriviaBetween(text, codeUnit, comment.positionStart.codeUnit));
+        trivia.push({
+            kind: Language.TriviaKind.Comment,
+            data: text.slice(comment.positionStart.codeUnit, comment.positionEnd.codeUnit),
+            codeUnit: comment.positionStart.codeUnit,
+            comment,
+        });
+
+        codeUnit = comment.positionEnd.codeUnit;
+        commentIterator.index += 1;
+    }
+    trivia.push(...whitespaceTriviaBetween(text, codeUnit, codeUnitEnd));
+
+    return trivia;
+}
+
+function whitespaceTriviaBetween(
+    text: string,
+    codeUnitStart: number,
+    codeUnitEnd: number,
+): ReadonlyArray<Language.WhitespaceTrivia | Language.LineTerminatorTrivia> {
+    const trivia: (Language.WhitespaceTrivia | Language.LineTerminatorTrivia)[] = [];
+    const substring: string = text.slice(codeUnitStart, codeUnitEnd);
+
+    let lastIndex: number = 0;
+    LineTerminatorPattern.lastIndex = 0;
+    let maybeMatch: RegExpExecArray | null = LineTerminatorPattern.exec(substring);
+    while (maybeMatch !== null) {
+        if (maybeMatch.index > lastIndex) {
+            trivia.push({
+                kind: Language.TriviaKind.Whitespace,
+                data: substring.slice(lastIndex, maybeMatch.index),
+                codeUnit: codeUnitStart + lastIndex,
+            });
+        }
+        trivia.push({
+            kind: Language.TriviaKind.LineTerminator,
+            data: maybeMatch[0],
+            codeUnit: codeUnitStart + maybeMatch.index,
+        });
+        lastIndex = maybeMatch.index + maybeMatch[0].length;
+        maybeMatch = LineTerminatorPattern.exec(substring);
+    }
+
+    if (lastIndex < substring.length) {
+        trivia.push({
+            kind: Language.TriviaKind.Whitespace,
+            data: substring.slice(lastIndex),
+            codeUnit: codeUnitStart + lastIndex,
+        });
+    }
+
+    return trivia;
+}
@@ -0,0 +1,8 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import * as LibraryUtils from "./libraryUtils";
+
+export { LibraryUtils };
+export * from "./library";
+export * from "./standardLibrary";
@@ -0,0 +1,62 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Type } from "../type";
+
+// Describes identifiers which are provided by the host rather than the document, such as `Text.Length`.
+// Inspection types them by passing an ExternalType.TExternalTypeRequest to LibraryUtils.maybeExternalType.
+
+export type LibraryDefinitions = ReadonlyMap<string, TLibraryDefinition>;
+
+export type TLibraryDefinition = LibraryConstant | LibraryFunction | LibraryType;
+
+export const enum LibraryDefinitionKind {
+    Constant = "Constant",
+    Function = "Function",
+    Type = "Type",
+}
+
+export interface ILibraryDefinition {
+    readonly kind: LibraryDefinitionKind;
+    readonly label: string;
+    readonly description: string;
+    readonly asType: Type.TType;
+}
+
+export interface LibraryConstant extends ILibraryDefinition {
+    readonly kind: LibraryDefinitionKind.Constant;
+}
+
+export interface LibraryFunction extends ILibraryDefinition {
+    readonly kind: LibraryDefinitionKind.Function;
+    readonly asType: Type.DefinedFunction;
+    readonly parameters: ReadonlyArray<LibraryParameter>;
+}
+
+// Eg. `Int64.Type`
+export interface LibraryType extends ILibraryDefinition {
+    readonly kind: LibraryDefinitionKind.Type;
+}
+
+export interface LibraryParameter {
+    readonly name: string;
+    readonly isOptional: boolean;
+    readonly isNullable: boolean;
+    readonly maybeType: Type.TypeKind | undefined;
+    // The parameters of a function argument which are given something the library knows about.
+    // Eg. `List.Transform(list, transform)` gives transform each item of list.
+    readonly functionParameters: ReadonlyArray<LibraryFunctionParameter>;
+}
+
+export const enum LibraryFunctionParameterKind {
+    // Given the argument, eg. the state of `List.Accumulate` starts as the seed.
+    Argument = "Argument",
+    // Given each item of a list argument or each row of a table argument.
+    Item = "Item",
+}
+
+export interface LibraryFunctionParameter {
+    readonly kind: LibraryFunctionParameterKind;
+    readonly name: string;
+    readonly argumentIndex: number;
+}
@@ -0,0 +1,299 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert, CommonError } from "../common";
+import { ExternalType, Type, TypeUtils } from "../type";
+import {
+    LibraryDefinitionKind,
+    LibraryDefinitions,
+    LibraryFunction,
+    LibraryFunctionParameter,
+    LibraryFunctionParameterKind,
+    LibraryParameter,
+    TLibraryDefinition,
+} from "./library";
+
+// The shape of a library serialized as JSON, such as standardLibraryDefinitions.json.
+export interface LibraryJson {
+    readonly definitions: ReadonlyArray<LibraryJsonDefinition>;
+}
+
+export interface LibraryJsonDefinition {
+    readonly kind: string;
+    readonly label: string;
+    readonly description: string;
+    // Used by constants and types.
+    readonly typeKind?: string;
+    readonly isNullable?: boolean;
+    // Used by functions.
+    readonly parameters?: ReadonlyArray<LibraryJsonParameter>;
+    readonly returnTypeKind?: string;
+    readonly isReturnNullable?: boolean;
+}
+
+export interface LibraryJsonParameter {
+    readonly name: string;
+    readonly typeKind: string;
+    readonly isOptional: boolean;
+    readonly isNullable: boolean;
+    // Used by function parameters.
+    readonly functionParameters?: ReadonlyArray<LibraryJsonFunctionParameter>;
+}
+
+// Eg. `{ "name": "current", "kind": "Item", "argumentName": "list" }`
+export interface LibraryJsonFunctionParameter {
+    readonly name: string;
+    readonly kind: string;
+    readonly argumentName: string;
+}
+
+// Returns undefined if the library doesn't know about the identifier.
+export function maybeExternalType(
+    definitions: LibraryDefinitions,
+    request: ExternalType.TExternalTypeRequest,
+): Type.TType | undefined {
+    const maybeDefinition: TLibraryDefinition | undefined = definitions.get(request.identifierLiteral);
+    if (maybeDefinition === undefined) {
+        return undefined;
+    }
+
+    switch (request.kind) {
+        case ExternalType.ExternalTypeRequestKind.Invocation:
+            return maybeDefinition.kind === LibraryDefinitionKind.Function
+                ? maybeDefinition.asType.returnType
+                : undefined;
+
+        case ExternalType.ExternalTypeRequestKind.Parameter:
+            return maybeDefinition.kind === LibraryDefinitionKind.Function
+                ? maybeParameterType(maybeDefinition, request)
+                : undefined;
+
+        case ExternalType.ExternalTypeRequestKind.Value:
+            return maybeDefinition.asType;
+
+        default:
+            throw Assert.isNever(request);
+    }
+}
+
+export function definitionsFromJson(json: LibraryJson): LibraryDefinitions {
+    const definitions: Map<string, TLibraryDefinition> = new Map();
+
+    for (const jsonDefinition of json.definitions) {
+        if (definitions.has(jsonDefinition.label)) {
+            const details: {} = { label: jsonDefinition.label };
+            throw new CommonError.InvariantError(`library has a duplicate definition`, details);
+        }
+        definitions.set(jsonDefinition.label, definitionFromJson(jsonDefinition));
+    }
+
+    return definitions;
+}
+
+function definitionFromJson(jsonDefinition: LibraryJsonDefinition): TLibraryDefinition {
+    const kind: LibraryDefinitionKind = expectLibraryDefinitionKind(jsonDefinition);
+    const label: string = jsonDefinition.label;
+    const description: string = jsonDefinition.description;
+
+    switch (kind) {
+        case LibraryDefinitionKind.Constant:
+        case LibraryDefinitionKind.Type:
+            return {
+                kind,
+                label,
+                description,
+                asType: TypeUtils.genericFactory(
+                    expectTypeKind(jsonDefinition, jsonDefinition.typeKind),
+                    jsonDefinition.isNullable === true,
+                ),
+            };
+
+        case LibraryDefinitionKind.Function:
+            return functionFromJson(jsonDefinition);
+
+        default:
+            throw Assert.isNever(kind);
+    }
+}
+
+function functionFromJson(jsonDefinition: LibraryJsonDefinition): LibraryFunction {
+    const jsonParameters: ReadonlyArray<LibraryJsonParameter> = jsonDefinition.parameters || [];
+    const parameters: ReadonlyArray<LibraryParameter> = jsonParameters.map((jsonParameter: LibraryJsonParameter) => {
+        const jsonFunctionParameters: ReadonlyArray<LibraryJsonFunctionParameter> =
+            jsonParameter.functionParameters || [];
+        return {
+            name: jsonParameter.name,
+            isOptional: jsonParameter.isOptional,
+            isNullable: jsonParameter.isNullable,
+            maybeType: expectTypeKind(jsonDefinition, jsonParameter.typeKind),
+            functionParameters: jsonFunctionParameters.map((jsonFunctionParameter: LibraryJsonFunctionParameter) =>
+                functionParameterFromJson(jsonDefinition, jsonParameters, jsonFunctionParameter),
+            ),
+        };
+    });
+
+    return {
+        kind: LibraryDefinitionKind.Function,
+        label: jsonDefinition.label,
+        description: jsonDefinition.description,
+        parameters,
+        asType: {
+            kind: Type.TypeKind.Function,
+            maybeExtendedKind: Type.ExtendedTypeKind.DefinedFunction,
+            isNullable: false,
+            parameters: parameters.map((parameter: LibraryParameter) => {
+                return {
+                    nameLiteral: parameter.name,
+                    isOptional: parameter.isOptional,
+                    isNullable: parameter.isNullable,
+                    maybeType: parameter.maybeType,
+                };
+            }),
+            returnType: TypeUtils.genericFactory(
+                expectTypeKind(jsonDefinition, jsonDefinition.returnTypeKind),
+                jsonDefinition.isReturnNullable === true,
+            ),
+        },
+    };
+}
+
+function functionParameterFromJson(
+    jsonDefinition: LibraryJsonDefinition,
+    jsonParameters: ReadonlyArray<LibraryJsonParameter>,
+    jsonFunctionParameter: LibraryJsonFunctionParameter,
+): LibraryFunctionParameter {
+    const argumentIndex: number = jsonParameters.findIndex(
+        (jsonParameter: LibraryJsonParameter) => jsonParameter.name === jsonFunctionParameter.argumentName,
+    );
+    if (argumentIndex === -1) {
+        const details: {} = {
+            label: jsonDefinition.label,
+            argumentName: jsonFunctionParameter.argumentName,
+        };
+        throw new CommonError.InvariantError(`function parameter refers to an unknown argument`, details);
+    }
+
+    return {
+        kind: expectLibraryFunctionParameterKind(jsonDefinition, jsonFunctionParameter),
+        name: jsonFunctionParameter.name,
+        argumentIndex,
+    };
+}
+
+// Only the function parameters described by the library are known, eg. a comparer's parameters aren't described.
+function maybeParameterType(
+    libraryFunction: LibraryFunction,
+    request: ExternalType.ExternalParameterTypeRequest,
+): Type.TType | undefined {
+    const maybeParameter: LibraryParameter | undefined = libraryFunction.parameters[request.argumentIndex];
+    if (maybeParameter === undefined) {
+        return undefined;
+    }
+    const maybeFunctionParameter: LibraryFunctionParameter | undefined =
+        maybeParameter.functionParameters[request.parameterIndex];
+    if (maybeFunctionParameter === undefined) {
+        return undefined;
+    }
+    const maybeArg: Type.TType | undefined = request.args[maybeFunctionParameter.argumentIndex];
+    if (maybeArg === undefined) {
+        return undefined;
+    }
+
+    switch (maybeFunctionParameter.kind) {
+        case LibraryFunctionParameterKind.Argument:
+            return maybeArg;
+
+        case LibraryFunctionParameterKind.Item:
+            return maybeItemType(maybeArg);
+
+        default:
+            throw Assert.isNever(maybeFunctionParameter.kind);
+    }
+}
+
+function maybeItemType(arg: Type.TType): Type.TType | undefined {
+    switch (arg.kind) {
+        case Type.TypeKind.List:
+            return arg.maybeExtendedKind === Type.ExtendedTypeKind.DefinedList && arg.elements.length
+                ? TypeUtils.anyUnionFactory(arg.elements)
+                : TypeUtils.anyFactory();
+
+        case Type.TypeKind.Table:
+            return arg.maybeExtendedKind === Type.ExtendedTypeKind.DefinedTable
+                ? TypeUtils.definedRecordFactory(false, arg.fields, arg.isOpen)
+                : TypeUtils.genericFactory(Type.TypeKind.Record, false);
+
+        default:
+            return undefined;
+    }
+}
+
+function expectLibraryDefinitionKind(jsonDefinition: LibraryJsonDefinition): LibraryDefinitionKind {
+    switch (jsonDefinition.kind) {
+        case LibraryDefinitionKind.Constant:
+        case LibraryDefinitionKind.Function:
+        case LibraryDefinitionKind.Type:
+            return jsonDefinition.kind;
+
+        default: {
+            const details: {} = {
+                label: jsonDefinition.label,
+                kind: jsonDefinition.kind,
+            };
+            throw new CommonError.InvariantError(`unknown library definition kind`, details);
+        }
+    }
+}
+
+function expectLibraryFunctionParameterKind(
+    jsonDefinition: LibraryJsonDefinition,
+    jsonFunctionParameter: LibraryJsonFunctionParameter,
+): LibraryFunctionParameterKind {
+    switch (jsonFunctionParameter.kind) {
+        case LibraryFunctionParameterKind.Argument:
+        case LibraryFunctionParameterKind.Item:
+            return jsonFunctionParameter.kind;
+
+        default: {
+            const details: {} = {
+                label: jsonDefinition.label,
+                kind: jsonFunctionParameter.kind,
+            };
+            throw new CommonError.InvariantError(`unknown library function parameter kind`, details);
+        }
+    }
+}
+
+function expectTypeKind(jsonDefinition: LibraryJsonDefinition, maybeTypeKind: string | undefined): Type.TypeKind {
+    if (maybeTypeKind === undefined || !TypeKinds.has(maybeTypeKind)) {
+        const details: {} = {
+            label: jsonDefinition.label,
+            typeKind: maybeTypeKind,
+        };
+        throw new CommonError.InvariantError(`expected a valid TypeKind`, details);
+    }
+
+    return maybeTypeKind as Type.TypeKind;
+}
+
+const TypeKinds: ReadonlySet<string> = new Set<string>([
+    Type.TypeKind.Any,
+    Type.TypeKind.AnyNonNull,
+    Type.TypeKind.Binary,
+    Type.TypeKind.Date,
+    Type.TypeKind.DateTime,
+    Type.TypeKind.DateTimeZone,
+    Type.TypeKind.Duration,
+    Type.TypeKind.Function,
+    Type.TypeKind.List,
+    Type.TypeKind.Logical,
+    Type.TypeKind.None,
+    Type.TypeKind.Null,
+    Type.TypeKind.Number,
+    Type.TypeKind.Record,
+    Type.TypeKind.Table,
+    Type.TypeKind.Text,
+    Type.TypeKind.Type,
+    Type.TypeKind.Action,
+    Type.TypeKind.Time,
+]);
@@ -0,0 +1,9 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { LibraryDefinitions } from "./library";
+import { definitionsFromJson } from "./libraryUtils";
+import * as StandardLibraryJson from "./standardLibraryDefinitions.json";
+
+// A subset of the core M library, enough to type the commonly used Text, Number, List, Record and Table functions.
+export const StandardLibrary: LibraryDefinitions = definitionsFromJson(StandardLibraryJson);
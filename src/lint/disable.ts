@@ -0,0 +1,165 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert } from "../common";
+import { CommentKind, TComment, TokenPosition } from "../language";
+
+export type TDisabledRange = NextLineDisabledRange | RegionDisabledRange;
+
+export const enum DisabledRangeKind {
+    NextLine = "NextLine",
+    Region = "Region",
+}
+
+export interface IDisabledRange {
+    readonly kind: DisabledRangeKind;
+    // Undefined if every rule is disabled.
+    readonly maybeCode: string | undefined;
+}
+
+// From a `lint-disable-next-line` comment.
+export interface NextLineDisabledRange extends IDisabledRange {
+    readonly kind: DisabledRangeKind.NextLine;
+    readonly lineNumber: number;
+}
+
+// From a `lint-disable` comment up to either a matching `lint-enable` comment or the end of the document.
+export interface RegionDisabledRange extends IDisabledRange {
+    readonly kind: DisabledRangeKind.Region;
+    readonly codeUnitStart: number;
+    readonly maybeCodeUnitEnd: number | undefined;
+}
+
+// A `lint-enable` comment only ends the regions for the codes it lists, or every region if it lists none.
+// Eg. `lint-disable` followed by `lint-enable foo` leaves every rule disabled.
+export function disabledRangesFrom(comments: ReadonlyArray<TComment>): ReadonlyArray<TDisabledRange> {
+    const disabledRanges: TDisabledRange[] = [];
+    // The start of each region which hasn't been ended, keyed by code where an empty string means every rule.
+    const openRegions: Map<string, number> = new Map();
+
+    for (const comment of comments) {
+        const maybeDirective: Directive | undefined = maybeDirectiveFrom(comment);
+        if (maybeDirective === undefined) {
+            continue;
+        }
+        const directive: Directive = maybeDirective;
+        const keys: ReadonlyArray<string> = directive.codes.length ? directive.codes : [""];
+
+        switch (directive.kind) {
+            case DirectiveKind.Disable:
+                for (const key of keys) {
+                    if (!openRegions.has(key)) {
+                        openRegions.set(key, comment.positionEnd.codeUnit);
+                    }
+                }
+                break;
+
+            case DirectiveKind.DisableNextLine:
+                for (const key of keys) {
+                    disabledRanges.push({
+                        kind: DisabledRangeKind.NextLine,
+                        maybeCode: key || undefined,
+                        lineNumber: comment.positionEnd.lineNumber + 1,
+                    });
+                }
+                break;
+
+            case DirectiveKind.Enable: {
+                const closedKeys: ReadonlyArray<string> = directive.codes.length
+                    ? directive.codes
+                    : [...openRegions.keys()];
+                for (const key of closedKeys) {
+                    const maybeCodeUnitStart: number | undefined = openRegions.get(key);
+                    if (maybeCodeUnitStart !== undefined) {
+                        disabledRanges.push(regionFactory(key, maybeCodeUnitStart, comment.positionStart.codeUnit));
+                        openRegions.delete(key);
+                    }
+                }
+                break;
+            }
+
+            default:
+                throw Assert.isNever(directive.kind);
+        }
+    }
+
+    for (const [key, codeUnitStart] of openRegions.entries()) {
+        disabledRanges.push(regionFactory(key, codeUnitStart, undefined));
+    }
+
+    return disabledRanges;
+}
+
+export function isDisabled(
+    disabledRanges: ReadonlyArray<TDisabledRange>,
+    code: string,
+    position: TokenPosition,
+): boolean {
+    return disabledRanges.some((disabledRange: TDisabledRange) => {
+        if (disabledRange.maybeCode !== undefined && disabledRange.maybeCode !== code) {
+            return false;
+        }
+
+        switch (disabledRange.kind) {
+            case DisabledRangeKind.NextLine:
+                return disabledRange.lineNumber === position.lineNumber;
+
+            case DisabledRangeKind.Region:
+                return (
+                    disabledRange.codeUnitStart <= position.codeUnit &&
+                    (disabledRange.maybeCodeUnitEnd === undefined || position.codeUnit < disabledRange.maybeCodeUnitEnd)
+                );
+
+            default:
+                throw Assert.isNever(disabledRange);
+        }
+    });
+}
+
+const enum DirectiveKind {
+    Disable = "lint-disable",
+    DisableNextLine = "lint-disable-next-line",
+    Enable = "lint-enable",
+}
+
+interface Directive {
+    readonly kind: DirectiveKind;
+    readonly codes: ReadonlyArray<string>;
+}
+
+const DirectivePattern: RegExp = /^(lint-disable-next-line|lint-disable|lint-enable)(?:\s+(.*))?$/;
+
+function maybeDirectiveFrom(comment: TComment): Directive | undefined {
+    let content: string;
+    switch (comment.kind) {
+        case CommentKind.Line:
+            content = comment.data.slice(2);
+            break;
+
+        case CommentKind.Multiline:
+            content = comment.data.slice(2, -2);
+            break;
+
+        default:
+            throw Assert.isNever(comment);
+    }
+
+    const maybeMatch: RegExpMatchArray | null = content.trim().match(DirectivePattern);
+    if (maybeMatch === null) {
+        return undefined;
+    }
+
+    return {
+        kind: maybeMatch[1] as DirectiveKind,
+        codes: maybeMatch[2] !== undefined ? maybeMatch[2].split(/[\s,]+/).filter((code: string) => code !== "") : [],
+    };
+}
+
+function regionFactory(key: string, codeUnitStart: number, maybeCodeUnitEnd: number | undefined): RegionDisabledRange {
+    return {
+        kind: DisabledRangeKind.Region,
+        maybeCode: key || undefined,
+        codeUnitStart,
+        maybeCodeUnitEnd,
+    };
+}
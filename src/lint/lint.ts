@@ -0,0 +1,175 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { CommonError, Result, ResultUtils, Traverse } from "../common";
+import { TypeCache } from "../inspection";
+import { Ast, TokenRange } from "../language";
+import { LexError } from "../lexer";
+import { getLocalizationTemplates } from "../localization";
+import { IParserState, NodeIdMap, ParseError } from "../parser";
+import { CommonSettings, DefaultSettings, Settings } from "../settings";
+import { LexParseOk, TriedLexParse, tryLexParse } from "../task";
+import { disabledRangesFrom, isDisabled, TDisabledRange } from "./disable";
+import { StarterRules } from "./rules";
+
+export type TriedLint<S extends IParserState = IParserState> = Result<
+    ReadonlyArray<LintDiagnostic>,
+    CommonError.CommonError | LexError.TLexError | ParseError.TParseError<S>
+>;
+
+export const enum LintSeverity {
+    Error = "Error",
+    Warning = "Warning",
+    Information = "Information",
+    Hint = "Hint",
+}
+
+export interface LintDiagnostic {
+    // The code of the rule which reported it, eg. `unused-let-binding`.
+    readonly code: string;
+    readonly severity: LintSeverity;
+    readonly message: string;
+    readonly tokenRange: TokenRange;
+}
+
+// A rule is a visitor which gets called for every node of the kinds it registered for.
+export interface LintRule {
+    readonly code: string;
+    readonly defaultSeverity: LintSeverity;
+    readonly nodeKinds: ReadonlyArray<Ast.NodeKind>;
+    readonly visitNode: (context: LintContext, node: Ast.TNode) => void;
+}
+
+export interface LintContext {
+    readonly settings: CommonSettings;
+    readonly nodeIdMapCollection: NodeIdMap.Collection;
+    readonly leafNodeIds: ReadonlyArray<number>;
+    // Shared by every rule for the same document.
+    readonly typeCache: TypeCache;
+    readonly report: (tokenRange: TokenRange, message: string) => void;
+}
+
+export interface LintRuleConfiguration {
+    readonly isEnabled: boolean;
+    // Overrides the rule's defaultSeverity if given.
+    readonly maybeSeverity: LintSeverity | undefined;
+}
+
+export interface LintSettings<S extends IParserState = IParserState> extends Settings<S> {
+    readonly rules: ReadonlyArray<LintRule>;
+    // Rules without a configuration are enabled with their default severity.
+    readonly ruleConfigurationByCode: ReadonlyMap<string, LintRuleConfiguration>;
+}
+
+export const DefaultLintSettings: LintSettings = {
+    ...DefaultSettings,
+    rules: StarterRules,
+    ruleConfigurationByCode: new Map(),
+};
+
+// Runs every enabled rule over the document, returning the diagnostics ordered by their position.
+//
+// Rules can be turned off within the document using comments:
+//  * `// lint-disable` until a `// lint-enable` comment, or the end of the document.
+//  * `// lint-disable-next-line` for only the line after the comment.
+// Each directive can be followed by a list of rule codes, else it applies to every rule.
+export function tryLint<S extends IParserState = IParserState>(settings: LintSettings<S>, text: string): TriedLint<S> {
+    const triedLexParse: TriedLexParse<S> = tryLexParse(settings, text);
+    if (ResultUtils.isErr(triedLexParse)) {
+        return triedLexParse;
+    }
+    const lexParseOk: LexParseOk<S> = triedLexParse.value;
+    const disabledRanges: ReadonlyArray<TDisabledRange> = disabledRangesFrom(lexParseOk.lexerSnapshot.comments);
+
+    const typeCache: TypeCache = {
+        scopeById: new Map(),
+        typeById: new Map(),
+    };
+    const visitorsByNodeKind: Map<Ast.NodeKind, RuleVisitor[]> = new Map();
+    const diagnostics: LintDiagnostic[] = [];
+
+    for (const rule of settings.rules) {
+        const maybeConfiguration: LintRuleConfiguration | undefined = settings.ruleConfigurationByCode.get(rule.code);
+        if (maybeConfiguration !== undefined && !maybeConfiguration.isEnabled) {
+            continue;
+        }
+        const severity: LintSeverity =
+            maybeConfiguration !== undefined && maybeConfiguration.maybeSeverity !== undefined
+                ? maybeConfiguration.maybeSeverity
+                : rule.defaultSeverity;
+
+        const context: LintContext = {
+            settings,
+            nodeIdMapCollection: lexParseOk.state.contextState.nodeIdMapCollection,
+            leafNodeIds: lexParseOk.state.contextState.leafNodeIds,
+            typeCache,
+            report: (tokenRange: TokenRange, message: string) => {
+                if (!isDisabled(disabledRanges, rule.code, tokenRange.positionStart)) {
+                    diagnostics.push({
+                        code: rule.code,
+                        severity,
+                        message,
+                        tokenRange,
+                    });
+                }
+            },
+        };
+
+        for (const nodeKind of rule.nodeKinds) {
+            const maybeVisitors: RuleVisitor[] | undefined = visitorsByNodeKind.get(nodeKind);
+            if (maybeVisitors !== undefined) {
+                maybeVisitors.push({ rule, context });
+            } else {
+                visitorsByNodeKind.set(nodeKind, [{ rule, context }]);
+            }
+        }
+    }
+
+    const state: LintState = {
+        localizationTemplates: getLocalizationTemplates(settings.locale),
+        result: diagnostics,
+        visitorsByNodeKind,
+    };
+    const triedTraverse: Traverse.TriedTraverse<LintDiagnostic[]> = Traverse.tryTraverseAst<
+        LintState,
+        LintDiagnostic[]
+    >(
+        state,
+        lexParseOk.state.contextState.nodeIdMapCollection,
+        lexParseOk.ast,
+        Traverse.VisitNodeStrategy.BreadthFirst,
+        visitNode,
+        Traverse.expectExpandAllAstChildren,
+        undefined,
+    );
+    if (ResultUtils.isErr(triedTraverse)) {
+        return triedTraverse;
+    }
+
+    return ResultUtils.okFactory(
+        triedTraverse.value.sort(
+            (left: LintDiagnostic, right: LintDiagnostic) =>
+                left.tokenRange.positionStart.codeUnit - right.tokenRange.positionStart.codeUnit,
+        ),
+    );
+}
+
+interface LintState extends Traverse.IState<LintDiagnostic[]> {
+    readonly visitorsByNodeKind: Map<Ast.NodeKind, RuleVisitor[]>;
+}
+
+interface RuleVisitor {
+    readonly rule: LintRule;
+    readonly context: LintContext;
+}
+
+function visitNode(state: LintState, node: Ast.TNode): void {
+    const maybeVisitors: RuleVisitor[] | undefined = state.visitorsByNodeKind.get(node.kind);
+    if (maybeVisitors === undefined) {
+        return;
+    }
+
+    for (const visitor of maybeVisitors) {
+        visitor.rule.visitNode(visitor.context, node);
+    }
+}
@@ -0,0 +1,54 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { StringUtils } from "../../common";
+import { Ast } from "../../language";
+import { getLocalizationTemplates, Localization } from "../../localization";
+import { LintContext, LintRule, LintSeverity } from "../lint";
+
+// A record, record literal, or record type which uses the same key more than once, eg. `[a = 1, #"a" = 2]`.
+// Every repeat of a key is reported rather than the first use of it.
+export const DuplicateRecordKey: LintRule = {
+    code: "duplicate-record-key",
+    defaultSeverity: LintSeverity.Error,
+    nodeKinds: [Ast.NodeKind.FieldSpecificationList, Ast.NodeKind.RecordExpression, Ast.NodeKind.RecordLiteral],
+    visitNode: (context: LintContext, node: Ast.TNode) => {
+        let keys: ReadonlyArray<Ast.GeneralizedIdentifier>;
+        switch (node.kind) {
+            case Ast.NodeKind.FieldSpecificationList:
+                keys = node.content.elements.map((csv: Ast.ICsv<Ast.FieldSpecification>) => csv.node.name);
+                break;
+
+            case Ast.NodeKind.RecordExpression:
+                keys = node.content.elements.map(
+                    (csv: Ast.ICsv<Ast.GeneralizedIdentifierPairedExpression>) => csv.node.key,
+                );
+                break;
+
+            case Ast.NodeKind.RecordLiteral:
+                keys = node.content.elements.map(
+                    (csv: Ast.ICsv<Ast.GeneralizedIdentifierPairedAnyLiteral>) => csv.node.key,
+                );
+                break;
+
+            default:
+                return;
+        }
+
+        const seenKeys: Set<string> = new Set();
+        for (const key of keys) {
+            const normalizedKey: string = StringUtils.normalizeIdentifier(key.literal);
+            if (seenKeys.has(normalizedKey)) {
+                context.report(
+                    key.tokenRange,
+                    Localization.lint_duplicateRecordKey(
+                        getLocalizationTemplates(context.settings.locale),
+                        key.literal,
+                    ),
+                );
+            } else {
+                seenKeys.add(normalizedKey);
+            }
+        }
+    },
+};
@@ -0,0 +1,31 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { LintRule } from "../lint";
+import { DuplicateRecordKey } from "./duplicateRecordKey";
+import { NonLogicalIfCondition } from "./nonLogicalIfCondition";
+import { ShadowedIdentifier } from "./shadowedIdentifier";
+import { UnreachableLetBinding } from "./unreachableLetBinding";
+import { UnusedLetBinding } from "./unusedLetBinding";
+import { UnusedParameter } from "./unusedParameter";
+import { UnusedSectionMember } from "./unusedSectionMember";
+
+export {
+    DuplicateRecordKey,
+    NonLogicalIfCondition,
+    ShadowedIdentifier,
+    UnreachableLetBinding,
+    UnusedLetBinding,
+    UnusedParameter,
+    UnusedSectionMember,
+};
+
+export const StarterRules: ReadonlyArray<LintRule> = [
+    DuplicateRecordKey,
+    NonLogicalIfCondition,
+    ShadowedIdentifier,
+    UnreachableLetBinding,
+    UnusedLetBinding,
+    UnusedParameter,
+    UnusedSectionMember,
+];
@@ -0,0 +1,49 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { ResultUtils } from "../../common";
+import { TriedType, tryType } from "../../inspection";
+import { Ast } from "../../language";
+import { getLocalizationTemplates, Localization } from "../../localization";
+import { Type } from "../../type";
+import { LintContext, LintRule, LintSeverity } from "../lint";
+
+// An if expression whose condition is known to not be a logical value, eg. `if 1 then "a" else "b"`.
+// Conditions which couldn't be typed, or could be any value, aren't reported.
+export const NonLogicalIfCondition: LintRule = {
+    code: "non-logical-if-condition",
+    defaultSeverity: LintSeverity.Error,
+    nodeKinds: [Ast.NodeKind.IfExpression],
+    visitNode: (context: LintContext, node: Ast.TNode) => {
+        if (node.kind !== Ast.NodeKind.IfExpression) {
+            return;
+        }
+
+        const triedType: TriedType = tryType(
+            context.settings,
+            context.nodeIdMapCollection,
+            context.leafNodeIds,
+            node.condition.id,
+            context.typeCache,
+        );
+        if (ResultUtils.isErr(triedType)) {
+            throw triedType.error;
+        }
+
+        if (!AllowedTypeKinds.has(triedType.value.kind)) {
+            context.report(
+                node.condition.tokenRange,
+                Localization.lint_nonLogicalIfCondition(getLocalizationTemplates(context.settings.locale)),
+            );
+        }
+    },
+};
+
+const AllowedTypeKinds: ReadonlySet<Type.TypeKind> = new Set([
+    Type.TypeKind.Any,
+    Type.TypeKind.AnyNonNull,
+    Type.TypeKind.Logical,
+    Type.TypeKind.None,
+    Type.TypeKind.NotApplicable,
+    Type.TypeKind.Unknown,
+]);
@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { ResultUtils } from "../../common";
+import { Reference, TriedReferences, tryIdentifierReferences } from "../../inspection";
+import { Ast } from "../../language";
+import { LintContext } from "../lint";
+
+export function expectReferences(
+    context: LintContext,
+    identifier: Ast.Identifier | Ast.GeneralizedIdentifier,
+): ReadonlyArray<Reference> {
+    const triedReferences: TriedReferences = tryIdentifierReferences(
+        context.settings,
+        context.nodeIdMapCollection,
+        context.leafNodeIds,
+        identifier,
+        context.typeCache.scopeById,
+    );
+    if (ResultUtils.isErr(triedReferences)) {
+        throw triedReferences.error;
+    }
+
+    return triedReferences.value.filter((reference: Reference) => !reference.isDeclaration);
+}
+
+export function isUnreferenced(context: LintContext, identifier: Ast.Identifier | Ast.GeneralizedIdentifier): boolean {
+    return expectReferences(context, identifier).length === 0;
+}
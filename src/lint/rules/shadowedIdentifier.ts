@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert, ResultUtils, StringUtils } from "../../common";
+import { ScopeItemByKey, ScopeItemKind, TriedScopeForRoot, tryScopeItems, TScopeItem } from "../../inspection";
+import { Ast } from "../../language";
+import { getLocalizationTemplates, Localization } from "../../localization";
+import { LintContext, LintRule, LintSeverity } from "../lint";
+
+// A let variable or parameter with the same name as something already in scope, eg. `x` in `(x) => let x = 1 in x`.
+export const ShadowedIdentifier: LintRule = {
+    code: "shadowed-identifier",
+    defaultSeverity: LintSeverity.Warning,
+    nodeKinds: [Ast.NodeKind.FunctionExpression, Ast.NodeKind.LetExpression],
+    visitNode: (context: LintContext, node: Ast.TNode) => {
+        let identifiers: ReadonlyArray<Ast.Identifier>;
+        switch (node.kind) {
+            case Ast.NodeKind.FunctionExpression:
+                identifiers = node.parameters.content.elements.map(
+                    (csv: Ast.ICsv<Ast.IParameter<Ast.AsNullablePrimitiveType | undefined>>) => csv.node.name,
+                );
+                break;
+
+            case Ast.NodeKind.LetExpression:
+                identifiers = node.variableList.elements.map(
+                    (csv: Ast.ICsv<Ast.IdentifierPairedExpression>) => csv.node.key,
+                );
+                break;
+
+            default:
+                return;
+        }
+
+        // The scope of the node itself only has what was introduced by its ancestors.
+        const triedScopeItems: TriedScopeForRoot = tryScopeItems(
+            context.settings,
+            context.nodeIdMapCollection,
+            context.leafNodeIds,
+            node.id,
+            context.typeCache.scopeById,
+        );
+        if (ResultUtils.isErr(triedScopeItems)) {
+            throw triedScopeItems.error;
+        }
+        const outerNames: ReadonlySet<string> = outerNamesFrom(triedScopeItems.value);
+
+        for (const identifier of identifiers) {
+            if (outerNames.has(StringUtils.normalizeIdentifier(identifier.literal))) {
+                context.report(
+                    identifier.tokenRange,
+                    Localization.lint_shadowedIdentifier(
+                        getLocalizationTemplates(context.settings.locale),
+                        identifier.literal,
+                    ),
+                );
+            }
+        }
+    },
+};
+
+function outerNamesFrom(scopeItemByKey: ScopeItemByKey): ReadonlySet<string> {
+    const names: Set<string> = new Set();
+
+    for (const [key, scopeItem] of scopeItemByKey.entries()) {
+        if (isNamedScopeItem(scopeItem)) {
+            names.add(StringUtils.normalizeIdentifier(key));
+        }
+    }
+
+    return names;
+}
+
+function isNamedScopeItem(scopeItem: TScopeItem): boolean {
+    switch (scopeItem.kind) {
+        case ScopeItemKind.Each:
+        case ScopeItemKind.KeyValuePair:
+        case ScopeItemKind.Parameter:
+        case ScopeItemKind.SectionMember:
+            return true;
+
+        case ScopeItemKind.Undefined:
+            return false;
+
+        default:
+            throw Assert.isNever(scopeItem);
+    }
+}
@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Reference } from "../../inspection";
+import { Ast } from "../../language";
+import { getLocalizationTemplates, Localization } from "../../localization";
+import { LintContext, LintRule, LintSeverity } from "../lint";
+import { expectReferences } from "./ruleUtils";
+
+// A let variable which is referenced, but only by variables which the `in` expression doesn't transitively depend on.
+// Eg. `a` in `let a = 1, b = a, c = 2 in c`.
+// Variables without any references are left to UnusedLetBinding.
+export const UnreachableLetBinding: LintRule = {
+    code: "unreachable-let-binding",
+    defaultSeverity: LintSeverity.Warning,
+    nodeKinds: [Ast.NodeKind.LetExpression],
+    visitNode: (context: LintContext, node: Ast.TNode) => {
+        if (node.kind !== Ast.NodeKind.LetExpression) {
+            return;
+        }
+
+        const bindings: ReadonlyArray<Ast.IdentifierPairedExpression> = node.variableList.elements.map(
+            (csv: Ast.ICsv<Ast.IdentifierPairedExpression>) => csv.node,
+        );
+        // The indices of the bindings referenced from within each binding's value.
+        const dependencies: number[][] = bindings.map(() => []);
+        const isReferencedByIndex: boolean[] = [];
+        const pending: number[] = [];
+
+        bindings.forEach((binding: Ast.IdentifierPairedExpression, index: number) => {
+            const references: ReadonlyArray<Reference> = expectReferences(context, binding.key);
+            isReferencedByIndex.push(references.length !== 0);
+
+            for (const reference of references) {
+                const tokenIndex: number = reference.tokenRange.tokenIndexStart;
+                if (isWithin(node.expression, tokenIndex)) {
+                    pending.push(index);
+                } else {
+                    const dependentIndex: number = bindings.findIndex((dependent: Ast.IdentifierPairedExpression) =>
+                        isWithin(dependent.value, tokenIndex),
+                    );
+                    if (dependentIndex !== -1) {
+                        dependencies[dependentIndex].push(index);
+                    }
+                }
+            }
+        });
+
+        const reachable: Set<number> = new Set();
+        for (let pendingIndex: number = 0; pendingIndex < pending.length; pendingIndex += 1) {
+            const index: number = pending[pendingIndex];
+            if (!reachable.has(index)) {
+                reachable.add(index);
+                pending.push(...dependencies[index]);
+            }
+        }
+
+        bindings.forEach((binding: Ast.IdentifierPairedExpression, index: number) => {
+            if (isReferencedByIndex[index] && !reachable.has(index)) {
+                context.report(
+                    binding.key.tokenRange,
+                    Localization.lint_unreachableLetBinding(
+                        getLocalizationTemplates(context.settings.locale),
+                        binding.key.literal,
+                    ),
+                );
+            }
+        });
+    },
+};
+
+function isWithin(node: Ast.TNode, tokenIndex: number): boolean {
+    return node.tokenRange.tokenIndexStart <= tokenIndex && tokenIndex <= node.tokenRange.tokenIndexEnd;
+}
@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Ast } from "../../language";
+import { getLocalizationTemplates, Localization } from "../../localization";
+import { LintContext, LintRule, LintSeverity } from "../lint";
+import { isUnreferenced } from "./ruleUtils";
+
+// A let variable which isn't referenced by either the `in` expression or another variable.
+export const UnusedLetBinding: LintRule = {
+    code: "unused-let-binding",
+    defaultSeverity: LintSeverity.Warning,
+    nodeKinds: [Ast.NodeKind.LetExpression],
+    visitNode: (context: LintContext, node: Ast.TNode) => {
+        if (node.kind !== Ast.NodeKind.LetExpression) {
+            return;
+        }
+
+        for (const csv of node.variableList.elements) {
+            const key: Ast.Identifier = csv.node.key;
+            if (isUnreferenced(context, key)) {
+                context.report(
+                    key.tokenRange,
+                    Localization.lint_unusedLetBinding(getLocalizationTemplates(context.settings.locale), key.literal),
+                );
+            }
+        }
+    },
+};
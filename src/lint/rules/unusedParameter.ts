@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Ast } from "../../language";
+import { getLocalizationTemplates, Localization } from "../../localization";
+import { LintContext, LintRule, LintSeverity } from "../lint";
+import { isUnreferenced } from "./ruleUtils";
+
+// A function parameter which isn't referenced by the function's body.
+export const UnusedParameter: LintRule = {
+    code: "unused-parameter",
+    defaultSeverity: LintSeverity.Warning,
+    nodeKinds: [Ast.NodeKind.FunctionExpression],
+    visitNode: (context: LintContext, node: Ast.TNode) => {
+        if (node.kind !== Ast.NodeKind.FunctionExpression) {
+            return;
+        }
+
+        for (const csv of node.parameters.content.elements) {
+            const name: Ast.Identifier = csv.node.name;
+            if (isUnreferenced(context, name)) {
+                context.report(
+                    name.tokenRange,
+                    Localization.lint_unusedParameter(getLocalizationTemplates(context.settings.locale), name.literal),
+                );
+            }
+        }
+    },
+};
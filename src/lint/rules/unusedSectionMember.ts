@@ -0,0 +1,28 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Ast } from "../../language";
+import { getLocalizationTemplates, Localization } from "../../localization";
+import { LintContext, LintRule, LintSeverity } from "../lint";
+import { isUnreferenced } from "./ruleUtils";
+
+// A section member which isn't referenced by another member of the section.
+// Shared members are visible outside of the document, so they're never reported.
+export const UnusedSectionMember: LintRule = {
+    code: "unused-section-member",
+    defaultSeverity: LintSeverity.Warning,
+    nodeKinds: [Ast.NodeKind.SectionMember],
+    visitNode: (context: LintContext, node: Ast.TNode) => {
+        if (node.kind !== Ast.NodeKind.SectionMember || node.maybeSharedConstant !== undefined) {
+            return;
+        }
+
+        const key: Ast.Identifier = node.namePairedExpression.key;
+        if (isUnreferenced(context, key)) {
+            context.report(
+                key.tokenRange,
+                Localization.lint_unusedSectionMember(getLocalizationTemplates(context.settings.locale), key.literal),
+            );
+        }
+    },
+};
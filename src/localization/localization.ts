@@ -6,6 +6,7 @@ import { Assert, StringUtils } from "../common";
 import { Lexer, LexError } from "../lexer";
 import { ParseError } from "../parser";
 import { TokenWithColumnNumber } from "../parser/error";
+import { RefactorError } from "../refactor";
 import { ILocalizationTemplates } from "./templates";
 
 interface ILocalization {
@@ -15,6 +16,39 @@ interface ILocalization {
         maybeJsonifyableDetails: any | undefined,
     ) => string;
     readonly error_common_unknown: (templates: ILocalizationTemplates, message: any) => string;
+    readonly error_evaluation_binOpExpression: (
+        templates: ILocalizationTemplates,
+        operator: string,
+        left: string,
+        right: string,
+    ) => string;
+    readonly error_evaluation_cyclicReference: (templates: ILocalizationTemplates, name: string) => string;
+    readonly error_evaluation_duplicateField: (templates: ILocalizationTemplates, name: string) => string;
+    readonly error_evaluation_fieldNotFound: (templates: ILocalizationTemplates, name: string) => string;
+    readonly error_evaluation_indexOutOfRange: (templates: ILocalizationTemplates, index: number) => string;
+    readonly error_evaluation_notImplemented: (templates: ILocalizationTemplates) => string;
+    readonly error_evaluation_tooFewArguments: (
+        templates: ILocalizationTemplates,
+        expected: number,
+        actual: number,
+    ) => string;
+    readonly error_evaluation_tooManyArguments: (
+        templates: ILocalizationTemplates,
+        expected: number,
+        actual: number,
+    ) => string;
+    readonly error_evaluation_typeMismatch: (
+        templates: ILocalizationTemplates,
+        actual: string,
+        expected: string,
+    ) => string;
+    readonly error_evaluation_unaryExpression: (
+        templates: ILocalizationTemplates,
+        operator: string,
+        operand: string,
+    ) => string;
+    readonly error_evaluation_unknownIdentifier: (templates: ILocalizationTemplates, name: string) => string;
+    readonly error_evaluation_unsupported: (templates: ILocalizationTemplates, nodeKind: string) => string;
     readonly error_lex_badLineNumber: (templates: ILocalizationTemplates, kind: LexError.BadLineNumberKind) => string;
     readonly error_lex_badRange: (templates: ILocalizationTemplates, kind: LexError.BadRangeKind) => string;
     readonly error_lex_badState: (templates: ILocalizationTemplates) => string;
@@ -50,6 +84,51 @@ interface ILocalization {
     readonly error_parse_unterminated_bracket: (templates: ILocalizationTemplates) => string;
     readonly error_parse_unterminated_parenthesis: (templates: ILocalizationTemplates) => string;
     readonly error_parse_unusedTokens: (templates: ILocalizationTemplates) => string;
+    readonly error_refactor_rename: (
+        templates: ILocalizationTemplates,
+        kind: RefactorError.RenameErrorKind,
+        newName: string,
+    ) => string;
+    readonly lint_duplicateRecordKey: (templates: ILocalizationTemplates, key: string) => string;
+    readonly lint_nonLogicalIfCondition: (templates: ILocalizationTemplates) => string;
+    readonly lint_shadowedIdentifier: (templates: ILocalizationTemplates, name: string) => string;
+    readonly lint_unreachableLetBinding: (templates: ILocalizationTemplates, name: string) => string;
+    readonly lint_unusedLetBinding: (templates: ILocalizationTemplates, name: string) => string;
+    readonly lint_unusedParameter: (templates: ILocalizationTemplates, name: string) => string;
+    readonly lint_unusedSectionMember: (templates: ILocalizationTemplates, name: string) => string;
+    readonly typeDiagnostic_argumentType: (
+        templates: ILocalizationTemplates,
+        parameter: string,
+        expected: string,
+        actual: string,
+    ) => string;
+    readonly typeDiagnostic_binOpExpression: (
+        templates: ILocalizationTemplates,
+        operator: string,
+        left: string,
+        right: string,
+    ) => string;
+    readonly typeDiagnostic_fieldAccess: (templates: ILocalizationTemplates, type: string) => string;
+    readonly typeDiagnostic_ifCondition: (templates: ILocalizationTemplates, type: string) => string;
+    readonly typeDiagnostic_invokeExpression: (templates: ILocalizationTemplates, type: string) => string;
+    readonly typeDiagnostic_missingField: (templates: ILocalizationTemplates, field: string) => string;
+    readonly typeDiagnostic_rangeExpression: (templates: ILocalizationTemplates, left: string, right: string) => string;
+    readonly typeDiagnostic_returnType: (templates: ILocalizationTemplates, expected: string, actual: string) => string;
+    readonly typeDiagnostic_tooFewArguments: (
+        templates: ILocalizationTemplates,
+        expected: number,
+        actual: number,
+    ) => string;
+    readonly typeDiagnostic_tooManyArguments: (
+        templates: ILocalizationTemplates,
+        expected: number,
+        actual: number,
+    ) => string;
+    readonly typeDiagnostic_unaryExpression: (
+        templates: ILocalizationTemplates,
+        operator: string,
+        type: string,
+    ) => string;
 }
 
 export function localizeTokenKind(
@@ -211,6 +290,77 @@ export const Localization: ILocalization = {
         return StringUtils.expectFormat(templates.error_common_unknown, new Map([["innerError", innerError]]));
     },
 
+    error_evaluation_binOpExpression: (
+        templates: ILocalizationTemplates,
+        operator: string,
+        left: string,
+        right: string,
+    ) =>
+        StringUtils.expectFormat(
+            templates.error_evaluation_binOpExpression,
+            new Map([
+                ["operator", operator],
+                ["left", left],
+                ["right", right],
+            ]),
+        ),
+
+    error_evaluation_cyclicReference: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.error_evaluation_cyclicReference, new Map([["name", name]])),
+
+    error_evaluation_duplicateField: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.error_evaluation_duplicateField, new Map([["name", name]])),
+
+    error_evaluation_fieldNotFound: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.error_evaluation_fieldNotFound, new Map([["name", name]])),
+
+    error_evaluation_indexOutOfRange: (templates: ILocalizationTemplates, index: number) =>
+        StringUtils.expectFormat(templates.error_evaluation_indexOutOfRange, new Map([["index", index.toString()]])),
+
+    error_evaluation_notImplemented: (templates: ILocalizationTemplates) => templates.error_evaluation_notImplemented,
+
+    error_evaluation_tooFewArguments: (templates: ILocalizationTemplates, expected: number, actual: number) =>
+        StringUtils.expectFormat(
+            templates.error_evaluation_tooFewArguments,
+            new Map([
+                ["expected", expected.toString()],
+                ["actual", actual.toString()],
+            ]),
+        ),
+
+    error_evaluation_tooManyArguments: (templates: ILocalizationTemplates, expected: number, actual: number) =>
+        StringUtils.expectFormat(
+            templates.error_evaluation_tooManyArguments,
+            new Map([
+                ["expected", expected.toString()],
+                ["actual", actual.toString()],
+            ]),
+        ),
+
+    error_evaluation_typeMismatch: (templates: ILocalizationTemplates, actual: string, expected: string) =>
+        StringUtils.expectFormat(
+            templates.error_evaluation_typeMismatch,
+            new Map([
+                ["actual", actual],
+                ["expected", expected],
+            ]),
+        ),
+
+    error_evaluation_unaryExpression: (templates: ILocalizationTemplates, operator: string, operand: string) =>
+        StringUtils.expectFormat(
+            templates.error_evaluation_unaryExpression,
+            new Map([
+                ["operator", operator],
+                ["operand", operand],
+            ]),
+        ),
+
+    error_evaluation_unknownIdentifier: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.error_evaluation_unknownIdentifier, new Map([["name", name]])),
+
+    error_evaluation_unsupported: (templates: ILocalizationTemplates, nodeKind: string) =>
+        StringUtils.expectFormat(templates.error_evaluation_unsupported, new Map([["nodeKind", nodeKind]])),
+
     error_lex_badLineNumber: (templates: ILocalizationTemplates, kind: LexError.BadLineNumberKind) => {
         switch (kind) {
             case LexError.BadLineNumberKind.GreaterThanNumLines:
@@ -390,4 +540,137 @@ export const Localization: ILocalization = {
         templates.error_parse_unterminated_parenthesis,
 
     error_parse_unusedTokens: (templates: ILocalizationTemplates) => templates.error_parse_unusedTokens,
+
+    error_refactor_rename: (
+        templates: ILocalizationTemplates,
+        kind: RefactorError.RenameErrorKind,
+        newName: string,
+    ) => {
+        switch (kind) {
+            case RefactorError.RenameErrorKind.EmptyName:
+                return templates.error_refactor_rename_1_emptyName;
+
+            case RefactorError.RenameErrorKind.FieldAccess:
+                return templates.error_refactor_rename_2_fieldAccess;
+
+            case RefactorError.RenameErrorKind.NameConflict:
+                return StringUtils.expectFormat(
+                    templates.error_refactor_rename_3_nameConflict,
+                    new Map([["newName", newName]]),
+                );
+
+            case RefactorError.RenameErrorKind.NoIdentifier:
+                return templates.error_refactor_rename_4_noIdentifier;
+
+            default:
+                throw Assert.isNever(kind);
+        }
+    },
+
+    lint_duplicateRecordKey: (templates: ILocalizationTemplates, key: string) =>
+        StringUtils.expectFormat(templates.lint_duplicateRecordKey, new Map([["key", key]])),
+
+    lint_nonLogicalIfCondition: (templates: ILocalizationTemplates) => templates.lint_nonLogicalIfCondition,
+
+    lint_shadowedIdentifier: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.lint_shadowedIdentifier, new Map([["name", name]])),
+
+    lint_unreachableLetBinding: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.lint_unreachableLetBinding, new Map([["name", name]])),
+
+    lint_unusedLetBinding: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.lint_unusedLetBinding, new Map([["name", name]])),
+
+    lint_unusedParameter: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.lint_unusedParameter, new Map([["name", name]])),
+
+    lint_unusedSectionMember: (templates: ILocalizationTemplates, name: string) =>
+        StringUtils.expectFormat(templates.lint_unusedSectionMember, new Map([["name", name]])),
+
+    typeDiagnostic_argumentType: (
+        templates: ILocalizationTemplates,
+        parameter: string,
+        expected: string,
+        actual: string,
+    ) =>
+        StringUtils.expectFormat(
+            templates.typeDiagnostic_argumentType,
+            new Map([
+                ["parameter", parameter],
+                ["expected", expected],
+                ["actual", actual],
+            ]),
+        ),
+
+    typeDiagnostic_binOpExpression: (
+        templates: ILocalizationTemplates,
+        operator: string,
+        left: string,
+        right: string,
+    ) =>
+        StringUtils.expectFormat(
+            templates.typeDiagnostic_binOpExpression,
+            new Map([
+                ["operator", operator],
+                ["left", left],
+                ["right", right],
+            ]),
+        ),
+
+    typeDiagnostic_fieldAccess: (templates: ILocalizationTemplates, type: string) =>
+        StringUtils.expectFormat(templates.typeDiagnostic_fieldAccess, new Map([["type", type]])),
+
+    typeDiagnostic_ifCondition: (templates: ILocalizationTemplates, type: string) =>
+        StringUtils.expectFormat(templates.typeDiagnostic_ifCondition, new Map([["type", type]])),
+
+    typeDiagnostic_invokeExpression: (templates: ILocalizationTemplates, type: string) =>
+        StringUtils.expectFormat(templates.typeDiagnostic_invokeExpression, new Map([["type", type]])),
+
+    typeDiagnostic_missingField: (templates: ILocalizationTemplates, field: string) =>
+        StringUtils.expectFormat(templates.typeDiagnostic_missingField, new Map([["field", field]])),
+
+    typeDiagnostic_rangeExpression: (templates: ILocalizationTemplates, left: string, right: string) =>
+        StringUtils.expectFormat(
+            templates.typeDiagnostic_rangeExpression,
+            new Map([
+                ["left", left],
+                ["right", right],
+            ]),
+        ),
+
+    typeDiagnostic_returnType: (templates: ILocalizationTemplates, expected: string, actual: string) =>
+        StringUtils.expectFormat(
+            templates.typeDiagnostic_returnType,
+            new Map([
+                ["expected", expected],
+                ["actual", actual],
+            ]),
+        ),
+
+    typeDiagnostic_tooFewArguments: (templates: ILocalizationTemplates, expected: number, actual: number) =>
+        StringUtils.expectFormat(
+            templates.typeDiagnostic_tooFewArguments,
+            new Map([
+                ["expected", expected.toString()],
+                ["actual", actual.toString()],
+            ]),
+        ),
+
+    typeDiagnostic_tooManyArguments: (templates: ILocalizationTemplates, expected: number, actual: number) =>
+        StringUtils.expectFormat(
+            templates.typeDiagnostic_tooManyArguments,
+            new Map([
+                ["expected", expected.toString()],
+                ["actual", actual.toString()],
+            ]),
+        ),
+
+    typeDiagnostic_unaryExpression: (templates: ILocalizationTemplates, operator: string, type: string) =>
+        StringUtils.expectFormat(
+            templates.typeDiagnostic_unaryExpression,
+            new Map([
+                ["operator", operator],
+                ["type", type],
+            ]),
+        ),
 };
@@ -49,6 +49,18 @@ export interface ILocalizationTemplates {
     readonly error_common_invariantError_1_details: string;
     readonly error_common_invariantError_2_noDetails: string;
     readonly error_common_unknown: string;
+    readonly error_evaluation_binOpExpression: string;
+    readonly error_evaluation_cyclicReference: string;
+    readonly error_evaluation_duplicateField: string;
+    readonly error_evaluation_fieldNotFound: string;
+    readonly error_evaluation_indexOutOfRange: string;
+    readonly error_evaluation_notImplemented: string;
+    readonly error_evaluation_tooFewArguments: string;
+    readonly error_evaluation_tooManyArguments: string;
+    readonly error_evaluation_typeMismatch: string;
+    readonly error_evaluation_unaryExpression: string;
+    readonly error_evaluation_unknownIdentifier: string;
+    readonly error_evaluation_unsupported: string;
     readonly error_lex_badLineNumber_1_greaterThanNumLines: string;
     readonly error_lex_badLineNumber_2_lessThanZero: string;
     readonly error_lex_badRange_1_lineNumberEnd_greaterThanLineLength: string;
@@ -82,6 +94,17 @@ export interface ILocalizationTemplates {
     readonly error_parse_unterminated_bracket: string;
     readonly error_parse_unterminated_parenthesis: string;
     readonly error_parse_unusedTokens: string;
+    readonly error_refactor_rename_1_emptyName: string;
+    readonly error_refactor_rename_2_fieldAccess: string;
+    readonly error_refactor_rename_3_nameConflict: string;
+    readonly error_refactor_rename_4_noIdentifier: string;
+    readonly lint_duplicateRecordKey: string;
+    readonly lint_nonLogicalIfCondition: string;
+    readonly lint_shadowedIdentifier: string;
+    readonly lint_unreachableLetBinding: string;
+    readonly lint_unusedLetBinding: string;
+    readonly lint_unusedParameter: string;
+    readonly lint_unusedSectionMember: string;
     readonly tokenKind_ampersand: string;
     readonly tokenKind_asterisk: string;
     readonly tokenKind_atSign: string;
@@ -143,6 +166,17 @@ export interface ILocalizationTemplates {
     readonly tokenKind_rightParenthesis: string;
     readonly tokenKind_semicolon: string;
     readonly tokenKind_stringLiteral: string;
+    readonly typeDiagnostic_argumentType: string;
+    readonly typeDiagnostic_binOpExpression: string;
+    readonly typeDiagnostic_fieldAccess: string;
+    readonly typeDiagnostic_ifCondition: string;
+    readonly typeDiagnostic_invokeExpression: string;
+    readonly typeDiagnostic_missingField: string;
+    readonly typeDiagnostic_rangeExpression: string;
+    readonly typeDiagnostic_returnType: string;
+    readonly typeDiagnostic_tooFewArguments: string;
+    readonly typeDiagnostic_tooManyArguments: string;
+    readonly typeDiagnostic_unaryExpression: string;
 }
 
 export const TemplatesByLocale: Map<string, ILocalizationTemplates> = new Map([
@@ -6,6 +6,15 @@ import { Result } from "../../common";
 import { Ast } from "../../language";
 
 export type TriedParse<S extends IParserState = IParserState> = Result<ParseOk<S>, ParseError.TParseError<S>>;
+export type TriedRecoveringParse<S extends IParserState = IParserState> = Result<
+    RecoveringParseOk<S>,
+    ParseError.TParseError<S>
+>;
+
+export type TriedIncrementalParse<S extends IParserState = IParserState> = Result<
+    IncrementalParseOk<S>,
+    ParseError.TParseError<S>
+>;
 
 export const enum ParenthesisDisambiguation {
     FunctionExpression = "FunctionExpression",
@@ -23,6 +32,20 @@ export interface ParseOk<S extends IParserState = IParserState> {
     readonly state: S;
 }
 
+// The Ast may contain Ast.ErrorPlaceholder nodes, one for each error that was recovered from.
+export interface RecoveringParseOk<S extends IParserState = IParserState> extends ParseOk<S> {
+    readonly errors: ReadonlyArray<ParseError.ParseError<S>>;
+}
+
+// How the Ast differs from the one it was incrementally parsed from.
+// A node whose id isn't in either list was reused, though its tokenRange was shifted if it came after the edit.
+export interface IncrementalParseOk<S extends IParserState = IParserState> extends ParseOk<S> {
+    // Nodes from the previous parse which no longer exist.
+    readonly removedNodeIds: ReadonlyArray<number>;
+    // Nodes which were either created or had a descendant change, in ascending order.
+    readonly changedNodeIds: ReadonlyArray<number>;
+}
+
 export interface IParser<State extends IParserState = IParserState> {
     readonly read: (state: State, parser: IParser<State>) => Ast.TNode;
 
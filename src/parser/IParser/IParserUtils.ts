@@ -1,11 +1,21 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { ParseError } from "..";
+import { ParseContext, ParseContextUtils, ParseError } from "..";
+import { Language } from "../..";
 import { CommonError, ResultUtils } from "../../common";
 import { Ast } from "../../language";
 import { IParserState, IParserStateUtils } from "../IParserState";
-import { IParser, TriedParse } from "./IParser";
+import { AncestryUtils, NodeIdMap, NodeIdMapIterator, NodeIdMapUtils, TXorNode } from "../nodeIdMap";
+import { Naive } from "../parsers";
+import {
+    IncrementalParseOk,
+    IParser,
+    ParseOk,
+    TriedIncrementalParse,
+    TriedParse,
+    TriedRecoveringParse,
+} from "./IParser";
 
 export function tryRead<State extends IParserState = IParserState>(
     state: State,
@@ -42,3 +52,689 @@ export function tryRead<State extends IParserState = IParserState>(
         state,
     });
 }
+
+// Instead of stopping at the first TInnerParseError, whenever an expression fails to be read the error is saved,
+// the tokens up to the next anchor are skipped, and an Ast.ErrorPlaceholder is used in place of the expression.
+// An anchor is a token which an enclosing construct expects after the expression, such as:
+// `,` for a Csv, `in` for a LetExpression, `then` or `else` for an IfExpression, `;` for a SectionMember,
+// or a closing bracket.
+//
+// An Err is only returned if an error couldn't be recovered from, such as tokens remaining after the document.
+export function tryReadWithRecovery<State extends IParserState = IParserState>(
+    state: State,
+    parser: IParser<State>,
+): TriedRecoveringParse<State> {
+    const errors: ParseError.ParseError<State>[] = [];
+    const recoveringParser: IParser<State> = {
+        ...parser,
+        readExpression: (readState: State, readParser: IParser<State>) =>
+            readExpressionOrRecover(readState, readParser, parser, errors),
+        // readDocument falls back to reading a section document when reading an expression document fails,
+        // at which point any errors recovered from during the first attempt no longer apply.
+        readSectionDocument: (readState: State, readParser: IParser<State>) => {
+            errors.length = 0;
+            return parser.readSectionDocument(readState, readParser);
+        },
+    };
+
+    const triedParse: TriedParse<State> = tryRead(state, recoveringParser);
+    if (ResultUtils.isErr(triedParse)) {
+        return triedParse;
+    }
+
+    return ResultUtils.okFactory({
+        ...triedParse.value,
+        errors,
+    });
+}
+
+// Parses the document held by state, which is the document the previous parse was of after an edit.
+// Rather than starting over, the smallest expression or section member which contains every token that changed
+// is read again and spliced into a copy of the previous Ast.
+// Nodes outside of it are reused, with those after the edit being copied so their tokenRange can be shifted.
+//
+// A re-read expression is only kept if it ends on the same token it did before,
+// otherwise the next enclosing candidate is tried instead, up to reading the entire document.
+// Node ids keep counting up from the previous parse so ids are never reused.
+export function tryReadIncremental<State extends IParserState = IParserState>(
+    state: State,
+    parser: IParser<State>,
+    previousTriedParse: TriedParse<State>,
+): TriedIncrementalParse<State> {
+    if (ResultUtils.isErr(previousTriedParse)) {
+        const previousError: ParseError.TParseError<State> = previousTriedParse.error;
+        return previousError instanceof ParseError.ParseError
+            ? tryReadAll(state, parser, previousError.state.contextState)
+            : tryReadAll(state, parser, undefined);
+    }
+    const previousParseOk: ParseOk<State> = previousTriedParse.value;
+
+    let maybeIncrementalParseOk: IncrementalParseOk<State> | undefined;
+    try {
+        maybeIncrementalParseOk = maybeReadIncremental(state, parser, previousParseOk);
+    } catch (err) {
+        return ResultUtils.errFactory(CommonError.ensureCommonError(state.localizationTemplates, err));
+    }
+
+    return maybeIncrementalParseOk !== undefined
+        ? ResultUtils.okFactory(maybeIncrementalParseOk)
+        : tryReadAll(state, parser, previousParseOk.state.contextState);
+}
+
+const RecoveryAnchorTokenKinds: ReadonlyArray<Language.TokenKind> = [
+    Language.TokenKind.Comma,
+    Language.TokenKind.KeywordIn,
+    Language.TokenKind.Semicolon,
+];
+
+const IfRecoveryAnchorTokenKinds: ReadonlyArray<Language.TokenKind> = [
+    Language.TokenKind.KeywordElse,
+    Language.TokenKind.KeywordThen,
+];
+
+const ClosingBracketTokenKinds: ReadonlyArray<Language.TokenKind> = [
+    Language.TokenKind.RightBrace,
+    Language.TokenKind.RightBracket,
+    Language.TokenKind.RightParenthesis,
+];
+
+const OpeningBracketTokenKinds: ReadonlyArray<Language.TokenKind> = [
+    Language.TokenKind.LeftBrace,
+    Language.TokenKind.LeftBracket,
+    Language.TokenKind.LeftParenthesis,
+];
+
+function readExpressionOrRecover<State extends IParserState = IParserState>(
+    state: State,
+    recoveringParser: IParser<State>,
+    parser: IParser<State>,
+    errors: ParseError.ParseError<State>[],
+): Ast.TExpression {
+    const stateBackup: IParserStateUtils.FastStateBackup = IParserStateUtils.fastStateBackup(state);
+    const numErrorsBackup: number = errors.length;
+
+    try {
+        return parser.readExpression(state, recoveringParser);
+    } catch (err) {
+        if (!ParseError.isTInnerParseError(err)) {
+            throw err;
+        }
+
+        // Drop everything read for the failed expression, including any placeholders (and their errors)
+        // from nested expressions, then have a single placeholder take its place.
+        IParserStateUtils.applyFastStateBackup(state, stateBackup);
+        errors.length = numErrorsBackup;
+        errors.push(new ParseError.ParseError(err, state));
+
+        return readErrorPlaceholder(state);
+    }
+}
+
+function readErrorPlaceholder<State extends IParserState = IParserState>(state: State): Ast.ErrorPlaceholder {
+    const nodeKind: Ast.NodeKind.ErrorPlaceholder = Ast.NodeKind.ErrorPlaceholder;
+    IParserStateUtils.startContext(state, nodeKind);
+
+    const tokenIndexStart: number = state.tokenIndex;
+    skipToRecoveryAnchor(state);
+
+    let tokenRange: Language.TokenRange;
+    if (state.tokenIndex > tokenIndexStart) {
+        const contextNodeMetadata: IParserStateUtils.ContextNodeMetadata = IParserStateUtils.expectContextNodeMetadata(
+            state,
+        );
+        tokenRange = contextNodeMetadata.tokenRange;
+    } else {
+        const position: Language.TokenPosition = zeroWidthPosition(state, tokenIndexStart);
+        tokenRange = {
+            tokenIndexStart,
+            tokenIndexEnd: tokenIndexStart - 1,
+            positionStart: position,
+            positionEnd: position,
+        };
+    }
+
+    const astNode: Ast.ErrorPlaceholder = {
+        id: state.maybeCurrentContextNode!.id,
+        maybeAttributeIndex: state.maybeCurrentContextNode!.maybeAttributeIndex,
+        kind: nodeKind,
+        isLeaf: true,
+        tokenRange,
+    };
+    IParserStateUtils.endContext(state, astNode);
+    return astNode;
+}
+
+// Skips tokens until an anchor is found which isn't nested within brackets, or within a LetExpression or IfExpression
+// that started after the error.
+// A stray `in` or `else`, such as in `(a in b)`, doesn't close anything which started after the error.
+// A closing bracket is an anchor if it closes a bracket which was open before the error, eg. the `]` in `[a = *]`.
+// Any other closing bracket, such as the `)` in `[a = )]`, is skipped over as part of the error.
+function skipToRecoveryAnchor<State extends IParserState = IParserState>(state: State): void {
+    const openBrackets: Language.TokenKind[] = openBracketsBefore(state, state.tokenIndex);
+    const numOpenBeforeError: number = openBrackets.length;
+    let letDepth: number = 0;
+    let ifDepth: number = 0;
+
+    while (state.maybeCurrentTokenKind !== undefined) {
+        const tokenKind: Language.TokenKind = state.maybeCurrentTokenKind;
+        const isUnnested: boolean = openBrackets.length === numOpenBeforeError && letDepth === 0;
+
+        if (ClosingBracketTokenKinds.indexOf(tokenKind) !== -1) {
+            const openIndex: number = openBrackets.lastIndexOf(openingBracketFor(tokenKind));
+            if (openIndex !== -1 && openIndex < numOpenBeforeError) {
+                return;
+            } else if (openIndex !== -1) {
+                openBrackets.length = openIndex;
+            }
+        } else if (OpeningBracketTokenKinds.indexOf(tokenKind) !== -1) {
+            openBrackets.push(tokenKind);
+        } else if (isUnnested && RecoveryAnchorTokenKinds.indexOf(tokenKind) !== -1) {
+            return;
+        } else if (isUnnested && ifDepth === 0 && IfRecoveryAnchorTokenKinds.indexOf(tokenKind) !== -1) {
+            return;
+        } else if (tokenKind === Language.TokenKind.KeywordLet) {
+            letDepth += 1;
+        } else if (tokenKind === Language.TokenKind.KeywordIn) {
+            letDepth = Math.max(letDepth - 1, 0);
+        } else if (tokenKind === Language.TokenKind.KeywordIf) {
+            ifDepth += 1;
+        } else if (tokenKind === Language.TokenKind.KeywordElse) {
+            ifDepth = Math.max(ifDepth - 1, 0);
+        }
+
+        Naive.readToken(state);
+    }
+}
+
+// The opening brackets which haven't been closed before the token, innermost last.
+// A closing bracket also closes any unclosed brackets nested within its own, eg. `[(]`,
+// while one which doesn't match any open bracket is ignored.
+function openBracketsBefore<State extends IParserState = IParserState>(
+    state: State,
+    tokenIndex: number,
+): Language.TokenKind[] {
+    const openBrackets: Language.TokenKind[] = [];
+
+    for (const token of state.lexerSnapshot.tokens.slice(0, tokenIndex)) {
+        if (OpeningBracketTokenKinds.indexOf(token.kind) !== -1) {
+            openBrackets.push(token.kind);
+        } else if (ClosingBracketTokenKinds.indexOf(token.kind) !== -1) {
+            const openIndex: number = openBrackets.lastIndexOf(openingBracketFor(token.kind));
+            if (openIndex !== -1) {
+                openBrackets.length = openIndex;
+            }
+        }
+    }
+
+    return openBrackets;
+}
+
+function openingBracketFor(closingBracket: Language.TokenKind): Language.TokenKind {
+    return OpeningBracketTokenKinds[ClosingBracketTokenKinds.indexOf(closingBracket)];
+}
+
+function zeroWidthPosition<State extends IParserState = IParserState>(
+    state: State,
+    tokenIndex: number,
+): Language.TokenPosition {
+    const tokens: ReadonlyArray<Language.Token> = state.lexerSnapshot.tokens;
+
+    if (tokenIndex < tokens.length) {
+        return tokens[tokenIndex].positionStart;
+    } else if (tokens.length) {
+        return tokens[tokens.length - 1].positionEnd;
+    } else {
+        return {
+            lineCodeUnit: 0,
+            lineNumber: 0,
+            codeUnit: 0,
+        };
+    }
+}
+
+// ---------------------------------------------
+// ---------- Incremental parse helpers ----------
+// ---------------------------------------------
+
+// The tokens which differ between the previous and current LexerSnapshot,
+// found by trimming the longest common prefix and suffix.
+// Tokens in the prefix also share the same position, while tokens in the suffix may have moved.
+interface TokenDiff {
+    readonly previousTokens: ReadonlyArray<Language.Token>;
+    readonly tokens: ReadonlyArray<Language.Token>;
+    readonly prefixLength: number;
+    // The first token index of the suffix within previousTokens.
+    readonly previousSuffixStart: number;
+    // How many more tokens the current document has.
+    readonly delta: number;
+}
+
+interface Splice {
+    readonly previousNode: Ast.TNode;
+    readonly node: Ast.TNode;
+    // previousNode and its ancestors.
+    readonly spineIds: ReadonlySet<number>;
+}
+
+function tryReadAll<State extends IParserState = IParserState>(
+    state: State,
+    parser: IParser<State>,
+    maybePreviousContextState: ParseContext.State | undefined,
+): TriedIncrementalParse<State> {
+    const removedNodeIds: number[] = [];
+    if (maybePreviousContextState !== undefined) {
+        const previousCollection: NodeIdMap.Collection = maybePreviousContextState.nodeIdMapCollection;
+        removedNodeIds.push(...previousCollection.astNodeById.keys(), ...previousCollection.contextNodeById.keys());
+        removedNodeIds.sort((left: number, right: number) => left - right);
+    }
+
+    resetState(state, 0, maybePreviousContextState !== undefined ? maybePreviousContextState.idCounter : 0);
+    const triedParse: TriedParse<State> = tryRead(state, parser);
+    if (ResultUtils.isErr(triedParse)) {
+        return triedParse;
+    }
+
+    return ResultUtils.okFactory({
+        ...triedParse.value,
+        removedNodeIds,
+        changedNodeIds: [...triedParse.value.state.contextState.nodeIdMapCollection.astNodeById.keys()].sort(
+            (left: number, right: number) => left - right,
+        ),
+    });
+}
+
+// Returns undefined if no candidate could be re-read in place.
+function maybeReadIncremental<State extends IParserState = IParserState>(
+    state: State,
+    parser: IParser<State>,
+    previousParseOk: ParseOk<State>,
+): IncrementalParseOk<State> | undefined {
+    const previousContextState: ParseContext.State = previousParseOk.state.contextState;
+    const tokenDiff: TokenDiff = tokenDiffFrom(previousParseOk.state.lexerSnapshot.tokens, state.lexerSnapshot.tokens);
+
+    // Only positions changed, such as from an edit to whitespace or comments.
+    if (tokenDiff.prefixLength === tokenDiff.previousSuffixStart && tokenDiff.delta === 0) {
+        resetState(state, state.lexerSnapshot.tokens.length, previousContextState.idCounter);
+        return splicedParseOk(state, previousParseOk, tokenDiff, undefined);
+    }
+
+    for (const candidate of reparseCandidates(
+        previousContextState.nodeIdMapCollection,
+        previousParseOk.ast,
+        tokenDiff,
+    )) {
+        const maybeRead: ((state: State, parser: IParser<State>) => Ast.TNode) | undefined = maybeReparseReader(
+            previousContextState.nodeIdMapCollection,
+            candidate,
+            parser,
+        );
+        if (maybeRead === undefined) {
+            continue;
+        }
+
+        resetState(state, candidate.tokenRange.tokenIndexStart, previousContextState.idCounter);
+        let node: Ast.TNode;
+        try {
+            node = maybeRead(state, parser);
+        } catch (err) {
+            if (ParseError.isTInnerParseError(err)) {
+                continue;
+            }
+            throw err;
+        }
+
+        // The following tokens are the same as before, so if it ended on the same token
+        // then the parent would have continued on exactly as it did before.
+        if (
+            state.tokenIndex === candidate.tokenRange.tokenIndexEnd + tokenDiff.delta + 1 &&
+            IParserStateUtils.testNoOpenContext(state) === undefined
+        ) {
+            return splicedParseOk(state, previousParseOk, tokenDiff, {
+                previousNode: candidate,
+                node: {
+                    ...node,
+                    maybeAttributeIndex: candidate.maybeAttributeIndex,
+                } as Ast.TNode,
+                spineIds: new Set([
+                    candidate.id,
+                    ...AncestryUtils.expectAncestry(previousContextState.nodeIdMapCollection, candidate.id).map(
+                        (xorNode: TXorNode) => xorNode.node.id,
+                    ),
+                ]),
+            });
+        }
+    }
+
+    return undefined;
+}
+
+function tokenDiffFrom(
+    previousTokens: ReadonlyArray<Language.Token>,
+    tokens: ReadonlyArray<Language.Token>,
+): TokenDiff {
+    const maxLength: number = Math.min(previousTokens.length, tokens.length);
+
+    let prefixLength: number = 0;
+    while (
+        prefixLength < maxLength &&
+        isSameToken(previousTokens[prefixLength], tokens[prefixLength]) &&
+        isSamePosition(previousTokens[prefixLength].positionStart, tokens[prefixLength].positionStart)
+    ) {
+        prefixLength += 1;
+    }
+
+    let suffixLength: number = 0;
+    while (
+        suffixLength < maxLength - prefixLength &&
+        isSameToken(previousTokens[previousTokens.length - suffixLength - 1], tokens[tokens.length - suffixLength - 1])
+    ) {
+        suffixLength += 1;
+    }
+
+    return {
+        previousTokens,
+        tokens,
+        prefixLength,
+        previousSuffixStart: previousTokens.length - suffixLength,
+        delta: tokens.length - previousTokens.length,
+    };
+}
+
+function isSameToken(left: Language.Token, right: Language.Token): boolean {
+    return left.kind === right.kind && left.data === right.data;
+}
+
+// Every node which contains all of the changed tokens, from the deepest to the root.
+function reparseCandidates(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    root: Ast.TNode,
+    tokenDiff: TokenDiff,
+): ReadonlyArray<Ast.TNode> {
+    const candidates: Ast.TNode[] = [];
+    let maybeNode: Ast.TNode | undefined = root;
+
+    while (maybeNode !== undefined) {
+        candidates.push(maybeNode);
+
+        const maybeChildren: ReadonlyArray<Ast.TNode> | undefined = NodeIdMapIterator.maybeAstChildren(
+            nodeIdMapCollection,
+            maybeNode.id,
+        );
+        maybeNode =
+            maybeChildren !== undefined
+                ? maybeChildren.find(
+                      (child: Ast.TNode) =>
+                          child.tokenRange.tokenIndexStart <= tokenDiff.prefixLength &&
+                          child.tokenRange.tokenIndexEnd >= tokenDiff.previousSuffixStart - 1 &&
+                          child.tokenRange.tokenIndexEnd >= child.tokenRange.tokenIndexStart,
+                  )
+                : undefined;
+    }
+
+    return candidates.reverse();
+}
+
+// A node can only be read again on its own if its parent read it with either readExpression or readSectionMember.
+function maybeReparseReader<State extends IParserState = IParserState>(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    node: Ast.TNode,
+    parser: IParser<State>,
+): ((state: State, parser: IParser<State>) => Ast.TNode) | undefined {
+    if (node.kind === Ast.NodeKind.SectionMember) {
+        return parser.readSectionMember;
+    }
+
+    const maybeParent: Ast.TNode | undefined = NodeIdMapUtils.maybeParentAstNode(nodeIdMapCollection, node.id);
+    return maybeParent !== undefined && isExpressionAttribute(maybeParent, node) ? parser.readExpression : undefined;
+}
+
+function isExpressionAttribute(parent: Ast.TNode, node: Ast.TNode): boolean {
+    switch (parent.kind) {
+        case Ast.NodeKind.EachExpression:
+        case Ast.NodeKind.ErrorRaisingExpression:
+        case Ast.NodeKind.OtherwiseExpression:
+            return parent.paired === node;
+
+        case Ast.NodeKind.ErrorHandlingExpression:
+            return parent.protectedExpression === node;
+
+        case Ast.NodeKind.FunctionExpression:
+        case Ast.NodeKind.LetExpression:
+            return parent.expression === node;
+
+        case Ast.NodeKind.GeneralizedIdentifierPairedExpression:
+        case Ast.NodeKind.IdentifierPairedExpression:
+            return parent.value === node;
+
+        case Ast.NodeKind.IfExpression:
+            return parent.condition === node || parent.trueExpression === node || parent.falseExpression === node;
+
+        case Ast.NodeKind.ItemAccessExpression:
+        case Ast.NodeKind.ParenthesizedExpression:
+            return parent.content === node;
+
+        default:
+            return false;
+    }
+}
+
+function resetState(state: IParserState, tokenIndex: number, idCounter: number): void {
+    const maybeCurrentToken: Language.Token | undefined = state.lexerSnapshot.tokens[tokenIndex];
+
+    state.tokenIndex = tokenIndex;
+    state.maybeCurrentToken = maybeCurrentToken;
+    state.maybeCurrentTokenKind = maybeCurrentToken !== undefined ? maybeCurrentToken.kind : undefined;
+    state.contextState = ParseContextUtils.newState();
+    state.contextState.idCounter = idCounter;
+    state.maybeCurrentContextNode = undefined;
+}
+
+// Combines the previous parse with the re-read node (if any) held by state.
+// The previous NodeIdMap.Collection is copied rather than mutated.
+function splicedParseOk<State extends IParserState = IParserState>(
+    state: State,
+    previousParseOk: ParseOk<State>,
+    tokenDiff: TokenDiff,
+    maybeSplice: Splice | undefined,
+): IncrementalParseOk<State> {
+    const previousContextState: ParseContext.State = previousParseOk.state.contextState;
+    const previousCollection: NodeIdMap.Collection = previousContextState.nodeIdMapCollection;
+    const astNodeById: NodeIdMap.AstNodeById = new Map(previousCollection.astNodeById);
+    const parentIdById: NodeIdMap.ParentIdById = new Map(previousCollection.parentIdById);
+    const childIdsById: NodeIdMap.ChildIdsById = new Map(previousCollection.childIdsById);
+    const removedNodeIds: number[] = [];
+    const changedNodeIds: number[] = [];
+    let leafNodeIds: number[] = previousContextState.leafNodeIds;
+
+    if (maybeSplice !== undefined) {
+        const splice: Splice = maybeSplice;
+        const spliceCollection: NodeIdMap.Collection = state.contextState.nodeIdMapCollection;
+
+        removedNodeIds.push(...subtreeIds(previousCollection, splice.previousNode.id));
+        for (const nodeId of removedNodeIds) {
+            astNodeById.delete(nodeId);
+            parentIdById.delete(nodeId);
+            childIdsById.delete(nodeId);
+        }
+
+        for (const [nodeId, node] of spliceCollection.astNodeById.entries()) {
+            astNodeById.set(nodeId, node);
+            changedNodeIds.push(nodeId);
+        }
+        for (const [nodeId, spliceParentId] of spliceCollection.parentIdById.entries()) {
+            parentIdById.set(nodeId, spliceParentId);
+        }
+        for (const [nodeId, childIds] of spliceCollection.childIdsById.entries()) {
+            childIdsById.set(nodeId, childIds);
+        }
+
+        const parentId: number = NodeIdMapUtils.expectParentAstNode(previousCollection, splice.previousNode.id).id;
+        parentIdById.set(splice.node.id, parentId);
+        childIdsById.set(
+            parentId,
+            NodeIdMapIterator.expectChildIds(childIdsById, parentId).map((childId: number) =>
+                childId === splice.previousNode.id ? splice.node.id : childId,
+            ),
+        );
+        changedNodeIds.push(...splice.spineIds);
+        changedNodeIds.splice(changedNodeIds.indexOf(splice.previousNode.id), 1);
+
+        const removedIds: ReadonlySet<number> = new Set(removedNodeIds);
+        const leafIndex: number = leafNodeIds.findIndex((nodeId: number) => removedIds.has(nodeId));
+        leafNodeIds = [
+            ...leafNodeIds.slice(0, leafIndex),
+            ...state.contextState.leafNodeIds,
+            ...leafNodeIds.slice(leafIndex).filter((nodeId: number) => !removedIds.has(nodeId)),
+        ];
+    }
+
+    const ast: Ast.TNode = rebuildNode(astNodeById, tokenDiff, maybeSplice, previousParseOk.ast);
+    const maybeRightMostLeafId: number | undefined = leafNodeIds[leafNodeIds.length - 1];
+    const contextState: ParseContext.State = {
+        root: previousContextState.root,
+        nodeIdMapCollection: {
+            astNodeById,
+            contextNodeById: new Map(),
+            parentIdById,
+            childIdsById,
+            maybeRightMostLeaf: maybeRightMostLeafId !== undefined ? astNodeById.get(maybeRightMostLeafId) : undefined,
+        },
+        idCounter: state.contextState.idCounter,
+        leafNodeIds: [...leafNodeIds],
+    };
+
+    const tokenIndex: number = state.lexerSnapshot.tokens.length;
+    state.tokenIndex = tokenIndex;
+    state.maybeCurrentToken = undefined;
+    state.maybeCurrentTokenKind = undefined;
+    state.contextState = contextState;
+    state.maybeCurrentContextNode = undefined;
+
+    return {
+        ast,
+        state,
+        removedNodeIds: removedNodeIds.sort((left: number, right: number) => left - right),
+        changedNodeIds: changedNodeIds.sort((left: number, right: number) => left - right),
+    };
+}
+
+function subtreeIds(nodeIdMapCollection: NodeIdMap.Collection, nodeId: number): ReadonlyArray<number> {
+    const nodeIds: number[] = [nodeId];
+    for (let index: number = 0; index < nodeIds.length; index += 1) {
+        const maybeChildIds: ReadonlyArray<number> | undefined = nodeIdMapCollection.childIdsById.get(nodeIds[index]);
+        if (maybeChildIds !== undefined) {
+            nodeIds.push(...maybeChildIds);
+        }
+    }
+
+    return nodeIds;
+}
+
+// Returns the node as it should be in the current document, which is the same object if nothing about it changed.
+// Nodes before the edit are unchanged, the splice and its ancestors are extended by the token delta,
+// and nodes after the edit are shifted by the token delta.
+function rebuildNode(
+    astNodeById: NodeIdMap.AstNodeById,
+    tokenDiff: TokenDiff,
+    maybeSplice: Splice | undefined,
+    node: Ast.TNode,
+): Ast.TNode {
+    const isOnSpine: boolean = maybeSplice !== undefined && maybeSplice.spineIds.has(node.id);
+    if (maybeSplice !== undefined && node.id === maybeSplice.previousNode.id) {
+        astNodeById.set(maybeSplice.node.id, maybeSplice.node);
+        return maybeSplice.node;
+    } else if (!isOnSpine && isBeforeEdit(tokenDiff, node.tokenRange)) {
+        return node;
+    }
+
+    let isChildChanged: boolean = false;
+    const rebuildValue: (value: unknown) => unknown = (value: unknown) => {
+        if (!isAstNode(value)) {
+            return value;
+        }
+        const rebuilt: Ast.TNode = rebuildNode(astNodeById, tokenDiff, maybeSplice, value);
+        isChildChanged = isChildChanged || rebuilt !== value;
+        return rebuilt;
+    };
+
+    const rebuiltNode: { [key: string]: unknown } = {};
+    const entries: ReadonlyArray<[string, unknown]> = Object.entries(node);
+    for (const [key, value] of entries) {
+        rebuiltNode[key] = Array.isArray(value) ? value.map(rebuildValue) : rebuildValue(value);
+    }
+
+    const tokenRange: Language.TokenRange = shiftedTokenRange(tokenDiff, node.tokenRange, isOnSpine);
+    if (!isChildChanged && isSameTokenRange(tokenRange, node.tokenRange)) {
+        return node;
+    }
+
+    rebuiltNode.tokenRange = tokenRange;
+    const result: Ast.TNode = (rebuiltNode as unknown) as Ast.TNode;
+    astNodeById.set(node.id, result);
+    return result;
+}
+
+// An empty range is positioned at its tokenIndexStart, the token which follows it,
+// so it's only before the edit if that token is.
+function isBeforeEdit(tokenDiff: TokenDiff, tokenRange: Language.TokenRange): boolean {
+    return tokenRange.tokenIndexEnd < tokenRange.tokenIndexStart
+        ? tokenRange.tokenIndexStart < tokenDiff.prefixLength
+        : tokenRange.tokenIndexEnd < tokenDiff.prefixLength;
+}
+
+function isAstNode(value: unknown): value is Ast.TNode {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+    const maybeNode: Partial<Ast.INode> = value as Partial<Ast.INode>;
+
+    return typeof maybeNode.id === "number" && typeof maybeNode.kind === "string" && maybeNode.tokenRange !== undefined;
+}
+
+function shiftedTokenRange(
+    tokenDiff: TokenDiff,
+    tokenRange: Language.TokenRange,
+    isOnSpine: boolean,
+): Language.TokenRange {
+    let tokenIndexStart: number;
+    let tokenIndexEnd: number;
+    if (isOnSpine) {
+        tokenIndexStart = tokenRange.tokenIndexStart;
+        tokenIndexEnd = tokenRange.tokenIndexEnd + tokenDiff.delta;
+    } else {
+        tokenIndexStart = shiftedTokenIndex(tokenDiff, tokenRange.tokenIndexStart);
+        // Keeps empty ranges empty.
+        tokenIndexEnd =
+            tokenRange.tokenIndexEnd < tokenRange.tokenIndexStart
+                ? tokenIndexStart - 1
+                : shiftedTokenIndex(tokenDiff, tokenRange.tokenIndexEnd);
+    }
+
+    return {
+        tokenIndexStart,
+        tokenIndexEnd,
+        positionStart: tokenDiff.tokens[tokenIndexStart].positionStart,
+        positionEnd: tokenDiff.tokens[tokenIndexEnd].positionEnd,
+    };
+}
+
+function shiftedTokenIndex(tokenDiff: TokenDiff, tokenIndex: number): number {
+    return tokenIndex < tokenDiff.previousSuffixStart ? tokenIndex : tokenIndex + tokenDiff.delta;
+}
+
+function isSameTokenRange(left: Language.TokenRange, right: Language.TokenRange): boolean {
+    return (
+        left.tokenIndexStart === right.tokenIndexStart &&
+        left.tokenIndexEnd === right.tokenIndexEnd &&
+        isSamePosition(left.positionStart, right.positionStart) &&
+        isSamePosition(left.positionEnd, right.positionEnd)
+    );
+}
+
+function isSamePosition(left: Language.TokenPosition, right: Language.TokenPosition): boolean {
+    return (
+        left.codeUnit === right.codeUnit &&
+        left.lineNumber === right.lineNumber &&
+        left.lineCodeUnit === right.lineCodeUnit
+    );
+}
@@ -3,7 +3,7 @@
 
 import { NodeIdMap, ParseContext, ParseContextUtils, ParseError } from "..";
 import { Language } from "../..";
-import { CommonError } from "../../common";
+import { CommonError, TypeScriptUtils } from "../../common";
 import { Ast } from "../../language";
 import { LexerSnapshot } from "../../lexer";
 import { getLocalizationTemplates } from "../../localization";
@@ -15,6 +15,7 @@ export interface FastStateBackup {
     readonly tokenIndex: number;
     readonly contextStateIdCounter: number;
     readonly maybeContextNodeId: number | undefined;
+    readonly maybeRightMostLeaf: Ast.TNode | undefined;
 }
 
 // ---------------------------
@@ -60,6 +61,7 @@ export function fastStateBackup(state: IParserState): FastStateBackup {
         tokenIndex: state.tokenIndex,
         contextStateIdCounter: state.contextState.idCounter,
         maybeContextNodeId: state.maybeCurrentContextNode !== undefined ? state.maybeCurrentContextNode.id : undefined,
+        maybeRightMostLeaf: state.contextState.nodeIdMapCollection.maybeRightMostLeaf,
     };
 }
 
@@ -87,15 +89,19 @@ export function applyFastStateBackup(state: IParserState, backup: FastStateBacku
         }
     }
 
-    for (const nodeId of newAstNodeIds.sort().reverse()) {
+    // Children always have a larger id than their parent, so delete in descending (numeric) order.
+    for (const nodeId of newAstNodeIds.sort(descendingNumberComparer)) {
         const maybeParent: number | undefined = nodeIdMapCollection.parentIdById.get(nodeId);
         const parentWillBeDeleted: boolean = maybeParent !== undefined && maybeParent >= backupIdCounter;
         ParseContextUtils.deleteAst(state.contextState, nodeId, parentWillBeDeleted);
     }
-    for (const nodeId of newContextNodeIds.sort().reverse()) {
+    for (const nodeId of newContextNodeIds.sort(descendingNumberComparer)) {
         ParseContextUtils.deleteContext(state.contextState, nodeId);
     }
 
+    const unsafeNodeIdMapCollection: TypeScriptUtils.StripReadonly<NodeIdMap.Collection> = nodeIdMapCollection;
+    unsafeNodeIdMapCollection.maybeRightMostLeaf = backup.maybeRightMostLeaf;
+
     if (backup.maybeContextNodeId) {
         state.maybeCurrentContextNode = NodeIdMapUtils.expectContextNode(
             state.contextState.nodeIdMapCollection.contextNodeById,
@@ -451,8 +457,12 @@ export function maybeTokenWithColumnNumber(
     };
 }
 
-interface ContextNodeMetadata {
+export interface ContextNodeMetadata {
     readonly id: number;
     readonly maybeAttributeIndex: number | undefined;
     readonly tokenRange: Language.TokenRange;
 }
+
+function descendingNumberComparer(left: number, right: number): number {
+    return right - left;
+}
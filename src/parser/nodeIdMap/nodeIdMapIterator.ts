@@ -177,6 +177,25 @@ export function fieldSpecificationListCsvXorNodes(
     return arrayWrapperCsvXorNodes(nodeIdMapCollection, maybeArrayWrapper);
 }
 
+export function invokeExpressionArgs(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    invokeExpr: TXorNode,
+): ReadonlyArray<TXorNode> {
+    const maybeErr: CommonError.InvariantError | undefined = NodeIdMapUtils.testAstNodeKind(
+        invokeExpr,
+        Ast.NodeKind.InvokeExpression,
+    );
+    if (maybeErr !== undefined) {
+        throw maybeErr;
+    }
+
+    const maybeArrayWrapper: TXorNode | undefined = NodeIdMapUtils.maybeArrayWrapperContent(
+        nodeIdMapCollection,
+        invokeExpr,
+    );
+    return maybeArrayWrapper === undefined ? [] : arrayWrapperCsvXorNodes(nodeIdMapCollection, maybeArrayWrapper);
+}
+
 export function listItems(nodeIdMapCollection: NodeIdMap.Collection, list: TXorNode): ReadonlyArray<TXorNode> {
     const maybeErr: CommonError.InvariantError | undefined = NodeIdMapUtils.testAstAnyNodeKind(list, [
         Ast.NodeKind.ListExpression,
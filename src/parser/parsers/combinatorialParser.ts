@@ -2,9 +2,7 @@
 // Licensed under the MIT license.
 
 import { Naive } from ".";
-import { NodeIdMap, ParseContextUtils } from "..";
 import { Language } from "../..";
-import { ArrayUtils, Assert, CommonError, TypeScriptUtils } from "../../common";
 import { Ast, AstUtils } from "../../language";
 import { BracketDisambiguation, IParser } from "../IParser";
 import { IParserState, IParserStateUtils } from "../IParserState";
@@ -66,11 +64,10 @@ function readBinOpExpression<S extends IParserState = IParserState>(
     IParserStateUtils.startContext(state, nodeKind);
     const placeholderContextId: number = state.maybeCurrentContextNode!.id;
 
-    // operators/operatorConstants are of length N
+    // operatorConstants are of length N
     // expressions are of length N + 1
-    let operators: Ast.TBinOpExpressionOperator[] = [];
-    let operatorConstants: Ast.IConstant<Ast.TBinOpExpressionOperator>[] = [];
-    let expressions: (Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType)[] = [
+    const operatorConstants: Ast.IConstant<Ast.TBinOpExpressionOperator>[] = [];
+    const expressions: (Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType)[] = [
         parser.readUnaryExpression(state, parser),
     ];
 
@@ -79,7 +76,6 @@ function readBinOpExpression<S extends IParserState = IParserState>(
     );
     while (maybeOperator !== undefined) {
         const operator: Ast.TBinOpExpressionOperator = maybeOperator;
-        operators.push(operator);
         operatorConstants.push(
             Naive.readTokenKindAsConstant<S, Ast.TBinOpExpressionOperator>(
                 state,
@@ -107,137 +103,7 @@ function readBinOpExpression<S extends IParserState = IParserState>(
         return expressions[0];
     }
 
-    // Build up the Ast by using the lowest precedence operator and the two adjacent expressions,
-    // which might be previously built TBinOpExpression nodes.
-    const nodeIdMapCollection: NodeIdMap.Collection = state.contextState.nodeIdMapCollection;
-    const newNodeThreshold: number = state.contextState.idCounter;
-    let placeholderContextChildren: ReadonlyArray<number> = nodeIdMapCollection.childIdsById.get(placeholderContextId)!;
-    while (operators.length) {
-        let minPrecedenceIndex: number = -1;
-        let minPrecedence: number = Number.MAX_SAFE_INTEGER;
-
-        for (let index: number = 0; index < operators.length; index += 1) {
-            const currentPrecedence: number = AstUtils.binOpExpressionOperatorPrecedence(operators[index]);
-            if (minPrecedence > currentPrecedence) {
-                minPrecedence = currentPrecedence;
-                minPrecedenceIndex = index;
-            }
-        }
-
-        const newBinOpExpressionId: number = ParseContextUtils.nextId(state.contextState);
-        const left: TypeScriptUtils.StripReadonly<
-            Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType
-        > = expressions[minPrecedenceIndex];
-        const operator: Ast.TBinOpExpressionOperator = operators[minPrecedenceIndex];
-        const operatorConstant: TypeScriptUtils.StripReadonly<Ast.IConstant<Ast.TBinOpExpressionOperator>> =
-            operatorConstants[minPrecedenceIndex];
-        const right: TypeScriptUtils.StripReadonly<
-            Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType
-        > = expressions[minPrecedenceIndex + 1];
-
-        left.maybeAttributeIndex = 0;
-        operatorConstant.maybeAttributeIndex = 1;
-        right.maybeAttributeIndex = 2;
-
-        const leftTokenRange: Language.TokenRange = left.tokenRange;
-        const rightTokenRange: Language.TokenRange = right.tokenRange;
-        const newBinOpExpression: Ast.TBinOpExpression = {
-            kind: binOpExpressionNodeKindFrom(operator),
-            id: newBinOpExpressionId,
-            // maybeAttributeIndex is fixed after all TBinOpExpressions have been created.
-            maybeAttributeIndex: 0,
-            tokenRange: {
-                tokenIndexStart: leftTokenRange.tokenIndexStart,
-                tokenIndexEnd: rightTokenRange.tokenIndexEnd,
-                positionStart: leftTokenRange.positionStart,
-                positionEnd: rightTokenRange.positionEnd,
-            },
-            isLeaf: false,
-            left: left as Ast.TBinOpExpression,
-            operator,
-            operatorConstant,
-            right,
-        } as Ast.TBinOpExpression;
-
-        operators = ArrayUtils.removeAtIndex(operators, minPrecedenceIndex);
-        operatorConstants = ArrayUtils.removeAtIndex(operatorConstants, minPrecedenceIndex);
-        expressions = expressions = [
-            ...expressions.slice(0, minPrecedenceIndex),
-            newBinOpExpression,
-            ...expressions.slice(minPrecedenceIndex + 2),
-        ];
-
-        // Correct the parentIds for the nodes combined into newBinOpExpression.
-        nodeIdMapCollection.parentIdById.set(left.id, newBinOpExpressionId);
-        nodeIdMapCollection.parentIdById.set(operatorConstant.id, newBinOpExpressionId);
-        nodeIdMapCollection.parentIdById.set(right.id, newBinOpExpressionId);
-
-        // Assign the nodeIdMap values for newBinOpExpression.
-        nodeIdMapCollection.childIdsById.set(newBinOpExpressionId, [left.id, operatorConstant.id, right.id]);
-        nodeIdMapCollection.astNodeById.set(newBinOpExpressionId, newBinOpExpression);
-
-        // All TUnaryExpression and operatorConstants start by being placed under the context node.
-        // They need to be removed for deleteContext(placeholderContextId) to succeed.
-        placeholderContextChildren = ArrayUtils.removeFirstInstance(placeholderContextChildren, operatorConstant.id);
-        if (left.id <= newNodeThreshold) {
-            placeholderContextChildren = ArrayUtils.removeFirstInstance(placeholderContextChildren, left.id);
-        }
-        if (right.id <= newNodeThreshold) {
-            placeholderContextChildren = ArrayUtils.removeFirstInstance(placeholderContextChildren, right.id);
-        }
-        nodeIdMapCollection.childIdsById.set(placeholderContextId, placeholderContextChildren);
-    }
-
-    const lastExpression: Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType = expressions[0];
-    if (!AstUtils.isTBinOpExpression(lastExpression)) {
-        const details: {} = {
-            lastExpressionId: lastExpression.id,
-            lastExpressionKind: lastExpression.kind,
-        };
-        throw new CommonError.InvariantError(`lastExpression should be a TBinOpExpression`, details);
-    }
-    nodeIdMapCollection.childIdsById.set(placeholderContextId, [lastExpression.id]);
-    nodeIdMapCollection.parentIdById.set(lastExpression.id, placeholderContextId);
-
-    IParserStateUtils.deleteContext(state, placeholderContextId);
-    return lastExpression;
-}
-
-function binOpExpressionNodeKindFrom(operator: Ast.TBinOpExpressionOperator): Ast.TBinOpExpressionNodeKind {
-    switch (operator) {
-        case Ast.KeywordConstantKind.Meta:
-            return Ast.NodeKind.MetadataExpression;
-
-        case Ast.ArithmeticOperatorKind.Multiplication:
-        case Ast.ArithmeticOperatorKind.Division:
-        case Ast.ArithmeticOperatorKind.Addition:
-        case Ast.ArithmeticOperatorKind.Subtraction:
-        case Ast.ArithmeticOperatorKind.And:
-            return Ast.NodeKind.ArithmeticExpression;
-
-        case Ast.RelationalOperatorKind.GreaterThan:
-        case Ast.RelationalOperatorKind.GreaterThanEqualTo:
-        case Ast.RelationalOperatorKind.LessThan:
-        case Ast.RelationalOperatorKind.LessThanEqualTo:
-            return Ast.NodeKind.RelationalExpression;
-
-        case Ast.EqualityOperatorKind.EqualTo:
-        case Ast.EqualityOperatorKind.NotEqualTo:
-            return Ast.NodeKind.EqualityExpression;
-
-        case Ast.KeywordConstantKind.As:
-            return Ast.NodeKind.AsExpression;
-
-        case Ast.KeywordConstantKind.Is:
-            return Ast.NodeKind.IsExpression;
-
-        case Ast.LogicalOperatorKind.And:
-        case Ast.LogicalOperatorKind.Or:
-            return Ast.NodeKind.LogicalExpression;
-
-        default:
-            throw Assert.isNever(operator);
-    }
+    return Naive.combineBinOpExpressions(state, placeholderContextId, operatorConstants, expressions);
 }
 
 function readUnaryExpression(state: IParserState, parser: IParser<IParserState>): Ast.TUnaryExpression {
@@ -3,7 +3,7 @@
 
 import { NodeIdMap, ParseContext, ParseContextUtils, ParseError } from "..";
 import { Language } from "../..";
-import { Assert, CommonError, Result, ResultUtils, StringUtils, TypeScriptUtils } from "../../common";
+import { ArrayUtils, Assert, CommonError, Result, ResultUtils, StringUtils, TypeScriptUtils } from "../../common";
 import { Ast, AstUtils } from "../../language";
 import { LexerSnapshot } from "../../lexer";
 import { BracketDisambiguation, IParser, ParenthesisDisambiguation } from "../IParser";
@@ -149,6 +149,7 @@ export function readKeyword<S extends IParserState = IParserState>(
 
 export function readDocument<S extends IParserState = IParserState>(state: S, parser: IParser<S>): Ast.TDocument {
     let document: Ast.TDocument;
+    const idCounter: number = state.contextState.idCounter;
 
     // Try parsing as an Expression document first.
     // If Expression document fails (including UnusedTokensRemainError) then try parsing a SectionDocument.
@@ -169,6 +170,7 @@ export function readDocument<S extends IParserState = IParserState>(state: S, pa
         // Reset the parser's state.
         state.tokenIndex = 0;
         state.contextState = ParseContextUtils.newState();
+        state.contextState.idCounter = idCounter;
         state.maybeCurrentContextNode = undefined;
 
         if (state.lexerSnapshot.tokens.length) {
@@ -177,7 +179,7 @@ export function readDocument<S extends IParserState = IParserState>(state: S, pa
         }
 
         try {
-            document = readSectionDocument(state, parser);
+            document = parser.readSectionDocument(state, parser);
             const maybeErr: Error | undefined =
                 IParserStateUtils.testNoMoreTokens(state) || IParserStateUtils.testNoOpenContext(state);
             if (maybeErr) {
@@ -354,7 +356,7 @@ export function readLogicalExpression<S extends IParserState = IParserState>(
     state: S,
     parser: IParser<S>,
 ): Ast.TLogicalExpression {
-    return recursiveReadBinOpExpression<
+    return readBinOpExpression<
         S,
         Ast.NodeKind.LogicalExpression,
         Ast.TLogicalExpression,
@@ -377,7 +379,7 @@ export function readIsExpression<S extends IParserState = IParserState>(
     state: S,
     parser: IParser<S>,
 ): Ast.TIsExpression {
-    return recursiveReadBinOpExpression<
+    return readBinOpExpression<
         S,
         Ast.NodeKind.IsExpression,
         Ast.TAsExpression,
@@ -418,7 +420,7 @@ export function readAsExpression<S extends IParserState = IParserState>(
     state: S,
     parser: IParser<S>,
 ): Ast.TAsExpression {
-    return recursiveReadBinOpExpression<
+    return readBinOpExpression<
         S,
         Ast.NodeKind.AsExpression,
         Ast.TEqualityExpression,
@@ -442,7 +444,7 @@ export function readEqualityExpression<S extends IParserState = IParserState>(
     state: S,
     parser: IParser<S>,
 ): Ast.TEqualityExpression {
-    return recursiveReadBinOpExpression<
+    return readBinOpExpression<
         S,
         Ast.NodeKind.EqualityExpression,
         Ast.TEqualityExpression,
@@ -465,7 +467,7 @@ export function readRelationalExpression<S extends IParserState = IParserState>(
     state: S,
     parser: IParser<S>,
 ): Ast.TRelationalExpression {
-    return recursiveReadBinOpExpression<
+    return readBinOpExpression<
         S,
         Ast.NodeKind.RelationalExpression,
         Ast.TArithmeticExpression,
@@ -488,7 +490,7 @@ export function readArithmeticExpression<S extends IParserState = IParserState>(
     state: S,
     parser: IParser<S>,
 ): Ast.TArithmeticExpression {
-    return recursiveReadBinOpExpression<
+    return readBinOpExpression<
         S,
         Ast.NodeKind.ArithmeticExpression,
         Ast.TMetadataExpression,
@@ -2038,12 +2040,9 @@ export function readIdentifierPairedExpression<S extends IParserState = IParserS
 // ---------- Helper functions (generic read functions) ----------
 // ---------------------------------------------------------------
 
-// Given the string `1 + 2 + 3` the function will parse the `1 +`,
-// then pass the remainder of the string `2 + 3` into recursiveReadBinOpExpressionHelper.
-// The helper function is nearly a copy except it replaces Left and leftReader with Right and rightReader.
-//
-// The reason the code is duplicated across two functions is because I can't think of a cleaner way to do it.
-function recursiveReadBinOpExpression<
+// Given the string `1 + 2 * 3` the function will read the expressions `1`, `2`, and `3` along with the operators
+// `+` and `*` into flat lists, which are then shaped into an Ast by combineBinOpExpressions.
+function readBinOpExpression<
     S extends IParserState,
     Kind extends Ast.TBinOpExpressionNodeKind,
     Left,
@@ -2057,84 +2056,184 @@ function recursiveReadBinOpExpression<
     rightReader: () => Right,
 ): Left | Ast.IBinOpExpression<Kind, Left, Operator, Right> {
     IParserStateUtils.startContext(state, nodeKind);
+    const placeholderContextId: number = state.maybeCurrentContextNode!.id;
     const left: Left = leftReader();
 
     // If no operator, return Left
-    const maybeOperator: Operator | undefined = maybeOperatorFrom(state.maybeCurrentTokenKind);
+    let maybeOperator: Operator | undefined = maybeOperatorFrom(state.maybeCurrentTokenKind);
     if (maybeOperator === undefined) {
-        IParserStateUtils.deleteContext(state, undefined);
+        IParserStateUtils.deleteContext(state, placeholderContextId);
         return left;
     }
-    const operatorConstant: Ast.TConstant & Ast.IConstant<Operator> = readTokenKindAsConstant(
+
+    const operatorConstants: Ast.IConstant<Operator>[] = [];
+    const expressions: (Left | Right)[] = [left];
+    while (maybeOperator !== undefined) {
+        operatorConstants.push(readTokenKindAsConstant(state, state.maybeCurrentTokenKind!, maybeOperator));
+        expressions.push(rightReader());
+        maybeOperator = maybeOperatorFrom(state.maybeCurrentTokenKind);
+    }
+
+    return (combineBinOpExpressions(
         state,
-        state.maybeCurrentTokenKind!,
-        maybeOperator,
+        placeholderContextId,
+        operatorConstants,
+        (expressions as unknown) as ReadonlyArray<
+            Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType
+        >,
+    ) as unknown) as Ast.IBinOpExpression<Kind, Left, Operator, Right>;
+}
+
+// Shapes the expressions and operators read for a TBinOpExpression into an Ast,
+// where operatorConstants are of length N and expressions are of length N + 1.
+// All of them start by being placed under the placeholder context, which is deleted once they're combined.
+//
+// Build up the Ast by using the highest precedence operator and the two adjacent expressions,
+// which might be previously built TBinOpExpression nodes.
+// The leftmost operator is used on a tie, making operators of the same precedence left associative.
+export function combineBinOpExpressions<S extends IParserState = IParserState>(
+    state: S,
+    placeholderContextId: number,
+    operatorConstants: ReadonlyArray<Ast.IConstant<Ast.TBinOpExpressionOperator>>,
+    expressions: ReadonlyArray<Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType>,
+): Ast.TBinOpExpression {
+    let operators: ReadonlyArray<Ast.TBinOpExpressionOperator> = operatorConstants.map(
+        (operatorConstant: Ast.IConstant<Ast.TBinOpExpressionOperator>) => operatorConstant.constantKind,
     );
-    const right: Right | Ast.IBinOpExpression<Kind, Right, Operator, Right> = recursiveReadBinOpExpressionHelper<
-        S,
-        Kind,
-        Operator,
-        Right
-    >(state, nodeKind, maybeOperatorFrom, rightReader);
+    let remainingOperatorConstants: ReadonlyArray<Ast.IConstant<Ast.TBinOpExpressionOperator>> = operatorConstants;
+    let remainingExpressions: ReadonlyArray<
+        Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType
+    > = expressions;
+    const nodeIdMapCollection: NodeIdMap.Collection = state.contextState.nodeIdMapCollection;
+    const newNodeThreshold: number = state.contextState.idCounter;
+    let placeholderContextChildren: ReadonlyArray<number> = nodeIdMapCollection.childIdsById.get(placeholderContextId)!;
+    while (operators.length) {
+        let maxPrecedenceIndex: number = -1;
+        let maxPrecedence: number = Number.MIN_SAFE_INTEGER;
+
+        for (let index: number = 0; index < operators.length; index += 1) {
+            const currentPrecedence: number = AstUtils.binOpExpressionOperatorPrecedence(operators[index]);
+            if (maxPrecedence < currentPrecedence) {
+                maxPrecedence = currentPrecedence;
+                maxPrecedenceIndex = index;
+            }
+        }
 
-    const astNode: Ast.IBinOpExpression<Kind, Left, Operator, Right> = {
-        ...IParserStateUtils.expectContextNodeMetadata(state),
-        kind: nodeKind,
-        isLeaf: false,
-        left,
-        operatorConstant,
-        right,
-    };
-    IParserStateUtils.endContext(state, (astNode as unknown) as Ast.TNode);
+        const newBinOpExpressionId: number = ParseContextUtils.nextId(state.contextState);
+        const left: TypeScriptUtils.StripReadonly<
+            Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType
+        > = remainingExpressions[maxPrecedenceIndex];
+        const operator: Ast.TBinOpExpressionOperator = operators[maxPrecedenceIndex];
+        const operatorConstant: TypeScriptUtils.StripReadonly<Ast.IConstant<Ast.TBinOpExpressionOperator>> =
+            remainingOperatorConstants[maxPrecedenceIndex];
+        const right: TypeScriptUtils.StripReadonly<
+            Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType
+        > = remainingExpressions[maxPrecedenceIndex + 1];
+
+        left.maybeAttributeIndex = 0;
+        operatorConstant.maybeAttributeIndex = 1;
+        right.maybeAttributeIndex = 2;
+
+        const leftTokenRange: Language.TokenRange = left.tokenRange;
+        const rightTokenRange: Language.TokenRange = right.tokenRange;
+        const newBinOpExpression: Ast.TBinOpExpression = {
+            kind: binOpExpressionNodeKindFrom(operator),
+            id: newBinOpExpressionId,
+            // maybeAttributeIndex is fixed after all TBinOpExpressions have been created.
+            maybeAttributeIndex: 0,
+            tokenRange: {
+                tokenIndexStart: leftTokenRange.tokenIndexStart,
+                tokenIndexEnd: rightTokenRange.tokenIndexEnd,
+                positionStart: leftTokenRange.positionStart,
+                positionEnd: rightTokenRange.positionEnd,
+            },
+            isLeaf: false,
+            left: left as Ast.TBinOpExpression,
+            operator,
+            operatorConstant,
+            right,
+        } as Ast.TBinOpExpression;
+
+        operators = ArrayUtils.removeAtIndex(operators, maxPrecedenceIndex);
+        remainingOperatorConstants = ArrayUtils.removeAtIndex(remainingOperatorConstants, maxPrecedenceIndex);
+        remainingExpressions = [
+            ...remainingExpressions.slice(0, maxPrecedenceIndex),
+            newBinOpExpression,
+            ...remainingExpressions.slice(maxPrecedenceIndex + 2),
+        ];
 
-    return astNode;
-}
+        // Correct the parentIds for the nodes combined into newBinOpExpression.
+        nodeIdMapCollection.parentIdById.set(left.id, newBinOpExpressionId);
+        nodeIdMapCollection.parentIdById.set(operatorConstant.id, newBinOpExpressionId);
+        nodeIdMapCollection.parentIdById.set(right.id, newBinOpExpressionId);
 
-// Given the string `1 + 2 + 3` the function will recursively parse 2 Ast nodes,
-// where their TokenRange's are represented by brackets:
-// 1 + [2 + [3]]
-function recursiveReadBinOpExpressionHelper<
-    S extends IParserState,
-    Kind extends Ast.TBinOpExpressionNodeKind,
-    OperatorKind extends Ast.TBinOpExpressionOperator,
-    Right
->(
-    state: S,
-    nodeKind: Kind,
-    maybeOperatorFrom: (tokenKind: Language.TokenKind | undefined) => OperatorKind | undefined,
-    rightReader: () => Right,
-): Right | Ast.IBinOpExpression<Kind, Right, OperatorKind, Right> {
-    IParserStateUtils.startContext(state, nodeKind);
-    const rightAsLeft: Right = rightReader();
+        // Assign the nodeIdMap values for newBinOpExpression.
+        nodeIdMapCollection.childIdsById.set(newBinOpExpressionId, [left.id, operatorConstant.id, right.id]);
+        nodeIdMapCollection.astNodeById.set(newBinOpExpressionId, newBinOpExpression);
 
-    const maybeOperator: OperatorKind | undefined = maybeOperatorFrom(state.maybeCurrentTokenKind);
-    if (maybeOperator === undefined) {
-        IParserStateUtils.deleteContext(state, undefined);
-        return rightAsLeft;
+        // All TUnaryExpression and operatorConstants start by being placed under the context node.
+        // They need to be removed for deleteContext(placeholderContextId) to succeed.
+        placeholderContextChildren = ArrayUtils.removeFirstInstance(placeholderContextChildren, operatorConstant.id);
+        if (left.id <= newNodeThreshold) {
+            placeholderContextChildren = ArrayUtils.removeFirstInstance(placeholderContextChildren, left.id);
+        }
+        if (right.id <= newNodeThreshold) {
+            placeholderContextChildren = ArrayUtils.removeFirstInstance(placeholderContextChildren, right.id);
+        }
+        nodeIdMapCollection.childIdsById.set(placeholderContextId, placeholderContextChildren);
     }
-    const operatorConstant: Ast.TConstant & Ast.IConstant<OperatorKind> = readTokenKindAsConstant(
-        state,
-        state.maybeCurrentTokenKind!,
-        maybeOperator,
-    );
-    const right: Right | Ast.IBinOpExpression<Kind, Right, OperatorKind, Right> = recursiveReadBinOpExpressionHelper<
-        S,
-        Kind,
-        OperatorKind,
-        Right
-    >(state, nodeKind, maybeOperatorFrom, rightReader);
 
-    const astNode: Ast.IBinOpExpression<Kind, Right, OperatorKind, Right> = {
-        ...IParserStateUtils.expectContextNodeMetadata(state),
-        kind: nodeKind,
-        isLeaf: false,
-        left: rightAsLeft,
-        operatorConstant,
-        right,
-    };
-    IParserStateUtils.endContext(state, (astNode as unknown) as Ast.TNode);
+    const lastExpression: Ast.TBinOpExpression | Ast.TUnaryExpression | Ast.TNullablePrimitiveType =
+        remainingExpressions[0];
+    if (!AstUtils.isTBinOpExpression(lastExpression)) {
+        const details: {} = {
+            lastExpressionId: lastExpression.id,
+            lastExpressionKind: lastExpression.kind,
+        };
+        throw new CommonError.InvariantError(`lastExpression should be a TBinOpExpression`, details);
+    }
+    nodeIdMapCollection.childIdsById.set(placeholderContextId, [lastExpression.id]);
+    nodeIdMapCollection.parentIdById.set(lastExpression.id, placeholderContextId);
 
-    return astNode;
+    IParserStateUtils.deleteContext(state, placeholderContextId);
+    return lastExpression;
+}
+
+function binOpExpressionNodeKindFrom(operator: Ast.TBinOpExpressionOperator): Ast.TBinOpExpressionNodeKind {
+    switch (operator) {
+        case Ast.KeywordConstantKind.Meta:
+            return Ast.NodeKind.MetadataExpression;
+
+        case Ast.ArithmeticOperatorKind.Multiplication:
+        case Ast.ArithmeticOperatorKind.Division:
+        case Ast.ArithmeticOperatorKind.Addition:
+        case Ast.ArithmeticOperatorKind.Subtraction:
+        case Ast.ArithmeticOperatorKind.And:
+            return Ast.NodeKind.ArithmeticExpression;
+
+        case Ast.RelationalOperatorKind.GreaterThan:
+        case Ast.RelationalOperatorKind.GreaterThanEqualTo:
+        case Ast.RelationalOperatorKind.LessThan:
+        case Ast.RelationalOperatorKind.LessThanEqualTo:
+            return Ast.NodeKind.RelationalExpression;
+
+        case Ast.EqualityOperatorKind.EqualTo:
+        case Ast.EqualityOperatorKind.NotEqualTo:
+            return Ast.NodeKind.EqualityExpression;
+
+        case Ast.KeywordConstantKind.As:
+            return Ast.NodeKind.AsExpression;
+
+        case Ast.KeywordConstantKind.Is:
+            return Ast.NodeKind.IsExpression;
+
+        case Ast.LogicalOperatorKind.And:
+        case Ast.LogicalOperatorKind.Or:
+            return Ast.NodeKind.LogicalExpression;
+
+        default:
+            throw Assert.isNever(operator);
+    }
 }
 
 function readCsvArray<S extends IParserState, T extends Ast.TCsvType>(
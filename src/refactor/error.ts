@@ -0,0 +1,31 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { CommonError } from "../common";
+import { LexError } from "../lexer";
+import { ILocalizationTemplates, Localization } from "../localization";
+import { IParserState, ParseError } from "../parser";
+
+export type TRenameError<S extends IParserState = IParserState> =
+    | CommonError.CommonError
+    | LexError.TLexError
+    | ParseError.TParseError<S>
+    | RenameError;
+
+export type TSimplifyError<S extends IParserState = IParserState> =
+    | CommonError.CommonError
+    | LexError.TLexError
+    | ParseError.TParseError<S>;
+
+export const enum RenameErrorKind {
+    EmptyName = "EmptyName",
+    FieldAccess = "FieldAccess",
+    NameConflict = "NameConflict",
+    NoIdentifier = "NoIdentifier",
+}
+
+export class RenameError extends Error {
+    constructor(templates: ILocalizationTemplates, readonly kind: RenameErrorKind, readonly newName: string) {
+        super(Localization.error_refactor_rename(templates, kind, newName));
+    }
+}
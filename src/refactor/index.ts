@@ -0,0 +1,9 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import * as RefactorError from "./error";
+
+export { RefactorError };
+export * from "./rename";
+export * from "./simplify";
+export * from "./textEdit";
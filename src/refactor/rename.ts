@@ -0,0 +1,278 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Assert, Result, ResultUtils, StringUtils } from "../common";
+import {
+    Definition,
+    Position,
+    Reference,
+    ScopeById,
+    ScopeItemByKey,
+    ScopeItemKind,
+    TriedDefinition,
+    TriedReferences,
+    TriedScopeForRoot,
+    tryDefinition,
+    tryReferences,
+    tryScopeItems,
+} from "../inspection";
+import { Ast } from "../language";
+import { getLocalizationTemplates, ILocalizationTemplates } from "../localization";
+import { AncestryUtils, IParserState, NodeIdMap, NodeIdMapUtils, TXorNode } from "../parser";
+import { CommonSettings, LexSettings, ParseSettings } from "../settings";
+import { LexParseOk, TriedLexParse, tryLexParse } from "../task";
+import { RenameError, RenameErrorKind, TRenameError } from "./error";
+import { TextEdit } from "./textEdit";
+
+export type TriedRename<S extends IParserState = IParserState> = Result<ReadonlyArray<TextEdit>, TRenameError<S>>;
+
+// Renames the let variable, parameter, record field key, or section member under the position
+// along with its references.
+//
+// The new name is quoted (`#"new name"`) wherever it isn't valid as is.
+// A RenameError is returned if the new name is empty, if it would either capture or shadow another binding,
+// or if there isn't a renamable identifier under the position.
+// References are found through scope, so a record field key is refused if a field access (eg. `record[key]`)
+// uses the same name as it can't be known which record the access is on.
+export function tryRename<S extends IParserState = IParserState>(
+    settings: LexSettings & ParseSettings<S>,
+    text: string,
+    position: Position,
+    newName: string,
+): TriedRename<S> {
+    const triedLexParse: TriedLexParse<S> = tryLexParse(settings, text);
+    if (ResultUtils.isErr(triedLexParse)) {
+        return triedLexParse;
+    }
+    const lexParseOk: LexParseOk<S> = triedLexParse.value;
+    const nodeIdMapCollection: NodeIdMap.Collection = lexParseOk.state.contextState.nodeIdMapCollection;
+    const leafNodeIds: ReadonlyArray<number> = lexParseOk.state.contextState.leafNodeIds;
+    const templates: ILocalizationTemplates = getLocalizationTemplates(settings.locale);
+    const scopeById: ScopeById = new Map();
+
+    const normalizedNewName: string = StringUtils.normalizeIdentifier(newName);
+    if (normalizedNewName === "") {
+        return ResultUtils.errFactory(new RenameError(templates, RenameErrorKind.EmptyName, newName));
+    }
+
+    const triedDefinition: TriedDefinition = tryDefinition(
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        position,
+        scopeById,
+    );
+    if (ResultUtils.isErr(triedDefinition)) {
+        return triedDefinition;
+    }
+    const maybeDefinition: Definition | undefined = triedDefinition.value;
+    // The `_` of an EachExpression is implicit and can't be renamed.
+    if (maybeDefinition === undefined || maybeDefinition.maybeIdentifier === undefined) {
+        return ResultUtils.errFactory(new RenameError(templates, RenameErrorKind.NoIdentifier, newName));
+    }
+    const definition: Definition = maybeDefinition;
+    const definitionIdentifier: Ast.Identifier | Ast.GeneralizedIdentifier = maybeDefinition.maybeIdentifier;
+    if (
+        definitionIdentifier.kind === Ast.NodeKind.GeneralizedIdentifier &&
+        isUsedByFieldAccess(nodeIdMapCollection, definitionIdentifier)
+    ) {
+        return ResultUtils.errFactory(new RenameError(templates, RenameErrorKind.FieldAccess, newName));
+    }
+
+    const triedReferences: TriedReferences = tryReferences(
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        position,
+        scopeById,
+    );
+    if (ResultUtils.isErr(triedReferences)) {
+        return triedReferences;
+    }
+    const references: ReadonlyArray<Reference> = triedReferences.value;
+
+    const state: RenameState = {
+        settings,
+        nodeIdMapCollection,
+        leafNodeIds,
+        definition,
+        definitionIdentifier,
+        references,
+        normalizedNewName,
+    };
+    const triedIsNameConflict: Result<boolean, TRenameError<S>> = ResultUtils.ensureResult(templates, () =>
+        isNameConflict(state),
+    );
+    if (ResultUtils.isErr(triedIsNameConflict)) {
+        return triedIsNameConflict;
+    } else if (triedIsNameConflict.value) {
+        return ResultUtils.errFactory(new RenameError(templates, RenameErrorKind.NameConflict, newName));
+    }
+
+    const textEdits: TextEdit[] = [];
+    for (const reference of references) {
+        const newText: string = identifierText(reference.identifier, normalizedNewName);
+        if (newText !== reference.identifier.literal) {
+            textEdits.push({
+                positionStart: reference.tokenRange.positionStart,
+                positionEnd: reference.tokenRange.positionEnd,
+                newText,
+            });
+        }
+    }
+
+    return ResultUtils.okFactory(textEdits);
+}
+
+interface RenameState {
+    readonly settings: CommonSettings;
+    readonly nodeIdMapCollection: NodeIdMap.Collection;
+    readonly leafNodeIds: ReadonlyArray<number>;
+    readonly definition: Definition;
+    readonly definitionIdentifier: Ast.Identifier | Ast.GeneralizedIdentifier;
+    readonly references: ReadonlyArray<Reference>;
+    readonly normalizedNewName: string;
+}
+
+function identifierText(identifier: Ast.Identifier | Ast.GeneralizedIdentifier, normalizedName: string): string {
+    const isValidUnquoted: boolean =
+        identifier.kind === Ast.NodeKind.GeneralizedIdentifier
+            ? StringUtils.isGeneralizedIdentifier(normalizedName)
+            : StringUtils.isIdentifier(normalizedName) && !StringUtils.isKeyword(normalizedName);
+
+    return isValidUnquoted ? normalizedName : `#"${normalizedName.replace(/"/g, `""`)}"`;
+}
+
+function isUsedByFieldAccess(nodeIdMapCollection: NodeIdMap.Collection, key: Ast.GeneralizedIdentifier): boolean {
+    const normalizedKey: string = StringUtils.normalizeIdentifier(key.literal);
+    for (const astNode of nodeIdMapCollection.astNodeById.values()) {
+        if (
+            astNode.kind === Ast.NodeKind.FieldSelector &&
+            StringUtils.normalizeIdentifier(astNode.content.literal) === normalizedKey
+        ) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+function isNameConflict(state: RenameState): boolean {
+    if (StringUtils.normalizeIdentifier(state.definitionIdentifier.literal) === state.normalizedNewName) {
+        return false;
+    }
+
+    // Would the definition shadow, or be a duplicate of, a binding that's visible to it?
+    const maybeVisibleFromNode: TXorNode | undefined = maybeDefinitionVisibleFromNode(state);
+    if (maybeVisibleFromNode !== undefined && isShadowingAt(state, maybeVisibleFromNode.node.id)) {
+        return true;
+    }
+
+    // Would a reference get captured by a binding between it and the definition?
+    for (const reference of state.references) {
+        if (reference.isDeclaration) {
+            continue;
+        }
+
+        const identifierExpression: TXorNode = NodeIdMapUtils.expectParentXorNode(
+            state.nodeIdMapCollection,
+            reference.identifier.id,
+            [Ast.NodeKind.IdentifierExpression],
+        );
+        if (isShadowingAt(state, identifierExpression.node.id)) {
+            return true;
+        }
+    }
+
+    // Would an existing use of the new name start referring to the definition?
+    for (const astNode of state.nodeIdMapCollection.astNodeById.values()) {
+        if (
+            astNode.kind === Ast.NodeKind.IdentifierExpression &&
+            StringUtils.normalizeIdentifier(astNode.identifier.literal) === state.normalizedNewName &&
+            isDefinitionVisibleAt(state, astNode.id)
+        ) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+// Returns a node which has the definition in its scope, along with every sibling and enclosing binding.
+function maybeDefinitionVisibleFromNode(state: RenameState): TXorNode | undefined {
+    const definition: Definition = state.definition;
+
+    switch (definition.kind) {
+        case ScopeItemKind.Each:
+            return undefined;
+
+        // The value of a paired expression.
+        case ScopeItemKind.KeyValuePair:
+        case ScopeItemKind.SectionMember:
+            return NodeIdMapUtils.maybeXorChildByAttributeIndex(
+                state.nodeIdMapCollection,
+                definition.nodeId,
+                2,
+                undefined,
+            );
+
+        // The body of the FunctionExpression.
+        case ScopeItemKind.Parameter: {
+            const maybeFnExpr: TXorNode | undefined = AncestryUtils.expectAncestry(
+                state.nodeIdMapCollection,
+                definition.nodeId,
+            ).find((xorNode: TXorNode) => xorNode.node.kind === Ast.NodeKind.FunctionExpression);
+
+            return maybeFnExpr !== undefined
+                ? NodeIdMapUtils.maybeXorChildByAttributeIndex(
+                      state.nodeIdMapCollection,
+                      maybeFnExpr.node.id,
+                      3,
+                      undefined,
+                  )
+                : undefined;
+        }
+
+        default:
+            throw Assert.isNever(definition.kind);
+    }
+}
+
+// True if something other than the definition is bound to the new name at the node.
+function isShadowingAt(state: RenameState, nodeId: number): boolean {
+    for (const [key, scopeItem] of expectScopeItemByKey(state, nodeId).entries()) {
+        if (
+            scopeItem.id !== state.definition.nodeId &&
+            StringUtils.normalizeIdentifier(key) === state.normalizedNewName
+        ) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+function isDefinitionVisibleAt(state: RenameState, nodeId: number): boolean {
+    for (const scopeItem of expectScopeItemByKey(state, nodeId).values()) {
+        if (scopeItem.id === state.definition.nodeId) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+function expectScopeItemByKey(state: RenameState, nodeId: number): ScopeItemByKey {
+    const triedScopeItems: TriedScopeForRoot = tryScopeItems(
+        state.settings,
+        state.nodeIdMapCollection,
+        state.leafNodeIds,
+        nodeId,
+        undefined,
+    );
+    if (ResultUtils.isErr(triedScopeItems)) {
+        throw triedScopeItems.error;
+    }
+
+    return triedScopeItems.value;
+}
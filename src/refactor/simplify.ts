@@ -0,0 +1,601 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Result, ResultUtils, StringUtils } from "../common";
+import { TriedEvaluate, tryEvaluate, Value } from "../evaluation";
+import { Reference, ScopeById, TriedReferences, tryIdentifierReferences } from "../inspection";
+import { Ast, AstUtils, TokenRange } from "../language";
+import { getLocalizationTemplates, ILocalizationTemplates } from "../localization";
+import { AncestryUtils, IParserState, NodeIdMap, NodeIdMapUtils, TXorNode } from "../parser";
+import { LexSettings, ParseSettings } from "../settings";
+import { LexParseOk, TriedLexParse, tryLexParse } from "../task";
+import { Type } from "../type";
+import { TSimplifyError } from "./error";
+import { applyTextEdits, TextEdit } from "./textEdit";
+
+export type TriedSimplify<S extends IParserState = IParserState> = Result<SimplifyOk<S>, TSimplifyError<S>>;
+
+export interface SimplifyOk<S extends IParserState = IParserState> {
+    readonly textEdits: ReadonlyArray<TextEdit>;
+    // The result of lexing and parsing the text once the edits are applied.
+    readonly lexParseOk: LexParseOk<S>;
+}
+
+// Simplifies the text by:
+//  * folding operators whose operands are constants, eg. `1 + 2` becomes `3` and `not true` becomes `false`,
+//  * replacing an IfExpression which has a constant condition with the branch that would be taken,
+//  * inlining let variables which are referenced exactly once,
+//  * removing parentheses which aren't needed for precedence.
+//
+// A variable isn't inlined into a function or each body, as it would then be evaluated on every invocation,
+// nor anywhere that one of the names it uses would refer to something else.
+// Each edit keeps the formatting and comments of the text which isn't simplified.
+export function trySimplify<S extends IParserState = IParserState>(
+    settings: LexSettings & ParseSettings<S>,
+    text: string,
+): TriedSimplify<S> {
+    const triedLexParse: TriedLexParse<S> = tryLexParse(settings, text);
+    if (ResultUtils.isErr(triedLexParse)) {
+        return triedLexParse;
+    }
+    const lexParseOk: LexParseOk<S> = triedLexParse.value;
+    const templates: ILocalizationTemplates = getLocalizationTemplates(settings.locale);
+    const state: SimplifyState<S> = {
+        settings,
+        text,
+        nodeIdMapCollection: lexParseOk.state.contextState.nodeIdMapCollection,
+        leafNodeIds: lexParseOk.state.contextState.leafNodeIds,
+        scopeById: new Map(),
+        inlinedValueById: new Map(),
+    };
+
+    const triedTextEdits: Result<ReadonlyArray<TextEdit>, TSimplifyError<S>> = ResultUtils.ensureResult(
+        templates,
+        () => simplify(state, lexParseOk.ast, LowestPrecedence).textEdits,
+    );
+    if (ResultUtils.isErr(triedTextEdits)) {
+        return triedTextEdits;
+    }
+    const textEdits: ReadonlyArray<TextEdit> = triedTextEdits.value;
+
+    const triedSimplifiedLexParse: TriedLexParse<S> = tryLexParse(settings, applyTextEdits(text, textEdits));
+    if (ResultUtils.isErr(triedSimplifiedLexParse)) {
+        return triedSimplifiedLexParse;
+    }
+
+    return ResultUtils.okFactory({
+        textEdits,
+        lexParseOk: triedSimplifiedLexParse.value,
+    });
+}
+
+// Any expression can be used where LowestPrecedence is needed, eg. a let variable's value.
+// Operators use AstUtils.binOpExpressionOperatorPrecedence, which are all below UnaryPrecedence.
+const LowestPrecedence: number = 0;
+const UnaryPrecedence: number = 120;
+// A literal is a primary expression, but it can't be the head of a RecursivePrimaryExpression, eg. `1{0}`.
+const LiteralPrecedence: number = 130;
+const PrimaryPrecedence: number = 140;
+
+interface SimplifyState<S extends IParserState> {
+    readonly settings: LexSettings & ParseSettings<S>;
+    readonly text: string;
+    readonly nodeIdMapCollection: NodeIdMap.Collection;
+    readonly leafNodeIds: ReadonlyArray<number>;
+    readonly scopeById: ScopeById;
+    // The values of let variables which are being inlined, keyed by the id of the IdentifierExpression they replace.
+    readonly inlinedValueById: Map<number, Ast.TExpression>;
+}
+
+interface Simplified {
+    // Edits within the node's range, which is empty if the node is unchanged.
+    readonly textEdits: ReadonlyArray<TextEdit>;
+    // The precedence of the node once the edits are applied, eg. `(1 + 2)` is Primary but `1 + 2` is Addition.
+    readonly precedence: number;
+    // Defined if the node evaluates to a constant, eg. `1 + 2`.
+    readonly maybeValue: Value.TValue | undefined;
+}
+
+// The node is placed where at least minPrecedence is needed, eg. the right operand of `1 - (2 - 3)` needs
+// more than the precedence of Subtraction, so its parentheses are kept.
+function simplify<S extends IParserState>(state: SimplifyState<S>, node: Ast.TNode, minPrecedence: number): Simplified {
+    switch (node.kind) {
+        case Ast.NodeKind.IdentifierExpression: {
+            const maybeInlinedValue: Ast.TExpression | undefined = state.inlinedValueById.get(node.id);
+            return maybeInlinedValue !== undefined
+                ? replacedBy(
+                      state,
+                      node,
+                      maybeInlinedValue,
+                      simplify(state, maybeInlinedValue, minPrecedence),
+                      minPrecedence,
+                  )
+                : unchanged(node, undefined);
+        }
+
+        case Ast.NodeKind.IfExpression:
+            return simplifyIfExpression(state, node, minPrecedence);
+
+        case Ast.NodeKind.LetExpression:
+            return simplifyLetExpression(state, node, minPrecedence);
+
+        case Ast.NodeKind.LiteralExpression:
+            return unchanged(node, maybeEvaluate(state, node, []));
+
+        case Ast.NodeKind.ParenthesizedExpression: {
+            const content: Simplified = simplify(state, node.content, LowestPrecedence);
+            return content.precedence >= minPrecedence
+                ? replacedBy(state, node, node.content, content, minPrecedence)
+                : {
+                      ...content,
+                      precedence: PrimaryPrecedence,
+                  };
+        }
+
+        default:
+            return simplifyChildren(state, node);
+    }
+}
+
+function simplifyChildren<S extends IParserState>(state: SimplifyState<S>, node: Ast.TNode): Simplified {
+    const textEdits: TextEdit[] = [];
+    const simplifiedById: Map<number, Simplified> = new Map();
+    for (const childId of state.nodeIdMapCollection.childIdsById.get(node.id) || []) {
+        const child: Ast.TNode = NodeIdMapUtils.expectAstNode(state.nodeIdMapCollection.astNodeById, childId);
+        const simplified: Simplified = simplify(state, child, childMinPrecedence(node, child));
+        textEdits.push(...simplified.textEdits);
+        simplifiedById.set(childId, simplified);
+    }
+
+    const maybeFolded: Simplified | undefined = maybeFold(state, node, textEdits, simplifiedById);
+    if (maybeFolded !== undefined) {
+        return maybeFolded;
+    }
+
+    return {
+        textEdits,
+        precedence: nodePrecedence(node),
+        maybeValue: undefined,
+    };
+}
+
+function simplifyIfExpression<S extends IParserState>(
+    state: SimplifyState<S>,
+    node: Ast.IfExpression,
+    minPrecedence: number,
+): Simplified {
+    const condition: Simplified = simplify(state, node.condition, LowestPrecedence);
+    if (condition.maybeValue !== undefined && condition.maybeValue.kind === Type.TypeKind.Logical) {
+        const branch: Ast.TExpression = condition.maybeValue.value ? node.trueExpression : node.falseExpression;
+        return replacedBy(state, node, branch, simplify(state, branch, minPrecedence), minPrecedence);
+    }
+
+    return {
+        textEdits: [
+            ...condition.textEdits,
+            ...simplify(state, node.trueExpression, LowestPrecedence).textEdits,
+            ...simplify(state, node.falseExpression, LowestPrecedence).textEdits,
+        ],
+        precedence: LowestPrecedence,
+        maybeValue: undefined,
+    };
+}
+
+function simplifyLetExpression<S extends IParserState>(
+    state: SimplifyState<S>,
+    node: Ast.LetExpression,
+    minPrecedence: number,
+): Simplified {
+    const csvs: ReadonlyArray<Ast.ICsv<Ast.IdentifierPairedExpression>> = node.variableList.elements;
+    // Each inlined variable is simplified where it's referenced rather than where it's defined.
+    const isInlinedByIndex: ReadonlyArray<boolean> = csvs.map((csv: Ast.ICsv<Ast.IdentifierPairedExpression>) => {
+        const maybeReferenceId: number | undefined = maybeInlinableReferenceId(state, node, csv);
+        if (maybeReferenceId === undefined) {
+            return false;
+        }
+
+        state.inlinedValueById.set(maybeReferenceId, csv.node.value);
+        return true;
+    });
+
+    if (isInlinedByIndex.every((isInlined: boolean) => isInlined)) {
+        return replacedBy(state, node, node.expression, simplify(state, node.expression, minPrecedence), minPrecedence);
+    }
+
+    const textEdits: TextEdit[] = [];
+    for (let index: number = 0; index < csvs.length; index += 1) {
+        if (!isInlinedByIndex[index]) {
+            textEdits.push(...simplify(state, csvs[index].node, LowestPrecedence).textEdits);
+            continue;
+        }
+
+        // Each run of inlined variables is removed along with the comma which separates it from the variables kept.
+        let runEnd: number = index;
+        while (runEnd + 1 < csvs.length && isInlinedByIndex[runEnd + 1]) {
+            runEnd += 1;
+        }
+        if (runEnd + 1 < csvs.length) {
+            textEdits.push({
+                positionStart: csvs[index].tokenRange.positionStart,
+                positionEnd: csvs[runEnd + 1].tokenRange.positionStart,
+                newText: "",
+            });
+        } else {
+            const previousComma: Ast.IConstant<Ast.MiscConstantKind.Comma> | undefined =
+                csvs[index - 1].maybeCommaConstant;
+            textEdits.push({
+                positionStart:
+                    previousComma !== undefined
+                        ? previousComma.tokenRange.positionStart
+                        : csvs[index].tokenRange.positionStart,
+                positionEnd: csvs[runEnd].tokenRange.positionEnd,
+                newText: "",
+            });
+        }
+        index = runEnd;
+    }
+    textEdits.push(...simplify(state, node.expression, LowestPrecedence).textEdits);
+
+    return {
+        textEdits,
+        precedence: LowestPrecedence,
+        maybeValue: undefined,
+    };
+}
+
+// Returns the id of the only IdentifierExpression which references the variable if it's safe to inline.
+function maybeInlinableReferenceId<S extends IParserState>(
+    state: SimplifyState<S>,
+    letExpression: Ast.LetExpression,
+    csv: Ast.ICsv<Ast.IdentifierPairedExpression>,
+): number | undefined {
+    const triedReferences: TriedReferences = tryIdentifierReferences(
+        state.settings,
+        state.nodeIdMapCollection,
+        state.leafNodeIds,
+        csv.node.key,
+        state.scopeById,
+    );
+    if (ResultUtils.isErr(triedReferences)) {
+        throw triedReferences.error;
+    }
+    const references: ReadonlyArray<Reference> = triedReferences.value.filter(
+        (reference: Reference) => !reference.isDeclaration,
+    );
+    if (references.length !== 1) {
+        return undefined;
+    }
+    const maybeReferenceId: number | undefined = state.nodeIdMapCollection.parentIdById.get(
+        references[0].identifier.id,
+    );
+    if (maybeReferenceId === undefined) {
+        return undefined;
+    }
+    const referenceId: number = maybeReferenceId;
+
+    // Names which, between the let and the reference, are either introduced or no longer in scope.
+    const unavailableNames: Set<string> = new Set();
+    const ancestry: ReadonlyArray<TXorNode> = AncestryUtils.expectAncestry(state.nodeIdMapCollection, referenceId);
+    for (const xorNode of ancestry) {
+        const ancestor: Ast.TNode = NodeIdMapUtils.expectAstNode(
+            state.nodeIdMapCollection.astNodeById,
+            xorNode.node.id,
+        );
+        if (ancestor.id === letExpression.id) {
+            break;
+        }
+
+        if (ancestor.kind === Ast.NodeKind.EachExpression || ancestor.kind === Ast.NodeKind.FunctionExpression) {
+            return undefined;
+        } else if (ancestor.kind === Ast.NodeKind.LetExpression || ancestor.kind === Ast.NodeKind.RecordExpression) {
+            const pairs: ReadonlyArray<Ast.ICsv<
+                Ast.IdentifierPairedExpression | Ast.GeneralizedIdentifierPairedExpression
+            >> =
+                ancestor.kind === Ast.NodeKind.LetExpression
+                    ? ancestor.variableList.elements
+                    : ancestor.content.elements;
+            for (const pair of pairs) {
+                unavailableNames.add(StringUtils.normalizeIdentifier(pair.node.key.literal));
+            }
+        }
+    }
+
+    // A variable isn't in scope of its own value, so it can't be used by anything inlined into that value.
+    const maybeContainingCsv:
+        | Ast.ICsv<Ast.IdentifierPairedExpression>
+        | undefined = letExpression.variableList.elements.find((sibling: Ast.ICsv<Ast.IdentifierPairedExpression>) =>
+        ancestry.some((xorNode: TXorNode) => xorNode.node.id === sibling.id),
+    );
+    if (maybeContainingCsv === csv) {
+        return undefined;
+    } else if (maybeContainingCsv !== undefined) {
+        unavailableNames.add(StringUtils.normalizeIdentifier(maybeContainingCsv.node.key.literal));
+    }
+
+    for (const name of namesUsedByValue(state, letExpression, csv.node.value)) {
+        if (unavailableNames.has(name)) {
+            return undefined;
+        }
+    }
+
+    return referenceId;
+}
+
+// The names used by the value, including those used by any sibling variable it references,
+// as the sibling may also be inlined into the value.
+function namesUsedByValue<S extends IParserState>(
+    state: SimplifyState<S>,
+    letExpression: Ast.LetExpression,
+    value: Ast.TExpression,
+): ReadonlySet<string> {
+    const siblingValueByName: Map<string, Ast.TExpression> = new Map(
+        letExpression.variableList.elements.map((csv: Ast.ICsv<Ast.IdentifierPairedExpression>) => [
+            StringUtils.normalizeIdentifier(csv.node.key.literal),
+            csv.node.value,
+        ]),
+    );
+
+    const names: Set<string> = new Set();
+    const nodeIds: number[] = [value.id];
+    for (let maybeNodeId: number | undefined = nodeIds.pop(); maybeNodeId !== undefined; maybeNodeId = nodeIds.pop()) {
+        const node: Ast.TNode = NodeIdMapUtils.expectAstNode(state.nodeIdMapCollection.astNodeById, maybeNodeId);
+        nodeIds.push(...(state.nodeIdMapCollection.childIdsById.get(node.id) || []));
+        if (node.kind !== Ast.NodeKind.IdentifierExpression) {
+            continue;
+        }
+
+        const name: string = StringUtils.normalizeIdentifier(node.identifier.literal);
+        const maybeSiblingValue: Ast.TExpression | undefined = siblingValueByName.get(name);
+        if (!names.has(name) && maybeSiblingValue !== undefined) {
+            nodeIds.push(maybeSiblingValue.id);
+        }
+        names.add(name);
+    }
+
+    return names;
+}
+
+// Replaces an operator with a literal if its operands are constants.
+// Only the left operand of a LogicalExpression needs to be a constant, eg. `false and x` is `false`.
+function maybeFold<S extends IParserState>(
+    state: SimplifyState<S>,
+    node: Ast.TNode,
+    textEdits: ReadonlyArray<TextEdit>,
+    simplifiedById: Map<number, Simplified>,
+): Simplified | undefined {
+    let operands: ReadonlyArray<Ast.TNode>;
+    switch (node.kind) {
+        case Ast.NodeKind.ArithmeticExpression:
+        case Ast.NodeKind.EqualityExpression:
+        case Ast.NodeKind.RelationalExpression:
+            operands = [node.left, node.right as Ast.TNode];
+            break;
+
+        case Ast.NodeKind.AsExpression:
+        case Ast.NodeKind.IsExpression:
+        case Ast.NodeKind.LogicalExpression:
+            operands = [node.left];
+            break;
+
+        case Ast.NodeKind.UnaryExpression:
+            operands = [node.typeExpression];
+            break;
+
+        default:
+            return undefined;
+    }
+    const isConstant: boolean = operands.every((operand: Ast.TNode) => {
+        const maybeSimplified: Simplified | undefined = simplifiedById.get(operand.id);
+        return maybeSimplified !== undefined && maybeSimplified.maybeValue !== undefined;
+    });
+    if (!isConstant) {
+        return undefined;
+    }
+
+    const maybeValue: Value.TValue | undefined = maybeEvaluate(state, node, textEdits);
+    if (maybeValue === undefined) {
+        return undefined;
+    }
+    const maybeLiteral: [string, number] | undefined = maybeLiteralFrom(maybeValue);
+    if (maybeLiteral === undefined) {
+        return undefined;
+    }
+    const [literal, precedence]: [string, number] = maybeLiteral;
+
+    // A negative number, eg. `-1`, is already as simple as it gets.
+    if (
+        node.kind === Ast.NodeKind.UnaryExpression &&
+        node.typeExpression.kind === Ast.NodeKind.LiteralExpression &&
+        node.operators.elements.length === 1 &&
+        node.operators.elements[0].constantKind === Ast.UnaryOperatorKind.Negative
+    ) {
+        return unchanged(node, maybeValue);
+    }
+
+    return {
+        textEdits: [replacementTextEdit(state, node.tokenRange, literal)],
+        precedence,
+        maybeValue,
+    };
+}
+
+// Evaluates the node once its edits are applied. Undefined is returned if it doesn't evaluate to a value,
+// eg. `1 + "a"` raises an error, or `x and true` references a name the evaluator doesn't know about.
+function maybeEvaluate<S extends IParserState>(
+    state: SimplifyState<S>,
+    node: Ast.TNode,
+    textEdits: ReadonlyArray<TextEdit>,
+): Value.TValue | undefined {
+    let ast: Ast.TNode;
+    if (textEdits.length === 0) {
+        ast = node;
+    } else {
+        const triedLexParse: TriedLexParse<S> = tryLexParse(state.settings, simplifiedText(state, node, textEdits));
+        if (ResultUtils.isErr(triedLexParse)) {
+            return undefined;
+        }
+        ast = triedLexParse.value.ast;
+    }
+
+    const triedEvaluate: TriedEvaluate = tryEvaluate(state.settings, ast);
+    return ResultUtils.isOk(triedEvaluate) ? triedEvaluate.value : undefined;
+}
+
+// Returns the literal and its precedence, as a negative number is a UnaryExpression.
+function maybeLiteralFrom(value: Value.TValue): [string, number] | undefined {
+    switch (value.kind) {
+        case Type.TypeKind.Logical:
+            return [value.value ? "true" : "false", LiteralPrecedence];
+
+        case Type.TypeKind.Null:
+            return ["null", LiteralPrecedence];
+
+        case Type.TypeKind.Number:
+            if (!Number.isFinite(value.value)) {
+                return undefined;
+            }
+            return value.value < 0
+                ? [`-${(-value.value).toString()}`, UnaryPrecedence]
+                : [value.value.toString(), LiteralPrecedence];
+
+        case Type.TypeKind.Text: {
+            const escaped: string = value.value
+                .replace(/#\(/g, "#(#)(")
+                .replace(/"/g, `""`)
+                .replace(/\r/g, "#(cr)")
+                .replace(/\n/g, "#(lf)")
+                .replace(/\t/g, "#(tab)");
+            return [`"${escaped}"`, LiteralPrecedence];
+        }
+
+        default:
+            return undefined;
+    }
+}
+
+// Replaces the node with another node (or part of it), eg. a ParenthesizedExpression with its content.
+// Parentheses are added if the replacement has a lower precedence than is needed where the node is.
+function replacedBy<S extends IParserState>(
+    state: SimplifyState<S>,
+    node: Ast.TNode,
+    replacement: Ast.TNode,
+    simplified: Simplified,
+    minPrecedence: number,
+): Simplified {
+    const text: string = simplifiedText(state, replacement, simplified.textEdits);
+    const isParenthesized: boolean = simplified.precedence < minPrecedence;
+
+    return {
+        textEdits: [replacementTextEdit(state, node.tokenRange, isParenthesized ? `(${text})` : text)],
+        precedence: isParenthesized ? PrimaryPrecedence : simplified.precedence,
+        maybeValue: simplified.maybeValue,
+    };
+}
+
+// A space is added wherever the new text would run into the text around it, eg. `not(true)` becomes `not true`.
+function replacementTextEdit<S extends IParserState>(
+    state: SimplifyState<S>,
+    tokenRange: TokenRange,
+    newText: string,
+): TextEdit {
+    const before: string = state.text.charAt(tokenRange.positionStart.codeUnit - 1);
+    const after: string = state.text.charAt(tokenRange.positionEnd.codeUnit);
+
+    return {
+        positionStart: tokenRange.positionStart,
+        positionEnd: tokenRange.positionEnd,
+        newText: [
+            isWordCharacter(before) && isWordCharacter(newText.charAt(0)) ? " " : "",
+            newText,
+            isWordCharacter(after) && isWordCharacter(newText.charAt(newText.length - 1)) ? " " : "",
+        ].join(""),
+    };
+}
+
+function isWordCharacter(character: string): boolean {
+    return /^[A-Za-z0-9_.#@]$/.test(character);
+}
+
+function simplifiedText<S extends IParserState>(
+    state: SimplifyState<S>,
+    node: Ast.TNode,
+    textEdits: ReadonlyArray<TextEdit>,
+): string {
+    const codeUnitStart: number = node.tokenRange.positionStart.codeUnit;
+    const text: string = state.text.slice(codeUnitStart, node.tokenRange.positionEnd.codeUnit);
+
+    return applyTextEdits(
+        text,
+        textEdits.map((textEdit: TextEdit) => ({
+            positionStart: {
+                ...textEdit.positionStart,
+                codeUnit: textEdit.positionStart.codeUnit - codeUnitStart,
+            },
+            positionEnd: {
+                ...textEdit.positionEnd,
+                codeUnit: textEdit.positionEnd.codeUnit - codeUnitStart,
+            },
+            newText: textEdit.newText,
+        })),
+    );
+}
+
+function unchanged(node: Ast.TNode, maybeValue: Value.TValue | undefined): Simplified {
+    return {
+        textEdits: [],
+        precedence: nodePrecedence(node),
+        maybeValue,
+    };
+}
+
+function nodePrecedence(node: Ast.TNode): number {
+    if (AstUtils.isTBinOpExpression(node)) {
+        return AstUtils.binOpExpressionOperatorPrecedence(node.operatorConstant.constantKind);
+    }
+
+    switch (node.kind) {
+        case Ast.NodeKind.EachExpression:
+        case Ast.NodeKind.ErrorHandlingExpression:
+        case Ast.NodeKind.ErrorRaisingExpression:
+        case Ast.NodeKind.FunctionExpression:
+        case Ast.NodeKind.IfExpression:
+        case Ast.NodeKind.LetExpression:
+            return LowestPrecedence;
+
+        case Ast.NodeKind.TypePrimaryType:
+        case Ast.NodeKind.UnaryExpression:
+            return UnaryPrecedence;
+
+        case Ast.NodeKind.LiteralExpression:
+            return LiteralPrecedence;
+
+        default:
+            return PrimaryPrecedence;
+    }
+}
+
+function childMinPrecedence(parent: Ast.TNode, child: Ast.TNode): number {
+    // Operators are left associative, so `(1 - 2) - 3` doesn't need its parentheses but `1 - (2 - 3)` does.
+    if (AstUtils.isTBinOpExpression(parent)) {
+        const precedence: number = AstUtils.binOpExpressionOperatorPrecedence(parent.operatorConstant.constantKind);
+        return child.id === parent.left.id ? precedence : precedence + 1;
+    }
+
+    switch (parent.kind) {
+        case Ast.NodeKind.RangeExpression:
+        case Ast.NodeKind.UnaryExpression:
+            return LiteralPrecedence;
+
+        case Ast.NodeKind.RecursivePrimaryExpression:
+            return child.id === parent.head.id ? PrimaryPrecedence : LowestPrecedence;
+
+        // Eg. the each in `try (each 1) otherwise 2` would otherwise take `1 otherwise 2` as its body.
+        case Ast.NodeKind.ErrorHandlingExpression:
+            return child.id === parent.protectedExpression.id && parent.maybeOtherwiseExpression !== undefined
+                ? LowestPrecedence + 1
+                : LowestPrecedence;
+
+        default:
+            return LowestPrecedence;
+    }
+}
@@ -0,0 +1,28 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { TokenPosition } from "../language";
+
+// Replaces the text in the range [positionStart, positionEnd) with newText.
+export interface TextEdit {
+    readonly positionStart: TokenPosition;
+    readonly positionEnd: TokenPosition;
+    readonly newText: string;
+}
+
+// Edits are expected to not overlap, but can be given in any order.
+export function applyTextEdits(text: string, textEdits: ReadonlyArray<TextEdit>): string {
+    const sorted: ReadonlyArray<TextEdit> = [...textEdits].sort(
+        (left: TextEdit, right: TextEdit) => right.positionStart.codeUnit - left.positionStart.codeUnit,
+    );
+
+    let result: string = text;
+    for (const textEdit of sorted) {
+        result =
+            result.slice(0, textEdit.positionStart.codeUnit) +
+            textEdit.newText +
+            result.slice(textEdit.positionEnd.codeUnit);
+    }
+
+    return result;
+}
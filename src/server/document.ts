@@ -0,0 +1,66 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { ResultUtils } from "../common";
+import { Lexer } from "../lexer";
+import { LexSettings } from "../settings";
+import { TextDocumentContentChangeEvent } from "./protocol";
+
+// An open text document.
+// The lexer state is kept between changes so that an incremental change only re-lexes the lines it touches.
+// A change the lexer can't apply, such as a range outside of the document, is thrown as a LexError.
+export interface Document {
+    readonly uri: string;
+    readonly version: number;
+    readonly lexerState: Lexer.State;
+}
+
+export function documentFactory(settings: LexSettings, uri: string, version: number, text: string): Document {
+    return {
+        uri,
+        version,
+        lexerState: Lexer.stateFrom(settings, text),
+    };
+}
+
+export function textFrom(document: Document): string {
+    return document.lexerState.lines.map((line: Lexer.TLine) => line.text + line.lineTerminator).join("");
+}
+
+export function updateDocument(
+    settings: LexSettings,
+    document: Document,
+    version: number,
+    changes: ReadonlyArray<TextDocumentContentChangeEvent>,
+): Document {
+    let lexerState: Lexer.State = document.lexerState;
+
+    for (const change of changes) {
+        if (change.range === undefined) {
+            lexerState = Lexer.stateFrom(settings, change.text);
+            continue;
+        }
+
+        const range: Lexer.Range = {
+            start: {
+                lineNumber: change.range.start.line,
+                lineCodeUnit: change.range.start.character,
+            },
+            end: {
+                lineNumber: change.range.end.line,
+                lineCodeUnit: change.range.end.character,
+            },
+        };
+        const triedUpdate: Lexer.TriedLexerUpdate = Lexer.tryUpdateRange(lexerState, range, change.text);
+        if (ResultUtils.isErr(triedUpdate)) {
+            throw triedUpdate.error;
+        }
+        lexerState = triedUpdate.value;
+    }
+
+    return {
+        uri: document.uri,
+        version,
+        lexerState,
+    };
+}
@@ -0,0 +1,353 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Inspection } from "..";
+import { Assert, CommonError, ResultUtils } from "../common";
+import { Ast, Token, TokenPosition } from "../language";
+import { Lexer, LexError, LexerSnapshot, TriedLexerSnapshot } from "../lexer";
+import { NodeIdMap, NodeIdMapIterator, ParseContext, ParseError, TriedParse, TriedRecoveringParse } from "../parser";
+import { Settings } from "../settings";
+import { InspectionOk, TriedInspection, tryInspection, tryParse, tryParseWithRecovery } from "../task";
+import { Type, TypeUtils } from "../type";
+import { Document } from "./document";
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Diagnostic,
+    DiagnosticSeverity,
+    DocumentSymbol,
+    Hover,
+    JsonNull,
+    MarkupKind,
+    ParameterInformation,
+    Position,
+    Range,
+    SignatureHelp,
+    SymbolKind,
+} from "./protocol";
+
+const DiagnosticSource: string = "powerquery";
+
+// Lex errors are reported first as the document can't be parsed until they're fixed.
+// Parsing recovers from errors so that every ParseError can be reported at once.
+export function diagnosticsFrom(settings: Settings, document: Document): ReadonlyArray<Diagnostic> {
+    const lexerState: Lexer.State = document.lexerState;
+    const maybeErrorLineMap: Lexer.ErrorLineMap | undefined = Lexer.maybeErrorLineMap(lexerState);
+    if (maybeErrorLineMap !== undefined) {
+        return [...maybeErrorLineMap.entries()].map(([lineNumber, errorLine]: [number, Lexer.TErrorLine]) =>
+            lexErrorDiagnostic(lexerState, errorLine.error, lineNumber),
+        );
+    }
+
+    const triedSnapshot: TriedLexerSnapshot = LexerSnapshot.tryFrom(lexerState);
+    if (ResultUtils.isErr(triedSnapshot)) {
+        return [lexErrorDiagnostic(lexerState, triedSnapshot.error, 0)];
+    }
+    const lexerSnapshot: LexerSnapshot = triedSnapshot.value;
+
+    const triedParse: TriedRecoveringParse = tryParseWithRecovery(settings, lexerSnapshot);
+    if (ResultUtils.isErr(triedParse)) {
+        return [parseErrorDiagnostic(lexerSnapshot, triedParse.error)];
+    }
+
+    return triedParse.value.errors.map((parseError: ParseError.ParseError) =>
+        parseErrorDiagnostic(lexerSnapshot, parseError),
+    );
+}
+
+export function completionItemsFrom(
+    settings: Settings,
+    document: Document,
+    position: Position,
+): ReadonlyArray<CompletionItem> {
+    const maybeInspected: Inspected | undefined = maybeInspectedFrom(settings, document, position);
+    if (maybeInspected === undefined) {
+        return [];
+    }
+
+    return maybeInspected.inspectionOk.autocomplete.map((autocompleteItem: Inspection.AutocompleteItem) => {
+        return {
+            label: autocompleteItem.label,
+            kind: completionItemKindFrom(autocompleteItem.kind),
+            detail: autocompleteItem.maybeDetail,
+            insertText: autocompleteItem.insertText,
+        };
+    });
+}
+
+export function maybeSignatureHelpFrom(
+    settings: Settings,
+    document: Document,
+    position: Position,
+): SignatureHelp | undefined {
+    const maybeInspected: Inspected | undefined = maybeInspectedFrom(settings, document, position);
+    if (maybeInspected === undefined) {
+        return undefined;
+    }
+
+    const maybeInvokeExpression: Inspection.InvokeExpression | undefined =
+        maybeInspected.inspectionOk.maybeInvokeExpression;
+    if (maybeInvokeExpression === undefined || maybeInvokeExpression.maybeSignature === undefined) {
+        return undefined;
+    }
+    const signature: Inspection.InvokeExpressionSignature = maybeInvokeExpression.maybeSignature;
+    const parameters: ReadonlyArray<ParameterInformation> = signature.parameters.map(
+        (parameter: Type.FunctionParameter) => {
+            return { label: TypeUtils.nameOfParameter(parameter) };
+        },
+    );
+    const name: string = maybeInvokeExpression.maybeName !== undefined ? maybeInvokeExpression.maybeName : "";
+
+    return {
+        signatures: [
+            {
+                label: `${name}(${parameters
+                    .map((parameter: ParameterInformation) => parameter.label)
+                    .join(", ")}) as ${TypeUtils.nameOf(signature.returnType)}`,
+                parameters,
+            },
+        ],
+        activeSignature: 0,
+        activeParameter:
+            signature.maybeActiveParameterIndex !== undefined ? signature.maybeActiveParameterIndex : JsonNull,
+    };
+}
+
+// Shows the inferred type, the definition, and any documentation for the identifier under the position.
+export function maybeHoverFrom(settings: Settings, document: Document, position: Position): Hover | undefined {
+    const maybeInspected: Inspected | undefined = maybeInspectedFrom(settings, document, position);
+    if (maybeInspected === undefined) {
+        return undefined;
+    }
+    const inspected: Inspected = maybeInspected;
+
+    const triedHover: Inspection.TriedHover = Inspection.tryHover(
+        settings,
+        inspected.contextState.nodeIdMapCollection,
+        inspected.contextState.leafNodeIds,
+        inspected.lexerSnapshot.comments,
+        {
+            lineNumber: position.line,
+            lineCodeUnit: position.character,
+        },
+    );
+    if (ResultUtils.isErr(triedHover)) {
+        throw triedHover.error;
+    }
+    if (triedHover.value === undefined) {
+        return undefined;
+    }
+    const hover: Inspection.Hover = triedHover.value;
+
+    return {
+        contents: {
+            kind: MarkupKind.Markdown,
+            value: hover.markdown,
+        },
+        range: rangeFrom(hover.identifier.tokenRange.positionStart, hover.identifier.tokenRange.positionEnd),
+    };
+}
+
+// The members of each LetExpression and Section, where a member's children are the symbols found in its value.
+export function documentSymbolsFrom(settings: Settings, document: Document): ReadonlyArray<DocumentSymbol> {
+    if (Lexer.isErrorState(document.lexerState)) {
+        return [];
+    }
+    const triedSnapshot: TriedLexerSnapshot = LexerSnapshot.tryFrom(document.lexerState);
+    if (ResultUtils.isErr(triedSnapshot)) {
+        return [];
+    }
+
+    const triedParse: TriedRecoveringParse = tryParseWithRecovery(settings, triedSnapshot.value);
+    if (ResultUtils.isErr(triedParse)) {
+        return [];
+    }
+
+    return documentSymbolsFromNode(triedParse.value.state.contextState.nodeIdMapCollection, triedParse.value.ast);
+}
+
+interface Inspected {
+    readonly lexerSnapshot: LexerSnapshot;
+    readonly contextState: ParseContext.State;
+    readonly inspectionOk: InspectionOk;
+}
+
+function maybeInspectedFrom(settings: Settings, document: Document, position: Position): Inspected | undefined {
+    if (Lexer.isErrorState(document.lexerState)) {
+        return undefined;
+    }
+    const triedSnapshot: TriedLexerSnapshot = LexerSnapshot.tryFrom(document.lexerState);
+    if (ResultUtils.isErr(triedSnapshot)) {
+        return undefined;
+    }
+
+    const lexerSnapshot: LexerSnapshot = triedSnapshot.value;
+
+    const triedParse: TriedParse = tryParse(settings, lexerSnapshot);
+    let contextState: ParseContext.State;
+    if (ResultUtils.isOk(triedParse)) {
+        contextState = triedParse.value.state.contextState;
+    } else if (triedParse.error instanceof ParseError.ParseError) {
+        contextState = triedParse.error.state.contextState;
+    } else {
+        throw triedParse.error;
+    }
+
+    const triedInspection: TriedInspection = tryInspection(settings, triedParse, {
+        lineNumber: position.line,
+        lineCodeUnit: position.character,
+    });
+    if (ResultUtils.isErr(triedInspection)) {
+        throw triedInspection.error;
+    }
+
+    return {
+        lexerSnapshot,
+        contextState,
+        inspectionOk: triedInspection.value,
+    };
+}
+
+function documentSymbolsFromNode(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    node: Ast.TNode,
+): ReadonlyArray<DocumentSymbol> {
+    switch (node.kind) {
+        case Ast.NodeKind.LetExpression:
+            return [
+                ...node.variableList.elements.map((csv: Ast.ICsv<Ast.IdentifierPairedExpression>) =>
+                    documentSymbolFrom(nodeIdMapCollection, csv.node, csv.node),
+                ),
+                ...documentSymbolsFromNode(nodeIdMapCollection, node.expression),
+            ];
+
+        case Ast.NodeKind.Section:
+            return node.sectionMembers.elements.map((sectionMember: Ast.SectionMember) =>
+                documentSymbolFrom(nodeIdMapCollection, sectionMember, sectionMember.namePairedExpression),
+            );
+
+        default: {
+            const maybeChildren: ReadonlyArray<Ast.TNode> | undefined = NodeIdMapIterator.maybeAstChildren(
+                nodeIdMapCollection,
+                node.id,
+            );
+            if (maybeChildren === undefined) {
+                return [];
+            }
+
+            const symbols: DocumentSymbol[] = [];
+            for (const child of maybeChildren) {
+                symbols.push(...documentSymbolsFromNode(nodeIdMapCollection, child));
+            }
+            return symbols;
+        }
+    }
+}
+
+function documentSymbolFrom(
+    nodeIdMapCollection: NodeIdMap.Collection,
+    rangeNode: Ast.TNode,
+    pairedExpression: Ast.IdentifierPairedExpression,
+): DocumentSymbol {
+    const key: Ast.Identifier = pairedExpression.key;
+    const value: Ast.TExpression = pairedExpression.value;
+
+    return {
+        name: key.literal,
+        kind: value.kind === Ast.NodeKind.FunctionExpression ? SymbolKind.Function : SymbolKind.Variable,
+        range: rangeFrom(rangeNode.tokenRange.positionStart, rangeNode.tokenRange.positionEnd),
+        selectionRange: rangeFrom(key.tokenRange.positionStart, key.tokenRange.positionEnd),
+        children: documentSymbolsFromNode(nodeIdMapCollection, value),
+    };
+}
+
+function lexErrorDiagnostic(lexerState: Lexer.State, error: LexError.TLexError, lineNumber: number): Diagnostic {
+    let start: Position = {
+        line: lineNumber,
+        character: 0,
+    };
+    if (error instanceof LexError.LexError && "graphemePosition" in error.innerError) {
+        start = {
+            line: error.innerError.graphemePosition.lineNumber,
+            character: error.innerError.graphemePosition.lineCodeUnit,
+        };
+    }
+
+    const maybeLine: Lexer.TLine | undefined = lexerState.lines[start.line];
+    return {
+        range: {
+            start,
+            end: {
+                line: start.line,
+                character: maybeLine !== undefined ? maybeLine.text.length : start.character,
+            },
+        },
+        severity: DiagnosticSeverity.Error,
+        source: DiagnosticSource,
+        message: error.message,
+    };
+}
+
+// Errors without a token, such as reaching the end of the document too early, are placed after the last token.
+function parseErrorDiagnostic(
+    lexerSnapshot: LexerSnapshot,
+    error: CommonError.CommonError | ParseError.ParseError,
+): Diagnostic {
+    const maybeToken: Token | undefined =
+        error instanceof ParseError.ParseError ? ParseError.maybeTokenFrom(error.innerError) : undefined;
+
+    let range: Range;
+    if (maybeToken !== undefined) {
+        range = rangeFrom(maybeToken.positionStart, maybeToken.positionEnd);
+    } else if (lexerSnapshot.tokens.length !== 0) {
+        const lastToken: Token = lexerSnapshot.tokens[lexerSnapshot.tokens.length - 1];
+        range = rangeFrom(lastToken.positionEnd, lastToken.positionEnd);
+    } else {
+        range = {
+            start: { line: 0, character: 0 },
+            end: { line: 0, character: 0 },
+        };
+    }
+
+    return {
+        range,
+        severity: DiagnosticSeverity.Error,
+        source: DiagnosticSource,
+        message: error.message,
+    };
+}
+
+function completionItemKindFrom(kind: Inspection.AutocompleteItemKind): CompletionItemKind {
+    switch (kind) {
+        case Inspection.AutocompleteItemKind.Field:
+            return CompletionItemKind.Field;
+
+        case Inspection.AutocompleteItemKind.Identifier:
+            return CompletionItemKind.Variable;
+
+        case Inspection.AutocompleteItemKind.Keyword:
+            return CompletionItemKind.Keyword;
+
+        case Inspection.AutocompleteItemKind.LibraryMember:
+            return CompletionItemKind.Function;
+
+        case Inspection.AutocompleteItemKind.PrimitiveType:
+            return CompletionItemKind.TypeParameter;
+
+        default:
+            throw Assert.isNever(kind);
+    }
+}
+
+function rangeFrom(positionStart: TokenPosition, positionEnd: TokenPosition): Range {
+    return {
+        start: {
+            line: positionStart.lineNumber,
+            character: positionStart.lineCodeUnit,
+        },
+        end: {
+            line: positionEnd.lineNumber,
+            character: positionEnd.lineCodeUnit,
+        },
+    };
+}
@@ -0,0 +1,10 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import * as JsonRpc from "./jsonRpc";
+import * as Protocol from "./protocol";
+
+export { JsonRpc, Protocol };
+export * from "./document";
+export * from "./features";
+export * from "./server";
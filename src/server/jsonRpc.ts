@@ -0,0 +1,99 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { ErrorCode, JsonNull, NotificationMessage, RequestMessage, ResponseMessage, TMessage } from "./protocol";
+
+// Messages are sent as a header part and a content part, where the only required header is `Content-Length`.
+//
+//  Content-Length: 52\r\n
+//  \r\n
+//  {"jsonrpc":"2.0","id":1,"method":"shutdown"}
+const HeaderDelimiter: string = "\r\n\r\n";
+const ContentLengthPattern: RegExp = /^Content-Length:\s*(\d+)\s*$/im;
+
+export function readMessages(
+    input: NodeJS.ReadableStream,
+    onMessage: (message: TMessage) => void,
+    onInvalidMessage: (response: ResponseMessage) => void,
+): void {
+    let buffer: Buffer = Buffer.alloc(0);
+
+    input.on("data", (chunk: Buffer | string) => {
+        buffer = Buffer.concat([buffer, typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk]);
+
+        let headerEnd: number = buffer.indexOf(HeaderDelimiter);
+        while (headerEnd !== -1) {
+            const maybeMatch: RegExpMatchArray | null = buffer
+                .slice(0, headerEnd)
+                .toString("ascii")
+                .match(ContentLengthPattern);
+            const contentStart: number = headerEnd + HeaderDelimiter.length;
+
+            // Without a length the rest of the message can't be found, so skip past the header and keep reading.
+            if (maybeMatch === null) {
+                buffer = buffer.slice(contentStart);
+                onInvalidMessage(errorResponseFactory(JsonNull, ErrorCode.ParseError, "missing Content-Length header"));
+            } else {
+                const contentEnd: number = contentStart + Number.parseInt(maybeMatch[1], 10);
+                if (buffer.length < contentEnd) {
+                    return;
+                }
+                const content: string = buffer.slice(contentStart, contentEnd).toString("utf8");
+                buffer = buffer.slice(contentEnd);
+
+                let parsed: unknown;
+                try {
+                    parsed = JSON.parse(content);
+                } catch (err) {
+                    onInvalidMessage(errorResponseFactory(JsonNull, ErrorCode.ParseError, err.message));
+                }
+                // Valid JSON which isn't an object, eg. `null` or `1`, can't be a message.
+                if (isObject(parsed)) {
+                    onMessage((parsed as unknown) as TMessage);
+                } else if (parsed !== undefined) {
+                    onInvalidMessage(
+                        errorResponseFactory(JsonNull, ErrorCode.InvalidRequest, "message is not an object"),
+                    );
+                }
+            }
+
+            headerEnd = buffer.indexOf(HeaderDelimiter);
+        }
+    });
+}
+
+export function writeMessage(output: NodeJS.WritableStream, message: TMessage): void {
+    const content: string = JSON.stringify(message);
+    output.write(`Content-Length: ${Buffer.byteLength(content, "utf8")}${HeaderDelimiter}${content}`);
+}
+
+export function isObject(value: unknown): value is { readonly [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isRequest(message: TMessage): message is RequestMessage {
+    return "method" in message && "id" in message && message.id !== undefined;
+}
+
+export function isNotification(message: TMessage): message is NotificationMessage {
+    return "method" in message && !isRequest(message);
+}
+
+export function resultResponseFactory(id: number | string, result: unknown): ResponseMessage {
+    return {
+        jsonrpc: "2.0",
+        id,
+        result,
+    };
+}
+
+export function errorResponseFactory(id: number | string | null, code: ErrorCode, message: string): ResponseMessage {
+    return {
+        jsonrpc: "2.0",
+        id,
+        error: {
+            code,
+            message,
+        },
+    };
+}
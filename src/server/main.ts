@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { listen } from "./server";
+
+listen(process.stdin, process.stdout, (exitCode: number) => process.exit(exitCode));
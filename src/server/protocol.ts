@@ -0,0 +1,227 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+// The subset of JSON-RPC and the Language Server Protocol used by the server.
+// See https://microsoft.github.io/language-server-protocol/specification
+
+export type TMessage = RequestMessage | NotificationMessage | ResponseMessage;
+
+// JSON's null, which the protocol uses for an empty result and for the id of a response to an unreadable request.
+// The only use of the keyword, as everywhere else undefined is used for a missing value.
+// tslint:disable-next-line: no-null-keyword
+export const JsonNull: null = null;
+
+export const enum ErrorCode {
+    ParseError = -32700,
+    InvalidRequest = -32600,
+    MethodNotFound = -32601,
+    InvalidParams = -32602,
+    InternalError = -32603,
+    ServerNotInitialized = -32002,
+}
+
+export const enum Method {
+    Initialize = "initialize",
+    Initialized = "initialized",
+    Shutdown = "shutdown",
+    Exit = "exit",
+    TextDocumentDidOpen = "textDocument/didOpen",
+    TextDocumentDidChange = "textDocument/didChange",
+    TextDocumentDidClose = "textDocument/didClose",
+    TextDocumentCompletion = "textDocument/completion",
+    TextDocumentSignatureHelp = "textDocument/signatureHelp",
+    TextDocumentHover = "textDocument/hover",
+    TextDocumentDocumentSymbol = "textDocument/documentSymbol",
+    TextDocumentPublishDiagnostics = "textDocument/publishDiagnostics",
+    WindowLogMessage = "window/logMessage",
+}
+
+export const enum TextDocumentSyncKind {
+    None = 0,
+    Full = 1,
+    Incremental = 2,
+}
+
+export const enum DiagnosticSeverity {
+    Error = 1,
+    Warning = 2,
+    Information = 3,
+    Hint = 4,
+}
+
+export const enum CompletionItemKind {
+    Function = 3,
+    Field = 5,
+    Variable = 6,
+    Keyword = 14,
+    TypeParameter = 25,
+}
+
+export const enum SymbolKind {
+    Function = 12,
+    Variable = 13,
+}
+
+export const enum MessageType {
+    Error = 1,
+    Warning = 2,
+    Info = 3,
+    Log = 4,
+}
+
+export const enum MarkupKind {
+    PlainText = "plaintext",
+    Markdown = "markdown",
+}
+
+export interface RequestMessage {
+    readonly jsonrpc: "2.0";
+    readonly id: number | string;
+    readonly method: string;
+    readonly params?: unknown;
+}
+
+export interface NotificationMessage {
+    readonly jsonrpc: "2.0";
+    readonly method: string;
+    readonly params?: unknown;
+}
+
+export interface ResponseMessage {
+    readonly jsonrpc: "2.0";
+    readonly id: number | string | null;
+    readonly result?: unknown;
+    readonly error?: ResponseError;
+}
+
+export interface ResponseError {
+    readonly code: number;
+    readonly message: string;
+}
+
+// Both are zero based, and character is in UTF-16 code units.
+export interface Position {
+    readonly line: number;
+    readonly character: number;
+}
+
+export interface Range {
+    readonly start: Position;
+    readonly end: Position;
+}
+
+export interface TextDocumentIdentifier {
+    readonly uri: string;
+}
+
+export interface VersionedTextDocumentIdentifier extends TextDocumentIdentifier {
+    readonly version: number;
+}
+
+export interface TextDocumentItem extends VersionedTextDocumentIdentifier {
+    readonly languageId: string;
+    readonly text: string;
+}
+
+// A full update if range is missing, otherwise an incremental update.
+export interface TextDocumentContentChangeEvent {
+    readonly range?: Range;
+    readonly text: string;
+}
+
+export interface DidOpenTextDocumentParams {
+    readonly textDocument: TextDocumentItem;
+}
+
+export interface DidChangeTextDocumentParams {
+    readonly textDocument: VersionedTextDocumentIdentifier;
+    readonly contentChanges: ReadonlyArray<TextDocumentContentChangeEvent>;
+}
+
+export interface DidCloseTextDocumentParams {
+    readonly textDocument: TextDocumentIdentifier;
+}
+
+export interface TextDocumentPositionParams {
+    readonly textDocument: TextDocumentIdentifier;
+    readonly position: Position;
+}
+
+export interface DocumentSymbolParams {
+    readonly textDocument: TextDocumentIdentifier;
+}
+
+export interface InitializeResult {
+    readonly capabilities: ServerCapabilities;
+    readonly serverInfo: {
+        readonly name: string;
+    };
+}
+
+export interface ServerCapabilities {
+    readonly textDocumentSync: TextDocumentSyncKind;
+    readonly completionProvider: {};
+    readonly signatureHelpProvider: {
+        readonly triggerCharacters: ReadonlyArray<string>;
+    };
+    readonly hoverProvider: boolean;
+    readonly documentSymbolProvider: boolean;
+}
+
+export interface Diagnostic {
+    readonly range: Range;
+    readonly severity: DiagnosticSeverity;
+    readonly source: string;
+    readonly message: string;
+}
+
+export interface PublishDiagnosticsParams {
+    readonly uri: string;
+    readonly version: number;
+    readonly diagnostics: ReadonlyArray<Diagnostic>;
+}
+
+export interface CompletionItem {
+    readonly label: string;
+    readonly kind: CompletionItemKind;
+    readonly detail?: string;
+    readonly insertText: string;
+}
+
+export interface SignatureHelp {
+    readonly signatures: ReadonlyArray<SignatureInformation>;
+    readonly activeSignature: number;
+    readonly activeParameter: number | null;
+}
+
+export interface SignatureInformation {
+    readonly label: string;
+    readonly parameters: ReadonlyArray<ParameterInformation>;
+}
+
+export interface ParameterInformation {
+    readonly label: string;
+}
+
+export interface Hover {
+    readonly contents: MarkupContent;
+    readonly range: Range;
+}
+
+export interface MarkupContent {
+    readonly kind: MarkupKind;
+    readonly value: string;
+}
+
+export interface LogMessageParams {
+    readonly type: MessageType;
+    readonly message: string;
+}
+
+export interface DocumentSymbol {
+    readonly name: string;
+    readonly kind: SymbolKind;
+    readonly range: Range;
+    readonly selectionRange: Range;
+    readonly children: ReadonlyArray<DocumentSymbol>;
+}
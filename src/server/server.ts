@@ -0,0 +1,323 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { CommonError } from "../common";
+import { DefaultSettings, Settings } from "../settings";
+import { Document, documentFactory, updateDocument } from "./document";
+import {
+    completionItemsFrom,
+    diagnosticsFrom,
+    documentSymbolsFrom,
+    maybeHoverFrom,
+    maybeSignatureHelpFrom,
+} from "./features";
+import {
+    errorResponseFactory,
+    isNotification,
+    isObject,
+    isRequest,
+    readMessages,
+    resultResponseFactory,
+    writeMessage,
+} from "./jsonRpc";
+import {
+    DidChangeTextDocumentParams,
+    DidCloseTextDocumentParams,
+    DidOpenTextDocumentParams,
+    DocumentSymbolParams,
+    ErrorCode,
+    InitializeResult,
+    JsonNull,
+    LogMessageParams,
+    MessageType,
+    Method,
+    NotificationMessage,
+    Position,
+    PublishDiagnosticsParams,
+    RequestMessage,
+    ResponseMessage,
+    TextDocumentContentChangeEvent,
+    TextDocumentIdentifier,
+    TextDocumentItem,
+    TextDocumentPositionParams,
+    TextDocumentSyncKind,
+    TMessage,
+    VersionedTextDocumentIdentifier,
+} from "./protocol";
+
+export const ServerName: string = "powerquery-language-server";
+
+// Serves the Language Server Protocol over a pair of streams, usually stdin and stdout.
+// Requests are handled synchronously in the order they're read as every feature is a single pass over the document.
+//
+// onExit is called with the exit code once the client sends `exit`,
+// which per the protocol is 0 only if `shutdown` was requested first.
+export function listen(
+    input: NodeJS.ReadableStream,
+    output: NodeJS.WritableStream,
+    onExit: (exitCode: number) => void,
+    settings: Settings = DefaultSettings,
+): void {
+    const state: ServerState = {
+        settings,
+        output,
+        onExit,
+        documents: new Map(),
+        isInitialized: false,
+        isShutdown: false,
+    };
+
+    readMessages(
+        input,
+        (message: TMessage) => onMessage(state, message),
+        (response: ResponseMessage) => writeMessage(output, response),
+    );
+}
+
+interface ServerState {
+    readonly settings: Settings;
+    readonly output: NodeJS.WritableStream;
+    readonly onExit: (exitCode: number) => void;
+    readonly documents: Map<string, Document>;
+    isInitialized: boolean;
+    isShutdown: boolean;
+}
+
+function onMessage(state: ServerState, message: TMessage): void {
+    if (isRequest(message)) {
+        writeMessage(state.output, responseFrom(state, message));
+    } else if (isNotification(message)) {
+        try {
+            onNotification(state, message);
+        } catch (err) {
+            const params: LogMessageParams = {
+                type: MessageType.Error,
+                message: `${message.method}: ${err.message}`,
+            };
+            sendNotification(state, Method.WindowLogMessage, params);
+        }
+    }
+    // Responses are ignored as the server never sends a request.
+}
+
+function responseFrom(state: ServerState, request: RequestMessage): ResponseMessage {
+    if (!state.isInitialized && request.method !== Method.Initialize) {
+        return errorResponseFactory(request.id, ErrorCode.ServerNotInitialized, "server not initialized");
+    }
+
+    try {
+        return onRequest(state, request);
+    } catch (err) {
+        const code: ErrorCode = err instanceof InvalidParamsError ? ErrorCode.InvalidParams : ErrorCode.InternalError;
+        return errorResponseFactory(request.id, code, err.message);
+    }
+}
+
+function onRequest(state: ServerState, request: RequestMessage): ResponseMessage {
+    switch (request.method) {
+        case Method.Initialize: {
+            state.isInitialized = true;
+            const result: InitializeResult = {
+                capabilities: {
+                    textDocumentSync: TextDocumentSyncKind.Incremental,
+                    completionProvider: {},
+                    signatureHelpProvider: {
+                        triggerCharacters: ["(", ","],
+                    },
+                    hoverProvider: true,
+                    documentSymbolProvider: true,
+                },
+                serverInfo: {
+                    name: ServerName,
+                },
+            };
+            return resultResponseFactory(request.id, result);
+        }
+
+        case Method.Shutdown:
+            state.isShutdown = true;
+            return resultResponseFactory(request.id, JsonNull);
+
+        case Method.TextDocumentCompletion: {
+            const params: TextDocumentPositionParams = expectParams(request, isTextDocumentPositionParams);
+            const document: Document = expectDocument(state, params.textDocument.uri);
+            return resultResponseFactory(request.id, completionItemsFrom(state.settings, document, params.position));
+        }
+
+        case Method.TextDocumentSignatureHelp: {
+            const params: TextDocumentPositionParams = expectParams(request, isTextDocumentPositionParams);
+            const document: Document = expectDocument(state, params.textDocument.uri);
+            return resultResponseFactory(
+                request.id,
+                nullIfUndefined(maybeSignatureHelpFrom(state.settings, document, params.position)),
+            );
+        }
+
+        case Method.TextDocumentHover: {
+            const params: TextDocumentPositionParams = expectParams(request, isTextDocumentPositionParams);
+            const document: Document = expectDocument(state, params.textDocument.uri);
+            return resultResponseFactory(
+                request.id,
+                nullIfUndefined(maybeHoverFrom(state.settings, document, params.position)),
+            );
+        }
+
+        case Method.TextDocumentDocumentSymbol: {
+            const params: DocumentSymbolParams = expectParams(request, isDocumentSymbolParams);
+            const document: Document = expectDocument(state, params.textDocument.uri);
+            return resultResponseFactory(request.id, documentSymbolsFrom(state.settings, document));
+        }
+
+        default:
+            return errorResponseFactory(request.id, ErrorCode.MethodNotFound, `unknown method: ${request.method}`);
+    }
+}
+
+function onNotification(state: ServerState, notification: NotificationMessage): void {
+    switch (notification.method) {
+        case Method.Exit:
+            state.onExit(state.isShutdown ? 0 : 1);
+            break;
+
+        case Method.TextDocumentDidOpen: {
+            const params: DidOpenTextDocumentParams = expectParams(notification, isDidOpenTextDocumentParams);
+            const document: Document = documentFactory(
+                state.settings,
+                params.textDocument.uri,
+                params.textDocument.version,
+                params.textDocument.text,
+            );
+            state.documents.set(document.uri, document);
+            publishDiagnostics(state, document);
+            break;
+        }
+
+        case Method.TextDocumentDidChange: {
+            const params: DidChangeTextDocumentParams = expectParams(notification, isDidChangeTextDocumentParams);
+            const document: Document = updateDocument(
+                state.settings,
+                expectDocument(state, params.textDocument.uri),
+                params.textDocument.version,
+                params.contentChanges,
+            );
+            state.documents.set(document.uri, document);
+            publishDiagnostics(state, document);
+            break;
+        }
+
+        case Method.TextDocumentDidClose: {
+            const params: DidCloseTextDocumentParams = expectParams(notification, isDidCloseTextDocumentParams);
+            const document: Document = expectDocument(state, params.textDocument.uri);
+            state.documents.delete(document.uri);
+
+            const diagnosticsParams: PublishDiagnosticsParams = {
+                uri: document.uri,
+                version: document.version,
+                diagnostics: [],
+            };
+            sendNotification(state, Method.TextDocumentPublishDiagnostics, diagnosticsParams);
+            break;
+        }
+
+        // Ignores `initialized` along with any notification the server doesn't support.
+        default:
+            return;
+    }
+}
+
+function publishDiagnostics(state: ServerState, document: Document): void {
+    const params: PublishDiagnosticsParams = {
+        uri: document.uri,
+        version: document.version,
+        diagnostics: diagnosticsFrom(state.settings, document),
+    };
+    sendNotification(state, Method.TextDocumentPublishDiagnostics, params);
+}
+
+function sendNotification(
+    state: ServerState,
+    method: Method,
+    params: LogMessageParams | PublishDiagnosticsParams,
+): void {
+    writeMessage(state.output, {
+        jsonrpc: "2.0",
+        method,
+        params,
+    });
+}
+
+function expectDocument(state: ServerState, uri: string): Document {
+    const maybeDocument: Document | undefined = state.documents.get(uri);
+    if (maybeDocument === undefined) {
+        const details: {} = { uri };
+        throw new CommonError.InvariantError(`document is not open`, details);
+    }
+
+    return maybeDocument;
+}
+
+// The params of a message don't have the shape its method requires.
+class InvalidParamsError extends Error {}
+
+function expectParams<T>(message: RequestMessage | NotificationMessage, isValid: (params: unknown) => params is T): T {
+    if (!isValid(message.params)) {
+        throw new InvalidParamsError(`invalid params for ${message.method}`);
+    }
+
+    return message.params;
+}
+
+function isTextDocumentPositionParams(params: unknown): params is TextDocumentPositionParams {
+    return isObject(params) && isTextDocumentIdentifier(params.textDocument) && isPosition(params.position);
+}
+
+function isDocumentSymbolParams(params: unknown): params is DocumentSymbolParams {
+    return isObject(params) && isTextDocumentIdentifier(params.textDocument);
+}
+
+function isDidOpenTextDocumentParams(params: unknown): params is DidOpenTextDocumentParams {
+    return isObject(params) && isTextDocumentItem(params.textDocument);
+}
+
+function isDidChangeTextDocumentParams(params: unknown): params is DidChangeTextDocumentParams {
+    return (
+        isObject(params) &&
+        isVersionedTextDocumentIdentifier(params.textDocument) &&
+        Array.isArray(params.contentChanges) &&
+        params.contentChanges.every(isTextDocumentContentChangeEvent)
+    );
+}
+
+function isDidCloseTextDocumentParams(params: unknown): params is DidCloseTextDocumentParams {
+    return isObject(params) && isTextDocumentIdentifier(params.textDocument);
+}
+
+function isTextDocumentIdentifier(value: unknown): value is TextDocumentIdentifier {
+    return isObject(value) && typeof value.uri === "string";
+}
+
+function isVersionedTextDocumentIdentifier(value: unknown): value is VersionedTextDocumentIdentifier {
+    return isObject(value) && isTextDocumentIdentifier(value) && typeof value.version === "number";
+}
+
+function isTextDocumentItem(value: unknown): value is TextDocumentItem {
+    return isObject(value) && isVersionedTextDocumentIdentifier(value) && typeof value.text === "string";
+}
+
+function isTextDocumentContentChangeEvent(value: unknown): value is TextDocumentContentChangeEvent {
+    return (
+        isObject(value) &&
+        typeof value.text === "string" &&
+        (value.range === undefined ||
+            (isObject(value.range) && isPosition(value.range.start) && isPosition(value.range.end)))
+    );
+}
+
+function isPosition(value: unknown): value is Position {
+    return isObject(value) && typeof value.line === "number" && typeof value.character === "number";
+}
+
+// The protocol uses null for an empty result.
+function nullIfUndefined<T>(maybeValue: T | undefined): T | null {
+    return maybeValue !== undefined ? maybeValue : JsonNull;
+}
@@ -2,11 +2,15 @@
 // Licensed under the MIT license.
 
 import { LexerSnapshot } from "./lexer";
+import { LibraryDefinitions, StandardLibrary } from "./library";
 import { DefaultLocale } from "./localization/templates";
 import { IParser, IParserState, IParserStateUtils, Parser } from "./parser";
 
 export interface CommonSettings {
     readonly locale: string;
+    // Identifiers which aren't defined in the document, eg. `Text.Length`.
+    // Used by scope resolution, type inspection, and autocomplete. Defaults to StandardLibrary.
+    readonly maybeLibraryDefinitions?: LibraryDefinitions;
 }
 
 // tslint:disable-next-line: no-empty-interface
@@ -24,4 +28,9 @@ export const DefaultSettings: Settings = {
     newParserState: (parseSettings: ParseSettings, lexerSnapshot: LexerSnapshot) =>
         IParserStateUtils.newState(parseSettings, lexerSnapshot),
     locale: DefaultLocale,
+    maybeLibraryDefinitions: StandardLibrary,
 };
+
+export function libraryDefinitionsFor(settings: CommonSettings): LibraryDefinitions {
+    return settings.maybeLibraryDefinitions !== undefined ? settings.maybeLibraryDefinitions : StandardLibrary;
+}
@@ -3,12 +3,12 @@
 
 import { Inspection } from ".";
 import { Assert, CommonError, Result, ResultUtils } from "./common";
-import { StartOfDoctumentKeywords } from "./inspection";
 import { ActiveNode, ActiveNodeUtils } from "./inspection/activeNode";
 import { Ast } from "./language";
 import { Lexer, LexError, LexerSnapshot, TriedLexerSnapshot } from "./lexer";
 import { getLocalizationTemplates } from "./localization";
 import {
+    IncrementalParseOk,
     IParser,
     IParserState,
     IParserUtils,
@@ -16,7 +16,9 @@ import {
     ParseContext,
     ParseError,
     ParseOk,
+    TriedIncrementalParse,
     TriedParse,
+    TriedRecoveringParse,
     TXorNode,
 } from "./parser";
 import { CommonSettings, LexSettings, ParseSettings } from "./settings";
@@ -41,16 +43,34 @@ export type TriedLexParseInspect<S extends IParserState = IParserState> = Result
     CommonError.CommonError | LexError.LexError | ParseError.ParseError
 >;
 
+export type TriedLexParseSemanticTokens<S extends IParserState = IParserState> = Result<
+    ReadonlyArray<Inspection.SemanticToken>,
+    CommonError.CommonError | LexError.TLexError | ParseError.TParseError<S>
+>;
+
+export type TriedLexReparse<S extends IParserState = IParserState> = Result<
+    LexReparseOk<S>,
+    LexError.TLexError | ParseError.TParseError<S>
+>;
+
 export interface LexParseOk<S extends IParserState = IParserState> extends ParseOk<S> {
     readonly lexerSnapshot: LexerSnapshot;
 }
 
+export interface LexReparseOk<S extends IParserState = IParserState> extends IncrementalParseOk<S> {
+    readonly lexerState: Lexer.State;
+    readonly lexerSnapshot: LexerSnapshot;
+}
+
 export interface LexParseInspectOk<S extends IParserState = IParserState> extends InspectionOk {
     readonly triedParse: TriedParse<S>;
 }
 
 export function tryLex(settings: LexSettings, text: string): TriedLexerSnapshot {
-    const state: Lexer.State = Lexer.stateFrom(settings, text);
+    return trySnapshot(settings, Lexer.stateFrom(settings, text));
+}
+
+function trySnapshot(settings: LexSettings, state: Lexer.State): TriedLexerSnapshot {
     const maybeErrorLineMap: Lexer.ErrorLineMap | undefined = Lexer.maybeErrorLineMap(state);
     if (maybeErrorLineMap) {
         const errorLineMap: Lexer.ErrorLineMap = maybeErrorLineMap;
@@ -73,6 +93,27 @@ export function tryParse<S extends IParserState = IParserState>(
     return IParserUtils.tryRead(state, parser);
 }
 
+export function tryParseWithRecovery<S extends IParserState = IParserState>(
+    settings: ParseSettings<S>,
+    lexerSnapshot: LexerSnapshot,
+): TriedRecoveringParse<S> {
+    const parser: IParser<S> = settings.parser;
+    const state: S = settings.newParserState(settings, lexerSnapshot);
+    return IParserUtils.tryReadWithRecovery(state, parser);
+}
+
+// Parses lexerSnapshot by reusing as much as it can from the previous parse,
+// which should be of the same document before it was edited.
+export function tryReparse<S extends IParserState = IParserState>(
+    settings: ParseSettings<S>,
+    previousTriedParse: TriedParse<S>,
+    lexerSnapshot: LexerSnapshot,
+): TriedIncrementalParse<S> {
+    const parser: IParser<S> = settings.parser;
+    const state: S = settings.newParserState(settings, lexerSnapshot);
+    return IParserUtils.tryReadIncremental(state, parser, previousTriedParse);
+}
+
 export function tryInspection<S extends IParserState = IParserState>(
     settings: CommonSettings,
     triedParse: TriedParse<S>,
@@ -109,9 +150,20 @@ export function tryInspection<S extends IParserState = IParserState>(
         position,
     );
     if (maybeActiveNode === undefined) {
+        const triedStartOfDocumentAutocomplete: Inspection.TriedAutocomplete = Inspection.tryAutocomplete(
+            settings,
+            nodeIdMapCollection,
+            leafNodeIds,
+            undefined,
+            maybeParseError,
+        );
+        if (ResultUtils.isErr(triedStartOfDocumentAutocomplete)) {
+            return triedStartOfDocumentAutocomplete;
+        }
+
         return ResultUtils.okFactory({
             maybeActiveNode,
-            autocomplete: StartOfDoctumentKeywords,
+            autocomplete: triedStartOfDocumentAutocomplete.value,
             maybeInvokeExpression: undefined,
             scope: new Map(),
             scopeType: new Map(),
@@ -138,15 +190,16 @@ export function tryInspection<S extends IParserState = IParserState>(
     }
     const scope: Inspection.ScopeItemByKey = maybeScope;
 
+    const typeCache: Inspection.TypeCache = {
+        scopeById,
+        typeById: new Map(),
+    };
     const triedScopeType: Inspection.TriedScopeType = Inspection.tryScopeType(
         settings,
         nodeIdMapCollection,
         leafNodeIds,
         ancestry[0].node.id,
-        {
-            scopeById,
-            typeById: new Map(),
-        },
+        typeCache,
     );
     if (ResultUtils.isErr(triedScopeType)) {
         return triedScopeType;
@@ -155,6 +208,7 @@ export function tryInspection<S extends IParserState = IParserState>(
     const triedAutocomplete: Inspection.TriedAutocomplete = Inspection.tryAutocomplete(
         settings,
         nodeIdMapCollection,
+        leafNodeIds,
         activeNode,
         maybeParseError,
     );
@@ -165,7 +219,9 @@ export function tryInspection<S extends IParserState = IParserState>(
     const triedInvokeExpression: Inspection.TriedInvokeExpression = Inspection.tryInvokeExpression(
         settings,
         nodeIdMapCollection,
+        leafNodeIds,
         activeNode,
+        typeCache,
     );
     if (ResultUtils.isErr(triedInvokeExpression)) {
         return triedInvokeExpression;
@@ -201,6 +257,38 @@ export function tryLexParse<S extends IParserState = IParserState>(
     }
 }
 
+// Applies the edit to lexerState, which only lexes the lines it touches, then reparses with tryReparse.
+export function tryLexReparse<S extends IParserState = IParserState>(
+    settings: LexSettings & ParseSettings<S>,
+    lexerState: Lexer.State,
+    previousTriedParse: TriedParse<S>,
+    range: Lexer.Range,
+    text: string,
+): TriedLexReparse<S> {
+    const triedUpdate: Lexer.TriedLexerUpdate = Lexer.tryUpdateRange(lexerState, range, text);
+    if (ResultUtils.isErr(triedUpdate)) {
+        return triedUpdate;
+    }
+    const updatedLexerState: Lexer.State = triedUpdate.value;
+
+    const triedLexerSnapshot: TriedLexerSnapshot = trySnapshot(settings, updatedLexerState);
+    if (ResultUtils.isErr(triedLexerSnapshot)) {
+        return triedLexerSnapshot;
+    }
+    const lexerSnapshot: LexerSnapshot = triedLexerSnapshot.value;
+
+    const triedReparse: TriedIncrementalParse<S> = tryReparse(settings, previousTriedParse, lexerSnapshot);
+    if (ResultUtils.isErr(triedReparse)) {
+        return triedReparse;
+    }
+
+    return ResultUtils.okFactory({
+        ...triedReparse.value,
+        lexerState: updatedLexerState,
+        lexerSnapshot,
+    });
+}
+
 export function tryLexParseInspection<S extends IParserState = IParserState>(
     settings: LexSettings & ParseSettings<S>,
     text: string,
@@ -226,6 +314,31 @@ export function tryLexParseInspection<S extends IParserState = IParserState>(
     });
 }
 
+// Parses with error recovery so highlighting doesn't stop at the first syntax error.
+export function tryLexParseSemanticTokens<S extends IParserState = IParserState>(
+    settings: LexSettings & ParseSettings<S>,
+    text: string,
+): TriedLexParseSemanticTokens<S> {
+    const triedLexerSnapshot: TriedLexerSnapshot = tryLex(settings, text);
+    if (ResultUtils.isErr(triedLexerSnapshot)) {
+        return triedLexerSnapshot;
+    }
+    const lexerSnapshot: LexerSnapshot = triedLexerSnapshot.value;
+
+    const triedParse: TriedRecoveringParse<S> = tryParseWithRecovery(settings, lexerSnapshot);
+    if (ResultUtils.isErr(triedParse)) {
+        return triedParse;
+    }
+    const contextState: ParseContext.State = triedParse.value.state.contextState;
+
+    return Inspection.trySemanticTokens(
+        settings,
+        lexerSnapshot,
+        contextState.nodeIdMapCollection,
+        contextState.leafNodeIds,
+    );
+}
+
 export function maybeTriedParseFromTriedLexParse<S extends IParserState>(
     triedLexParse: TriedLexParse<S>,
 ): TriedParse<S> | undefined {
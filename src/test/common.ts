@@ -21,9 +21,10 @@ export function expectTextWithPosition(text: string): [string, Inspection.Positi
     expect(indexOfPipe).to.be.greaterThan(-1, "text must have | marker");
     expect(indexOfPipe).to.equal(text.lastIndexOf("|"), "text must have one and only one '|'");
 
+    const lines: ReadonlyArray<string> = text.slice(0, indexOfPipe).split("\n");
     const position: Inspection.Position = {
-        lineNumber: 0,
-        lineCodeUnit: indexOfPipe,
+        lineNumber: lines.length - 1,
+        lineCodeUnit: lines[lines.length - 1].length,
     };
 
     return [text.replace("|", ""), position];
@@ -0,0 +1,178 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { AstDiff } from "../../..";
+import { Assert, ResultUtils } from "../../../common";
+import { Ast } from "../../../language";
+import { DefaultSettings } from "../../../settings";
+
+interface AbridgedChange {
+    readonly kind: AstDiff.ChangeKind;
+    readonly path: ReadonlyArray<string>;
+    // The node kinds of any old and new nodes.
+    readonly nodeKinds: ReadonlyArray<Ast.NodeKind>;
+}
+
+function expectAbridgedChanges(oldText: string, newText: string): ReadonlyArray<AbridgedChange> {
+    const triedDiff: AstDiff.TriedDiff = AstDiff.tryDiff(DefaultSettings, oldText, newText);
+    if (!ResultUtils.isOk(triedDiff)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedDiff): ${triedDiff.error.message}`);
+    }
+
+    return triedDiff.value.map((change: AstDiff.TChange) => {
+        let nodeKinds: ReadonlyArray<Ast.NodeKind>;
+        switch (change.kind) {
+            case AstDiff.ChangeKind.Added:
+                nodeKinds = [change.newNode.kind];
+                break;
+
+            case AstDiff.ChangeKind.Removed:
+                nodeKinds = [change.oldNode.kind];
+                break;
+
+            case AstDiff.ChangeKind.Changed:
+            case AstDiff.ChangeKind.Renamed:
+                nodeKinds = [change.oldNode.kind, change.newNode.kind];
+                break;
+
+            default:
+                throw Assert.isNever(change);
+        }
+
+        return {
+            kind: change.kind,
+            path: change.path,
+            nodeKinds,
+        };
+    });
+}
+
+describe("AstDiff", () => {
+    it("ignores whitespace and comments", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [];
+        expect(
+            expectAbridgedChanges("let a = 1, b = a + 1 in b", "let\n    // one\n    a = 1,\n    b = a+1\nin\n    b"),
+        ).to.deep.equal(expected);
+    });
+
+    it("added and removed let variables", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [
+            { kind: AstDiff.ChangeKind.Added, path: ["c"], nodeKinds: [Ast.NodeKind.IdentifierPairedExpression] },
+            { kind: AstDiff.ChangeKind.Removed, path: ["b"], nodeKinds: [Ast.NodeKind.IdentifierPairedExpression] },
+        ];
+        expect(expectAbridgedChanges("let a = 1, b = 2 in a", "let a = 1, c = 3 in a")).to.deep.equal(expected);
+    });
+
+    it("changed let variable", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [
+            {
+                kind: AstDiff.ChangeKind.Changed,
+                path: ["b"],
+                nodeKinds: [Ast.NodeKind.ArithmeticExpression, Ast.NodeKind.ArithmeticExpression],
+            },
+        ];
+        expect(expectAbridgedChanges("let a = 1, b = a + 1 in b", "let a = 1, b = a + 2 in b")).to.deep.equal(expected);
+    });
+
+    it("renamed step along with its references", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [
+            {
+                kind: AstDiff.ChangeKind.Renamed,
+                path: ["Changed Type"],
+                nodeKinds: [Ast.NodeKind.IdentifierPairedExpression, Ast.NodeKind.IdentifierPairedExpression],
+            },
+        ];
+        expect(
+            expectAbridgedChanges(
+                "let Source = 1, Typed = Source + 1, Result = Typed * 2 in Result",
+                `let Source = 1, #"Changed Type" = Source + 1, Result = #"Changed Type" * 2 in Result`,
+            ),
+        ).to.deep.equal(expected);
+    });
+
+    it("renames which depend on each other", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [
+            {
+                kind: AstDiff.ChangeKind.Renamed,
+                path: ["x"],
+                nodeKinds: [Ast.NodeKind.IdentifierPairedExpression, Ast.NodeKind.IdentifierPairedExpression],
+            },
+            {
+                kind: AstDiff.ChangeKind.Renamed,
+                path: ["y"],
+                nodeKinds: [Ast.NodeKind.IdentifierPairedExpression, Ast.NodeKind.IdentifierPairedExpression],
+            },
+        ];
+        expect(expectAbridgedChanges("let a = 1, b = a + 1 in b", "let x = 1, y = x + 1 in y")).to.deep.equal(expected);
+    });
+
+    it("changed in expression", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [
+            {
+                kind: AstDiff.ChangeKind.Changed,
+                path: [],
+                nodeKinds: [Ast.NodeKind.IdentifierExpression, Ast.NodeKind.IdentifierExpression],
+            },
+        ];
+        expect(expectAbridgedChanges("let a = 1, b = 2 in a", "let a = 1, b = 2 in b")).to.deep.equal(expected);
+    });
+
+    it("record fields by key", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [
+            {
+                kind: AstDiff.ChangeKind.Changed,
+                path: ["r", "a"],
+                nodeKinds: [Ast.NodeKind.LiteralExpression, Ast.NodeKind.LiteralExpression],
+            },
+            {
+                kind: AstDiff.ChangeKind.Added,
+                path: ["r", "c"],
+                nodeKinds: [Ast.NodeKind.GeneralizedIdentifierPairedExpression],
+            },
+        ];
+        expect(
+            expectAbridgedChanges("let r = [a = 1, b = 2] in r", "let r = [b = 2, a = 3, c = 4] in r"),
+        ).to.deep.equal(expected);
+    });
+
+    it("section members", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [
+            {
+                kind: AstDiff.ChangeKind.Changed,
+                path: ["a"],
+                nodeKinds: [Ast.NodeKind.SectionMember, Ast.NodeKind.SectionMember],
+            },
+            {
+                kind: AstDiff.ChangeKind.Changed,
+                path: ["b", "c"],
+                nodeKinds: [Ast.NodeKind.LiteralExpression, Ast.NodeKind.LiteralExpression],
+            },
+        ];
+        expect(
+            expectAbridgedChanges(
+                "section S; a = 1; b = (x) => let c = 1 in c;",
+                "section S; shared a = 1; b = (x) => let c = 2 in c;",
+            ),
+        ).to.deep.equal(expected);
+    });
+
+    it("a parameter shadows an outer rename", () => {
+        const expected: ReadonlyArray<AbridgedChange> = [
+            {
+                kind: AstDiff.ChangeKind.Renamed,
+                path: ["b"],
+                nodeKinds: [Ast.NodeKind.IdentifierPairedExpression, Ast.NodeKind.IdentifierPairedExpression],
+            },
+            {
+                kind: AstDiff.ChangeKind.Changed,
+                path: ["f"],
+                nodeKinds: [Ast.NodeKind.IdentifierExpression, Ast.NodeKind.IdentifierExpression],
+            },
+        ];
+        expect(expectAbridgedChanges("let a = 1, f = (a) => a in f", "let b = 1, f = (a) => b in f")).to.deep.equal(
+            expected,
+        );
+    });
+});
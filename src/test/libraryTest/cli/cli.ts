@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { CliIO, ExitCode, run } from "../../../cli";
+
+interface CliOutput {
+    readonly exitCode: ExitCode;
+    readonly out: ReadonlyArray<string>;
+    readonly err: ReadonlyArray<string>;
+}
+
+// Runs the CLI against an in-memory file system, where a pattern matches every file path starting with it.
+function runWithFiles(args: ReadonlyArray<string>, files: { [filePath: string]: string }): CliOutput {
+    const out: string[] = [];
+    const err: string[] = [];
+    const io: CliIO = {
+        readFile: (filePath: string) => {
+            if (!(filePath in files)) {
+                throw new Error(`file not found`);
+            }
+            return files[filePath];
+        },
+        expandPathPattern: (pattern: string) =>
+            Object.keys(files).filter((filePath: string) => filePath.startsWith(pattern)),
+        writeOut: (text: string) => out.push(text),
+        writeErr: (text: string) => err.push(text),
+    };
+
+    return {
+        exitCode: run(args, io),
+        out,
+        err,
+    };
+}
+
+describe(`CLI`, () => {
+    it(`unknown command`, () => {
+        const output: CliOutput = runWithFiles([`foo`], {});
+        expect(output.exitCode).to.equal(ExitCode.Usage);
+        expect(output.err[0]).to.equal(`m-parse: unknown command: foo`);
+    });
+
+    it(`missing file`, () => {
+        const output: CliOutput = runWithFiles([`lex`, `a.pq`], {});
+        expect(output.exitCode).to.equal(ExitCode.Failure);
+        expect(output.err).to.deep.equal([`a.pq: file not found`]);
+    });
+
+    describe(`lex`, () => {
+        it(`tokens and comments`, () => {
+            const output: CliOutput = runWithFiles([`lex`, `a.pq`], { "a.pq": `// hi\n1 + x` });
+            expect(output.exitCode).to.equal(ExitCode.Success);
+            expect(output.out[0].split("\n")).to.deep.equal([
+                `1:1 LineComment "// hi"`,
+                `2:1 NumericLiteral "1"`,
+                `2:3 Plus "+"`,
+                `2:5 Identifier "x"`,
+            ]);
+        });
+
+        it(`lex error`, () => {
+            const output: CliOutput = runWithFiles([`lex`, `a.pq`], { "a.pq": `1 + 0x` });
+            expect(output.exitCode).to.equal(ExitCode.Failure);
+            expect(output.out.length).to.equal(1);
+            expect(output.out[0].startsWith(`a.pq:1:5: error: `)).to.equal(true, output.out[0]);
+        });
+    });
+
+    describe(`parse`, () => {
+        it(`tree`, () => {
+            const output: CliOutput = runWithFiles([`parse`, `a.pq`], { "a.pq": `-x` });
+            expect(output.exitCode).to.equal(ExitCode.Success);
+            expect(output.out[0].split("\n")).to.deep.equal([
+                `UnaryExpression (1:1)`,
+                `  ArrayWrapper (1:1)`,
+                `    Constant (1:1) "-"`,
+                `  IdentifierExpression (1:2)`,
+                `    Identifier (1:2) "x"`,
+            ]);
+        });
+
+        it(`json`, () => {
+            const output: CliOutput = runWithFiles([`parse`, `--format`, `json`, `a.pq`], { "a.pq": `1` });
+            expect(output.exitCode).to.equal(ExitCode.Success);
+            expect(JSON.parse(output.out[0]).literal).to.equal(`1`);
+        });
+
+        it(`unknown format`, () => {
+            const output: CliOutput = runWithFiles([`parse`, `--format`, `xml`, `a.pq`], { "a.pq": `1` });
+            expect(output.exitCode).to.equal(ExitCode.Usage);
+        });
+    });
+
+    describe(`check`, () => {
+        it(`reports every error with its location`, () => {
+            const output: CliOutput = runWithFiles([`check`, `queries/`], {
+                "queries/a.pq": `let x = 1 in x`,
+                "queries/b.pq": `let x = 1, in x`,
+                "queries/c.m": `{1,\n 2,,}`,
+            });
+            expect(output.exitCode).to.equal(ExitCode.Failure);
+            expect(output.out.map((line: string) => line.split(": error: ")[0])).to.deep.equal([
+                `queries/b.pq:1:12`,
+                `queries/c.m:2:5`,
+            ]);
+            expect(output.err).to.deep.equal([`2 error(s) in 3 file(s)`]);
+        });
+
+        it(`no errors`, () => {
+            const output: CliOutput = runWithFiles([`check`, `a.pq`], { "a.pq": `1` });
+            expect(output.exitCode).to.equal(ExitCode.Success);
+            expect(output.out).to.deep.equal([]);
+        });
+
+        it(`no matching files`, () => {
+            const output: CliOutput = runWithFiles([`check`, `b.pq`], { "a.pq": `1` });
+            expect(output.exitCode).to.equal(ExitCode.Failure);
+            expect(output.err[0]).to.equal(`no files matched: b.pq`);
+        });
+    });
+
+    describe(`inspect`, () => {
+        it(`scope and autocomplete`, () => {
+            const output: CliOutput = runWithFiles([`inspect`, `--position`, `1:20`, `a.pq`], {
+                "a.pq": `let foo = "bar" in f`,
+            });
+            expect(output.exitCode).to.equal(ExitCode.Success);
+            const inspection: any = JSON.parse(output.out[0]);
+            expect(inspection.scope).to.deep.equal({ foo: { kind: `KeyValuePair`, type: `text` } });
+            expect(inspection.autocomplete).to.deep.include({ label: `foo`, kind: `Identifier` });
+        });
+
+        it(`invalid position`, () => {
+            const output: CliOutput = runWithFiles([`inspect`, `--position`, `0:1`, `a.pq`], { "a.pq": `1` });
+            expect(output.exitCode).to.equal(ExitCode.Usage);
+        });
+    });
+});
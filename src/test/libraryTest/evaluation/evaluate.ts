@@ -0,0 +1,245 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Evaluation } from "../../..";
+import { Assert, ResultUtils } from "../../../common";
+import { DefaultTemplates } from "../../../localization";
+import { DefaultSettings } from "../../../settings";
+import { Type } from "../../../type";
+import { expectLexParseOk } from "../../common";
+
+type PlainValue = boolean | number | string | undefined | PlainValue[] | { [key: string]: PlainValue };
+
+function expectEvaluated(
+    text: string,
+    environment: Evaluation.Environment = Evaluation.DefaultEnvironment,
+): Evaluation.Value.TValue {
+    const triedEvaluate: Evaluation.TriedEvaluate = Evaluation.tryEvaluate(
+        DefaultSettings,
+        expectLexParseOk(DefaultSettings, text).ast,
+        environment,
+    );
+    if (!ResultUtils.isOk(triedEvaluate)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedEvaluate): ${triedEvaluate.error.message}`);
+    }
+
+    return triedEvaluate.value;
+}
+
+function expectEvaluateError(text: string): Evaluation.EvaluationError.TEvaluationError {
+    const triedEvaluate: Evaluation.TriedEvaluate = Evaluation.tryEvaluate(
+        DefaultSettings,
+        expectLexParseOk(DefaultSettings, text).ast,
+    );
+    if (!ResultUtils.isErr(triedEvaluate)) {
+        throw new Error(`AssertFailed: ResultUtils.isErr(triedEvaluate)`);
+    }
+
+    return triedEvaluate.error;
+}
+
+function expectPlain(text: string, expected: PlainValue, environment?: Evaluation.Environment): void {
+    expect(plainValue(expectEvaluated(text, environment))).to.deep.equal(expected);
+}
+
+function plainValue(value: Evaluation.Value.TValue): PlainValue {
+    switch (value.kind) {
+        case Type.TypeKind.Function:
+            return "function";
+
+        case Type.TypeKind.List:
+            return value.elements.map(plainValue);
+
+        case Type.TypeKind.Logical:
+        case Type.TypeKind.Number:
+        case Type.TypeKind.Text:
+            return value.value;
+
+        case Type.TypeKind.Null:
+            return undefined;
+
+        case Type.TypeKind.Record: {
+            const result: { [key: string]: PlainValue } = {};
+            for (const [key, field] of value.fields.entries()) {
+                result[key] = plainValue(Evaluation.ValueUtils.force(DefaultTemplates, field));
+            }
+            return result;
+        }
+
+        default:
+            throw Assert.isNever(value);
+    }
+}
+
+describe("Evaluation", () => {
+    describe("operators", () => {
+        it("arithmetic precedence", () => {
+            expectPlain("1 + 2 * 3", 7);
+            expectPlain("(1 + 2) * 3", 9);
+            expectPlain("10 - 4 - 3", 3);
+            expectPlain("-2 * 3", -6);
+        });
+
+        it("null propagation", () => {
+            expectPlain("1 + null", undefined);
+            expectPlain("-null", undefined);
+            expectPlain("1 < null", undefined);
+            expectPlain("null = null", true);
+        });
+
+        it("three-valued logic", () => {
+            expectPlain("null and false", false);
+            expectPlain("null and true", undefined);
+            expectPlain("null or true", true);
+            expectPlain(`false and (error "unreachable")`, false);
+        });
+
+        it("combination", () => {
+            expectPlain(`"a" & "b"`, "ab");
+            expectPlain("{1} & {2}", [1, 2]);
+            expectPlain("[a = 1, b = 2] & [b = 3]", { a: 1, b: 3 });
+        });
+
+        it("equality and relational", () => {
+            expectPlain("[a = 1, b = {2}] = [b = {2}, a = 1]", true);
+            expectPlain(`"a" < "b"`, true);
+            expectPlain("1 <> 1", false);
+        });
+
+        it("is and as", () => {
+            expectPlain("1 is number", true);
+            expectPlain("null is nullable text", true);
+            expectPlain("null is text", false);
+            expectPlain(`try ("a" as number) otherwise 0`, 0);
+        });
+
+        it("type mismatch", () => {
+            expect(expectEvaluateError(`1 + "a"`)).to.be.instanceOf(Evaluation.EvaluationError.ExpressionError);
+        });
+    });
+
+    describe("literals", () => {
+        it("text escapes", () => {
+            expectPlain(`"a""b#(tab)#(0041)"`, `a"b\tA`);
+        });
+
+        it("numbers", () => {
+            expectPlain("0xff", 255);
+            expectPlain("1.5e2", 150);
+            expectPlain("#infinity", Number.POSITIVE_INFINITY);
+        });
+    });
+
+    describe("let", () => {
+        it("lazy bindings", () => {
+            expectPlain(`let a = error "unused", b = c + 1, c = 1 in b`, 2);
+        });
+
+        it("cyclic reference", () => {
+            const error: Evaluation.EvaluationError.TEvaluationError = expectEvaluateError("let a = b, b = a in a");
+            expect(error).to.be.instanceOf(Evaluation.EvaluationError.ExpressionError);
+        });
+
+        it("recursion with an inclusive identifier", () => {
+            expectPlain("let f = (n) => if n = 0 then 1 else n * @f(n - 1) in f(5)", 120);
+        });
+    });
+
+    describe("records and lists", () => {
+        it("record fields reference each other", () => {
+            expectPlain("[a = 1, b = a + 1]", { a: 1, b: 2 });
+        });
+
+        it("field access", () => {
+            expectPlain("[a = 1][a]", 1);
+            expectPlain("[a = 1][b]?", undefined);
+            expectPlain("[a = 1, b = 2, c = 3][[a], [c]]", { a: 1, c: 3 });
+            expect(expectEvaluateError("[a = 1][b]")).to.be.instanceOf(Evaluation.EvaluationError.ExpressionError);
+        });
+
+        it("record fields are evaluated lazily", () => {
+            expectPlain(`[a = 1, b = error "x"][a]`, 1);
+            expectPlain(`[a = 1, b = error "x"][[a]]`, { a: 1 });
+            expect(expectEvaluateError(`[a = 1, b = error "x"][b]`)).to.be.instanceOf(
+                Evaluation.EvaluationError.ExpressionError,
+            );
+        });
+
+        it("item access", () => {
+            expectPlain("{1..3}{2}", 3);
+            expectPlain("{1}{5}?", undefined);
+            expect(expectEvaluateError("{1}{5}")).to.be.instanceOf(Evaluation.EvaluationError.ExpressionError);
+        });
+    });
+
+    describe("functions", () => {
+        it("each", () => {
+            expectPlain("(each [a] + 1)([a = 2])", 3);
+        });
+
+        it("optional parameters", () => {
+            expectPlain("((a, optional b) => b)(1)", undefined);
+        });
+
+        it("checks arguments", () => {
+            expectPlain(`try ((a as number) => a)("a") otherwise "mismatch"`, "mismatch");
+            expectPlain(`try ((a) => a)() otherwise "too few"`, "too few");
+            expectPlain(`try ((a) as text => a)(1) otherwise "return"`, "return");
+        });
+    });
+
+    describe("errors", () => {
+        it("try", () => {
+            expectPlain("try 1", { HasError: false, Value: 1 });
+            expectPlain(`try error [Reason = "Foo", Message = "bar"]`, {
+                HasError: true,
+                Error: { Reason: "Foo", Message: "bar", Detail: undefined },
+            });
+            expectPlain(`try error "bar" otherwise 2`, 2);
+        });
+
+        it("unhandled error", () => {
+            const error: Evaluation.EvaluationError.TEvaluationError = expectEvaluateError(`error "bar"`);
+            if (!(error instanceof Evaluation.EvaluationError.ExpressionError)) {
+                throw new Error(`AssertFailed: error instanceof ExpressionError: ${error.message}`);
+            }
+            expect(error.message).to.equal("bar");
+        });
+
+        it("unsupported", () => {
+            expect(expectEvaluateError("type number")).to.be.instanceOf(Evaluation.EvaluationError.UnsupportedError);
+        });
+    });
+
+    it("meta", () => {
+        const value: Evaluation.Value.TValue = expectEvaluated("(1 meta [a = 1]) meta [b = 2]");
+        if (value.maybeMetadata === undefined) {
+            throw new Error(`AssertFailed: value.maybeMetadata !== undefined`);
+        }
+        expect(plainValue(value)).to.equal(1);
+        expect(plainValue(value.maybeMetadata)).to.deep.equal({ a: 1, b: 2 });
+    });
+
+    it("environment", () => {
+        const libraryByName: Map<string, Evaluation.Value.TValue> = new Map([
+            [
+                "Number.Double",
+                Evaluation.ValueUtils.functionFactory(
+                    [{ nameLiteral: "n", isOptional: false, isNullable: false, maybeType: Type.TypeKind.Number }],
+                    (args: ReadonlyArray<Evaluation.Value.TValue>) =>
+                        Evaluation.ValueUtils.numberFactory((args[0] as Evaluation.Value.NumberValue).value * 2),
+                ),
+            ],
+        ]);
+        const environment: Evaluation.Environment = {
+            valueByName: new Map([["x", Evaluation.ValueUtils.numberFactory(3)]]),
+            maybeLibraryResolver: (identifierLiteral: string) => libraryByName.get(identifierLiteral),
+        };
+
+        expectPlain("Number.Double(x)", 6, environment);
+        expectPlain(`try Number.Double("a") otherwise 0`, 0, environment);
+        expect(expectEvaluateError("Number.Double(1)")).to.be.instanceOf(Evaluation.EvaluationError.ExpressionError);
+    });
+});
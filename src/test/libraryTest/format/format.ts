@@ -0,0 +1,71 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { ResultUtils } from "../../../common";
+import { BreakKind, DefaultFormatSettings, FormatSettings, TriedFormat, tryFormat } from "../../../format";
+
+function expectFormat(text: string, settings: FormatSettings = DefaultFormatSettings): string {
+    const triedFormat: TriedFormat = tryFormat(settings, text);
+    if (!ResultUtils.isOk(triedFormat)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedFormat): ${triedFormat.error.message}`);
+    }
+    return triedFormat.value;
+}
+
+describe("Format", () => {
+    it("let a=1,b=a+1 in b", () => {
+        const expected: string = ["let", "    a = 1,", "    b = a + 1", "in", "    b"].join("\n");
+        expect(expectFormat("let a=1,b=a+1 in b")).to.equal(expected);
+    });
+
+    it("formatting is idempotent", () => {
+        const text: string = `section foo; shared a = [x=1, y={1..3}]; b = (x as number, optional y) => x*y;`;
+        const formatted: string = expectFormat(text);
+        expect(expectFormat(formatted)).to.equal(formatted);
+    });
+
+    it("maxWidth breaks a RecordExpression", () => {
+        const settings: FormatSettings = {
+            ...DefaultFormatSettings,
+            maxWidth: 10,
+        };
+        const expected: string = ["[", "    a = 1,", "    b = 2", "]"].join("\n");
+        expect(expectFormat("[a = 1, b = 2]", settings)).to.equal(expected);
+    });
+
+    it("BreakKind.Never and spaceAroundOperators", () => {
+        const settings: FormatSettings = {
+            ...DefaultFormatSettings,
+            letExpressionBreak: BreakKind.Never,
+            spaceAroundOperators: false,
+        };
+        expect(expectFormat("let a = 1 + 2 in a and true", settings)).to.equal(
+            "let a = 1+2 in a and true",
+            "the let expression should stay on one line",
+        );
+    });
+
+    it("keeps comments", () => {
+        const text: string = "let\n// leading\na = {1, 2} // trailing\nin /* inline */ a";
+        const expected: string = [
+            "let",
+            "    // leading",
+            "    a = {1, 2} // trailing",
+            "in",
+            "    /* inline */ a",
+        ].join("\n");
+        expect(expectFormat(text)).to.equal(expected);
+    });
+
+    it("a trailing line comment breaks its group - {1, // one\n2}", () => {
+        const expected: string = ["{", "    1, // one", "    2", "}"].join("\n");
+        expect(expectFormat("{1, // one\n2}")).to.equal(expected);
+    });
+
+    it("a trailing line comment stays after its leaf - let a = 1 + // plus\n2 in a", () => {
+        const expected: string = ["let", "    a = 1 + // plus", "    2", "in", "    a"].join("\n");
+        expect(expectFormat("let a = 1 + // plus\n2 in a")).to.equal(expected);
+    });
+});
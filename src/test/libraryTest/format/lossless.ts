@@ -0,0 +1,47 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Task } from "../../..";
+import { ResultUtils } from "../../../common";
+import { printLossless } from "../../../format";
+import { TokenWithTrivia, TriviaKind, TTrivia } from "../../../language";
+import { TriviaUtils } from "../../../lexer";
+import { IParserState } from "../../../parser";
+import { DefaultSettings } from "../../../settings";
+
+function expectLexParseOk(text: string): Task.LexParseOk<IParserState> {
+    const triedLexParse: Task.TriedLexParse = Task.tryLexParse(DefaultSettings, text);
+    if (!ResultUtils.isOk(triedLexParse)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedLexParse): ${triedLexParse.error.message}`);
+    }
+    return triedLexParse.value;
+}
+
+function expectRoundTrip(text: string): void {
+    expect(printLossless(expectLexParseOk(text))).to.equal(text);
+}
+
+describe("Format.Lossless", () => {
+    it("comments and whitespace", () => {
+        expectRoundTrip("  // leading\n let\ta = 1, /* inline */ b = 2\r\n in\u2028a + b // trailing\n\n");
+    });
+
+    it("multiline tokens", () => {
+        expectRoundTrip(`section foo;\r\n\r\nshared #"a\r\nb" = "x\r\ny";\r\n/* multi\nline */ c = 1;`);
+    });
+
+    it("trailing trivia ends at the first line terminator", () => {
+        const lexParseOk: Task.LexParseOk<IParserState> = expectLexParseOk("1 // one\n  + 2");
+        const tokens: ReadonlyArray<TokenWithTrivia> = TriviaUtils.tokensWithTriviaFrom(lexParseOk.lexerSnapshot);
+
+        expect(TriviaUtils.printTrivia(tokens[0].trailingTrivia)).to.equal(" // one\n");
+        expect(TriviaUtils.printTrivia(tokens[1].leadingTrivia)).to.equal("  ");
+        expect(tokens[0].trailingTrivia.map((trivia: TTrivia) => trivia.kind)).to.deep.equal([
+            TriviaKind.Whitespace,
+            TriviaKind.Comment,
+            TriviaKind.LineTerminator,
+        ]);
+    });
+});
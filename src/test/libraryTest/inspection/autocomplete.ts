@@ -5,11 +5,12 @@ import { expect } from "chai";
 import "mocha";
 import { Inspection, Language } from "../../..";
 import { ResultUtils } from "../../../common";
-import { Position, StartOfDoctumentKeywords, TriedAutocomplete } from "../../../inspection";
+import { Autocomplete, AutocompleteItem, AutocompleteItemKind, Position, TriedAutocomplete } from "../../../inspection";
 import { ActiveNode, ActiveNodeUtils } from "../../../inspection/activeNode";
 import { Ast } from "../../../language";
 import { IParserState, NodeIdMap, ParseContext, ParseError } from "../../../parser";
 import { CommonSettings, DefaultSettings, LexSettings, ParseSettings } from "../../../settings";
+import { Type } from "../../../type";
 import { expectParseErr, expectParseOk, expectTextWithPosition } from "../../common";
 
 function expectAutocompleteOk<S extends IParserState>(
@@ -18,19 +19,17 @@ function expectAutocompleteOk<S extends IParserState>(
     leafNodeIds: ReadonlyArray<number>,
     position: Position,
     maybeParseError: ParseError.ParseError<S> | undefined,
-): ReadonlyArray<Language.KeywordKind> {
+): Autocomplete {
     const maybeActiveNode: ActiveNode | undefined = ActiveNodeUtils.maybeActiveNode(
         nodeIdMapCollection,
         leafNodeIds,
         position,
     );
-    if (maybeActiveNode === undefined) {
-        return StartOfDoctumentKeywords;
-    }
 
     const triedInspect: TriedAutocomplete = Inspection.tryAutocomplete(
         settings,
         nodeIdMapCollection,
+        leafNodeIds,
         maybeActiveNode,
         maybeParseError,
     );
@@ -40,11 +39,11 @@ function expectAutocompleteOk<S extends IParserState>(
     return triedInspect.value;
 }
 
-function expectParseOkAutocompleteOk<S extends IParserState = IParserState>(
+function expectParseOkAutocompleteItemsOk<S extends IParserState = IParserState>(
     settings: LexSettings & ParseSettings<S>,
     text: string,
     position: Position,
-): ReadonlyArray<Language.KeywordKind> {
+): Autocomplete {
     const contextState: ParseContext.State = expectParseOk(settings, text).state.contextState;
     return expectAutocompleteOk(
         settings,
@@ -55,13 +54,13 @@ function expectParseOkAutocompleteOk<S extends IParserState = IParserState>(
     );
 }
 
-function expectParseErrAutocompleteOk<S extends IParserState = IParserState>(
+function expectParseErrAutocompleteItemsOk<S extends IParserState = IParserState>(
     settings: LexSettings & ParseSettings<S>,
     text: string,
     position: Position,
-): ReadonlyArray<Language.KeywordKind> {
+): Autocomplete {
     const parseError: ParseError.ParseError<S> = expectParseErr(settings, text);
-    const contextState: ParseContext.State = expectParseErr(settings, text).state.contextState;
+    const contextState: ParseContext.State = parseError.state.contextState;
     return expectAutocompleteOk(
         settings,
         contextState.nodeIdMapCollection,
@@ -71,6 +70,34 @@ function expectParseErrAutocompleteOk<S extends IParserState = IParserState>(
     );
 }
 
+function expectParseOkAutocompleteOk<S extends IParserState = IParserState>(
+    settings: LexSettings & ParseSettings<S>,
+    text: string,
+    position: Position,
+): ReadonlyArray<Language.KeywordKind> {
+    return keywordsFrom(expectParseOkAutocompleteItemsOk(settings, text, position));
+}
+
+function expectParseErrAutocompleteOk<S extends IParserState = IParserState>(
+    settings: LexSettings & ParseSettings<S>,
+    text: string,
+    position: Position,
+): ReadonlyArray<Language.KeywordKind> {
+    return keywordsFrom(expectParseErrAutocompleteItemsOk(settings, text, position));
+}
+
+function keywordsFrom(autocomplete: Autocomplete): ReadonlyArray<Language.KeywordKind> {
+    return autocomplete
+        .filter((item: AutocompleteItem) => item.kind === AutocompleteItemKind.Keyword)
+        .map((item: AutocompleteItem) => item.label as Language.KeywordKind);
+}
+
+function labelsFrom(autocomplete: Autocomplete, kind: AutocompleteItemKind): ReadonlyArray<string> {
+    return autocomplete
+        .filter((item: AutocompleteItem) => item.kind === kind)
+        .map((item: AutocompleteItem) => item.label);
+}
+
 describe(`Inspection - Autocomplete`, () => {
     it("|", () => {
         const [text, position]: [string, Inspection.Position] = expectTextWithPosition(`|`);
@@ -617,4 +644,111 @@ describe(`Inspection - Autocomplete`, () => {
             expect(expectParseErrAutocompleteOk(DefaultSettings, text, position)).deep.equal(expected);
         });
     });
+
+    describe(`identifiers`, () => {
+        it(`let foo = 1, bar = 2 in |`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(`let foo = 1, bar = 2 in |`);
+            const autocomplete: Autocomplete = expectParseErrAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(labelsFrom(autocomplete, AutocompleteItemKind.Identifier)).deep.equal(["foo", "bar"]);
+        });
+
+        it(`let foo = 1, bar = 2 in f|`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(
+                `let foo = 1, bar = 2 in f|`,
+            );
+            const expected: ReadonlyArray<AutocompleteItem> = [
+                {
+                    kind: AutocompleteItemKind.Identifier,
+                    label: "foo",
+                    maybeDetail: Type.TypeKind.Number,
+                    insertText: "foo",
+                },
+            ];
+            const autocomplete: Autocomplete = expectParseOkAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(
+                autocomplete.filter((item: AutocompleteItem) => item.kind !== AutocompleteItemKind.Keyword),
+            ).deep.equal(expected);
+        });
+
+        it(`let foo = |`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(`let foo = |`);
+            const autocomplete: Autocomplete = expectParseErrAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(labelsFrom(autocomplete, AutocompleteItemKind.Identifier)).deep.equal([]);
+        });
+
+        it(`Text.Len|`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(`Text.Len|`);
+            const autocomplete: Autocomplete = expectParseOkAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(labelsFrom(autocomplete, AutocompleteItemKind.LibraryMember)).deep.equal(["Text.Length"]);
+        });
+    });
+
+    describe(`${Ast.NodeKind.FieldSelector}`, () => {
+        it(`let r = [foo = 1, bar = ""] in r[|`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(
+                `let r = [foo = 1, bar = ""] in r[|`,
+            );
+            const expected: ReadonlyArray<AutocompleteItem> = [
+                {
+                    kind: AutocompleteItemKind.Field,
+                    label: "foo",
+                    maybeDetail: Type.TypeKind.Number,
+                    insertText: "foo",
+                },
+                {
+                    kind: AutocompleteItemKind.Field,
+                    label: "bar",
+                    maybeDetail: Type.TypeKind.Text,
+                    insertText: "bar",
+                },
+            ];
+            expect(expectParseErrAutocompleteItemsOk(DefaultSettings, text, position)).deep.equal(expected);
+        });
+
+        it(`let r = [foo = 1, bar = ""] in r[b|]`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(
+                `let r = [foo = 1, bar = ""] in r[b|]`,
+            );
+            const autocomplete: Autocomplete = expectParseOkAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(labelsFrom(autocomplete, AutocompleteItemKind.Field)).deep.equal(["bar"]);
+        });
+
+        it(`(t as table) => Table.SelectRows(t[[foo], [bar]], each [b|])`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(
+                `(t as table) => Table.SelectRows(t[[foo], [bar]], each [b|])`,
+            );
+            const autocomplete: Autocomplete = expectParseOkAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(labelsFrom(autocomplete, AutocompleteItemKind.Field)).deep.equal(["bar"]);
+        });
+
+        it(`a column renamed by an earlier step`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(
+                `let t = Table.RenameColumns(#table({"foo", "bar"}, {}), {"foo", "baz"}) in Table.SelectRows(t, each [b|])`,
+            );
+            const autocomplete: Autocomplete = expectParseOkAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(labelsFrom(autocomplete, AutocompleteItemKind.Field)).deep.equal(["baz", "bar"]);
+        });
+    });
+
+    describe(`${Ast.NodeKind.PrimitiveType}`, () => {
+        it(`1 as |`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(`1 as |`);
+            const autocomplete: Autocomplete = expectParseErrAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(labelsFrom(autocomplete, AutocompleteItemKind.PrimitiveType)).to.include.members([
+                Ast.PrimitiveTypeConstantKind.Any,
+                Ast.PrimitiveTypeConstantKind.Number,
+                Ast.PrimitiveTypeConstantKind.Text,
+            ]);
+        });
+
+        it(`(x as n|) => x`, () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(`(x as n|) => x`);
+            const autocomplete: Autocomplete = expectParseErrAutocompleteItemsOk(DefaultSettings, text, position);
+            expect(labelsFrom(autocomplete, AutocompleteItemKind.PrimitiveType)).deep.equal([
+                Ast.PrimitiveTypeConstantKind.None,
+                Ast.PrimitiveTypeConstantKind.Null,
+                Ast.PrimitiveTypeConstantKind.Number,
+            ]);
+        });
+    });
 });
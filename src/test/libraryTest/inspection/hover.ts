@@ -0,0 +1,90 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Inspection, Task } from "../../..";
+import { ResultUtils } from "../../../common";
+import { Hover, ScopeItemKind } from "../../../inspection";
+import { DefaultSettings } from "../../../settings";
+import { Type } from "../../../type";
+import { expectLexParseOk, expectTextWithPosition } from "../../common";
+
+function expectHover(textWithPipe: string): Hover | undefined {
+    const [text, position]: [string, Inspection.Position] = expectTextWithPosition(textWithPipe);
+    const lexParseOk: Task.LexParseOk = expectLexParseOk(DefaultSettings, text);
+
+    const triedHover: Inspection.TriedHover = Inspection.tryHover(
+        DefaultSettings,
+        lexParseOk.state.contextState.nodeIdMapCollection,
+        lexParseOk.state.contextState.leafNodeIds,
+        lexParseOk.lexerSnapshot.comments,
+        position,
+    );
+    if (!ResultUtils.isOk(triedHover)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedHover): ${triedHover.error.message}`);
+    }
+    return triedHover.value;
+}
+
+function expectSomeHover(textWithPipe: string): Hover {
+    const maybeHover: Hover | undefined = expectHover(textWithPipe);
+    if (maybeHover === undefined) {
+        throw new Error(`AssertFailed: maybeHover !== undefined`);
+    }
+    return maybeHover;
+}
+
+describe(`Inspection - Hover`, () => {
+    it(`use of a let binding`, () => {
+        const hover: Hover = expectSomeHover(`// The greeting.\nlet x = "foo" in x|`);
+        expect(hover.identifier.literal).to.equal(`x`);
+        expect(hover.type.kind).to.equal(Type.TypeKind.Text);
+        expect(hover.maybeDefinition && hover.maybeDefinition.kind).to.equal(ScopeItemKind.KeyValuePair);
+        expect(hover.maybeDocumentation).to.equal(undefined, `the comment precedes the let, not the binding`);
+    });
+
+    it(`markdown`, () => {
+        const expected: string = "```powerquery\n(key) x: number\n```\n\nLn 3, Col 5\n\nThe answer.";
+        const hover: Hover = expectSomeHover(`let\n    // The answer.\n    x = 42\nin\n    x|`);
+        expect(hover.markdown).to.equal(expected);
+    });
+
+    it(`declaration of a let binding`, () => {
+        const hover: Hover = expectSomeHover(`let\n    // first\n    // second\n    x| = 1\nin\n    x`);
+        expect(hover.type.kind).to.equal(Type.TypeKind.Number);
+        expect(hover.maybeDocumentation).to.equal(`first\nsecond`);
+    });
+
+    it(`a trailing comment doesn't document the next binding`, () => {
+        const hover: Hover = expectSomeHover(`let a = 1, // about a\n    b| = 2 in b`);
+        expect(hover.maybeDocumentation).to.equal(undefined, `the comment ends the line of a`);
+    });
+
+    it(`section member`, () => {
+        const hover: Hover = expectSomeHover(
+            `section foo;\n/*\n * Doubles.\n */\nshared f = (n as number) => n * 2;\ng = f|;`,
+        );
+        expect(hover.type.kind).to.equal(Type.TypeKind.Function);
+        expect(hover.maybeDefinition && hover.maybeDefinition.kind).to.equal(ScopeItemKind.SectionMember);
+        expect(hover.maybeDocumentation).to.equal(`Doubles.`);
+    });
+
+    it(`parameter`, () => {
+        const hover: Hover = expectSomeHover(`(x as nullable text) => x|`);
+        expect(hover.type.kind).to.equal(Type.TypeKind.Text);
+        expect(hover.type.isNullable).to.equal(true, `the parameter type is nullable`);
+        expect(hover.maybeDefinition && hover.maybeDefinition.kind).to.equal(ScopeItemKind.Parameter);
+    });
+
+    it(`unresolved identifier`, () => {
+        const hover: Hover = expectSomeHover(`foo|`);
+        expect(hover.maybeDefinition).to.equal(undefined, `foo isn't defined`);
+        const expected: string = "```powerquery\nfoo: unknown\n```";
+        expect(hover.markdown).to.equal(expected);
+    });
+
+    it(`no identifier`, () => {
+        expect(expectHover(`1 +| 2`)).to.equal(undefined, `there isn't an identifier under the position`);
+    });
+});
@@ -9,6 +9,7 @@ import { InvokeExpression, Position } from "../../../inspection";
 import { ActiveNode, ActiveNodeUtils } from "../../../inspection/activeNode";
 import { IParserState, NodeIdMap, ParseContext } from "../../../parser";
 import { CommonSettings, DefaultSettings, LexSettings, ParseSettings } from "../../../settings";
+import { Type } from "../../../type";
 import { expectParseErr, expectParseOk, expectTextWithPosition } from "../../common";
 
 function expectInvokeExpressionOk(
@@ -30,6 +31,7 @@ function expectInvokeExpressionOk(
     const triedInspect: Inspection.TriedInvokeExpression = Inspection.tryInvokeExpression(
         settings,
         nodeIdMapCollection,
+        leafNodeIds,
         activeNode,
     );
     if (!ResultUtils.isOk(triedInspect)) {
@@ -137,4 +139,99 @@ describe(`subset Inspection - InvokeExpression`, () => {
         expect(inspected.maybeArguments?.numArguments).equal(2);
         expect(inspected.maybeArguments?.argumentOrdinal).equal(1);
     });
+
+    describe("signature", () => {
+        it("local function - let Foo = (a as number, optional b as nullable text) => a in Foo(1,|)", () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(
+                "let Foo = (a as number, optional b as nullable text) => a in Foo(1,|)",
+            );
+            const inspected: InvokeExpression | undefined = expectParseErrInvokeExpressionOk(
+                DefaultSettings,
+                text,
+                position,
+            );
+            if (!(inspected !== undefined)) {
+                throw new Error(`AssertFailed: inspected !== undefined`);
+            }
+            if (!(inspected.maybeSignature !== undefined)) {
+                throw new Error(`AssertFailed: inspected.maybeSignature !== undefined`);
+            }
+
+            expect(inspected.invokedType.maybeExtendedKind).to.equal(Type.ExtendedTypeKind.DefinedFunction);
+            const expected: ReadonlyArray<Type.FunctionParameter> = [
+                {
+                    nameLiteral: "a",
+                    isOptional: false,
+                    isNullable: false,
+                    maybeType: Type.TypeKind.Number,
+                },
+                {
+                    nameLiteral: "b",
+                    isOptional: true,
+                    isNullable: true,
+                    maybeType: Type.TypeKind.Text,
+                },
+            ];
+            expect(inspected.maybeSignature.parameters).to.deep.equal(expected);
+            expect(inspected.maybeSignature.maybeActiveParameterIndex).to.equal(1);
+        });
+
+        it("library function - Text.Length(|)", () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition("Text.Length(|)");
+            const inspected: InvokeExpression | undefined = expectParseOkInvokeExpressionOk(
+                DefaultSettings,
+                text,
+                position,
+            );
+            if (!(inspected !== undefined)) {
+                throw new Error(`AssertFailed: inspected !== undefined`);
+            }
+            if (!(inspected.maybeSignature !== undefined)) {
+                throw new Error(`AssertFailed: inspected.maybeSignature !== undefined`);
+            }
+
+            expect(
+                inspected.maybeSignature.parameters.map((parameter: Type.FunctionParameter) => parameter.nameLiteral),
+            ).to.deep.equal(["text"]);
+            expect(inspected.maybeSignature.maybeActiveParameterIndex).to.equal(0);
+        });
+
+        it("more arguments than parameters - let Foo = () => 1 in Foo(1|)", () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition(
+                "let Foo = () => 1 in Foo(1|)",
+            );
+            const inspected: InvokeExpression | undefined = expectParseOkInvokeExpressionOk(
+                DefaultSettings,
+                text,
+                position,
+            );
+            if (!(inspected !== undefined)) {
+                throw new Error(`AssertFailed: inspected !== undefined`);
+            }
+            if (!(inspected.maybeSignature !== undefined)) {
+                throw new Error(`AssertFailed: inspected.maybeSignature !== undefined`);
+            }
+
+            expect(inspected.maybeSignature.parameters.length).to.equal(0);
+            expect(inspected.maybeSignature.maybeActiveParameterIndex).to.equal(
+                undefined,
+                "there are no parameters to be active",
+            );
+        });
+
+        it("unknown invoked value - Foo(|)", () => {
+            const [text, position]: [string, Inspection.Position] = expectTextWithPosition("Foo(|)");
+            const inspected: InvokeExpression | undefined = expectParseOkInvokeExpressionOk(
+                DefaultSettings,
+                text,
+                position,
+            );
+            if (!(inspected !== undefined)) {
+                throw new Error(`AssertFailed: inspected !== undefined`);
+            }
+
+            expect(inspected.invokedType.kind).to.equal(Type.TypeKind.Unknown);
+            expect(inspected.maybeSignature).to.equal(undefined, "an unknown type has no signature");
+        });
+    });
 });
@@ -0,0 +1,218 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Inspection } from "../../..";
+import { ResultUtils } from "../../../common";
+import { Definition, Reference, ScopeItemKind } from "../../../inspection";
+import { ParseContext } from "../../../parser";
+import { DefaultSettings } from "../../../settings";
+import { expectParseErr, expectParseOk, expectTextWithPosition } from "../../common";
+
+type AbridgedReference = [string, number, boolean];
+
+function contextStateFrom(text: string, isParseOk: boolean): ParseContext.State {
+    return isParseOk
+        ? expectParseOk(DefaultSettings, text).state.contextState
+        : expectParseErr(DefaultSettings, text).state.contextState;
+}
+
+function expectDefinition(textWithPipe: string, isParseOk: boolean = true): Definition | undefined {
+    const [text, position]: [string, Inspection.Position] = expectTextWithPosition(textWithPipe);
+    const contextState: ParseContext.State = contextStateFrom(text, isParseOk);
+
+    const triedDefinition: Inspection.TriedDefinition = Inspection.tryDefinition(
+        DefaultSettings,
+        contextState.nodeIdMapCollection,
+        contextState.leafNodeIds,
+        position,
+    );
+    if (!ResultUtils.isOk(triedDefinition)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedDefinition): ${triedDefinition.error.message}`);
+    }
+    return triedDefinition.value;
+}
+
+function expectDefinitionCodeUnit(textWithPipe: string, isParseOk: boolean = true): number | undefined {
+    const maybeDefinition: Definition | undefined = expectDefinition(textWithPipe, isParseOk);
+    return maybeDefinition !== undefined ? maybeDefinition.tokenRange.positionStart.codeUnit : undefined;
+}
+
+function expectAbridgedReferences(textWithPipe: string): ReadonlyArray<AbridgedReference> {
+    const [text, position]: [string, Inspection.Position] = expectTextWithPosition(textWithPipe);
+    const contextState: ParseContext.State = contextStateFrom(text, true);
+
+    const triedReferences: Inspection.TriedReferences = Inspection.tryReferences(
+        DefaultSettings,
+        contextState.nodeIdMapCollection,
+        contextState.leafNodeIds,
+        position,
+    );
+    if (!ResultUtils.isOk(triedReferences)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedReferences): ${triedReferences.error.message}`);
+    }
+
+    return triedReferences.value.map((reference: Reference) => [
+        reference.identifier.literal,
+        reference.tokenRange.positionStart.codeUnit,
+        reference.isDeclaration,
+    ]);
+}
+
+describe(`subset Inspection - Reference`, () => {
+    describe(`tryDefinition`, () => {
+        it(`let x = 1 in x|`, () => {
+            const definition: Definition | undefined = expectDefinition(`let x = 1 in x|`);
+            if (!(definition !== undefined)) {
+                throw new Error(`AssertFailed: definition !== undefined`);
+            }
+            expect(definition.kind).to.equal(ScopeItemKind.KeyValuePair);
+            expect(definition.tokenRange.positionStart.codeUnit).to.equal(4);
+        });
+
+        it(`let x| = 1 in x`, () => {
+            expect(expectDefinitionCodeUnit(`let x| = 1 in x`)).to.equal(4);
+        });
+
+        it(`(a, b) => b|`, () => {
+            const definition: Definition | undefined = expectDefinition(`(a, b) => b|`);
+            if (!(definition !== undefined)) {
+                throw new Error(`AssertFailed: definition !== undefined`);
+            }
+            expect(definition.kind).to.equal(ScopeItemKind.Parameter);
+            expect(definition.tokenRange.positionStart.codeUnit).to.equal(4);
+        });
+
+        it(`type function (a| as number) as number`, () => {
+            expect(expectDefinitionCodeUnit(`type function (a| as number) as number`)).to.equal(
+                undefined,
+                "a type parameter isn't in scope",
+            );
+        });
+
+        it(`each _|`, () => {
+            const definition: Definition | undefined = expectDefinition(`each _|`);
+            if (!(definition !== undefined)) {
+                throw new Error(`AssertFailed: definition !== undefined`);
+            }
+            expect(definition.kind).to.equal(ScopeItemKind.Each);
+            expect(definition.maybeIdentifier).to.equal(undefined, "`_` is implicit");
+            expect(definition.tokenRange.positionStart.codeUnit).to.equal(0);
+        });
+
+        it(`[a = 1, b = a|]`, () => {
+            expect(expectDefinitionCodeUnit(`[a = 1, b = a|]`)).to.equal(1);
+        });
+
+        it(`section foo; x = 1; y = x|;`, () => {
+            const definition: Definition | undefined = expectDefinition(`section foo; x = 1; y = x|;`);
+            if (!(definition !== undefined)) {
+                throw new Error(`AssertFailed: definition !== undefined`);
+            }
+            expect(definition.kind).to.equal(ScopeItemKind.SectionMember);
+            expect(definition.tokenRange.positionStart.codeUnit).to.equal(13);
+        });
+
+        it(`quoted identifier - let #"x" = 1 in x|`, () => {
+            expect(expectDefinitionCodeUnit(`let #"x" = 1 in x|`)).to.equal(4);
+        });
+
+        it(`inclusive identifier - let f = () => @f|() in f`, () => {
+            expect(expectDefinitionCodeUnit(`let f = () => @f|() in f`)).to.equal(4);
+        });
+
+        it(`inclusive identifier to a sibling - let a = 1, b = @a| in b`, () => {
+            expect(expectDefinitionCodeUnit(`let a = 1, b = @a| in b`)).to.equal(4);
+        });
+
+        it(`inclusive identifier in the body - let a = 1 in @a|`, () => {
+            expect(expectDefinitionCodeUnit(`let a = 1 in @a|`)).to.equal(4);
+        });
+
+        it(`non-inclusive recursive identifier - let f = () => f|() in f`, () => {
+            expect(expectDefinitionCodeUnit(`let f = () => f|() in f`)).to.equal(
+                undefined,
+                "f is only in scope through @f",
+            );
+        });
+
+        it(`shadowing - let x = 1, y = let x = 2 in x| in x`, () => {
+            expect(expectDefinitionCodeUnit(`let x = 1, y = let x = 2 in x| in x`)).to.equal(19);
+        });
+
+        it(`external identifier - Text.Length|`, () => {
+            expect(expectDefinitionCodeUnit(`Text.Length|`)).to.equal(undefined, "the library has no definition");
+        });
+
+        it(`parse error - let x = 1, y = x|,`, () => {
+            expect(expectDefinitionCodeUnit(`let x = 1, y = x|,`, false)).to.equal(4);
+        });
+    });
+
+    describe(`tryReferences`, () => {
+        it(`let x| = 1, y = x + @z, z = x in x`, () => {
+            const expected: ReadonlyArray<AbridgedReference> = [
+                ["x", 4, true],
+                ["x", 15, false],
+                ["x", 27, false],
+                ["x", 32, false],
+            ];
+            expect(expectAbridgedReferences(`let x| = 1, y = x + @z, z = x in x`)).to.deep.equal(expected);
+        });
+
+        it(`shadowing - let x = 1, y = let x = 2 in x in x|`, () => {
+            const expected: ReadonlyArray<AbridgedReference> = [
+                ["x", 4, true],
+                ["x", 33, false],
+            ];
+            expect(expectAbridgedReferences(`let x = 1, y = let x = 2 in x in x|`)).to.deep.equal(expected);
+        });
+
+        it(`quoted identifier - let #"x" = 1 in x + #"x"|`, () => {
+            const expected: ReadonlyArray<AbridgedReference> = [
+                [`#"x"`, 4, true],
+                ["x", 16, false],
+                [`#"x"`, 20, false],
+            ];
+            expect(expectAbridgedReferences(`let #"x" = 1 in x + #"x"|`)).to.deep.equal(expected);
+        });
+
+        it(`inclusive identifier - let f| = (n) => @f(n) in f`, () => {
+            const expected: ReadonlyArray<AbridgedReference> = [
+                ["f", 4, true],
+                ["f", 16, false],
+                ["f", 24, false],
+            ];
+            expect(expectAbridgedReferences(`let f| = (n) => @f(n) in f`)).to.deep.equal(expected);
+        });
+
+        it(`inclusive identifier to a sibling - let a| = 1, b = @a in b`, () => {
+            const expected: ReadonlyArray<AbridgedReference> = [
+                ["a", 4, true],
+                ["a", 16, false],
+            ];
+            expect(expectAbridgedReferences(`let a| = 1, b = @a in b`)).to.deep.equal(expected);
+        });
+
+        it(`inclusive identifier in the body - let a| = 1 in @a`, () => {
+            const expected: ReadonlyArray<AbridgedReference> = [
+                ["a", 4, true],
+                ["a", 14, false],
+            ];
+            expect(expectAbridgedReferences(`let a| = 1 in @a`)).to.deep.equal(expected);
+        });
+
+        it(`each - each _| + _`, () => {
+            const expected: ReadonlyArray<AbridgedReference> = [
+                ["_", 5, false],
+                ["_", 9, false],
+            ];
+            expect(expectAbridgedReferences(`each _| + _`)).to.deep.equal(expected);
+        });
+
+        it(`unresolved - Foo|`, () => {
+            expect(expectAbridgedReferences(`Foo|`)).to.deep.equal([]);
+        });
+    });
+});
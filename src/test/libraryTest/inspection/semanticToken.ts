@@ -0,0 +1,132 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Inspection, Task } from "../../..";
+import { ResultUtils } from "../../../common";
+import { DefaultSettings } from "../../../settings";
+
+type AbridgedSemanticToken = [string, Inspection.SemanticTokenKind, boolean];
+
+function expectAbridgedSemanticTokens(text: string): ReadonlyArray<AbridgedSemanticToken> {
+    const triedSemanticTokens: Task.TriedLexParseSemanticTokens = Task.tryLexParseSemanticTokens(DefaultSettings, text);
+    if (!ResultUtils.isOk(triedSemanticTokens)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedSemanticTokens): ${triedSemanticTokens.error.message}`);
+    }
+
+    return triedSemanticTokens.value.map((semanticToken: Inspection.SemanticToken) => [
+        text.slice(semanticToken.positionStart.codeUnit, semanticToken.positionEnd.codeUnit),
+        semanticToken.kind,
+        semanticToken.isDeclaration,
+    ]);
+}
+
+describe(`Inspection - SemanticToken`, () => {
+    it(`let variable declaration and reference`, () => {
+        const expected: ReadonlyArray<AbridgedSemanticToken> = [
+            [`let`, Inspection.SemanticTokenKind.Keyword, false],
+            [`x`, Inspection.SemanticTokenKind.Variable, true],
+            [`=`, Inspection.SemanticTokenKind.Operator, false],
+            [`1`, Inspection.SemanticTokenKind.NumberLiteral, false],
+            [`in`, Inspection.SemanticTokenKind.Keyword, false],
+            [`x`, Inspection.SemanticTokenKind.Variable, false],
+        ];
+        expect(expectAbridgedSemanticTokens(`let x = 1 in x`)).to.deep.equal(expected);
+    });
+
+    it(`record field declaration and field selector`, () => {
+        const expected: ReadonlyArray<AbridgedSemanticToken> = [
+            [`Sales Amount`, Inspection.SemanticTokenKind.RecordField, true],
+            [`"a"`, Inspection.SemanticTokenKind.TextLiteral, false],
+            [`Sales Amount`, Inspection.SemanticTokenKind.RecordField, false],
+        ];
+        const actual: ReadonlyArray<AbridgedSemanticToken> = expectAbridgedSemanticTokens(
+            `[Sales Amount = "a"][Sales Amount]`,
+        ).filter((abridged: AbridgedSemanticToken) => abridged[1] !== Inspection.SemanticTokenKind.Operator);
+        expect(actual).to.deep.equal(expected);
+    });
+
+    it(`record field reference from within the record`, () => {
+        const expected: AbridgedSemanticToken = [`a`, Inspection.SemanticTokenKind.RecordField, false];
+        const actual: ReadonlyArray<AbridgedSemanticToken> = expectAbridgedSemanticTokens(`[a = 1, b = a]`);
+        expect(actual[actual.length - 1]).to.deep.equal(expected);
+    });
+
+    it(`parameters, type names, and contextual keywords`, () => {
+        const expected: ReadonlyArray<AbridgedSemanticToken> = [
+            [`x`, Inspection.SemanticTokenKind.Parameter, true],
+            [`as`, Inspection.SemanticTokenKind.Keyword, false],
+            [`nullable`, Inspection.SemanticTokenKind.Keyword, false],
+            [`number`, Inspection.SemanticTokenKind.TypeName, false],
+            [`optional`, Inspection.SemanticTokenKind.Keyword, false],
+            [`y`, Inspection.SemanticTokenKind.Parameter, true],
+            [`=>`, Inspection.SemanticTokenKind.Operator, false],
+            [`x`, Inspection.SemanticTokenKind.Parameter, false],
+        ];
+        expect(expectAbridgedSemanticTokens(`(x as nullable number, optional y) => x`)).to.deep.equal(expected);
+    });
+
+    it(`each`, () => {
+        const expected: ReadonlyArray<AbridgedSemanticToken> = [
+            [`each`, Inspection.SemanticTokenKind.Keyword, false],
+            [`_`, Inspection.SemanticTokenKind.Parameter, false],
+        ];
+        expect(expectAbridgedSemanticTokens(`each _`)).to.deep.equal(expected);
+    });
+
+    it(`section members`, () => {
+        const expected: ReadonlyArray<AbridgedSemanticToken> = [
+            [`x`, Inspection.SemanticTokenKind.SectionMember, true],
+            [`x`, Inspection.SemanticTokenKind.SectionMember, false],
+        ];
+        const actual: ReadonlyArray<AbridgedSemanticToken> = expectAbridgedSemanticTokens(`section foo; x = 1; y = x;`);
+        expect(actual.filter((abridged: AbridgedSemanticToken) => abridged[0] === `x`)).to.deep.equal(expected);
+    });
+
+    it(`library functions and types`, () => {
+        const actual: ReadonlyArray<AbridgedSemanticToken> = expectAbridgedSemanticTokens(
+            `{Text.Length("a"), Int64.Type, Unknown.Name}`,
+        );
+        expect(actual).to.deep.include([`Text.Length`, Inspection.SemanticTokenKind.LibraryFunction, false]);
+        expect(actual).to.deep.include([`Int64.Type`, Inspection.SemanticTokenKind.TypeName, false]);
+        expect(actual).to.deep.include([`Unknown.Name`, Inspection.SemanticTokenKind.Variable, false]);
+    });
+
+    it(`literals`, () => {
+        const actual: ReadonlyArray<AbridgedSemanticToken> = expectAbridgedSemanticTokens(
+            `{#date(2020, 1, 1), 0xFF, #nan, "text", null, true}`,
+        );
+        expect(actual).to.deep.include([`#date`, Inspection.SemanticTokenKind.DateLiteral, false]);
+        expect(actual).to.deep.include([`0xFF`, Inspection.SemanticTokenKind.NumberLiteral, false]);
+        expect(actual).to.deep.include([`#nan`, Inspection.SemanticTokenKind.NumberLiteral, false]);
+        expect(actual).to.deep.include([`"text"`, Inspection.SemanticTokenKind.TextLiteral, false]);
+        expect(actual).to.deep.include([`null`, Inspection.SemanticTokenKind.Keyword, false]);
+        expect(actual).to.deep.include([`true`, Inspection.SemanticTokenKind.Keyword, false]);
+    });
+
+    it(`comments are ordered among tokens`, () => {
+        const expected: ReadonlyArray<AbridgedSemanticToken> = [
+            [`// first`, Inspection.SemanticTokenKind.Comment, false],
+            [`1`, Inspection.SemanticTokenKind.NumberLiteral, false],
+            [`/* second */`, Inspection.SemanticTokenKind.Comment, false],
+            [`+`, Inspection.SemanticTokenKind.Operator, false],
+            [`2`, Inspection.SemanticTokenKind.NumberLiteral, false],
+        ];
+        expect(expectAbridgedSemanticTokens(`// first\n1 /* second */ + 2`)).to.deep.equal(expected);
+    });
+
+    it(`parse errors don't stop classification`, () => {
+        const expected: AbridgedSemanticToken = [`x`, Inspection.SemanticTokenKind.Variable, false];
+        const actual: ReadonlyArray<AbridgedSemanticToken> = expectAbridgedSemanticTokens(`let x = 1, in x`);
+        expect(actual[actual.length - 1]).to.deep.equal(expected);
+    });
+
+    it(`lex error`, () => {
+        const triedSemanticTokens: Task.TriedLexParseSemanticTokens = Task.tryLexParseSemanticTokens(
+            DefaultSettings,
+            `0x`,
+        );
+        expect(ResultUtils.isErr(triedSemanticTokens)).to.equal(true, `a lex error should be returned`);
+    });
+});
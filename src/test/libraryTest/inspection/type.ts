@@ -8,6 +8,7 @@ import { ResultUtils } from "../../../common";
 import { Position, ScopeTypeByKey } from "../../../inspection";
 import { ActiveNode, ActiveNodeUtils } from "../../../inspection/activeNode";
 import { Ast } from "../../../language";
+import { LibraryDefinitionKind, LibraryUtils } from "../../../library";
 import { IParserState, NodeIdMap, ParseContext, ParseError } from "../../../parser";
 import { CommonSettings, DefaultSettings } from "../../../settings";
 import { Type, TypeUtils } from "../../../type";
@@ -25,6 +26,21 @@ function expectParseOkNodeTypeEqual(text: string, expected: Type.TType): void {
     expect(actual).deep.equal(expected);
 }
 
+function expectParseOkReturnTypeEqual(text: string, expected: Type.TType): void {
+    const lexParseOk: Task.LexParseOk = expectLexParseOk(DefaultSettings, text);
+    const actual: Type.TType = expectParseNodeOk(
+        DefaultSettings,
+        lexParseOk.state.contextState.nodeIdMapCollection,
+        lexParseOk.state.contextState.leafNodeIds,
+        lexParseOk.ast.id,
+    );
+    if (actual.maybeExtendedKind !== Type.ExtendedTypeKind.DefinedFunction) {
+        throw new Error(`AssertFailed: actual.maybeExtendedKind === DefinedFunction`);
+    }
+
+    expect(actual.returnType).deep.equal(expected);
+}
+
 function expectParseErrNodeTypeEqual(text: string, expected: Type.TType): void {
     const parseErr: ParseError.ParseError<IParserState> = expectParseErr(DefaultSettings, text);
     const maybeRoot: ParseContext.Node | undefined = parseErr.state.contextState.root.maybeNode;
@@ -125,6 +141,12 @@ describe(`Inspection - Scope - Type`, () => {
             const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.None, false);
             expectParseOkNodeTypeEqual(expression, expected);
         });
+
+        it(`null + 1`, () => {
+            const expression: string = `null + 1`;
+            const expected: Type.TType = TypeUtils.nullFactory();
+            expectParseOkNodeTypeEqual(expression, expected);
+        });
     });
 
     describe(`${Ast.NodeKind.AsNullablePrimitiveType}`, () => {
@@ -158,6 +180,76 @@ describe(`Inspection - Scope - Type`, () => {
         });
     });
 
+    describe(`${Ast.NodeKind.EachExpression}`, () => {
+        it(`each _|`, () => {
+            const expression: string = `each _|`;
+            const expected: ScopeTypeByKey = new Map<string, Type.TType>([["_", TypeUtils.unknownFactory()]]);
+            expectParseOkScopeTypeEqual(expression, expected);
+        });
+
+        it(`List.Select({1, 2}, each _|)`, () => {
+            const expression: string = `List.Select({1, 2}, each _|)`;
+            const expected: ScopeTypeByKey = new Map<string, Type.TType>([
+                ["_", TypeUtils.genericFactory(Type.TypeKind.Number, false)],
+            ]);
+            expectParseOkScopeTypeEqual(expression, expected);
+        });
+
+        it(`List.Transform({"a"}, (s) => s|)`, () => {
+            const expression: string = `List.Transform({"a"}, (s) => s|)`;
+            const expected: ScopeTypeByKey = new Map<string, Type.TType>([
+                ["s", TypeUtils.genericFactory(Type.TypeKind.Text, false)],
+            ]);
+            expectParseOkScopeTypeEqual(expression, expected);
+        });
+
+        it(`(t as table) => Table.SelectRows(t[[a], [b]], each [a|])`, () => {
+            const expression: string = `(t as table) => Table.SelectRows(t[[a], [b]], each [a|])`;
+            const expected: ScopeTypeByKey = new Map<string, Type.TType>([
+                ["t", TypeUtils.genericFactory(Type.TypeKind.Table, false)],
+                [
+                    "_",
+                    TypeUtils.definedRecordFactory(
+                        false,
+                        new Map<string, Type.TType>([
+                            ["a", TypeUtils.anyFactory()],
+                            ["b", TypeUtils.anyFactory()],
+                        ]),
+                        false,
+                    ),
+                ],
+            ]);
+            expectParseOkScopeTypeEqual(expression, expected);
+        });
+
+        it(`List.Accumulate({1, 2}, "", (state, current) => state|)`, () => {
+            const expression: string = `List.Accumulate({1, 2}, "", (state, current) => state|)`;
+            const expected: ScopeTypeByKey = new Map<string, Type.TType>([
+                ["state", TypeUtils.genericFactory(Type.TypeKind.Text, false)],
+                ["current", TypeUtils.genericFactory(Type.TypeKind.Number, false)],
+            ]);
+            expectParseOkScopeTypeEqual(expression, expected);
+        });
+
+        it(`a comparer isn't given the items of a preceding list`, () => {
+            const expression: string = `Table.Group(#table({"a"}, {}), "a", {{"n", each 1}}, 0, (x, y) => x|)`;
+            const expected: ScopeTypeByKey = new Map<string, Type.TType>([
+                ["x", TypeUtils.unknownFactory()],
+                ["y", TypeUtils.unknownFactory()],
+            ]);
+            expectParseOkScopeTypeEqual(expression, expected);
+        });
+
+        it(`a function passed to a function in the document isn't inferred`, () => {
+            const expression: string = `(f as function) => f(each _|)`;
+            const expected: ScopeTypeByKey = new Map<string, Type.TType>([
+                ["f", TypeUtils.genericFactory(Type.TypeKind.Function, false)],
+                ["_", TypeUtils.unknownFactory()],
+            ]);
+            expectParseOkScopeTypeEqual(expression, expected);
+        });
+    });
+
     describe(`${Ast.NodeKind.ErrorHandlingExpression}`, () => {
         it(`try 1`, () => {
             const expression: string = `try 1`;
@@ -315,21 +407,25 @@ describe(`Inspection - Scope - Type`, () => {
                 isNullable: false,
                 parameters: [
                     {
+                        nameLiteral: "a",
                         isNullable: true,
                         isOptional: false,
                         maybeType: undefined,
                     },
                     {
+                        nameLiteral: "b",
                         isNullable: false,
                         isOptional: false,
                         maybeType: Type.TypeKind.Number,
                     },
                     {
+                        nameLiteral: "c",
                         isNullable: true,
                         isOptional: false,
                         maybeType: Type.TypeKind.Number,
                     },
                     {
+                        nameLiteral: "d",
                         isNullable: true,
                         isOptional: true,
                         maybeType: undefined,
@@ -377,16 +473,19 @@ describe(`Inspection - Scope - Type`, () => {
                     isNullable: false,
                     parameters: [
                         {
+                            nameLiteral: "foo",
                             isNullable: false,
                             isOptional: false,
                             maybeType: Type.TypeKind.Number,
                         },
                         {
+                            nameLiteral: "bar",
                             isNullable: true,
                             isOptional: false,
                             maybeType: Type.TypeKind.Text,
                         },
                         {
+                            nameLiteral: "baz",
                             isNullable: false,
                             isOptional: true,
                             maybeType: Type.TypeKind.Date,
@@ -411,6 +510,24 @@ describe(`Inspection - Scope - Type`, () => {
             const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Number, false);
             expectParseOkNodeTypeEqual(expression, expected);
         });
+
+        it(`Number.PI`, () => {
+            const expression: string = "Number.PI";
+            const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Number, false);
+            expectParseOkNodeTypeEqual(expression, expected);
+        });
+
+        it(`let Number.PI = "" in Number.PI`, () => {
+            const expression: string = `let Number.PI = "" in Number.PI`;
+            const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Text, false);
+            expectParseOkNodeTypeEqual(expression, expected);
+        });
+
+        it(`Foo.Bar`, () => {
+            const expression: string = "Foo.Bar";
+            const expected: Type.TType = TypeUtils.unknownFactory();
+            expectParseOkNodeTypeEqual(expression, expected);
+        });
     });
 
     describe(`${Ast.NodeKind.IfExpression}`, () => {
@@ -485,6 +602,217 @@ describe(`Inspection - Scope - Type`, () => {
             };
             expectParseErrNodeTypeEqual(expression, expected);
         });
+
+        describe(`narrowing`, () => {
+            it(`(x as nullable number) => if x <> null then x + 1 else 0`, () => {
+                const expression: string = `(x as nullable number) => if x <> null then x + 1 else 0`;
+                const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Number, false);
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+
+            it(`(x as nullable number) => if x = null then 0 else x`, () => {
+                const expression: string = `(x as nullable number) => if x = null then 0 else x`;
+                const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Number, false);
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+
+            it(`(x as any) => if x is text then x else ""`, () => {
+                const expression: string = `(x as any) => if x is text then x else ""`;
+                const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Text, false);
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+
+            it(`(x as logical) => let y = if x then 1 else "" in if y is number then "" else y`, () => {
+                const expression: string = `(x as logical) => let y = if x then 1 else "" in if y is number then "" else y`;
+                const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Text, false);
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+
+            it(`(x as nullable text) => if not (x is null) then x else ""`, () => {
+                const expression: string = `(x as nullable text) => if not (x is null) then x else ""`;
+                const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Text, false);
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+
+            it(`(x as nullable number) => (x <> null) and (x > 1)`, () => {
+                const expression: string = `(x as nullable number) => (x <> null) and (x > 1)`;
+                const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Logical, false);
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+
+            it(`(x as nullable number, y as any) => if (x <> null) or (y is null) then x else 0`, () => {
+                const expression: string = `(x as nullable number, y as any) => if (x <> null) or (y is null) then x else 0`;
+                const expected: Type.TType = {
+                    kind: Type.TypeKind.Any,
+                    maybeExtendedKind: Type.ExtendedTypeKind.AnyUnion,
+                    isNullable: true,
+                    unionedTypePairs: [
+                        TypeUtils.genericFactory(Type.TypeKind.Number, true),
+                        TypeUtils.genericFactory(Type.TypeKind.Number, false),
+                    ],
+                };
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+
+            it(`a shadowed identifier isn't narrowed`, () => {
+                const expression: string = `(x as nullable number) => if x <> null then let x = null in x else 0`;
+                const expected: Type.TType = {
+                    kind: Type.TypeKind.Any,
+                    maybeExtendedKind: Type.ExtendedTypeKind.AnyUnion,
+                    isNullable: true,
+                    unionedTypePairs: [
+                        TypeUtils.genericFactory(Type.TypeKind.Null, true),
+                        TypeUtils.genericFactory(Type.TypeKind.Number, false),
+                    ],
+                };
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+        });
+    });
+
+    describe(`${Ast.NodeKind.InvokeExpression}`, () => {
+        it(`Text.Length("a")`, () => {
+            const expression: string = `Text.Length("a")`;
+            const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Number, true);
+            expectParseOkNodeTypeEqual(expression, expected);
+        });
+
+        it(`library definitions given in the settings`, () => {
+            const settings: CommonSettings = {
+                ...DefaultSettings,
+                maybeLibraryDefinitions: LibraryUtils.definitionsFromJson({
+                    definitions: [
+                        {
+                            kind: LibraryDefinitionKind.Function,
+                            label: "Foo.Text",
+                            description: "",
+                            parameters: [],
+                            returnTypeKind: Type.TypeKind.Text,
+                        },
+                    ],
+                }),
+            };
+            const lexParseOk: Task.LexParseOk = expectLexParseOk(DefaultSettings, `Foo.Text()`);
+            const actual: Type.TType = expectParseNodeOk(
+                settings,
+                lexParseOk.state.contextState.nodeIdMapCollection,
+                lexParseOk.state.contextState.leafNodeIds,
+                lexParseOk.ast.id,
+            );
+            expect(actual).deep.equal(
+                TypeUtils.genericFactory(Type.TypeKind.Text, false),
+                "Foo.Text is resolved by the custom library definitions",
+            );
+        });
+
+        it(`library definitions default to the standard library`, () => {
+            const settings: CommonSettings = { locale: DefaultSettings.locale };
+            const lexParseOk: Task.LexParseOk = expectLexParseOk(DefaultSettings, `Text.Length("a")`);
+            const actual: Type.TType = expectParseNodeOk(
+                settings,
+                lexParseOk.state.contextState.nodeIdMapCollection,
+                lexParseOk.state.contextState.leafNodeIds,
+                lexParseOk.ast.id,
+            );
+            expect(actual).deep.equal(
+                TypeUtils.genericFactory(Type.TypeKind.Number, true),
+                "Text.Length is resolved by the standard library",
+            );
+        });
+
+        it(`the document shadows the library - let Text.Length = () => "a" in Text.Length()`, () => {
+            const expression: string = `let Text.Length = () => "a" in Text.Length()`;
+            const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Text, false);
+            expectParseOkNodeTypeEqual(expression, expected);
+        });
+
+        describe(`table schemas`, () => {
+            it(`#table({"a", "b"}, {})`, () => {
+                const expression: string = `#table({"a", "b"}, {})`;
+                const expected: Type.TType = TypeUtils.definedTableFactory(
+                    false,
+                    new Map<string, Type.TType>([
+                        ["a", TypeUtils.anyFactory()],
+                        ["b", TypeUtils.anyFactory()],
+                    ]),
+                    false,
+                );
+                expectParseOkNodeTypeEqual(expression, expected);
+            });
+
+            it(`Table.FromRecords({[a = 1], [a = "x", b = true]})`, () => {
+                const expression: string = `Table.FromRecords({[a = 1], [a = "x", b = true]})`;
+                const expected: Type.TType = TypeUtils.definedTableFactory(
+                    false,
+                    new Map<string, Type.TType>([
+                        [
+                            "a",
+                            TypeUtils.anyUnionFactory([
+                                TypeUtils.genericFactory(Type.TypeKind.Number, false),
+                                TypeUtils.genericFactory(Type.TypeKind.Text, false),
+                            ]),
+                        ],
+                        ["b", TypeUtils.genericFactory(Type.TypeKind.Logical, false)],
+                    ]),
+                    false,
+                );
+                expectParseOkNodeTypeEqual(expression, expected);
+            });
+
+            it(`a let chain of AddColumn, RenameColumns and RemoveColumns`, () => {
+                const expression: string = [
+                    `let`,
+                    `    source = #table(type table [a = number, b = text], {}),`,
+                    `    added = Table.AddColumn(source, "c", each [a] + 1),`,
+                    `    renamed = Table.RenameColumns(added, {{"b", "B"}, {"c", "C"}}),`,
+                    `    removed = Table.RemoveColumns(renamed, "a")`,
+                    `in`,
+                    `    removed`,
+                ].join("\n");
+                const expected: Type.TType = TypeUtils.definedTableFactory(
+                    false,
+                    new Map<string, Type.TType>([
+                        ["B", TypeUtils.genericFactory(Type.TypeKind.Text, false)],
+                        ["C", TypeUtils.genericFactory(Type.TypeKind.Number, false)],
+                    ]),
+                    false,
+                );
+                expectParseOkNodeTypeEqual(expression, expected);
+            });
+
+            it(`SelectColumns and TransformColumnTypes`, () => {
+                const expression: string = `Table.TransformColumnTypes(Table.SelectColumns(#table({"a", "b", "c"}, {}), {"c", "a"}), {"a", type number})`;
+                const expected: Type.TType = TypeUtils.definedTableFactory(
+                    false,
+                    new Map<string, Type.TType>([
+                        ["c", TypeUtils.anyFactory()],
+                        ["a", TypeUtils.genericFactory(Type.TypeKind.Number, false)],
+                    ]),
+                    false,
+                );
+                expectParseOkNodeTypeEqual(expression, expected);
+            });
+
+            it(`ExpandRecordColumn`, () => {
+                const expression: string = `Table.ExpandRecordColumn(Table.AddColumn(#table({"a"}, {}), "r", each [x = 1, y = "y"]), "r", {"x", "y"}, {"rx", "ry"})`;
+                const expected: Type.TType = TypeUtils.definedTableFactory(
+                    false,
+                    new Map<string, Type.TType>([
+                        ["a", TypeUtils.anyFactory()],
+                        ["rx", TypeUtils.genericFactory(Type.TypeKind.Number, false)],
+                        ["ry", TypeUtils.genericFactory(Type.TypeKind.Text, false)],
+                    ]),
+                    false,
+                );
+                expectParseOkNodeTypeEqual(expression, expected);
+            });
+
+            it(`a column name which isn't a literal falls back to the library's type`, () => {
+                const expression: string = `(name as text) => Table.AddColumn(#table({"a"}, {}), name, each 1)`;
+                const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Table, false);
+                expectParseOkReturnTypeEqual(expression, expected);
+            });
+        });
     });
 
     describe(`${Ast.NodeKind.IsExpression}`, () => {
@@ -670,13 +998,7 @@ describe(`Inspection - Scope - Type`, () => {
 
         it(`[foo=1] & [] as record`, () => {
             const expression: string = `[foo=1] & [] as record`;
-            const expected: Type.TType = {
-                kind: Type.TypeKind.Record,
-                maybeExtendedKind: Type.ExtendedTypeKind.DefinedRecord,
-                isNullable: false,
-                fields: new Map<string, Type.TType>([["foo", TypeUtils.genericFactory(Type.TypeKind.Number, false)]]),
-                isOpen: true,
-            };
+            const expected: Type.TType = TypeUtils.genericFactory(Type.TypeKind.Record, false);
             expectParseOkNodeTypeEqual(expression, expected);
         });
 
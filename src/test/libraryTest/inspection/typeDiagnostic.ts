@@ -0,0 +1,161 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Inspection, Task } from "../../..";
+import { ResultUtils } from "../../../common";
+import { TypeDiagnostic, TypeDiagnosticKind } from "../../../inspection";
+import { DefaultSettings } from "../../../settings";
+import { expectLexParseOk } from "../../common";
+
+type AbridgedTypeDiagnostic = [TypeDiagnosticKind, string, string];
+
+function expectAbridgedTypeDiagnostics(text: string): ReadonlyArray<AbridgedTypeDiagnostic> {
+    const lexParseOk: Task.LexParseOk = expectLexParseOk(DefaultSettings, text);
+    const triedTypeDiagnostics: Inspection.TriedTypeDiagnostics = Inspection.tryTypeDiagnostics(
+        DefaultSettings,
+        lexParseOk.state.contextState.nodeIdMapCollection,
+        lexParseOk.state.contextState.leafNodeIds,
+    );
+    if (!ResultUtils.isOk(triedTypeDiagnostics)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedTypeDiagnostics): ${triedTypeDiagnostics.error.message}`);
+    }
+
+    return triedTypeDiagnostics.value.map((typeDiagnostic: TypeDiagnostic) => [
+        typeDiagnostic.kind,
+        text.slice(typeDiagnostic.tokenRange.positionStart.codeUnit, typeDiagnostic.tokenRange.positionEnd.codeUnit),
+        typeDiagnostic.message,
+    ]);
+}
+
+describe(`Inspection - TypeDiagnostic`, () => {
+    it(`only the origin is reported - ("a" + 1) * 2`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.BinOpExpression, `"a" + 1`, `Cannot apply '+' to text and number`],
+        ];
+        expect(expectAbridgedTypeDiagnostics(`("a" + 1) * 2`)).to.deep.equal(expected);
+    });
+
+    it(`through a let variable - let a = "a" + 1, b = a + 1 in b`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.BinOpExpression, `"a" + 1`, `Cannot apply '+' to text and number`],
+        ];
+        expect(expectAbridgedTypeDiagnostics(`let a = "a" + 1, b = a + 1 in b`)).to.deep.equal(expected);
+    });
+
+    it(`null propagates - null + 1`, () => {
+        expect(expectAbridgedTypeDiagnostics(`null + 1`)).to.deep.equal([]);
+    });
+
+    it(`if condition`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.IfCondition, `"yes"`, `Condition must be logical, but is text`],
+        ];
+        expect(expectAbridgedTypeDiagnostics(`if "yes" then 1 else 2`)).to.deep.equal(expected);
+    });
+
+    it(`invoking a non-function`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.InvokeExpression, `()`, `Cannot invoke number as it isn't a function`],
+        ];
+        expect(expectAbridgedTypeDiagnostics(`let a = 1 in a()`)).to.deep.equal(expected);
+    });
+
+    it(`types are named as on hover - let a = [b = "b"] in a()`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.InvokeExpression, `()`, `Cannot invoke [b = text] as it isn't a function`],
+        ];
+        expect(expectAbridgedTypeDiagnostics(`let a = [b = "b"] in a()`)).to.deep.equal(expected);
+    });
+
+    describe(`invoke arguments`, () => {
+        const fn: string = `let f = (x as number, optional y as text) => x in`;
+
+        it(`too few arguments`, () => {
+            const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+                [TypeDiagnosticKind.TooFewArguments, `()`, `Expected at least 1 arguments, but got 0`],
+            ];
+            expect(expectAbridgedTypeDiagnostics(`${fn} f()`)).to.deep.equal(expected);
+        });
+
+        it(`too many arguments`, () => {
+            const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+                [TypeDiagnosticKind.TooManyArguments, `(1, "a", 2)`, `Expected at most 2 arguments, but got 3`],
+            ];
+            expect(expectAbridgedTypeDiagnostics(`${fn} f(1, "a", 2)`)).to.deep.equal(expected);
+        });
+
+        it(`argument type`, () => {
+            const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+                [TypeDiagnosticKind.ArgumentType, `1`, `The argument for y should be nullable text, but is number`],
+            ];
+            expect(expectAbridgedTypeDiagnostics(`${fn} f(1, 1)`)).to.deep.equal(expected);
+        });
+
+        it(`null for an optional parameter, and an untyped argument`, () => {
+            expect(expectAbridgedTypeDiagnostics(`(a) => ${fn} f(a, null)`)).to.deep.equal([]);
+        });
+
+        it(`library function - Text.Length()`, () => {
+            const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+                [TypeDiagnosticKind.TooFewArguments, `()`, `Expected at least 1 arguments, but got 0`],
+            ];
+            expect(expectAbridgedTypeDiagnostics(`Text.Length()`)).to.deep.equal(expected);
+        });
+
+        it(`library function - Text.Length(1)`, () => {
+            const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+                [TypeDiagnosticKind.ArgumentType, `1`, `The argument for text should be nullable text, but is number`],
+            ];
+            expect(expectAbridgedTypeDiagnostics(`Text.Length(1)`)).to.deep.equal(expected);
+        });
+
+        it(`each as a function argument - Table.AddColumn(#table({"a"}, {}), "b", each 1)`, () => {
+            expect(expectAbridgedTypeDiagnostics(`Table.AddColumn(#table({"a"}, {}), "b", each 1)`)).to.deep.equal([]);
+        });
+    });
+
+    it(`field access`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.MissingField, `[c]`, `The field c doesn't exist`],
+            [TypeDiagnosticKind.FieldAccess, `[a]`, `Cannot access a field of number`],
+        ];
+        expect(expectAbridgedTypeDiagnostics(`let n = 1 in {[a = 1, b = 2][c], n[a]}`)).to.deep.equal(expected);
+    });
+
+    it(`field access of an each row`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.MissingField, `[c]`, `The field c doesn't exist`],
+        ];
+        expect(
+            expectAbridgedTypeDiagnostics(`(t as table) => Table.SelectRows(t[[a], [b]], each [a] = 1 or [c] = 1)`),
+        ).to.deep.equal(expected);
+    });
+
+    it(`an accumulator's state and current item`, () => {
+        expect(
+            expectAbridgedTypeDiagnostics(
+                `List.Accumulate({1, 2}, "", (state, current) => state & Text.From(current))`,
+            ),
+        ).to.deep.equal([]);
+    });
+
+    it(`unary expression`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.UnaryExpression, `not 1`, `Cannot apply 'not' to number`],
+        ];
+        expect(expectAbridgedTypeDiagnostics(`not 1`)).to.deep.equal(expected);
+    });
+
+    it(`return type`, () => {
+        const expected: ReadonlyArray<AbridgedTypeDiagnostic> = [
+            [TypeDiagnosticKind.ReturnType, `"a"`, `The function should return number, but returns text`],
+        ];
+        expect(expectAbridgedTypeDiagnostics(`() as number => "a"`)).to.deep.equal(expected);
+    });
+
+    it(`operands which aren't known aren't reported - (x) => -x + 1`, () => {
+        expect(expectAbridgedTypeDiagnostics(`(x) => -x + 1`)).to.deep.equal([]);
+    });
+});
@@ -92,4 +92,241 @@ describe(`TypeUtils`, () => {
             expectGenericType(actual[0], Type.TypeKind.Record);
         });
     });
+
+    describe(`isCompatible`, () => {
+        const anyNonNullType: Type.AnyNonNull = TypeUtils.genericFactory(Type.TypeKind.AnyNonNull, false);
+        const nullType: Type.Null = TypeUtils.nullFactory();
+        const numberType: Type.Number = TypeUtils.genericFactory(Type.TypeKind.Number, false);
+        const nullableNumberType: Type.Number = TypeUtils.genericFactory(Type.TypeKind.Number, true);
+        const textType: Type.Text = TypeUtils.genericFactory(Type.TypeKind.Text, false);
+
+        function recordFactory(fields: ReadonlyArray<[string, Type.TType]>, isOpen: boolean): Type.DefinedRecord {
+            return TypeUtils.definedRecordFactory(false, new Map(fields), isOpen);
+        }
+
+        function functionFactory(
+            parameters: ReadonlyArray<[boolean, Type.TypeKind]>,
+            returnType: Type.TType,
+        ): Type.DefinedFunction {
+            return {
+                kind: Type.TypeKind.Function,
+                maybeExtendedKind: Type.ExtendedTypeKind.DefinedFunction,
+                isNullable: false,
+                parameters: parameters.map(([isOptional, typeKind]: [boolean, Type.TypeKind], index: number) => {
+                    return {
+                        nameLiteral: `p${index}`,
+                        isOptional,
+                        isNullable: isOptional,
+                        maybeType: typeKind,
+                    };
+                }),
+                returnType,
+            };
+        }
+
+        function expectCompatible(left: Type.TType, right: Type.TType, expected: boolean): void {
+            const message: string = `${TypeUtils.nameOf(left)} -> ${TypeUtils.nameOf(right)}`;
+            expect(TypeUtils.isCompatible(left, right)).to.equal(expected, message);
+        }
+
+        it(`nullable`, () => {
+            expectCompatible(numberType, nullableNumberType, true);
+            expectCompatible(nullableNumberType, numberType, false);
+            expectCompatible(nullType, nullableNumberType, true);
+            expectCompatible(nullType, numberType, false);
+            expectCompatible(numberType, textType, false);
+        });
+
+        it(`anynonnull`, () => {
+            expectCompatible(numberType, anyNonNullType, true);
+            expectCompatible(nullableNumberType, anyNonNullType, false);
+            expectCompatible(TypeUtils.anyFactory(), anyNonNullType, false);
+            expectCompatible(anyNonNullType, numberType, false);
+        });
+
+        it(`${Type.ExtendedTypeKind.AnyUnion}`, () => {
+            const unionType: Type.TType = TypeUtils.anyUnionFactory([numberType, textType]);
+            expectCompatible(textType, unionType, true);
+            expectCompatible(unionType, TypeUtils.anyUnionFactory([textType, numberType, nullType]), true);
+            expectCompatible(unionType, numberType, false);
+        });
+
+        it(`${Type.ExtendedTypeKind.DefinedRecord}`, () => {
+            const closedType: Type.DefinedRecord = recordFactory([["a", numberType]], false);
+            const openType: Type.DefinedRecord = recordFactory([["a", numberType]], true);
+            const widerType: Type.DefinedRecord = recordFactory(
+                [
+                    ["a", numberType],
+                    ["b", textType],
+                ],
+                false,
+            );
+            expectCompatible(widerType, openType, true);
+            expectCompatible(widerType, closedType, false);
+            expectCompatible(openType, closedType, false);
+            expectCompatible(closedType, recordFactory([["a", nullableNumberType]], false), true);
+            expectCompatible(closedType, widerType, false);
+            expectCompatible(TypeUtils.genericFactory(Type.TypeKind.Record, false), closedType, true);
+        });
+
+        it(`${Type.ExtendedTypeKind.DefinedFunction}`, () => {
+            const expectedType: Type.DefinedFunction = functionFactory(
+                [
+                    [false, Type.TypeKind.Number],
+                    [true, Type.TypeKind.Text],
+                ],
+                numberType,
+            );
+            expectCompatible(functionFactory([[false, Type.TypeKind.Number]], numberType), expectedType, false);
+            expectCompatible(
+                functionFactory(
+                    [
+                        [false, Type.TypeKind.Number],
+                        [true, Type.TypeKind.Text],
+                        [true, Type.TypeKind.Text],
+                    ],
+                    numberType,
+                ),
+                expectedType,
+                true,
+            );
+            expectCompatible(
+                functionFactory(
+                    [
+                        [false, Type.TypeKind.Number],
+                        [false, Type.TypeKind.Text],
+                    ],
+                    numberType,
+                ),
+                expectedType,
+                false,
+            );
+            expectCompatible(
+                functionFactory(
+                    [
+                        [false, Type.TypeKind.Number],
+                        [true, Type.TypeKind.Text],
+                    ],
+                    textType,
+                ),
+                expectedType,
+                false,
+            );
+        });
+
+        it(`${Type.ExtendedTypeKind.DefinedList}`, () => {
+            const listType: Type.DefinedList = {
+                kind: Type.TypeKind.List,
+                maybeExtendedKind: Type.ExtendedTypeKind.DefinedList,
+                isNullable: false,
+                elements: [numberType, textType],
+            };
+            expectCompatible(listType, { ...listType, elements: [nullableNumberType, textType] }, true);
+            expectCompatible(listType, { ...listType, elements: [textType, textType] }, false);
+            expectCompatible(listType, { ...listType, elements: [numberType] }, false);
+        });
+    });
+
+    describe(`nameOf`, () => {
+        const numberType: Type.Number = TypeUtils.genericFactory(Type.TypeKind.Number, false);
+        const nullableTextType: Type.Text = TypeUtils.genericFactory(Type.TypeKind.Text, true);
+        const recordType: Type.DefinedRecord = TypeUtils.definedRecordFactory(
+            false,
+            new Map<string, Type.TType>([
+                ["a", numberType],
+                ["b", nullableTextType],
+            ]),
+            true,
+        );
+        const functionType: Type.DefinedFunction = {
+            kind: Type.TypeKind.Function,
+            maybeExtendedKind: Type.ExtendedTypeKind.DefinedFunction,
+            isNullable: false,
+            parameters: [
+                {
+                    nameLiteral: "x",
+                    isOptional: false,
+                    isNullable: false,
+                    maybeType: Type.TypeKind.Number,
+                },
+                {
+                    nameLiteral: "y",
+                    isOptional: true,
+                    isNullable: false,
+                    maybeType: Type.TypeKind.Text,
+                },
+            ],
+            returnType: TypeUtils.genericFactory(Type.TypeKind.Logical, false),
+        };
+
+        it(`primitive`, () => {
+            const expected: string = `nullable text`;
+            expect(TypeUtils.nameOf(nullableTextType)).to.equal(expected);
+        });
+
+        it(`${Type.ExtendedTypeKind.DefinedRecord}`, () => {
+            const expected: string = `[a = number, b = nullable text, ...]`;
+            expect(TypeUtils.nameOf(recordType)).to.equal(expected);
+        });
+
+        it(`${Type.ExtendedTypeKind.DefinedTable}`, () => {
+            const tableType: Type.DefinedTable = TypeUtils.definedTableFactory(
+                false,
+                new Map<string, Type.TType>([["x", numberType]]),
+                false,
+            );
+            const expected: string = `table [x = number]`;
+            expect(TypeUtils.nameOf(tableType)).to.equal(expected);
+        });
+
+        it(`${Type.ExtendedTypeKind.DefinedFunction}`, () => {
+            const expected: string = `function (x as number, optional y as text) as logical`;
+            expect(TypeUtils.nameOf(functionType)).to.equal(expected);
+        });
+
+        it(`${Type.ExtendedTypeKind.DefinedList}`, () => {
+            const listType: Type.DefinedList = {
+                kind: Type.TypeKind.List,
+                maybeExtendedKind: Type.ExtendedTypeKind.DefinedList,
+                isNullable: false,
+                elements: [numberType, numberType],
+            };
+            const expected: string = `{number}`;
+            expect(TypeUtils.nameOf(listType)).to.equal(expected);
+        });
+
+        it(`${Type.ExtendedTypeKind.AnyUnion}`, () => {
+            const unionType: Type.TType = TypeUtils.anyUnionFactory([numberType, nullableTextType]);
+            const expected: string = `number | nullable text`;
+            expect(TypeUtils.nameOf(unionType)).to.equal(expected);
+        });
+
+        it(`quoted field name`, () => {
+            const quotedRecordType: Type.DefinedRecord = TypeUtils.definedRecordFactory(
+                false,
+                new Map<string, Type.TType>([["a+b", numberType]]),
+                false,
+            );
+            const expected: string = `[#"a+b" = number]`;
+            expect(TypeUtils.nameOf(quotedRecordType)).to.equal(expected);
+        });
+
+        it(`maxWidth`, () => {
+            const expected: string = [
+                `function (`,
+                `    x as number,`,
+                `    optional y as text`,
+                `) as [`,
+                `    a = number,`,
+                `    b = nullable text,`,
+                `    ...`,
+                `]`,
+            ].join("\n");
+            const wideFunctionType: Type.DefinedFunction = {
+                ...functionType,
+                returnType: recordType,
+            };
+            expect(TypeUtils.nameOf(wideFunctionType, 20)).to.equal(expected);
+        });
+    });
 });
@@ -0,0 +1,219 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Language, Lint } from "../../..";
+import { ResultUtils } from "../../../common";
+
+type AbridgedDiagnostic = [string, string, Lint.LintSeverity];
+
+function expectAbridgedDiagnostics(
+    text: string,
+    settings: Lint.LintSettings = Lint.DefaultLintSettings,
+): ReadonlyArray<AbridgedDiagnostic> {
+    const triedLint: Lint.TriedLint = Lint.tryLint(settings, text);
+    if (!ResultUtils.isOk(triedLint)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedLint): ${triedLint.error.message}`);
+    }
+
+    return triedLint.value.map((diagnostic: Lint.LintDiagnostic) => [
+        diagnostic.code,
+        text.slice(diagnostic.tokenRange.positionStart.codeUnit, diagnostic.tokenRange.positionEnd.codeUnit),
+        diagnostic.severity,
+    ]);
+}
+
+function settingsWith(code: string, configuration: Lint.LintRuleConfiguration): Lint.LintSettings {
+    return {
+        ...Lint.DefaultLintSettings,
+        ruleConfigurationByCode: new Map([[code, configuration]]),
+    };
+}
+
+describe(`Lint`, () => {
+    describe(`unused-let-binding`, () => {
+        it(`let a = 1, b = a, c = 3 in b`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`unused-let-binding`, `c`, Lint.LintSeverity.Warning],
+            ];
+            expect(expectAbridgedDiagnostics(`let a = 1, b = a, c = 3 in b`)).to.deep.equal(expected);
+        });
+
+        it(`quoted identifier - let #"a" = 1 in a`, () => {
+            expect(expectAbridgedDiagnostics(`let #"a" = 1 in a`)).to.deep.equal([]);
+        });
+
+        it(`inclusive identifier - let a = 1, b = @a in b`, () => {
+            expect(expectAbridgedDiagnostics(`let a = 1, b = @a in b`)).to.deep.equal([]);
+        });
+    });
+
+    describe(`unreachable-let-binding`, () => {
+        it(`dead steps`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`unreachable-let-binding`, `#"Changed Type"`, Lint.LintSeverity.Warning],
+                [`unused-let-binding`, `#"Changed Type1"`, Lint.LintSeverity.Warning],
+            ];
+            const text: string = [
+                `let`,
+                `    Source = {1, 2},`,
+                `    #"Changed Type" = List.Reverse(Source),`,
+                `    #"Changed Type1" = List.Sort(#"Changed Type"),`,
+                `    Result = List.Count(Source)`,
+                `in`,
+                `    Result`,
+            ].join("\n");
+            expect(expectAbridgedDiagnostics(text)).to.deep.equal(expected);
+        });
+
+        it(`recursive - let f = (n) => @f(n) in 1`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`unreachable-let-binding`, `f`, Lint.LintSeverity.Warning],
+            ];
+            expect(expectAbridgedDiagnostics(`let f = (n) => @f(n) in 1`)).to.deep.equal(expected);
+        });
+
+        it(`transitively reachable - let a = 1, b = let c = a in c in b`, () => {
+            expect(expectAbridgedDiagnostics(`let a = 1, b = let c = a in c in b`)).to.deep.equal([]);
+        });
+    });
+
+    describe(`unused-parameter`, () => {
+        it(`(x, y) => y`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [[`unused-parameter`, `x`, Lint.LintSeverity.Warning]];
+            expect(expectAbridgedDiagnostics(`(x, y) => y`)).to.deep.equal(expected);
+        });
+    });
+
+    describe(`unused-section-member`, () => {
+        it(`section foo; a = 1; b = 2; shared c = b;`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`unused-section-member`, `a`, Lint.LintSeverity.Warning],
+            ];
+            const actual: ReadonlyArray<AbridgedDiagnostic> = expectAbridgedDiagnostics(
+                `section foo; a = 1; b = 2; shared c = b;`,
+            );
+            expect(actual).to.deep.equal(expected);
+        });
+    });
+
+    describe(`shadowed-identifier`, () => {
+        it(`let a = 1, b = (a) => let b = a in b in b(a)`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`shadowed-identifier`, `a`, Lint.LintSeverity.Warning],
+                [`shadowed-identifier`, `b`, Lint.LintSeverity.Warning],
+            ];
+            const actual: ReadonlyArray<AbridgedDiagnostic> = expectAbridgedDiagnostics(
+                `let a = 1, b = (a) => let b = a in b in b(a)`,
+            );
+            expect(actual).to.deep.equal(expected);
+        });
+
+        it(`section member - section foo; shared a = 1; shared b = (#"a") => #"a";`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`shadowed-identifier`, `#"a"`, Lint.LintSeverity.Warning],
+            ];
+            const actual: ReadonlyArray<AbridgedDiagnostic> = expectAbridgedDiagnostics(
+                `section foo; shared a = 1; shared b = (#"a") => #"a";`,
+            );
+            expect(actual).to.deep.equal(expected);
+        });
+    });
+
+    describe(`non-logical-if-condition`, () => {
+        it(`if 1 then "a" else "b"`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`non-logical-if-condition`, `1`, Lint.LintSeverity.Error],
+            ];
+            expect(expectAbridgedDiagnostics(`if 1 then "a" else "b"`)).to.deep.equal(expected);
+        });
+
+        it(`logical and untyped conditions`, () => {
+            expect(expectAbridgedDiagnostics(`(x) => if x and 1 > 2 then "a" else "b"`)).to.deep.equal([]);
+        });
+    });
+
+    describe(`duplicate-record-key`, () => {
+        it(`[a = 1, b = 2, #"a" = 3]`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`duplicate-record-key`, `#"a"`, Lint.LintSeverity.Error],
+            ];
+            expect(expectAbridgedDiagnostics(`[a = 1, b = 2, #"a" = 3]`)).to.deep.equal(expected);
+        });
+
+        it(`record type`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`duplicate-record-key`, `a`, Lint.LintSeverity.Error],
+            ];
+            expect(expectAbridgedDiagnostics(`type [a = number, a = text]`)).to.deep.equal(expected);
+        });
+    });
+
+    describe(`configuration`, () => {
+        it(`severity override`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [[`unused-let-binding`, `a`, Lint.LintSeverity.Hint]];
+            const settings: Lint.LintSettings = settingsWith(`unused-let-binding`, {
+                isEnabled: true,
+                maybeSeverity: Lint.LintSeverity.Hint,
+            });
+            expect(expectAbridgedDiagnostics(`let a = 1 in 2`, settings)).to.deep.equal(expected);
+        });
+
+        it(`disabled rule`, () => {
+            const settings: Lint.LintSettings = settingsWith(`unused-let-binding`, {
+                isEnabled: false,
+                maybeSeverity: undefined,
+            });
+            expect(expectAbridgedDiagnostics(`let a = 1 in 2`, settings)).to.deep.equal([]);
+        });
+
+        it(`custom rule`, () => {
+            const rule: Lint.LintRule = {
+                code: `no-each`,
+                defaultSeverity: Lint.LintSeverity.Information,
+                nodeKinds: [Language.Ast.NodeKind.EachExpression],
+                visitNode: (context: Lint.LintContext, node: Language.Ast.TNode) =>
+                    context.report(node.tokenRange, `each`),
+            };
+            const settings: Lint.LintSettings = {
+                ...Lint.DefaultLintSettings,
+                rules: [rule],
+            };
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [[`no-each`, `each 1`, Lint.LintSeverity.Information]];
+            expect(expectAbridgedDiagnostics(`{each 1}`, settings)).to.deep.equal(expected);
+        });
+    });
+
+    describe(`comments`, () => {
+        it(`lint-disable and lint-enable`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`duplicate-record-key`, `a`, Lint.LintSeverity.Error],
+            ];
+            const text: string = `[a = 1, /* lint-disable */ a = 2, /* lint-enable */ a = 3]`;
+            expect(expectAbridgedDiagnostics(text)).to.deep.equal(expected);
+        });
+
+        it(`lint-disable for a code`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`non-logical-if-condition`, `1`, Lint.LintSeverity.Error],
+            ];
+            const text: string = `// lint-disable unused-let-binding, shadowed-identifier\nlet a = if 1 then 2 else 3 in 4`;
+            expect(expectAbridgedDiagnostics(text)).to.deep.equal(expected);
+        });
+
+        it(`lint-disable-next-line`, () => {
+            const expected: ReadonlyArray<AbridgedDiagnostic> = [
+                [`unused-let-binding`, `c`, Lint.LintSeverity.Warning],
+            ];
+            const text: string = `let\n    // lint-disable-next-line unused-let-binding\n    a = 1, b = 2,\n    c = 3\nin\n    4`;
+            const actual: ReadonlyArray<AbridgedDiagnostic> = expectAbridgedDiagnostics(text);
+            expect(actual).to.deep.equal(expected);
+        });
+    });
+
+    it(`parse error`, () => {
+        const triedLint: Lint.TriedLint = Lint.tryLint(Lint.DefaultLintSettings, `let a = 1,`);
+        expect(ResultUtils.isErr(triedLint)).to.equal(true, `a parse error should be returned`);
+    });
+});
@@ -0,0 +1,195 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Task } from "../../..";
+import { ResultUtils } from "../../../common";
+import { Ast } from "../../../language";
+import { Lexer } from "../../../lexer";
+import { IParserState, NodeIdMap, NodeIdMapUtils, ParseError } from "../../../parser";
+import { DefaultSettings } from "../../../settings";
+
+interface Reparse {
+    readonly previousLexParseOk: Task.LexParseOk<IParserState>;
+    readonly triedLexReparse: Task.TriedLexReparse<IParserState>;
+    readonly newText: string;
+}
+
+// Applies the edit to a single line document, replacing the code units from start to end with text.
+function reparse(previousText: string, start: number, end: number, text: string): Reparse {
+    const triedLexParse: Task.TriedLexParse<IParserState> = Task.tryLexParse(DefaultSettings, previousText);
+    if (!ResultUtils.isOk(triedLexParse)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedLexParse): ${triedLexParse.error.message}`);
+    }
+
+    const range: Lexer.Range = {
+        start: { lineNumber: 0, lineCodeUnit: start },
+        end: { lineNumber: 0, lineCodeUnit: end },
+    };
+    return {
+        previousLexParseOk: triedLexParse.value,
+        triedLexReparse: Task.tryLexReparse(
+            DefaultSettings,
+            Lexer.stateFrom(DefaultSettings, previousText),
+            ResultUtils.okFactory(triedLexParse.value),
+            range,
+            text,
+        ),
+        newText: previousText.slice(0, start) + text + previousText.slice(end),
+    };
+}
+
+function expectLexReparseOk(reparsed: Reparse): Task.LexReparseOk<IParserState> {
+    const triedLexReparse: Task.TriedLexReparse<IParserState> = reparsed.triedLexReparse;
+    if (!ResultUtils.isOk(triedLexReparse)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedLexReparse): ${triedLexReparse.error.message}`);
+    }
+    return triedLexReparse.value;
+}
+
+// An incremental parse should be indistinguishable from a full parse of the same text, other than node ids.
+function expectSameAsFullParse(reparsed: Reparse): Task.LexReparseOk<IParserState> {
+    const lexReparseOk: Task.LexReparseOk<IParserState> = expectLexReparseOk(reparsed);
+    const triedLexParse: Task.TriedLexParse<IParserState> = Task.tryLexParse(DefaultSettings, reparsed.newText);
+    if (!ResultUtils.isOk(triedLexParse)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedLexParse): ${triedLexParse.error.message}`);
+    }
+    const lexParseOk: Task.LexParseOk<IParserState> = triedLexParse.value;
+
+    expect(abridgedAst(lexReparseOk.ast)).to.equal(abridgedAst(lexParseOk.ast));
+    expect(abridgedCollection(lexReparseOk.state.contextState.nodeIdMapCollection, lexReparseOk.ast.id)).to.equal(
+        abridgedCollection(lexParseOk.state.contextState.nodeIdMapCollection, lexParseOk.ast.id),
+    );
+    expect(abridgedLeafs(lexReparseOk)).to.deep.equal(abridgedLeafs(lexParseOk));
+
+    return lexReparseOk;
+}
+
+function abridgedAst(node: Ast.TNode): string {
+    return JSON.stringify(node, (key: string, value: unknown) => (key === "id" ? undefined : value));
+}
+
+// The nodes as reachable through childIdsById, along with checking parentIdById agrees with it.
+function abridgedCollection(nodeIdMapCollection: NodeIdMap.Collection, nodeId: number): string {
+    const node: Ast.TNode = NodeIdMapUtils.expectAstNode(nodeIdMapCollection.astNodeById, nodeId);
+    expect(node.id).to.equal(nodeId);
+
+    const childIds: ReadonlyArray<number> = nodeIdMapCollection.childIdsById.get(nodeId) || [];
+    for (const childId of childIds) {
+        expect(nodeIdMapCollection.parentIdById.get(childId)).to.equal(nodeId);
+    }
+
+    return `${node.kind}(${childIds
+        .map((childId: number) => abridgedCollection(nodeIdMapCollection, childId))
+        .join(",")})`;
+}
+
+function abridgedLeafs(parseOk: Task.LexParseOk<IParserState>): ReadonlyArray<number> {
+    const nodeIdMapCollection: NodeIdMap.Collection = parseOk.state.contextState.nodeIdMapCollection;
+    return parseOk.state.contextState.leafNodeIds.map(
+        (nodeId: number) =>
+            NodeIdMapUtils.expectAstNode(nodeIdMapCollection.astNodeById, nodeId).tokenRange.tokenIndexStart,
+    );
+}
+
+function expectNoReusedIds(reparsed: Reparse): void {
+    const lexReparseOk: Task.LexReparseOk<IParserState> = expectLexReparseOk(reparsed);
+    const astNodeById: NodeIdMap.AstNodeById = lexReparseOk.state.contextState.nodeIdMapCollection.astNodeById;
+    for (const nodeId of lexReparseOk.removedNodeIds) {
+        expect(astNodeById.has(nodeId)).to.equal(false, `nodeId ${nodeId} was reused`);
+    }
+}
+
+describe("Parser.Incremental", () => {
+    it(`let a = 1, b = 2 in b -> let a = 1, b = 2 + 3 in b`, () => {
+        const reparsed: Reparse = reparse(`let a = 1, b = 2 in b`, 15, 16, `2 + 3`);
+        const lexReparseOk: Task.LexReparseOk<IParserState> = expectSameAsFullParse(reparsed);
+        expectNoReusedIds(reparsed);
+
+        // Only the literal `2` was read again.
+        expect(lexReparseOk.removedNodeIds.length).to.equal(1);
+
+        // Nodes before the edit are reused as is.
+        const previousLetExpression: Ast.LetExpression = reparsed.previousLexParseOk.ast as Ast.LetExpression;
+        const letExpression: Ast.LetExpression = lexReparseOk.ast as Ast.LetExpression;
+        expect(letExpression).to.not.equal(previousLetExpression);
+        expect(letExpression.letConstant).to.equal(previousLetExpression.letConstant);
+        expect(letExpression.variableList.elements[0]).to.equal(previousLetExpression.variableList.elements[0]);
+    });
+
+    it(`section foo; x = 1; y = 2; -> section foo; x = 1; y = 2 * x;`, () => {
+        const reparsed: Reparse = reparse(`section foo; x = 1; y = 2;`, 25, 25, ` * x`);
+        const lexReparseOk: Task.LexReparseOk<IParserState> = expectSameAsFullParse(reparsed);
+        expectNoReusedIds(reparsed);
+
+        const previousSection: Ast.Section = reparsed.previousLexParseOk.ast as Ast.Section;
+        const section: Ast.Section = lexReparseOk.ast as Ast.Section;
+        expect(section.sectionMembers.elements[0]).to.equal(previousSection.sectionMembers.elements[0]);
+    });
+
+    it(`whitespace only edit`, () => {
+        const reparsed: Reparse = reparse(`let a = 1 in a`, 9, 9, `   `);
+        const lexReparseOk: Task.LexReparseOk<IParserState> = expectSameAsFullParse(reparsed);
+        expect(lexReparseOk.removedNodeIds).to.deep.equal([]);
+        expect(lexReparseOk.changedNodeIds).to.deep.equal([]);
+    });
+
+    it(`edit inside an empty node - let a = {}, b = 1 in b`, () => {
+        const reparsed: Reparse = reparse(`let a = {}, b = 1 in b`, 9, 9, ` `);
+        const lexReparseOk: Task.LexReparseOk<IParserState> = expectSameAsFullParse(reparsed);
+
+        // An empty range is positioned at the token which follows it, which is `}`.
+        const letExpression: Ast.LetExpression = lexReparseOk.ast as Ast.LetExpression;
+        const listExpression: Ast.ListExpression = letExpression.variableList.elements[0].node
+            .value as Ast.ListExpression;
+        expect(listExpression.content.tokenRange.positionStart.codeUnit).to.equal(10);
+    });
+
+    it(`edit after every node is shifted`, () => {
+        const reparsed: Reparse = reparse(`{1, 2, 3}`, 1, 2, `10 + 1`);
+        const lexReparseOk: Task.LexReparseOk<IParserState> = expectSameAsFullParse(reparsed);
+        expectNoReusedIds(reparsed);
+        expect(lexReparseOk.ast.tokenRange.tokenIndexEnd).to.equal(8);
+    });
+
+    it(`edit which changes the enclosing construct`, () => {
+        const reparsed: Reparse = reparse(`let a = 1 in a`, 9, 9, `, b = 2`);
+        expectSameAsFullParse(reparsed);
+        expectNoReusedIds(reparsed);
+    });
+
+    it(`previous parse error`, () => {
+        const previousText: string = `let a = 1, in a`;
+        const triedLexParse: Task.TriedLexParse<IParserState> = Task.tryLexParse(DefaultSettings, previousText);
+        if (!ResultUtils.isErr(triedLexParse)) {
+            throw new Error(`AssertFailed: ResultUtils.isErr(triedLexParse)`);
+        }
+        if (!(triedLexParse.error instanceof ParseError.ParseError)) {
+            throw new Error(`AssertFailed: triedLexParse.error instanceof ParseError.ParseError`);
+        }
+
+        const triedLexReparse: Task.TriedLexReparse<IParserState> = Task.tryLexReparse(
+            DefaultSettings,
+            Lexer.stateFrom(DefaultSettings, previousText),
+            ResultUtils.errFactory(triedLexParse.error),
+            {
+                start: { lineNumber: 0, lineCodeUnit: 9 },
+                end: { lineNumber: 0, lineCodeUnit: 10 },
+            },
+            ``,
+        );
+        if (!ResultUtils.isOk(triedLexReparse)) {
+            throw new Error(`AssertFailed: ResultUtils.isOk(triedLexReparse): ${triedLexReparse.error.message}`);
+        }
+        expect(triedLexReparse.value.ast.kind).to.equal(Ast.NodeKind.LetExpression);
+        expect(triedLexReparse.value.changedNodeIds.length).to.equal(
+            triedLexReparse.value.state.contextState.nodeIdMapCollection.astNodeById.size,
+        );
+    });
+
+    it(`edit which causes a parse error`, () => {
+        const reparsed: Reparse = reparse(`let a = 1 in a`, 9, 9, `,`);
+        expect(ResultUtils.isErr(reparsed.triedLexReparse)).to.equal(true, `reparse should fail`);
+    });
+});
@@ -0,0 +1,72 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Task } from "../../..";
+import { Ast, AstUtils } from "../../../language";
+import { IParser, IParserState, Parser } from "../../../parser";
+import { DefaultSettings, Settings } from "../../../settings";
+import { expectLexParseOk } from "../../common";
+
+const parsers: ReadonlyArray<[IParser<IParserState>, string]> = [
+    [Parser.CombinatorialParser, "CombinatorialParser"],
+    [Parser.RecursiveDescentParser, "RecursiveDescentParser"],
+];
+
+// Wraps each TBinOpExpression in parentheses, eg. `1 + 2 * 3` becomes `(1 + (2 * 3))`.
+function parenthesized(text: string, node: Ast.TNode): string {
+    if (AstUtils.isTBinOpExpression(node)) {
+        return `(${parenthesized(text, node.left)} ${node.operatorConstant.constantKind} ${parenthesized(
+            text,
+            node.right,
+        )})`;
+    }
+
+    return text.slice(node.tokenRange.positionStart.codeUnit, node.tokenRange.positionEnd.codeUnit);
+}
+
+function expectParenthesized(text: string, expected: string): void {
+    for (const [parser, parserName] of parsers) {
+        const settings: Settings = {
+            ...DefaultSettings,
+            parser,
+        };
+        const lexParseOk: Task.LexParseOk = expectLexParseOk(settings, text);
+        expect(parenthesized(text, lexParseOk.ast)).to.equal(expected, parserName);
+    }
+}
+
+describe("Parser.Precedence", () => {
+    it(`1 + 2 * 3`, () => {
+        expectParenthesized(`1 + 2 * 3`, `(1 + (2 * 3))`);
+    });
+
+    it(`1 * 2 + 3`, () => {
+        expectParenthesized(`1 * 2 + 3`, `((1 * 2) + 3)`);
+    });
+
+    it(`1 - 2 + 3 * 4 / 5`, () => {
+        expectParenthesized(`1 - 2 + 3 * 4 / 5`, `((1 - 2) + ((3 * 4) / 5))`);
+    });
+
+    it(`"a" & "b" = "ab" and 1 + 1 < 3`, () => {
+        expectParenthesized(`"a" & "b" = "ab" and 1 + 1 < 3`, `((("a" & "b") = "ab") and ((1 + 1) < 3))`);
+    });
+
+    it(`a or b and c <> d`, () => {
+        expectParenthesized(`a or b and c <> d`, `(a or (b and (c <> d)))`);
+    });
+
+    it(`a and b or c`, () => {
+        expectParenthesized(`a and b or c`, `((a and b) or c)`);
+    });
+
+    it(`1 + 2 as number`, () => {
+        expectParenthesized(`1 + 2 as number`, `((1 + 2) as number)`);
+    });
+
+    it(`1 meta [a = 1] + 2`, () => {
+        expectParenthesized(`1 meta [a = 1] + 2`, `((1 meta [a = 1]) + 2)`);
+    });
+});
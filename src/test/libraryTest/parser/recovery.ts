@@ -0,0 +1,99 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Task } from "../../..";
+import { ResultUtils } from "../../../common";
+import { Ast } from "../../../language";
+import { LexerSnapshot, TriedLexerSnapshot } from "../../../lexer";
+import { IParserState, ParseError, RecoveringParseOk, TriedRecoveringParse } from "../../../parser";
+import { DefaultSettings } from "../../../settings";
+
+function expectRecoveringParseOk(text: string): RecoveringParseOk<IParserState> {
+    const triedSnapshot: TriedLexerSnapshot = Task.tryLex(DefaultSettings, text);
+    if (!ResultUtils.isOk(triedSnapshot)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedSnapshot): ${triedSnapshot.error.message}`);
+    }
+    const lexerSnapshot: LexerSnapshot = triedSnapshot.value;
+
+    const triedParse: TriedRecoveringParse<IParserState> = Task.tryParseWithRecovery(DefaultSettings, lexerSnapshot);
+    if (!ResultUtils.isOk(triedParse)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedParse): ${triedParse.error.message}`);
+    }
+    return triedParse.value;
+}
+
+function expectErrorPlaceholderCount(parseOk: RecoveringParseOk<IParserState>, expected: number): void {
+    const astNodes: ReadonlyArray<Ast.TNode> = [...parseOk.state.contextState.nodeIdMapCollection.astNodeById.values()];
+    const placeholders: ReadonlyArray<Ast.TNode> = astNodes.filter(
+        (node: Ast.TNode) => node.kind === Ast.NodeKind.ErrorPlaceholder,
+    );
+    expect(placeholders.length).to.equal(expected);
+}
+
+describe("Parser.Recovery", () => {
+    it("no errors: let a = 1 in a", () => {
+        const parseOk: RecoveringParseOk<IParserState> = expectRecoveringParseOk("let a = 1 in a");
+        expect(parseOk.errors.length).to.equal(0);
+        expectErrorPlaceholderCount(parseOk, 0);
+    });
+
+    it("resync on comma and in: let a = 1 *, b = in a", () => {
+        const parseOk: RecoveringParseOk<IParserState> = expectRecoveringParseOk("let a = 1 *, b = in a");
+        expect(parseOk.ast.kind).to.equal(Ast.NodeKind.LetExpression);
+        expect(parseOk.errors.length).to.equal(2);
+        expectErrorPlaceholderCount(parseOk, 2);
+    });
+
+    it("resync on closing brackets: {1, *, [a = *]}", () => {
+        const parseOk: RecoveringParseOk<IParserState> = expectRecoveringParseOk("{1, *, [a = *]}");
+        expect(parseOk.ast.kind).to.equal(Ast.NodeKind.ListExpression);
+        expect(parseOk.errors.length).to.equal(2);
+        expectErrorPlaceholderCount(parseOk, 2);
+    });
+
+    it("resync on semicolon: section foo; a = *; b = 1; c = if;", () => {
+        const parseOk: RecoveringParseOk<IParserState> = expectRecoveringParseOk("section foo; a = *; b = 1; c = if;");
+        expect(parseOk.ast.kind).to.equal(Ast.NodeKind.Section);
+        expect(parseOk.errors.length).to.equal(2);
+        expectErrorPlaceholderCount(parseOk, 2);
+    });
+
+    it("resync on then and else: if 1 then * else *", () => {
+        const parseOk: RecoveringParseOk<IParserState> = expectRecoveringParseOk("if 1 then * else *");
+        expect(parseOk.ast.kind).to.equal(Ast.NodeKind.IfExpression);
+        expect(parseOk.errors.length).to.equal(2);
+        expectErrorPlaceholderCount(parseOk, 2);
+    });
+
+    it("resync after a stray in: {* (a in b), 1 +, 2}", () => {
+        const parseOk: RecoveringParseOk<IParserState> = expectRecoveringParseOk("{* (a in b), 1 +, 2}");
+        expect(parseOk.ast.kind).to.equal(Ast.NodeKind.ListExpression);
+        expect(parseOk.errors.length).to.equal(2);
+        expectErrorPlaceholderCount(parseOk, 2);
+    });
+
+    it("skip a mismatched closing bracket: [a = , b = 2, c = )]", () => {
+        const parseOk: RecoveringParseOk<IParserState> = expectRecoveringParseOk("[a = , b = 2, c = )]");
+        expect(parseOk.ast.kind).to.equal(Ast.NodeKind.RecordExpression);
+        expect(parseOk.errors.length).to.equal(2);
+        expectErrorPlaceholderCount(parseOk, 2);
+    });
+
+    it("unrecoverable error: 1 )", () => {
+        const triedSnapshot: TriedLexerSnapshot = Task.tryLex(DefaultSettings, "1 )");
+        if (!ResultUtils.isOk(triedSnapshot)) {
+            throw new Error(`AssertFailed: ResultUtils.isOk(triedSnapshot): ${triedSnapshot.error.message}`);
+        }
+
+        const triedParse: TriedRecoveringParse<IParserState> = Task.tryParseWithRecovery(
+            DefaultSettings,
+            triedSnapshot.value,
+        );
+        if (!ResultUtils.isErr(triedParse)) {
+            throw new Error(`AssertFailed: ResultUtils.isErr(triedParse)`);
+        }
+        expect(triedParse.error instanceof ParseError.ParseError).to.equal(true, triedParse.error.message);
+    });
+});
@@ -214,6 +214,23 @@ describe("Parser.AbridgedNode", () => {
             ];
             expectAbridgeNodes(text, expected);
         });
+
+        it(`1 + 2 * 3`, () => {
+            const text: string = `1 + 2 * 3`;
+            const expected: ReadonlyArray<AbridgedNode> = [
+                [Ast.NodeKind.ArithmeticExpression, undefined],
+                [Ast.NodeKind.LiteralExpression, 0],
+                [Ast.NodeKind.Constant, 1],
+                [Ast.NodeKind.ArithmeticExpression, 2],
+                [Ast.NodeKind.LiteralExpression, 0],
+                [Ast.NodeKind.Constant, 1],
+                [Ast.NodeKind.LiteralExpression, 2],
+            ];
+            expectAbridgeNodes(text, expected);
+
+            const operatorNode: Ast.TConstant = expectNthNodeOfKind<Ast.TConstant>(text, Ast.NodeKind.Constant, 1);
+            expect(operatorNode.constantKind).to.equal(Ast.ArithmeticOperatorKind.Addition);
+        });
     });
 
     describe(`${Ast.NodeKind.AsExpression}`, () => {
@@ -0,0 +1,145 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Inspection, Refactor } from "../../..";
+import { ResultUtils } from "../../../common";
+import { DefaultSettings } from "../../../settings";
+import { expectTextWithPosition } from "../../common";
+
+function expectRenamed(textWithPipe: string, newName: string): string {
+    const [text, position]: [string, Inspection.Position] = expectTextWithPosition(textWithPipe);
+    const triedRename: Refactor.TriedRename = Refactor.tryRename(DefaultSettings, text, position, newName);
+    if (!ResultUtils.isOk(triedRename)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedRename): ${triedRename.error.message}`);
+    }
+
+    return Refactor.applyTextEdits(text, triedRename.value);
+}
+
+function expectRenameErrorKind(textWithPipe: string, newName: string): Refactor.RefactorError.RenameErrorKind {
+    const [text, position]: [string, Inspection.Position] = expectTextWithPosition(textWithPipe);
+    const triedRename: Refactor.TriedRename = Refactor.tryRename(DefaultSettings, text, position, newName);
+    if (!ResultUtils.isErr(triedRename)) {
+        throw new Error(`AssertFailed: ResultUtils.isErr(triedRename)`);
+    }
+    if (!(triedRename.error instanceof Refactor.RefactorError.RenameError)) {
+        throw new Error(`AssertFailed: triedRename.error instanceof RenameError: ${triedRename.error.message}`);
+    }
+
+    return triedRename.error.kind;
+}
+
+describe("Refactor.Rename", () => {
+    it("let variable", () => {
+        expect(expectRenamed("let x| = 1, y = x in x", "foo")).to.equal("let foo = 1, y = foo in foo");
+    });
+
+    it("parameter", () => {
+        expect(expectRenamed("(a, b) => a| + b", "c")).to.equal("(c, b) => c + b");
+    });
+
+    it("record field key", () => {
+        expect(expectRenamed("[a| = 1, b = a]", "c")).to.equal("[c = 1, b = c]");
+    });
+
+    it("section member", () => {
+        expect(expectRenamed("section foo; x = 1; y = x|;", "z")).to.equal("section foo; z = 1; y = z;");
+    });
+
+    it("inclusive identifier", () => {
+        expect(expectRenamed("let f = (n) => @f|(n) in f", "g")).to.equal("let g = (n) => @g(n) in g");
+    });
+
+    it("inclusive identifier to a sibling", () => {
+        expect(expectRenamed("let a| = 1, b = @a in b", "z")).to.equal("let z = 1, b = @z in b");
+    });
+
+    it("inclusive identifier in the body", () => {
+        expect(expectRenamed("let a = 1 in @a|", "z")).to.equal("let z = 1 in @z");
+    });
+
+    it("quotes the new name when needed", () => {
+        expect(expectRenamed("let x| = 1 in x", "foo bar")).to.equal(`let #"foo bar" = 1 in #"foo bar"`);
+        expect(expectRenamed("let x| = 1 in x", "let")).to.equal(`let #"let" = 1 in #"let"`);
+        expect(expectRenamed("let x| = 1 in x", `a"b`)).to.equal(`let #"a""b" = 1 in #"a""b"`);
+    });
+
+    it("record field key with an unrelated field access", () => {
+        expect(expectRenamed("[a| = 1, b = a][b]", "c")).to.equal("[c = 1, b = c][b]");
+    });
+
+    it("generalized identifier keys don't need quoting", () => {
+        expect(expectRenamed("[a| = 1]", "foo bar")).to.equal("[foo bar = 1]");
+    });
+
+    it("quoted identifier", () => {
+        expect(expectRenamed(`let #"x"| = 1 in x`, "y")).to.equal("let y = 1 in y");
+    });
+
+    it("only edits what changes", () => {
+        const [text, position]: [string, Inspection.Position] = expectTextWithPosition(`let x| = 1 in #"x"`);
+        const triedRename: Refactor.TriedRename = Refactor.tryRename(DefaultSettings, text, position, "x");
+        if (!ResultUtils.isOk(triedRename)) {
+            throw new Error(`AssertFailed: ResultUtils.isOk(triedRename): ${triedRename.error.message}`);
+        }
+        expect(triedRename.value.length).to.equal(1);
+    });
+
+    it("shadowing in nested lets", () => {
+        expect(expectRenamed("let x = 1, y = let x| = 2 in x in x", "z")).to.equal(
+            "let x = 1, y = let z = 2 in z in x",
+        );
+    });
+
+    it("NoIdentifier: each _|", () => {
+        expect(expectRenameErrorKind("each _|", "x")).to.equal(Refactor.RefactorError.RenameErrorKind.NoIdentifier);
+    });
+
+    it("NoIdentifier: Text.Length|", () => {
+        expect(expectRenameErrorKind("Text.Length|", "x")).to.equal(
+            Refactor.RefactorError.RenameErrorKind.NoIdentifier,
+        );
+    });
+
+    it("EmptyName: let x| = 1 in x", () => {
+        expect(expectRenameErrorKind("let x| = 1 in x", "")).to.equal(Refactor.RefactorError.RenameErrorKind.EmptyName);
+    });
+
+    it("FieldAccess: [a| = 1, b = a][a]", () => {
+        expect(expectRenameErrorKind("[a| = 1, b = a][a]", "c")).to.equal(
+            Refactor.RefactorError.RenameErrorKind.FieldAccess,
+        );
+    });
+
+    it("FieldAccess: let r = [a| = 1] in each [a]", () => {
+        expect(expectRenameErrorKind("let r = [a| = 1] in each [a]", "c")).to.equal(
+            Refactor.RefactorError.RenameErrorKind.FieldAccess,
+        );
+    });
+
+    it("NameConflict: duplicate sibling", () => {
+        expect(expectRenameErrorKind("let a| = 1, b = 2 in 3", "b")).to.equal(
+            Refactor.RefactorError.RenameErrorKind.NameConflict,
+        );
+    });
+
+    it("NameConflict: shadows an enclosing binding", () => {
+        expect(expectRenameErrorKind("let a = 1 in let b| = 2 in b", "a")).to.equal(
+            Refactor.RefactorError.RenameErrorKind.NameConflict,
+        );
+    });
+
+    it("NameConflict: captured by a nested binding", () => {
+        expect(expectRenameErrorKind("let a| = 1 in let b = 2 in a", "b")).to.equal(
+            Refactor.RefactorError.RenameErrorKind.NameConflict,
+        );
+    });
+
+    it("NameConflict: captures an external identifier", () => {
+        expect(expectRenameErrorKind("let a| = 1 in Text.Length(a)", "Text.Length")).to.equal(
+            Refactor.RefactorError.RenameErrorKind.NameConflict,
+        );
+    });
+});
@@ -0,0 +1,108 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { Refactor } from "../../..";
+import { ResultUtils } from "../../../common";
+import { Ast } from "../../../language";
+import { DefaultSettings } from "../../../settings";
+
+function expectSimplified(text: string): string {
+    const triedSimplify: Refactor.TriedSimplify = Refactor.trySimplify(DefaultSettings, text);
+    if (!ResultUtils.isOk(triedSimplify)) {
+        throw new Error(`AssertFailed: ResultUtils.isOk(triedSimplify): ${triedSimplify.error.message}`);
+    }
+
+    return Refactor.applyTextEdits(text, triedSimplify.value.textEdits);
+}
+
+describe("Refactor.Simplify", () => {
+    describe("constant folding", () => {
+        it("arithmetic", () => {
+            expect(expectSimplified("1 + 2 * 3")).to.equal("7");
+            expect(expectSimplified("x * (1 - 2)")).to.equal("x * -1");
+        });
+
+        it("text", () => {
+            expect(expectSimplified(`"a" & "b"`)).to.equal(`"ab"`);
+            expect(expectSimplified(`"a#(tab)" & """"`)).to.equal(`"a#(tab)"""`);
+        });
+
+        it("logical", () => {
+            const expected: string = "false";
+            expect(expectSimplified("not true")).to.equal(expected);
+            expect(expectSimplified("false and x")).to.equal(expected);
+            // Only the left operand is used to decide if a LogicalExpression can be folded.
+            const unfolded: string = "x and false";
+            expect(expectSimplified(unfolded)).to.equal(unfolded);
+        });
+
+        it("if", () => {
+            expect(expectSimplified("if true then a else b")).to.equal("a");
+            expect(expectSimplified("if 1 > 2 then a else (b + c)")).to.equal("b + c");
+        });
+
+        it("doesn't fold what can't be written as a literal", () => {
+            expect(expectSimplified("1 / 0")).to.equal("1 / 0");
+            expect(expectSimplified(`1 + "a"`)).to.equal(`1 + "a"`);
+        });
+    });
+
+    describe("let inlining", () => {
+        it("single use", () => {
+            expect(expectSimplified("let a = 1, b = a + 1 in b * x")).to.equal("2 * x");
+            expect(expectSimplified("let a = 1, b = 2 in a")).to.equal("let b = 2 in 1");
+        });
+
+        it("keeps the formatting of the variables which remain", () => {
+            expect(expectSimplified("let\n    a = x,\n    b = 2,\n    c = a + b\nin\n    c + c")).to.equal(
+                "let\n    c = x + 2\nin\n    c + c",
+            );
+        });
+
+        it("not into a function", () => {
+            expect(expectSimplified("let a = 1 in each _ + a")).to.equal("let a = 1 in each _ + a");
+        });
+
+        it("not where a name would be captured", () => {
+            expect(expectSimplified("let x = 1 + y in [y = 2, z = x]")).to.equal("let x = 1 + y in [y = 2, z = x]");
+            expect(expectSimplified("let a = b, b = a in a")).to.equal("let a = b, b = a in a");
+        });
+    });
+
+    describe("parentheses", () => {
+        it("removed when not needed", () => {
+            expect(expectSimplified("(x - y) - z")).to.equal("x - y - z");
+            expect(expectSimplified("(f)(1)")).to.equal("f(1)");
+            expect(expectSimplified("not(x)")).to.equal("not x");
+        });
+
+        it("kept for precedence", () => {
+            expect(expectSimplified("(1 + x) * 2")).to.equal("(1 + x) * 2");
+            expect(expectSimplified("x - (y - z)")).to.equal("x - (y - z)");
+            expect(expectSimplified("try (each 1) otherwise 2")).to.equal("try (each 1) otherwise 2");
+        });
+
+        it("added when an inlined value needs them", () => {
+            expect(expectSimplified("let a = x + 1 in a * 2")).to.equal("(x + 1) * 2");
+        });
+
+        it("kept or added for a literal which is the head of a recursive primary expression", () => {
+            expect(expectSimplified("(1 + 2){0}")).to.equal("(3){0}");
+            expect(expectSimplified("let a = 1 in a[x]")).to.equal("(1)[x]");
+            expect(expectSimplified(`let a = "x" in a{0}`)).to.equal(`("x"){0}`);
+            expect(expectSimplified("let a = 1 in a(2)")).to.equal("(1)(2)");
+        });
+    });
+
+    it("returns the simplified Ast", () => {
+        const triedSimplify: Refactor.TriedSimplify = Refactor.trySimplify(DefaultSettings, "let a = 1 + 2 in a");
+        if (!ResultUtils.isOk(triedSimplify)) {
+            throw new Error(`AssertFailed: ResultUtils.isOk(triedSimplify): ${triedSimplify.error.message}`);
+        }
+        const ast: Ast.TNode = triedSimplify.value.lexParseOk.ast;
+        expect(ast.kind).to.equal(Ast.NodeKind.LiteralExpression);
+        expect((ast as Ast.LiteralExpression).literal).to.equal("3");
+    });
+});
@@ -0,0 +1,312 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { expect } from "chai";
+import "mocha";
+import { PassThrough } from "stream";
+import { Server } from "../../..";
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Diagnostic,
+    DocumentSymbol,
+    ErrorCode,
+    Hover,
+    InitializeResult,
+    JsonNull,
+    Method,
+    NotificationMessage,
+    PublishDiagnosticsParams,
+    ResponseMessage,
+    SignatureHelp,
+    SymbolKind,
+    TextDocumentSyncKind,
+    TMessage,
+} from "../../../server/protocol";
+
+const Uri: string = "file:///test.pq";
+
+// A minimal client which talks to the server over in-memory streams.
+interface TestClient {
+    readonly serverInput: PassThrough;
+    readonly received: TMessage[];
+    maybeExitCode: number | undefined;
+    nextId: number;
+}
+
+function clientFactory(): TestClient {
+    const serverInput: PassThrough = new PassThrough();
+    const serverOutput: PassThrough = new PassThrough();
+    const client: TestClient = {
+        serverInput,
+        received: [],
+        maybeExitCode: undefined,
+        nextId: 0,
+    };
+
+    Server.listen(serverInput, serverOutput, (exitCode: number) => {
+        client.maybeExitCode = exitCode;
+    });
+    Server.JsonRpc.readMessages(
+        serverOutput,
+        (message: TMessage) => client.received.push(message),
+        (response: ResponseMessage) => client.received.push(response),
+    );
+
+    return client;
+}
+
+async function initializedClientFactory(): Promise<TestClient> {
+    const client: TestClient = clientFactory();
+    await sendRequest(client, Method.Initialize, { capabilities: {} });
+    notify(client, Method.Initialized, {});
+    return client;
+}
+
+function notify(client: TestClient, method: Method, params: unknown): void {
+    Server.JsonRpc.writeMessage(client.serverInput, {
+        jsonrpc: "2.0",
+        method,
+        params,
+    });
+}
+
+async function sendRequest(client: TestClient, method: string, params: unknown): Promise<ResponseMessage> {
+    const id: number = client.nextId;
+    client.nextId += 1;
+    Server.JsonRpc.writeMessage(client.serverInput, {
+        jsonrpc: "2.0",
+        id,
+        method,
+        params,
+    });
+
+    return (await expectReceived(
+        client,
+        (message: TMessage) => !("method" in message) && message.id === id,
+    )) as ResponseMessage;
+}
+
+async function expectResult<T>(client: TestClient, method: Method, params: unknown): Promise<T> {
+    const response: ResponseMessage = await sendRequest(client, method, params);
+    if (response.error !== undefined) {
+        throw new Error(`AssertFailed: response.error === undefined: ${response.error.message}`);
+    }
+    return response.result as T;
+}
+
+async function expectDiagnostics(client: TestClient): Promise<ReadonlyArray<Diagnostic>> {
+    const notification: TMessage = await expectReceived(
+        client,
+        (message: TMessage) => "method" in message && message.method === Method.TextDocumentPublishDiagnostics,
+    );
+    const params: PublishDiagnosticsParams = (notification as NotificationMessage).params as PublishDiagnosticsParams;
+    return params.diagnostics;
+}
+
+// Removes and returns the first received message matching the predicate, waiting on the server if needed.
+async function expectReceived(client: TestClient, predicate: (message: TMessage) => boolean): Promise<TMessage> {
+    for (let attempt: number = 0; attempt < 100; attempt += 1) {
+        const index: number = client.received.findIndex(predicate);
+        if (index !== -1) {
+            return client.received.splice(index, 1)[0];
+        }
+        await new Promise((resolve: () => void) => setImmediate(resolve));
+    }
+
+    throw new Error(`AssertFailed: a matching message was received`);
+}
+
+async function openDocument(client: TestClient, text: string): Promise<ReadonlyArray<Diagnostic>> {
+    notify(client, Method.TextDocumentDidOpen, {
+        textDocument: {
+            uri: Uri,
+            languageId: "powerquery",
+            version: 0,
+            text,
+        },
+    });
+    return expectDiagnostics(client);
+}
+
+function positionParams(line: number, character: number): {} {
+    return {
+        textDocument: { uri: Uri },
+        position: { line, character },
+    };
+}
+
+describe(`Server`, () => {
+    describe(`lifecycle`, () => {
+        it(`initialize`, async () => {
+            const client: TestClient = clientFactory();
+            const result: InitializeResult = await expectResult<InitializeResult>(client, Method.Initialize, {
+                capabilities: {},
+            });
+            expect(result.capabilities.textDocumentSync).to.equal(TextDocumentSyncKind.Incremental);
+            expect(result.serverInfo.name).to.equal(Server.ServerName);
+        });
+
+        it(`request before initialize`, async () => {
+            const client: TestClient = clientFactory();
+            const response: ResponseMessage = await sendRequest(client, Method.TextDocumentHover, positionParams(0, 0));
+            expect(response.error !== undefined && response.error.code).to.equal(ErrorCode.ServerNotInitialized);
+        });
+
+        it(`unknown method`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            const response: ResponseMessage = await sendRequest(client, "foo/bar", {});
+            expect(response.error !== undefined && response.error.code).to.equal(ErrorCode.MethodNotFound);
+        });
+
+        it(`message which isn't an object`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            for (const content of [`null`, `1`, `"foo"`]) {
+                client.serverInput.write(`Content-Length: ${content.length}\r\n\r\n${content}`);
+                const response: ResponseMessage = (await expectReceived(
+                    client,
+                    (message: TMessage) => !("method" in message) && message.id === JsonNull,
+                )) as ResponseMessage;
+                expect(response.error !== undefined && response.error.code).to.equal(ErrorCode.InvalidRequest);
+            }
+
+            // The server keeps serving requests.
+            const result: unknown = await expectResult<unknown>(client, Method.Shutdown, undefined);
+            expect(result).to.equal(JsonNull, "shutdown result");
+        });
+
+        it(`missing params`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            const response: ResponseMessage = await sendRequest(client, Method.TextDocumentHover, undefined);
+            expect(response.error !== undefined && response.error.code).to.equal(ErrorCode.InvalidParams);
+        });
+
+        it(`shutdown then exit`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            const result: unknown = await expectResult<unknown>(client, Method.Shutdown, undefined);
+            expect(result).to.equal(JsonNull, "shutdown result");
+            notify(client, Method.Exit, undefined);
+            await new Promise((resolve: () => void) => setImmediate(resolve));
+            expect(client.maybeExitCode).to.equal(0);
+        });
+    });
+
+    describe(`diagnostics`, () => {
+        it(`no errors`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            expect(await openDocument(client, `let x = 1 in x`)).to.deep.equal([]);
+        });
+
+        it(`lex error`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            const diagnostics: ReadonlyArray<Diagnostic> = await openDocument(client, `1 + 0x`);
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].range.start).to.deep.equal({ line: 0, character: 4 });
+        });
+
+        it(`parse errors`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            const diagnostics: ReadonlyArray<Diagnostic> = await openDocument(client, `let x = 1, in x`);
+            expect(diagnostics.length).to.equal(1);
+            expect(diagnostics[0].range).to.deep.equal({
+                start: { line: 0, character: 11 },
+                end: { line: 0, character: 13 },
+            });
+        });
+
+        it(`incremental change`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            expect((await openDocument(client, `let x = 1, in x`)).length).to.equal(1);
+
+            notify(client, Method.TextDocumentDidChange, {
+                textDocument: { uri: Uri, version: 1 },
+                contentChanges: [
+                    {
+                        range: {
+                            start: { line: 0, character: 9 },
+                            end: { line: 0, character: 10 },
+                        },
+                        text: "",
+                    },
+                ],
+            });
+            expect(await expectDiagnostics(client)).to.deep.equal([]);
+        });
+
+        it(`close`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            await openDocument(client, `let x = 1, in x`);
+            notify(client, Method.TextDocumentDidClose, { textDocument: { uri: Uri } });
+            expect(await expectDiagnostics(client)).to.deep.equal([]);
+        });
+    });
+
+    describe(`features`, () => {
+        it(`completion`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            await openDocument(client, `let foo = 1 in f`);
+            const items: ReadonlyArray<CompletionItem> = await expectResult<ReadonlyArray<CompletionItem>>(
+                client,
+                Method.TextDocumentCompletion,
+                positionParams(0, 16),
+            );
+            const maybeItem: CompletionItem | undefined = items.find((item: CompletionItem) => item.label === "foo");
+            expect(maybeItem !== undefined && maybeItem.kind).to.equal(CompletionItemKind.Variable);
+        });
+
+        it(`signature help`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            await openDocument(client, `let f = (a as number, optional b as text) => a in f(1, `);
+            const signatureHelp: SignatureHelp = await expectResult<SignatureHelp>(
+                client,
+                Method.TextDocumentSignatureHelp,
+                positionParams(0, 54),
+            );
+            expect(signatureHelp.signatures[0].label).to.equal(`f(a as number, optional b as text) as number`);
+            expect(signatureHelp.activeParameter).to.equal(1);
+        });
+
+        it(`hover`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            await openDocument(client, `let x = "foo" in x`);
+            const hover: Hover = await expectResult<Hover>(client, Method.TextDocumentHover, positionParams(0, 18));
+            const expected: string = "```powerquery\n(key) x: text\n```\n\nLn 1, Col 5";
+            expect(hover.contents.value).to.equal(expected);
+            expect(hover.range.start).to.deep.equal({ line: 0, character: 17 });
+        });
+
+        it(`hover without an identifier`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            await openDocument(client, `1 + 2`);
+            const maybeHover: Hover | null = await expectResult<Hover | null>(
+                client,
+                Method.TextDocumentHover,
+                positionParams(0, 1),
+            );
+            expect(maybeHover).to.equal(JsonNull, "hover result");
+        });
+
+        it(`document symbols`, async () => {
+            const client: TestClient = await initializedClientFactory();
+            await openDocument(client, `let f = (a) => let b = a in b, g = 1 in f`);
+            const symbols: ReadonlyArray<DocumentSymbol> = await expectResult<ReadonlyArray<DocumentSymbol>>(
+                client,
+                Method.TextDocumentDocumentSymbol,
+                { textDocument: { uri: Uri } },
+            );
+            const abridged: ReadonlyArray<[
+                string,
+                SymbolKind,
+                ReadonlyArray<string>,
+            ]> = symbols.map((symbol: DocumentSymbol) => [
+                symbol.name,
+                symbol.kind,
+                symbol.children.map((child: DocumentSymbol) => child.name),
+            ]);
+            expect(abridged).to.deep.equal([
+                ["f", SymbolKind.Function, ["b"]],
+                ["g", SymbolKind.Variable, []],
+            ]);
+        });
+    });
+});
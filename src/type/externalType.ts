@@ -0,0 +1,78 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Type } from ".";
+
+// Identifiers which aren't defined in the document (eg. `Table.SelectRows`) can't be typed by the inspector,
+// so it asks the library definitions in the settings using one of these requests.
+// See LibraryUtils.maybeExternalType.
+
+export type TExternalTypeRequest =
+    | ExternalValueTypeRequest
+    | ExternalInvocationTypeRequest
+    | ExternalParameterTypeRequest;
+
+export const enum ExternalTypeRequestKind {
+    Invocation = "Invocation",
+    Parameter = "Parameter",
+    Value = "Value",
+}
+
+export interface IExternalTypeRequest {
+    readonly kind: ExternalTypeRequestKind;
+    readonly identifierLiteral: string;
+}
+
+// Asks for the type of the identifier, eg. `Text.Length`.
+export interface ExternalValueTypeRequest extends IExternalTypeRequest {
+    readonly kind: ExternalTypeRequestKind.Value;
+}
+
+// Asks for the type of invoking the identifier with the given argument types, eg. `Text.Length("a")`.
+export interface ExternalInvocationTypeRequest extends IExternalTypeRequest {
+    readonly kind: ExternalTypeRequestKind.Invocation;
+    readonly args: ReadonlyArray<Type.TType>;
+}
+
+// Asks for the type of a parameter belonging to a function which is passed as an argument to the identifier.
+// Eg. the `_` in `Table.SelectRows(table, each [a] > 1)` is a row of the table.
+// Only the types of the arguments preceding the function are given, as later arguments might depend on it.
+export interface ExternalParameterTypeRequest extends IExternalTypeRequest {
+    readonly kind: ExternalTypeRequestKind.Parameter;
+    readonly args: ReadonlyArray<Type.TType>;
+    readonly argumentIndex: number;
+    readonly parameterIndex: number;
+}
+
+export function valueTypeRequestFactory(identifierLiteral: string): ExternalValueTypeRequest {
+    return {
+        kind: ExternalTypeRequestKind.Value,
+        identifierLiteral,
+    };
+}
+
+export function invocationTypeRequestFactory(
+    identifierLiteral: string,
+    args: ReadonlyArray<Type.TType>,
+): ExternalInvocationTypeRequest {
+    return {
+        kind: ExternalTypeRequestKind.Invocation,
+        identifierLiteral,
+        args,
+    };
+}
+
+export function parameterTypeRequestFactory(
+    identifierLiteral: string,
+    args: ReadonlyArray<Type.TType>,
+    argumentIndex: number,
+    parameterIndex: number,
+): ExternalParameterTypeRequest {
+    return {
+        kind: ExternalTypeRequestKind.Parameter,
+        identifierLiteral,
+        args,
+        argumentIndex,
+        parameterIndex,
+    };
+}
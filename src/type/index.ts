@@ -1,8 +1,9 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
+import * as ExternalType from "./externalType";
 import * as TypeInspector from "./inspector";
 import * as Type from "./type";
 import * as TypeUtils from "./typeUtils";
 
-export { Type, TypeInspector, TypeUtils };
+export { ExternalType, Type, TypeInspector, TypeUtils };
@@ -156,6 +156,7 @@ export interface SimplifiedNullablePrimitiveType {
 }
 
 export interface FunctionParameter {
+    readonly nameLiteral: string;
     readonly isOptional: boolean;
     readonly isNullable: boolean;
     readonly maybeType: TypeKind | undefined;
@@ -2,7 +2,7 @@
 // Licensed under the MIT license.
 
 import { Type } from ".";
-import { ArrayUtils, MapUtils, Assert } from "../common";
+import { ArrayUtils, Assert, Doc, MapUtils, StringUtils } from "../common";
 import { ParameterScopeItem } from "../inspection";
 import { Ast, AstUtils } from "../language";
 import { NodeIdMap, NodeIdMapUtils, ParseContext, TXorNode, XorNodeKind } from "../parser";
@@ -89,6 +89,14 @@ export function parameterFactory(parameter: ParameterScopeItem): Type.TType {
     };
 }
 
+// The type of the values a parameter accepts, where an optional parameter also accepts null.
+// A parameter without a type accepts anything.
+export function functionParameterType(parameter: Type.FunctionParameter): Type.TType {
+    return parameter.maybeType !== undefined
+        ? genericFactory(parameter.maybeType, parameter.isNullable || parameter.isOptional)
+        : genericFactory(Type.TypeKind.Any, true);
+}
+
 export function dedupe(types: ReadonlyArray<Type.TType>, combineAnys: boolean = true): ReadonlyArray<Type.TType> {
     const buckets: Map<string, Type.TType[]> = new Map();
 
@@ -450,6 +458,94 @@ export function equalPrimaryExpressionTable(
     return equalType(left.type, right.type);
 }
 
+// Returns true if a value of type left can be used where a value of type right is expected.
+// Eg. `number` is compatible with both `nullable number` and `anynonnull`, but `nullable number` isn't
+// compatible with `number`.
+//
+// There are a few cases where left is treated as compatible as there's no point in reporting a mismatch:
+//  * If either is Unknown, as there isn't enough information.
+//  * If left is None, as whatever caused it is already an error.
+//  * If left is the primitive form of an extended type, eg. `record` for `[a = number]`.
+export function isCompatible(left: Type.TType, right: Type.TType): boolean {
+    if (right.kind === Type.TypeKind.Any && right.maybeExtendedKind === undefined) {
+        return true;
+    } else if (
+        left.kind === Type.TypeKind.Unknown ||
+        left.kind === Type.TypeKind.None ||
+        right.kind === Type.TypeKind.Unknown
+    ) {
+        return true;
+    } else if (left.maybeExtendedKind === Type.ExtendedTypeKind.AnyUnion) {
+        return left.unionedTypePairs.every((unionedType: Type.TType) => isCompatible(unionedType, right));
+    } else if (right.maybeExtendedKind === Type.ExtendedTypeKind.AnyUnion) {
+        return right.unionedTypePairs.some((unionedType: Type.TType) => isCompatible(left, unionedType));
+    } else if (left.kind === Type.TypeKind.Null) {
+        return right.isNullable || right.kind === Type.TypeKind.Null;
+    } else if (right.kind === Type.TypeKind.AnyNonNull) {
+        return !left.isNullable && left.kind !== Type.TypeKind.Any;
+    } else if ((left.isNullable && !right.isNullable) || left.kind !== right.kind) {
+        return false;
+    } else if (left.maybeExtendedKind === undefined || right.maybeExtendedKind === undefined) {
+        return true;
+    }
+
+    switch (right.maybeExtendedKind) {
+        case Type.ExtendedTypeKind.DefinedFunction:
+            return left.maybeExtendedKind === right.maybeExtendedKind && isCompatibleDefinedFunction(left, right);
+
+        case Type.ExtendedTypeKind.DefinedList:
+            return left.maybeExtendedKind === right.maybeExtendedKind && isCompatibleDefinedList(left, right);
+
+        case Type.ExtendedTypeKind.DefinedRecord:
+        case Type.ExtendedTypeKind.DefinedTable:
+            return left.maybeExtendedKind === right.maybeExtendedKind && isCompatibleFields(left, right);
+
+        case Type.ExtendedTypeKind.DefinedType:
+            return (
+                left.maybeExtendedKind === right.maybeExtendedKind && isCompatible(left.primaryType, right.primaryType)
+            );
+
+        case Type.ExtendedTypeKind.ListType:
+            return left.maybeExtendedKind === right.maybeExtendedKind && isCompatible(left.itemType, right.itemType);
+
+        // The type of the primary expression doesn't say anything about the columns of the table.
+        case Type.ExtendedTypeKind.PrimaryExpressionTable:
+            return true;
+
+        default:
+            throw Assert.isNever(right);
+    }
+}
+
+// Renders the type using M type syntax, eg. `[a = number, b = nullable text, ...]` or `function (x as number) as text`.
+// M doesn't have a syntax for unions, so an AnyUnion is rendered as its members separated by a `|`.
+//
+// If a maxWidth is given, then records, tables, lists, and function parameters which don't fit on the current line
+// are broken over multiple lines.
+export function nameOf(type: Type.TType, maybeMaxWidth: number | undefined = undefined): string {
+    return Doc.render(
+        {
+            indentationLiteral: "    ",
+            newlineLiteral: "\n",
+            maxWidth: maybeMaxWidth !== undefined ? maybeMaxWidth : Number.POSITIVE_INFINITY,
+        },
+        typeDoc(type),
+    );
+}
+
+// Eg. `optional y as nullable text`.
+export function nameOfParameter(parameter: Type.FunctionParameter): string {
+    const optionalPrefix: string = parameter.isOptional ? "optional " : "";
+    if (parameter.maybeType === undefined) {
+        return `${optionalPrefix}${parameter.nameLiteral}`;
+    }
+
+    return `${optionalPrefix}${parameter.nameLiteral} as ${primitiveTypeName(
+        parameter.maybeType,
+        parameter.isNullable,
+    )}`;
+}
+
 export function inspectParameter(
     nodeIdMapCollection: NodeIdMap.Collection,
     parameter: TXorNode,
@@ -498,6 +594,7 @@ function inspectAstParameter(node: Ast.TParameter): Type.FunctionParameter {
     }
 
     return {
+        nameLiteral: node.name.literal,
         isNullable,
         isOptional: node.maybeOptionalConstant !== undefined,
         maybeType,
@@ -547,12 +644,160 @@ function inspectContextParameter(
     }
 
     return {
+        nameLiteral: (maybeName as Ast.Identifier).literal,
         isOptional,
         isNullable,
         maybeType,
     };
 }
 
+// Every call that's valid for right must also be valid for left.
+// Left needs to accept at least as many arguments while requiring no more,
+// its parameters need to accept what right's parameters accept, and it needs to return something right could return.
+function isCompatibleDefinedFunction(left: Type.DefinedFunction, right: Type.DefinedFunction): boolean {
+    if (
+        requiredParameterCount(left) > requiredParameterCount(right) ||
+        left.parameters.length < right.parameters.length
+    ) {
+        return false;
+    }
+
+    for (let index: number = 0; index < right.parameters.length; index += 1) {
+        if (
+            !isCompatible(functionParameterType(right.parameters[index]), functionParameterType(left.parameters[index]))
+        ) {
+            return false;
+        }
+    }
+
+    return isCompatible(left.returnType, right.returnType);
+}
+
+function isCompatibleDefinedList(left: Type.DefinedList, right: Type.DefinedList): boolean {
+    return (
+        left.elements.length === right.elements.length &&
+        left.elements.every((element: Type.TType, index: number) => isCompatible(element, right.elements[index]))
+    );
+}
+
+// A closed right only allows the fields it lists, and an open left could have any other field.
+function isCompatibleFields(
+    left: Type.DefinedRecord | Type.DefinedTable,
+    right: Type.DefinedRecord | Type.DefinedTable,
+): boolean {
+    if (!right.isOpen && (left.isOpen || [...left.fields.keys()].some((key: string) => !right.fields.has(key)))) {
+        return false;
+    }
+
+    for (const [key, rightType] of right.fields.entries()) {
+        const maybeLeftType: Type.TType | undefined = left.fields.get(key);
+        if (maybeLeftType === undefined || !isCompatible(maybeLeftType, rightType)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function requiredParameterCount(definedFunction: Type.DefinedFunction): number {
+    return definedFunction.parameters.filter((parameter: Type.FunctionParameter) => !parameter.isOptional).length;
+}
+
+function typeDoc(type: Type.TType): Doc.TDoc {
+    switch (type.maybeExtendedKind) {
+        case undefined:
+            return primitiveTypeName(type.kind, type.isNullable);
+
+        case Type.ExtendedTypeKind.AnyUnion:
+            return Doc.group(
+                Doc.join(Doc.concat([Doc.NormalLine, "| "]), type.unionedTypePairs.map(typeDoc)),
+                Doc.BreakKind.WhenExceedsMaxWidth,
+            );
+
+        case Type.ExtendedTypeKind.DefinedFunction:
+            return Doc.concat([
+                nullablePrefix(type),
+                "function ",
+                wrappedDoc("(", type.parameters.map(nameOfParameter), ")"),
+                " as ",
+                typeDoc(type.returnType),
+            ]);
+
+        // M list types have a single item type, so the elements are unioned together.
+        case Type.ExtendedTypeKind.DefinedList:
+            return Doc.concat([
+                nullablePrefix(type),
+                wrappedDoc("{", [type.elements.length ? typeDoc(anyUnionFactory(type.elements)) : "any"], "}"),
+            ]);
+
+        case Type.ExtendedTypeKind.DefinedRecord:
+            return Doc.concat([nullablePrefix(type), fieldsDoc(type.fields, type.isOpen)]);
+
+        case Type.ExtendedTypeKind.DefinedTable:
+            return Doc.concat([nullablePrefix(type), "table ", fieldsDoc(type.fields, type.isOpen)]);
+
+        case Type.ExtendedTypeKind.DefinedType:
+            return Doc.concat([nullablePrefix(type), "type ", typeDoc(type.primaryType)]);
+
+        case Type.ExtendedTypeKind.ListType:
+            return Doc.concat([nullablePrefix(type), "type ", wrappedDoc("{", [typeDoc(type.itemType)], "}")]);
+
+        case Type.ExtendedTypeKind.PrimaryExpressionTable:
+            return Doc.concat([nullablePrefix(type), "table ", typeDoc(type.type)]);
+
+        default:
+            throw Assert.isNever(type);
+    }
+}
+
+function fieldsDoc(fields: ReadonlyMap<string, Type.TType>, isOpen: boolean): Doc.TDoc {
+    const fieldDocs: Doc.TDoc[] = [...fields.entries()].map(([key, value]: [string, Type.TType]) =>
+        Doc.concat([fieldNameText(key), " = ", typeDoc(value)]),
+    );
+    if (isOpen) {
+        fieldDocs.push("...");
+    }
+
+    return wrappedDoc("[", fieldDocs, "]");
+}
+
+// Either `[a, b]` or the contents indented on their own lines.
+function wrappedDoc(open: string, docs: ReadonlyArray<Doc.TDoc>, close: string): Doc.TDoc {
+    if (!docs.length) {
+        return `${open}${close}`;
+    }
+
+    return Doc.group(
+        Doc.concat([
+            open,
+            Doc.indent(Doc.concat([Doc.SoftLine, Doc.join(Doc.concat([",", Doc.NormalLine]), docs)])),
+            Doc.SoftLine,
+            close,
+        ]),
+        Doc.BreakKind.WhenExceedsMaxWidth,
+    );
+}
+
+function fieldNameText(key: string): string {
+    return StringUtils.isGeneralizedIdentifier(key) || StringUtils.isQuotedIdentifier(key)
+        ? key
+        : `#"${key.replace(/"/g, `""`)}"`;
+}
+
+function nullablePrefix(type: Type.TType): string {
+    return type.isNullable ? "nullable " : "";
+}
+
+// Any and null are already nullable, so they never get the prefix.
+function primitiveTypeName(typeKind: Type.TypeKind, isNullable: boolean): string {
+    const maybeConstantKind: Ast.PrimitiveTypeConstantKind | undefined = maybePrimitiveTypeConstantKindFromTypeKind(
+        typeKind,
+    );
+    const name: string = maybeConstantKind !== undefined ? maybeConstantKind : typeKind.toLowerCase();
+
+    return isNullable && typeKind !== Type.TypeKind.Any && typeKind !== Type.TypeKind.Null ? `nullable ${name}` : name;
+}
+
 const AnyConstant: Type.Any = {
     kind: Type.TypeKind.Any,
     maybeExtendedKind: undefined,